@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', target: 'ES2021', esModuleInterop: true, strict: true, skipLibCheck: true } }]
+  },
+  moduleNameMapper: {
+    '^obsidian$': '<rootDir>/tests/mocks/obsidian.ts'
+  }
+};
@@ -167,7 +167,7 @@ export abstract class BaseAgent implements IAgent {
     if (!this.agentManager) return null;
 
     // Search known agent names for exact tool match
-    const agentNames = ['storageManager', 'contentManager', 'searchManager', 'memoryManager', 'commandManager', 'promptManager'];
+    const agentNames = ['storageManager', 'contentManager', 'periodicNotesManager', 'taskManager', 'searchManager', 'memoryManager', 'commandManager', 'promptManager'];
 
     for (const agentName of agentNames) {
       if (agentName === this.name) continue;
@@ -3,7 +3,14 @@ import { BaseAgent } from '../baseAgent';
 import {
   ReadTool,
   WriteTool,
-  UpdateTool
+  UpdateTool,
+  PatchTool,
+  RevertTool,
+  PropertiesTool,
+  FindReplaceTool,
+  FromTemplateTool,
+  ListTemplatesTool,
+  TagsTool
 } from './tools';
 import NexusPlugin from '../../main';
 import { WorkspaceService } from '../../services/WorkspaceService';
@@ -17,6 +24,12 @@ import { MemoryService } from '../memoryManager/services/MemoryService';
  * - read: Read content from files with explicit line ranges
  * - write: Create new files or overwrite existing files
  * - update: Insert, replace, delete, append, or prepend content
+ * - patch: Apply unified diffs or search/replace hunks across files
+ * - revert: Undo agent changes recorded in the edit journal
+ * - properties: Get/set/delete/append frontmatter properties across notes
+ * - findReplace: Preview and apply find and replace across notes
+ * - fromTemplate / listTemplates: Create notes from templates with {{variables}}
+ * - tags: List, find, rename and merge tags across notes
  */
 export class ContentManagerAgent extends BaseAgent {
   protected app: App;
@@ -60,10 +73,17 @@ export class ContentManagerAgent extends BaseAgent {
       this.workspaceService = plugin.services.workspaceService;
     }
 
-    // Register simplified tools (3 tools replacing 8)
+    // Register simplified tools (read/write/update replace the legacy 8, plus patch, revert, properties, findReplace and templates)
     this.registerTool(new ReadTool(app));
     this.registerTool(new WriteTool(app));
     this.registerTool(new UpdateTool(app));
+    this.registerTool(new PatchTool(app));
+    this.registerTool(new RevertTool(app));
+    this.registerTool(new PropertiesTool(app));
+    this.registerTool(new FindReplaceTool(app));
+    this.registerTool(new FromTemplateTool(app));
+    this.registerTool(new ListTemplatesTool(app));
+    this.registerTool(new TagsTool(app));
   }
   
   
@@ -0,0 +1,350 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { FindReplaceParams, FindReplaceResult, FindReplaceMatch, FindReplaceFileResult } from '../types';
+import { FindReplaceEngine, FindReplaceOptions, PreviewFile } from '../utils/FindReplaceEngine';
+import { ContentVersioning } from '../utils/ContentVersioning';
+import { NoteSelector } from '../utils/NoteSelector';
+import { createErrorMessage, getErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit, EditChange } from '../../../services/journal/EditJournalService';
+
+/** Matches counted before a preview gives up (keeps huge searches from filling memory) */
+const MAX_MATCHES = 5000;
+
+/** Maximum number of matches listed in a preview; larger previews get no token */
+const MAX_LISTED_MATCHES = 200;
+
+/**
+ * Location: src/agents/contentManager/tools/findReplace.ts
+ *
+ * Find and replace tool for ContentManager.
+ * Replaces text across the vault, or across notes selected by paths, folders, or globs.
+ *
+ * Key Design:
+ * - Two calls: a dry run returns every match with line previews and a token; passing the token applies it
+ * - Applying replaces exactly the previewed matches (optionally minus excluded ones)
+ * - Notes edited since the preview are skipped and reported, never partially replaced
+ *
+ * Relationships:
+ * - Uses FindReplaceEngine for matching and preview tokens
+ * - Uses NoteSelector to resolve paths, folders and globs
+ * - Records all changed notes as one edit journal entry
+ */
+export class FindReplaceTool extends BaseTool<FindReplaceParams, FindReplaceResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new FindReplaceTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'findReplace',
+      'Find and Replace',
+      'Find and replace text across notes: preview matches first, then apply the preview by token',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the preview or the applied changes
+   */
+  async execute(params: FindReplaceParams): Promise<FindReplaceResult> {
+    try {
+      return params.token ? await this.apply(params) : await this.preview(params);
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error in find and replace: ', error));
+    }
+  }
+
+  /**
+   * Find matches and store them as a preview
+   */
+  private async preview(params: FindReplaceParams): Promise<FindReplaceResult> {
+    if (!params.find) {
+      return this.prepareResult(false, undefined, 'find is required for a preview (or pass token to apply one).');
+    }
+    if (typeof params.replace !== 'string') {
+      return this.prepareResult(false, undefined, 'replace is required for a preview. Use "" to delete matches.');
+    }
+
+    const options: FindReplaceOptions = {
+      find: params.find,
+      replace: params.replace,
+      regex: params.regex ?? false,
+      caseSensitive: params.caseSensitive ?? true,
+      wholeWord: params.wholeWord ?? false
+    };
+
+    let pattern: RegExp;
+    try {
+      pattern = FindReplaceEngine.buildPattern(options);
+    } catch (error) {
+      return this.prepareResult(false, undefined,
+        `${getErrorMessage(error)}. Fix the pattern, or set regex=false to match the text literally.`
+      );
+    }
+
+    let files: TFile[];
+    let unmatched: string[] = [];
+    if (params.paths && params.paths.length > 0) {
+      ({ files, unmatched } = NoteSelector.select(this.app, params.paths));
+    } else {
+      files = this.app.vault.getMarkdownFiles();
+    }
+
+    if (files.length === 0) {
+      return this.prepareResult(false, undefined,
+        `No markdown notes match ${unmatched.map(p => `"${p}"`).join(', ')}. Check the paths, folders, or glob patterns.`
+      );
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+
+    const previewFiles: PreviewFile[] = [];
+    const listed: FindReplaceMatch[] = [];
+    let totalMatches = 0;
+
+    for (const file of files) {
+      const content = await this.app.vault.read(file);
+      const matches = FindReplaceEngine.findMatches(content, pattern, options);
+      if (matches.length === 0) continue;
+
+      totalMatches += matches.length;
+      if (totalMatches > MAX_MATCHES) {
+        return this.prepareResult(false, undefined,
+          `More than ${MAX_MATCHES} matches. Narrow the search with paths, wholeWord, or a more specific pattern.`
+        );
+      }
+
+      const fileNumber = previewFiles.length + 1;
+      previewFiles.push({ path: file.path, hash: ContentVersioning.hash(content), matches });
+
+      matches.forEach((match, i) => {
+        if (listed.length >= MAX_LISTED_MATCHES) return;
+        listed.push({
+          id: `${fileNumber}:${i + 1}`,
+          path: file.path,
+          line: match.line,
+          column: match.column,
+          match: match.match,
+          replacement: match.replacement,
+          ...FindReplaceEngine.previewLine(content, match)
+        });
+      });
+    }
+
+    const summary = {
+      filesSearched: files.length,
+      filesMatched: previewFiles.length,
+      totalMatches,
+      matches: listed,
+      truncated: listed.length < totalMatches
+    };
+
+    if (unmatched.length > 0) {
+      return this.prepareResult(false, summary,
+        `No markdown notes match ${unmatched.map(p => `"${p}"`).join(', ')}. Fix or drop those paths and preview again.`
+      );
+    }
+
+    if (totalMatches === 0) {
+      return this.prepareResult(true, summary);
+    }
+
+    // Only previews that list every match can be applied
+    if (summary.truncated) {
+      return this.prepareResult(false, summary,
+        `${totalMatches} matches, but a preview lists at most ${MAX_LISTED_MATCHES}. ` +
+        'Narrow the search with paths, wholeWord, or a more specific pattern, then preview again.'
+      );
+    }
+
+    const stored = FindReplaceEngine.storePreview(options, previewFiles);
+    return this.prepareResult(true, { token: stored.token, expiresAt: stored.expiresAt, ...summary });
+  }
+
+  /**
+   * Apply a stored preview
+   */
+  private async apply(params: FindReplaceParams): Promise<FindReplaceResult> {
+    const preview = FindReplaceEngine.takePreview(params.token as string);
+    if (!preview) {
+      return this.prepareResult(false, undefined,
+        'Unknown or expired token. Tokens last 10 minutes and can be used once; run the preview again (without token).'
+      );
+    }
+
+    const excluded = new Set(params.exclude || []);
+    const results: FindReplaceFileResult[] = [];
+    const changes: EditChange[] = [];
+
+    for (const [fileIndex, previewFile] of preview.files.entries()) {
+      const matches = previewFile.matches.filter((_, i) => !excluded.has(`${fileIndex + 1}:${i + 1}`));
+      if (matches.length === 0) {
+        results.push({ path: previewFile.path, replacements: 0 });
+        continue;
+      }
+
+      try {
+        const file = this.app.vault.getAbstractFileByPath(previewFile.path);
+        if (!(file instanceof TFile)) {
+          results.push({ path: previewFile.path, replacements: 0, error: 'Note no longer exists' });
+          continue;
+        }
+
+        const before = await this.app.vault.read(file);
+        if (ContentVersioning.hash(before) !== previewFile.hash) {
+          results.push({
+            path: previewFile.path,
+            replacements: 0,
+            error: 'Note changed since the preview. Run the preview again to include it.'
+          });
+          continue;
+        }
+
+        const after = FindReplaceEngine.applyMatches(before, matches);
+        await this.app.vault.modify(file, after);
+        changes.push({ kind: 'modify', path: file.path, before, afterHash: ContentVersioning.hash(after) });
+        results.push({ path: previewFile.path, replacements: matches.length });
+      } catch (error) {
+        results.push({ path: previewFile.path, replacements: 0, error: getErrorMessage(error) });
+      }
+    }
+
+    if (changes.length > 0) {
+      await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context: params.context }, changes);
+    }
+
+    const data = {
+      filesMatched: preview.files.length,
+      totalMatches: results.reduce((sum, result) => sum + result.replacements, 0),
+      files: results
+    };
+
+    const failed = results.filter(result => result.error);
+    if (failed.length > 0) {
+      const details = failed.slice(0, 10).map(result => `${result.path}: ${result.error}`);
+      if (failed.length > 10) {
+        details.push(`... ${failed.length - 10} more`);
+      }
+      return this.prepareResult(false, data,
+        `${failed.length} of ${results.length} note(s) not changed. ${details.join(' | ')}`
+      );
+    }
+
+    return this.prepareResult(true, data);
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        find: {
+          type: 'string',
+          description: 'Text (or regex when regex=true) to find. Required for a preview'
+        },
+        replace: {
+          type: 'string',
+          description: 'Replacement text ("" deletes matches). In regex mode $1, $<name> and $& insert captured text'
+        },
+        regex: {
+          type: 'boolean',
+          description: 'Treat find as a regular expression; ^ and $ match line boundaries (default: false)'
+        },
+        caseSensitive: {
+          type: 'boolean',
+          description: 'Case-sensitive matching (default: true)'
+        },
+        wholeWord: {
+          type: 'boolean',
+          description: 'Only match whole words (default: false)'
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Notes, folders, or glob patterns to search (default: every markdown note in the vault)'
+        },
+        token: {
+          type: 'string',
+          description: 'Token from a preview. Applies exactly the previewed replacements; other parameters are ignored'
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Match ids from the preview (e.g. "2:3") to leave unchanged when applying'
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the preview or apply succeeded for every note'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message, or notes skipped when applying (e.g. changed since the preview)'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'Pass back as token to apply this preview (valid 10 minutes, once)' },
+            expiresAt: { type: 'number', description: 'Token expiry (ms since epoch)' },
+            filesSearched: { type: 'number' },
+            filesMatched: { type: 'number' },
+            totalMatches: { type: 'number', description: 'Matches found (preview) or replacements made (apply)' },
+            matches: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Match id for exclude' },
+                  path: { type: 'string' },
+                  line: { type: 'number' },
+                  column: { type: 'number' },
+                  match: { type: 'string' },
+                  replacement: { type: 'string' },
+                  before: { type: 'string', description: 'Line as it is now' },
+                  after: { type: 'string', description: 'Line after the replacement' }
+                }
+              }
+            },
+            truncated: { type: 'boolean', description: `True if more than ${MAX_LISTED_MATCHES} matches were found; no token is issued, narrow the search` },
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  replacements: { type: 'number' },
+                  error: { type: 'string' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
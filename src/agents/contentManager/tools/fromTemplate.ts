@@ -0,0 +1,223 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { FromTemplateParams, FromTemplateResult } from '../types';
+import { ContentOperations } from '../utils/ContentOperations';
+import { ContentVersioning } from '../utils/ContentVersioning';
+import { TemplateEngine } from '../utils/TemplateEngine';
+import { createErrorMessage, getErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/contentManager/tools/fromTemplate.ts
+ *
+ * Template tool for ContentManager.
+ * Creates a note from a template note, filling {{variables}} and merging frontmatter.
+ *
+ * Key Design:
+ * - Templates are found by path, or by name in the templates folder (Templates core plugin or Templater setting)
+ * - Built-in {{title}}, {{date}}, {{time}} (with optional Moment.js formats); other variables come from the agent
+ * - Fails before writing if a template variable has no value (listTemplates shows what is needed)
+ * - Never overwrites; the created note is recorded in the edit journal
+ *
+ * Relationships:
+ * - Uses TemplateEngine for discovery and filling
+ * - Uses ContentOperations to create the note (creates parent folders)
+ */
+export class FromTemplateTool extends BaseTool<FromTemplateParams, FromTemplateResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new FromTemplateTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'fromTemplate',
+      'From Template',
+      'Create a note from a template, filling {{variables}} and merging frontmatter',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the created note
+   */
+  async execute(params: FromTemplateParams): Promise<FromTemplateResult> {
+    try {
+      const templateFile = this.resolveTemplate(params.template);
+      if (!templateFile) {
+        const folder = TemplateEngine.getTemplatesFolder(this.app);
+        return this.prepareResult(false, undefined,
+          `Template not found: "${params.template}"${folder ? ` (looked in "${folder}")` : ''}. Use listTemplates to see available templates.`
+        );
+      }
+
+      if (!params.path) {
+        return this.prepareResult(false, undefined, 'path is required: the note to create, or a folder ending in "/".');
+      }
+
+      const path = this.resolveTargetPath(params.path, params.title);
+      if (!path) {
+        return this.prepareResult(false, undefined,
+          `"${params.path}" is a folder. Pass title to name the note, or a full note path.`
+        );
+      }
+
+      if (this.app.vault.getAbstractFileByPath(path)) {
+        return this.prepareResult(false, undefined,
+          `File already exists: "${path}". Choose another path, or use update to change the existing note.`
+        );
+      }
+
+      const template = await this.app.vault.read(templateFile);
+      const title = params.title ?? path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+      const rendered = TemplateEngine.render(this.app, template, { title, variables: params.variables ?? {} });
+
+      if (rendered.missing.length > 0) {
+        return this.prepareResult(false, undefined,
+          `Missing template variables: ${rendered.missing.join(', ')}. Pass them in variables, e.g. { "${rendered.missing[0]}": "..." }.`
+        );
+      }
+
+      let content: string;
+      try {
+        content = TemplateEngine.mergeProperties(rendered.content, params.properties ?? {});
+      } catch (error) {
+        return this.prepareResult(false, undefined,
+          `Template frontmatter is not valid YAML after filling variables: ${getErrorMessage(error)}. Quote values that contain ":" or "#".`
+        );
+      }
+
+      await ContentOperations.createContent(this.app, path, content);
+      await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context: params.context }, [
+        { kind: 'create', path, afterHash: ContentVersioning.hash(content) }
+      ]);
+
+      return this.prepareResult(true, {
+        path,
+        template: templateFile.path,
+        ...(rendered.unused.length > 0 ? { unusedVariables: rendered.unused } : {})
+      });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error creating note from template: ', error));
+    }
+  }
+
+  /**
+   * Find a template by path, or by name in the templates folder
+   */
+  private resolveTemplate(template: string): TFile | null {
+    if (!template) {
+      return null;
+    }
+
+    const normalized = normalizePath(template);
+    const candidates = [normalized, `${normalized}.md`];
+    const folder = TemplateEngine.getTemplatesFolder(this.app);
+    if (folder) {
+      candidates.push(`${folder}/${normalized}`, `${folder}/${normalized}.md`);
+    }
+
+    for (const candidate of candidates) {
+      const file = this.app.vault.getAbstractFileByPath(candidate);
+      if (file instanceof TFile && file.extension === 'md') {
+        return file;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the note path (folder paths get the title as file name)
+   * @returns Note path, or null for a folder without a title
+   */
+  private resolveTargetPath(path: string, title?: string): string | null {
+    const normalized = normalizePath(path);
+    const isFolder = path.endsWith('/') || normalized === '' ||
+      this.app.vault.getAbstractFileByPath(normalized) instanceof TFolder;
+
+    if (isFolder) {
+      if (!title) {
+        return null;
+      }
+      const folder = normalized.replace(/\/+$/, '');
+      return `${folder ? `${folder}/` : ''}${title.replace(/[\\/:*?"<>|]/g, '-')}.md`;
+    }
+    return normalized.endsWith('.md') ? normalized : `${normalized}.md`;
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        template: {
+          type: 'string',
+          description: 'Template note path, or its name in the templates folder (see listTemplates)'
+        },
+        path: {
+          type: 'string',
+          description: 'Path of the note to create. A folder path ending in "/" uses title as the file name'
+        },
+        title: {
+          type: 'string',
+          description: 'Value for {{title}} (default: the new note\'s file name)'
+        },
+        variables: {
+          type: 'object',
+          description: 'Values for custom {{variables}}, e.g. { "project": "Apollo" }. {{title}}, {{date}}, {{time}} and {{date:FORMAT}} are filled automatically',
+          additionalProperties: { type: ['string', 'number', 'boolean'] }
+        },
+        properties: {
+          type: 'object',
+          description: 'Frontmatter properties merged over the template\'s frontmatter (these win)'
+        }
+      },
+      required: ['template', 'path']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the note was created'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed (e.g. missing variables, with recovery guidance)'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the created note' },
+            template: { type: 'string', description: 'Template used' },
+            unusedVariables: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Supplied variables the template does not use'
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
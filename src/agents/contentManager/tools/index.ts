@@ -1,4 +1,11 @@
-// ContentManager tools (3 tools)
+// ContentManager tools
 export { ReadTool } from './read';
 export { WriteTool } from './write';
 export { UpdateTool } from './update';
+export { PatchTool } from './patch';
+export { RevertTool } from './revert';
+export { PropertiesTool } from './properties';
+export { FindReplaceTool } from './findReplace';
+export { FromTemplateTool } from './fromTemplate';
+export { ListTemplatesTool } from './listTemplates';
+export { TagsTool } from './tags';
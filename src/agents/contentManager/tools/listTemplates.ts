@@ -0,0 +1,149 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { ListTemplatesParams, ListTemplatesResult, TemplateInfo } from '../types';
+import { TemplateEngine } from '../utils/TemplateEngine';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+
+/**
+ * Location: src/agents/contentManager/tools/listTemplates.ts
+ *
+ * Lists template notes with the variables and properties each one uses,
+ * so agents know what to pass to fromTemplate.
+ *
+ * Relationships:
+ * - Uses TemplateEngine for the templates folder and variable discovery
+ */
+export class ListTemplatesTool extends BaseTool<ListTemplatesParams, ListTemplatesResult> {
+  private app: App;
+
+  /**
+   * Create a new ListTemplatesTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'listTemplates',
+      'List Templates',
+      'List templates with the {{variables}} and properties each one uses',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the templates
+   */
+  async execute(params: ListTemplatesParams): Promise<ListTemplatesResult> {
+    try {
+      const folderPath = params.folder ? normalizePath(params.folder).replace(/\/+$/, '') : TemplateEngine.getTemplatesFolder(this.app);
+      if (!folderPath) {
+        return this.prepareResult(false, undefined,
+          'No templates folder is configured. Set one in the Templates core plugin settings, or pass folder.'
+        );
+      }
+
+      const folder = this.app.vault.getAbstractFileByPath(folderPath);
+      if (!(folder instanceof TFolder)) {
+        return this.prepareResult(false, undefined,
+          `Templates folder not found: "${folderPath}". Use storageManager.list to find it, or pass folder.`
+        );
+      }
+
+      const files = this.app.vault.getMarkdownFiles()
+        .filter((file: TFile) => file.path.startsWith(`${folder.path}/`))
+        .sort((a, b) => a.path.localeCompare(b.path));
+
+      const templates: TemplateInfo[] = [];
+      for (const file of files) {
+        const content = await this.app.vault.cachedRead(file);
+        templates.push({
+          path: file.path,
+          name: file.basename,
+          variables: TemplateEngine.findVariables(content),
+          properties: TemplateEngine.getPropertyNames(content)
+        });
+      }
+
+      return this.prepareResult(true, { folder: folder.path, templates });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error listing templates: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        folder: {
+          type: 'string',
+          description: 'Folder to list (default: the templates folder from the Templates core plugin or Templater)'
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the templates were listed'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            folder: { type: 'string', description: 'Folder that was listed' },
+            templates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string', description: 'Pass as template to fromTemplate' },
+                  name: { type: 'string' },
+                  variables: {
+                    type: 'array',
+                    description: 'Variables used; builtin ones (title, date, time) are filled automatically',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        name: { type: 'string' },
+                        format: { type: 'string' },
+                        builtin: { type: 'boolean' }
+                      }
+                    }
+                  },
+                  properties: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Frontmatter properties set by the template'
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
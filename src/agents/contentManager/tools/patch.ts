@@ -0,0 +1,269 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { PatchParams, PatchResult, PatchFileResult } from '../types';
+import { ContentOperations } from '../utils/ContentOperations';
+import { PatchApplier, FilePatch, DEFAULT_PATCH_FUZZ } from '../utils/PatchApplier';
+import { ContentVersioning } from '../utils/ContentVersioning';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/contentManager/tools/patch.ts
+ *
+ * Patch tool for ContentManager.
+ * Applies a unified diff, or search/replace hunks, to one or more files.
+ *
+ * Key Design:
+ * - Hunks are located by content, not line numbers (exact first, then fuzzy)
+ * - All or nothing per file: if any hunk fails, that file is left unchanged
+ * - Every file is reported, including hunks that did not apply
+ * - Each patched file is recorded in the edit journal
+ *
+ * Relationships:
+ * - Uses PatchApplier for parsing and fuzzy application (diff-match-patch)
+ * - Uses ContentOperations to create files added by a diff
+ */
+export class PatchTool extends BaseTool<PatchParams, PatchResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new PatchTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'patch',
+      'Patch',
+      'Apply a unified diff or search/replace hunks to one or more files',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with per-file patch results
+   */
+  async execute(params: PatchParams): Promise<PatchResult> {
+    try {
+      const { diff, path, edits } = params;
+      const fuzz = params.fuzz ?? DEFAULT_PATCH_FUZZ;
+
+      if (!diff && (!edits || edits.length === 0)) {
+        return this.prepareResult(false, undefined,
+          'Provide either diff (unified diff text) or edits ([{ path, hunks: [{ search, replace }] }]).'
+        );
+      }
+
+      if (fuzz < 0 || fuzz > 1) {
+        return this.prepareResult(false, undefined, `Invalid fuzz: ${fuzz}. Use a value between 0 (exact) and 1.`);
+      }
+
+      const filePatches: FilePatch[] = diff
+        ? PatchApplier.parseUnifiedDiff(diff, path)
+        : (edits || []).map(edit => ({
+          path: edit.path,
+          hunks: (edit.hunks || []).map((hunk, index) => ({
+            search: hunk.search,
+            replace: hunk.replace,
+            label: `hunk ${index + 1}`
+          }))
+        }));
+
+      const files: PatchFileResult[] = [];
+      for (const filePatch of filePatches) {
+        files.push(await this.applyFilePatch(filePatch, fuzz, params.context));
+      }
+
+      const failedFiles = files.filter(file => !file.applied);
+      if (failedFiles.length > 0) {
+        const details = failedFiles.map(file => {
+          if (file.error) {
+            return `${file.path}: ${file.error}`;
+          }
+          const hunks = (file.failedHunks || []).map(h => `${h.label} (${h.reason})`).join('; ');
+          return `${file.path}: ${hunks}`;
+        });
+        return this.prepareResult(false, { files },
+          `${failedFiles.length} of ${files.length} file(s) not patched (left unchanged). ${details.join(' | ')}. Use read to check the current content, then retry with updated context.`
+        );
+      }
+
+      return this.prepareResult(true, { files });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error applying patch: ', error));
+    }
+  }
+
+  /**
+   * Apply all hunks for one file, writing only if every hunk applied
+   * @param filePatch Hunks for one file
+   * @param fuzz Fuzzy match threshold
+   * @param context Tool call context (recorded in the edit journal)
+   * @returns Per-file result
+   */
+  private async applyFilePatch(filePatch: FilePatch, fuzz: number, context?: PatchParams['context']): Promise<PatchFileResult> {
+    const normalizedPath = filePatch.path.startsWith('/') ? filePatch.path.slice(1) : filePatch.path;
+    const existing = this.app.vault.getAbstractFileByPath(normalizedPath);
+
+    if (filePatch.isDeletion) {
+      return {
+        path: normalizedPath,
+        applied: false,
+        hunksApplied: 0,
+        error: 'Deleting files via patch is not supported. Use storageManager.archive instead.'
+      };
+    }
+
+    if (!existing) {
+      if (!filePatch.isNewFile) {
+        return {
+          path: normalizedPath,
+          applied: false,
+          hunksApplied: 0,
+          error: 'File not found. Use searchContent to find files by name.'
+        };
+      }
+
+      const outcome = PatchApplier.applyHunks('', filePatch.hunks, fuzz);
+      await ContentOperations.createContent(this.app, normalizedPath, outcome.content);
+      await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context }, [
+        { kind: 'create', path: normalizedPath, afterHash: ContentVersioning.hash(outcome.content) }
+      ]);
+      return { path: normalizedPath, applied: true, hunksApplied: outcome.appliedCount, created: true };
+    }
+
+    if (!(existing instanceof TFile)) {
+      return { path: normalizedPath, applied: false, hunksApplied: 0, error: 'Path is a folder, not a file.' };
+    }
+
+    if (filePatch.isNewFile) {
+      return {
+        path: normalizedPath,
+        applied: false,
+        hunksApplied: 0,
+        error: 'Diff creates this file, but it already exists. Use write with overwrite: true, or diff against the existing content.'
+      };
+    }
+
+    const original = await this.app.vault.read(existing);
+    const outcome = PatchApplier.applyHunks(original, filePatch.hunks, fuzz);
+
+    if (outcome.failed.length > 0) {
+      return {
+        path: normalizedPath,
+        applied: false,
+        hunksApplied: outcome.appliedCount,
+        failedHunks: outcome.failed
+      };
+    }
+
+    if (outcome.content !== original) {
+      await this.app.vault.modify(existing, outcome.content);
+      await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context }, [
+        { kind: 'modify', path: normalizedPath, before: original, afterHash: ContentVersioning.hash(outcome.content) }
+      ]);
+    }
+
+    return {
+      path: normalizedPath,
+      applied: true,
+      hunksApplied: outcome.appliedCount,
+      ...(outcome.fuzzyCount > 0 && { hunksFuzzy: outcome.fuzzyCount })
+    };
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        diff: {
+          type: 'string',
+          description: 'Unified diff ("--- a/path", "+++ b/path", "@@ -l,s +l,s @@" hunks). May cover several files. Line numbers are hints; hunks are located by their context.'
+        },
+        path: {
+          type: 'string',
+          description: 'Target file for a diff that has no ---/+++ headers'
+        },
+        edits: {
+          type: 'array',
+          description: 'Alternative to diff: search/replace hunks per file',
+          items: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'Path to the file' },
+              hunks: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    search: { type: 'string', description: 'Exact whole lines to find, including 1-3 lines of surrounding context' },
+                    replace: { type: 'string', description: 'Replacement text (repeat the context lines)' }
+                  },
+                  required: ['search', 'replace']
+                }
+              }
+            },
+            required: ['path', 'hunks']
+          }
+        },
+        fuzz: {
+          type: 'number',
+          description: 'Fuzzy context matching threshold: 0 = exact only, 1 = most tolerant (default: 0.3)',
+          default: DEFAULT_PATCH_FUZZ
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'True if every file was patched'
+        },
+        error: {
+          type: 'string',
+          description: 'Summary of files/hunks that did not apply'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  applied: { type: 'boolean', description: 'Whether the file was written (all or nothing per file)' },
+                  hunksApplied: { type: 'number' },
+                  hunksFuzzy: { type: 'number', description: 'Hunks located by fuzzy matching' },
+                  failedHunks: { type: 'array', description: 'Hunks that did not apply, with reasons' },
+                  error: { type: 'string', description: 'File-level error' },
+                  created: { type: 'boolean' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
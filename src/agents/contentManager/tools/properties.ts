@@ -0,0 +1,341 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { PropertiesParams, PropertiesResult, PropertiesFileResult } from '../types';
+import { FrontmatterProperties } from '../utils/FrontmatterProperties';
+import { ContentVersioning } from '../utils/ContentVersioning';
+import { NoteSelector } from '../utils/NoteSelector';
+import { createErrorMessage, getErrorMessage } from '../../../utils/errorUtils';
+import { getNexusPlugin } from '../../../utils/pluginLocator';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+import type { PropertySchema } from '../../../database/types/workspace/WorkspaceTypes';
+import type { WorkspaceService } from '../../../services/WorkspaceService';
+import type { NexusPluginWithServices } from '../../memoryManager/tools/utils/pluginTypes';
+
+/** Maximum number of notes a single call may touch */
+const MAX_FILES = 1000;
+
+/**
+ * Planned frontmatter changes for one note
+ */
+interface PropertyPlan {
+  updates: Record<string, unknown>;
+  deletes: string[];
+  errors: string[];
+}
+
+/**
+ * Location: src/agents/contentManager/tools/properties.ts
+ *
+ * Properties tool for ContentManager.
+ * Gets, sets, deletes, and appends to frontmatter properties of one note or many (paths/globs).
+ *
+ * Key Design:
+ * - Writes go through app.fileManager.processFrontMatter (atomic, keeps YAML valid)
+ * - Values keep their types: coerced to the schema type, or to the type already in the note
+ * - When the workspace defines a propertySchema, values are validated before anything is written
+ * - Per-note all or nothing; notes without changes are not rewritten
+ *
+ * Relationships:
+ * - Uses FrontmatterProperties for parsing, coercion and validation
+ * - Reads the property schema from the workspace context via WorkspaceService
+ * - Records changes in the edit journal
+ */
+export class PropertiesTool extends BaseTool<PropertiesParams, PropertiesResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new PropertiesTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'properties',
+      'Properties',
+      'Get, set, delete, or append to frontmatter properties of one or more notes',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with per-note results
+   */
+  async execute(params: PropertiesParams): Promise<PropertiesResult> {
+    try {
+      const { operation, properties, keys } = params;
+
+      if (!['get', 'set', 'delete', 'append'].includes(operation)) {
+        return this.prepareResult(false, undefined,
+          `Invalid operation: "${operation}". Use get, set, delete, or append.`
+        );
+      }
+
+      if ((operation === 'set' || operation === 'append') && (!properties || Object.keys(properties).length === 0)) {
+        return this.prepareResult(false, undefined,
+          `properties is required for ${operation}, e.g. { "status": "done" }.`
+        );
+      }
+
+      if (operation === 'delete' && (!keys || keys.length === 0)) {
+        return this.prepareResult(false, undefined, 'keys is required for delete, e.g. ["status"].');
+      }
+
+      const targets = [params.path, ...(params.paths || [])].filter((p): p is string => !!p);
+      if (targets.length === 0) {
+        return this.prepareResult(false, undefined,
+          'Provide path (one note) or paths (notes, folders, or glob patterns such as "Projects/**/*.md").'
+        );
+      }
+
+      const { files, unmatched } = NoteSelector.select(this.app, targets);
+      if (files.length > MAX_FILES) {
+        return this.prepareResult(false, undefined,
+          `Selection matches ${files.length} notes (limit ${MAX_FILES}). Narrow the paths or glob patterns.`
+        );
+      }
+
+      const schema = operation === 'get' ? undefined : await this.getPropertySchema(params.context?.workspaceId);
+
+      const results: PropertiesFileResult[] = unmatched.map(path => ({
+        path,
+        error: 'No matching markdown note. Use searchContent to find files by name.'
+      }));
+
+      for (const file of files) {
+        results.push(operation === 'get'
+          ? await this.getProperties(file, keys)
+          : await this.changeProperties(file, params, schema));
+      }
+
+      const failed = results.filter(result => result.error);
+      if (failed.length > 0) {
+        const details = failed.slice(0, 10).map(result => `${result.path}: ${result.error}`);
+        if (failed.length > 10) {
+          details.push(`... ${failed.length - 10} more`);
+        }
+        return this.prepareResult(false, { files: results },
+          `${failed.length} of ${results.length} note(s) not ${operation === 'get' ? 'read' : 'changed'}. ${details.join(' | ')}`
+        );
+      }
+
+      return this.prepareResult(true, { files: results });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error processing properties: ', error));
+    }
+  }
+
+  /**
+   * Read properties of one note
+   */
+  private async getProperties(file: TFile, keys?: string[]): Promise<PropertiesFileResult> {
+    try {
+      const frontmatter = FrontmatterProperties.parse(await this.app.vault.read(file));
+      if (!keys || keys.length === 0) {
+        return { path: file.path, properties: frontmatter };
+      }
+
+      const properties: Record<string, unknown> = {};
+      for (const key of keys) {
+        if (key in frontmatter) {
+          properties[key] = frontmatter[key];
+        }
+      }
+      return { path: file.path, properties };
+    } catch (error) {
+      return { path: file.path, error: `Invalid frontmatter: ${getErrorMessage(error)}` };
+    }
+  }
+
+  /**
+   * Apply set/delete/append to one note
+   */
+  private async changeProperties(
+    file: TFile,
+    params: PropertiesParams,
+    schema?: PropertySchema
+  ): Promise<PropertiesFileResult> {
+    try {
+      const before = await this.app.vault.read(file);
+
+      // Plan against the current content first, so notes that would not change are left untouched
+      const plan = this.planChanges(FrontmatterProperties.parse(before), params, schema);
+      if (plan.errors.length > 0) {
+        return { path: file.path, error: plan.errors.join('; ') };
+      }
+
+      const changed = [...Object.keys(plan.updates), ...plan.deletes];
+      if (changed.length === 0) {
+        return { path: file.path, changed: [] };
+      }
+
+      await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        // Re-plan on the object being written (the file may have changed since the read above)
+        const current = this.planChanges(frontmatter, params, schema);
+        if (current.errors.length > 0) {
+          throw new Error(current.errors.join('; '));
+        }
+        Object.assign(frontmatter, current.updates);
+        current.deletes.forEach(key => delete frontmatter[key]);
+      });
+
+      const after = await this.app.vault.read(file);
+      await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context: params.context }, [
+        { kind: 'modify', path: file.path, before, afterHash: ContentVersioning.hash(after) }
+      ]);
+
+      return { path: file.path, changed };
+    } catch (error) {
+      return { path: file.path, error: getErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Work out which keys change for a note, with coercion and schema validation
+   */
+  private planChanges(
+    frontmatter: Record<string, unknown>,
+    params: PropertiesParams,
+    schema?: PropertySchema
+  ): PropertyPlan {
+    const plan: PropertyPlan = { updates: {}, deletes: [], errors: [] };
+
+    if (params.operation === 'delete') {
+      for (const key of params.keys || []) {
+        if (!(key in frontmatter)) continue;
+        const error = FrontmatterProperties.validateDelete(key, schema);
+        if (error) {
+          plan.errors.push(error);
+        } else {
+          plan.deletes.push(key);
+        }
+      }
+      return plan;
+    }
+
+    for (const [key, rawValue] of Object.entries(params.properties || {})) {
+      const existing = frontmatter[key];
+      const definition = schema?.[key];
+
+      let value: unknown;
+      if (params.operation === 'append') {
+        const incoming = Array.isArray(rawValue) ? rawValue : [rawValue];
+        const existingItems = Array.isArray(existing) ? existing : undefined;
+        // Coerce items to the type of the items already in the list (e.g. numbers stay numbers)
+        const itemType = existingItems && existingItems.length > 0 ? existingItems[0] : undefined;
+        value = FrontmatterProperties.appendValues(existing, incoming.map(item => FrontmatterProperties.coerce(item, itemType)));
+      } else {
+        value = FrontmatterProperties.coerce(rawValue, existing, definition);
+      }
+
+      const error = FrontmatterProperties.validate(key, value, definition);
+      if (error) {
+        plan.errors.push(error);
+        continue;
+      }
+
+      if (JSON.stringify(value) !== JSON.stringify(existing)) {
+        plan.updates[key] = value;
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Load the property schema of the calling workspace, if it defines one
+   */
+  private async getPropertySchema(workspaceId?: string): Promise<PropertySchema | undefined> {
+    if (!workspaceId || workspaceId === 'default') {
+      return undefined;
+    }
+
+    try {
+      const plugin = getNexusPlugin<NexusPluginWithServices>(this.app);
+      const workspaceService = await plugin?.getService<WorkspaceService>('workspaceService');
+      const workspace = await workspaceService?.getWorkspaceByNameOrId(workspaceId);
+      return workspace?.context?.propertySchema;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['get', 'set', 'delete', 'append'],
+          description: 'get: read properties; set: set values; delete: remove keys; append: add items to list properties (duplicates skipped)'
+        },
+        path: {
+          type: 'string',
+          description: 'Path to a single note'
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Note paths, folders, or glob patterns (e.g. "Projects/**/*.md") for bulk operations'
+        },
+        properties: {
+          type: 'object',
+          description: 'Key/value pairs for set or append. Use JSON types: numbers, true/false, arrays for lists, "YYYY-MM-DD" for dates'
+        },
+        keys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Keys to get (default: all) or delete'
+        }
+      },
+      required: ['operation']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'True if every note was processed'
+        },
+        error: {
+          type: 'string',
+          description: 'Notes that failed, with reasons (e.g. schema validation errors)'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            files: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  properties: { type: 'object', description: 'Requested properties (get)' },
+                  changed: { type: 'array', items: { type: 'string' }, description: 'Keys that changed' },
+                  error: { type: 'string', description: 'Why the note was left unchanged' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -1,11 +1,14 @@
-import { App } from 'obsidian';
+import { App, TFile } from 'obsidian';
 import { BaseTool } from '../../baseTool';
 import { ReadParams, ReadResult } from '../types';
 import { ContentOperations } from '../utils/ContentOperations';
+import { ContentVersioning } from '../utils/ContentVersioning';
+import { SectionResolver } from '../utils/SectionResolver';
 import { createErrorMessage } from '../../../utils/errorUtils';
 import { addRecommendations, Recommendation } from '../../../utils/recommendationUtils';
 import { NudgeHelpers } from '../../../utils/nudgeHelpers';
 import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
+import { EmbedExpander } from '../../../utils/EmbedExpander';
 
 /**
  * Location: src/agents/contentManager/tools/read.ts
@@ -14,12 +17,18 @@ import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
  * Reads content from a file with explicit line range control.
  *
  * Key Design:
- * - startLine is REQUIRED (forces intentional positioning)
+ * - startLine is REQUIRED for line reads (forces intentional positioning)
  * - endLine is optional (defaults to end of file)
+ * - outline returns the heading tree (line ranges, word counts, block ids) without content
+ * - section reads just the lines under a heading path
+ * - expandEmbeds inlines embedded notes as unnumbered blocks after the embedding line
+ * - Returns content hashes (file and range) for optimistic concurrency on write/update
  * - Encourages LLMs to think about where content is located
  *
  * Relationships:
  * - Uses ContentOperations utility for file operations
+ * - Uses SectionResolver (metadata cache first) for outline and section reads
+ * - Uses EmbedExpander for transclusion expansion
  * - Part of CRUA architecture (Read operation)
  */
 export class ReadTool extends BaseTool<ReadParams, ReadResult> {
@@ -33,7 +42,7 @@ export class ReadTool extends BaseTool<ReadParams, ReadResult> {
     super(
       'read',
       'Read',
-      'Read content from a file with line range',
+      'Read content from a file by line range or heading section, or get its outline',
       '1.0.0'
     );
 
@@ -47,16 +56,55 @@ export class ReadTool extends BaseTool<ReadParams, ReadResult> {
    */
   async execute(params: ReadParams): Promise<ReadResult> {
     try {
-      const { path, startLine, endLine } = params;
+      const { path, startLine, endLine, outline, section } = params;
+
+      if (outline && (section || startLine !== undefined)) {
+        return this.prepareResult(false, undefined,
+          'outline cannot be combined with section or startLine. Read the outline first, then read a section or line range.'
+        );
+      }
+
+      if (section && (startLine !== undefined || endLine !== undefined)) {
+        return this.prepareResult(false, undefined,
+          'Provide either section or startLine/endLine, not both.'
+        );
+      }
+
+      if (!outline && !section && startLine === undefined) {
+        return this.prepareResult(false, undefined,
+          'startLine is required unless outline or section is provided. Use 1 to read from beginning, or outline: true to see the headings first.'
+        );
+      }
 
       // Read full content first
       const fullContent = await ContentOperations.readContent(this.app, path);
       const allLines = fullContent.split('\n');
       const totalLines = allLines.length;
 
+      // Version tokens: pass hash (or rangeHash for range edits) as expectedHash to write/update
+      const normalizedPath = path.startsWith('/') ? path.slice(1) : path;
+      const hash = ContentVersioning.remember(normalizedPath, fullContent);
+      const file = this.app.vault.getAbstractFileByPath(normalizedPath) as TFile;
+
+      if (outline) {
+        return this.prepareResult(true, {
+          path,
+          hash,
+          outline: SectionResolver.buildOutline(this.app, file, allLines)
+        });
+      }
+
       // Determine actual range
-      const actualStartLine = startLine;
-      const actualEndLine = endLine !== undefined ? Math.min(endLine, totalLines) : totalLines;
+      let actualStartLine: number;
+      let actualEndLine: number;
+      if (section) {
+        const resolved = SectionResolver.resolveHeading(this.app, file, allLines, section);
+        actualStartLine = resolved.startLine;
+        actualEndLine = resolved.endLine;
+      } else {
+        actualStartLine = startLine as number;
+        actualEndLine = endLine !== undefined ? Math.min(endLine, totalLines) : totalLines;
+      }
 
       // Extract requested lines (1-based to 0-based)
       const startIdx = Math.max(0, actualStartLine - 1);
@@ -64,17 +112,29 @@ export class ReadTool extends BaseTool<ReadParams, ReadResult> {
       const requestedLines = allLines.slice(startIdx, endIdx);
 
       // Always add line numbers to content
-      const numberedLines = requestedLines.map((line, idx) => {
-        const lineNum = actualStartLine + idx;
-        return `${lineNum}: ${line}`;
-      });
+      // (embedded content is unnumbered, so line numbers keep matching the file for update)
+      const expander = params.expandEmbeds
+        ? new EmbedExpander(this.app, { maxDepth: params.maxEmbedDepth, maxTokens: params.maxEmbedTokens })
+        : undefined;
+      const numberedLines: string[] = [];
+      for (const [idx, line] of requestedLines.entries()) {
+        numberedLines.push(`${actualStartLine + idx}: ${line}`);
+        if (expander && EmbedExpander.hasEmbeds(line)) {
+          numberedLines.push(...await expander.expandLine(line, file.path));
+        }
+      }
       const content = numberedLines.join('\n');
 
+      const rangeHash = ContentVersioning.hashLines(allLines, actualStartLine, actualEndLine);
+
       const resultData = {
         content,
         path,
         startLine: actualStartLine,
-        endLine: actualEndLine
+        endLine: actualEndLine,
+        hash,
+        rangeHash,
+        ...(expander ? { embeds: expander.getStats() } : {})
       };
 
       const result = this.prepareResult(true, resultData);
@@ -103,14 +163,34 @@ export class ReadTool extends BaseTool<ReadParams, ReadResult> {
         },
         startLine: {
           type: 'number',
-          description: 'Start line (1-based), REQUIRED - forces intentional positioning. Use 1 to read from beginning.'
+          description: 'Start line (1-based), REQUIRED unless outline or section is used - forces intentional positioning. Use 1 to read from beginning.'
         },
         endLine: {
           type: 'number',
           description: 'End line (1-based, inclusive). If omitted, reads to end of file.'
+        },
+        outline: {
+          type: 'boolean',
+          description: 'Return only the heading tree with line ranges, word counts and block ids. Cheap way to navigate long notes.'
+        },
+        section: {
+          type: 'string',
+          description: 'Read only the section under a heading, e.g. "## Tasks". Use " > " for nested headings: "Project > Tasks" (outline paths work as-is). Write a ">" inside heading text as "\\>".'
+        },
+        expandEmbeds: {
+          type: 'boolean',
+          description: 'Inline embedded notes (![[Note]], ![[Note#Heading]], ![[Note#^block]]) as unnumbered <embed source="..."> blocks after the embedding line (default: false)'
+        },
+        maxEmbedDepth: {
+          type: 'number',
+          description: 'With expandEmbeds: how deep to follow embeds inside embedded notes (default: 3)'
+        },
+        maxEmbedTokens: {
+          type: 'number',
+          description: 'With expandEmbeds: token budget for all inlined content (default: 4000)'
         }
       },
-      required: ['path', 'startLine']
+      required: ['path']
     };
 
     return this.getMergedSchema(toolSchema);
@@ -141,9 +221,25 @@ export class ReadTool extends BaseTool<ReadParams, ReadResult> {
         endLine: {
           type: 'number',
           description: 'Ending line that was read (if applicable)'
+        },
+        hash: {
+          type: 'string',
+          description: 'Hash of the whole file. Pass as expectedHash to write/update to avoid overwriting concurrent edits.'
+        },
+        rangeHash: {
+          type: 'string',
+          description: 'Hash of the returned lines. Pass as expectedHash to update the same range (or the same heading after a section read).'
+        },
+        embeds: {
+          type: 'object',
+          description: 'With expandEmbeds: expanded and skipped embed counts, and truncated=true if the token budget ran out'
+        },
+        outline: {
+          type: 'object',
+          description: 'Outline mode: totalLines, words, frontmatter range, blockIds before the first heading, and headings (heading, level, path, startLine, endLine, words, blockIds, children)'
         }
       },
-      required: ['content', 'path', 'startLine']
+      required: ['path', 'hash']
     };
 
     return baseSchema;
@@ -0,0 +1,238 @@
+import { App } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { RevertParams, RevertResult, JournalEntrySummary } from '../types';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { getEditJournal, EditJournalEntry, EditJournalService } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/contentManager/tools/revert.ts
+ *
+ * Revert tool for ContentManager.
+ * Undoes agent changes recorded in the edit journal (write/update/patch and storageManager
+ * move/copy/archive/createFolder), restoring the journaled before-images.
+ *
+ * Key Design:
+ * - Select by entryId, toolCallId, sessionId or path; default is the last change of the current session
+ * - An entry is skipped with conflicts if its files changed after the agent edit (unless force)
+ * - list mode shows recent entries so the caller can pick one
+ *
+ * Relationships:
+ * - Uses EditJournalService for journal queries and reverts
+ */
+export class RevertTool extends BaseTool<RevertParams, RevertResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new RevertTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'revert',
+      'Revert',
+      'Undo agent changes recorded in the edit journal',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the revert outcomes or journal entries
+   */
+  async execute(params: RevertParams): Promise<RevertResult> {
+    try {
+      const journal = await getEditJournal(this.app);
+      if (!journal) {
+        return this.prepareResult(false, undefined, 'Edit journal is not available. Try again once the plugin has finished loading.');
+      }
+
+      if (params.list) {
+        const entries = await journal.getEntries({
+          path: params.path,
+          sessionId: params.sessionId,
+          toolCallId: params.toolCallId,
+          includeReverted: true
+        });
+        return this.prepareResult(true, {
+          entries: entries.slice(0, params.limit ?? 20).map(entry => this.summarize(entry))
+        });
+      }
+
+      const targets = await this.selectEntries(journal, params);
+      if (targets.length === 0) {
+        return this.prepareResult(false, undefined,
+          'No unreverted journal entries match. Use revert with list: true to see recent agent changes.'
+        );
+      }
+
+      const outcomes = await journal.revert(targets.map(entry => entry.id), {
+        force: params.force,
+        dryRun: params.dryRun
+      });
+
+      const blocked = outcomes.filter(outcome => !outcome.reverted);
+      if (blocked.length > 0) {
+        const details = blocked.map(outcome => `${outcome.tool} (${(outcome.conflicts || []).join('; ')})`);
+        return this.prepareResult(false, { outcomes },
+          `${blocked.length} of ${outcomes.length} change(s) not reverted: ${details.join(' | ')}. ` +
+          'Review the files with read, then retry with force: true to overwrite later edits.'
+        );
+      }
+
+      return this.prepareResult(true, { outcomes });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error reverting changes: ', error));
+    }
+  }
+
+  /**
+   * Resolve the selector params to journal entries
+   */
+  private async selectEntries(journal: EditJournalService, params: RevertParams): Promise<EditJournalEntry[]> {
+    if (params.entryId) {
+      const entry = await journal.getEntry(params.entryId);
+      return entry && entry.revertedAt === undefined ? [entry] : [];
+    }
+
+    if (params.toolCallId || params.sessionId) {
+      return journal.getEntries({ toolCallId: params.toolCallId, sessionId: params.sessionId });
+    }
+
+    if (params.path) {
+      const path = params.path.startsWith('/') ? params.path.slice(1) : params.path;
+      return (await journal.getEntries({ path })).slice(0, 1);
+    }
+
+    // Default: last change of the current session, falling back to the last change overall
+    const sessionId = params.context?.sessionId;
+    const sessionEntries = sessionId ? await journal.getEntries({ sessionId }) : [];
+    const candidates = sessionEntries.length > 0 ? sessionEntries : await journal.getEntries();
+    return candidates.slice(0, 1);
+  }
+
+  /**
+   * Summarize an entry for list output
+   */
+  private summarize(entry: EditJournalEntry): JournalEntrySummary {
+    return {
+      id: entry.id,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      tool: `${entry.agent}.${entry.tool}`,
+      paths: Array.from(new Set(entry.changes.map(change => change.from ? `${change.from} -> ${change.path}` : change.path))),
+      ...(entry.toolCallId && { toolCallId: entry.toolCallId }),
+      ...(entry.sessionId && { sessionId: entry.sessionId }),
+      reverted: entry.revertedAt !== undefined
+    };
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        entryId: {
+          type: 'string',
+          description: 'Journal entry to revert (from list: true)'
+        },
+        toolCallId: {
+          type: 'string',
+          description: 'Revert every change made by this tool call (a useTools call id also covers each call of its batch)'
+        },
+        sessionId: {
+          type: 'string',
+          description: 'Revert every change made in this session'
+        },
+        path: {
+          type: 'string',
+          description: 'Revert the most recent agent change to this file (with list: true, filter entries by file)'
+        },
+        list: {
+          type: 'boolean',
+          description: 'List recent journal entries instead of reverting',
+          default: false
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum entries to list (default: 20)',
+          default: 20
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Report what would be reverted without changing anything',
+          default: false
+        },
+        force: {
+          type: 'boolean',
+          description: 'Revert even if the files changed after the agent edit (overwrites those later edits)',
+          default: false
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'True if every selected change was reverted'
+        },
+        error: {
+          type: 'string',
+          description: 'Changes that could not be reverted, with conflicts'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            entries: {
+              type: 'array',
+              description: 'Journal entries (list mode), newest first',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  timestamp: { type: 'string' },
+                  tool: { type: 'string' },
+                  paths: { type: 'array', items: { type: 'string' } },
+                  toolCallId: { type: 'string' },
+                  sessionId: { type: 'string' },
+                  reverted: { type: 'boolean' }
+                }
+              }
+            },
+            outcomes: {
+              type: 'array',
+              description: 'Outcome per journal entry, newest first',
+              items: {
+                type: 'object',
+                properties: {
+                  entryId: { type: 'string' },
+                  tool: { type: 'string' },
+                  reverted: { type: 'boolean' },
+                  paths: { type: 'array', items: { type: 'string' } },
+                  conflicts: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -0,0 +1,384 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { TagChangeFileResult, TagInfo, TagsParams, TagsResult } from '../types';
+import { TagOperations } from '../utils/TagOperations';
+import { NoteSelector } from '../utils/NoteSelector';
+import { ContentVersioning } from '../utils/ContentVersioning';
+import { createErrorMessage, getErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+
+/** Default number of tags or notes returned */
+const DEFAULT_LIMIT = 200;
+
+/** Maximum number of tags or notes returned */
+const MAX_LIMIT = 1000;
+
+/**
+ * Location: src/agents/contentManager/tools/tags.ts
+ *
+ * Tags tool for ContentManager.
+ * Lists tags with counts, finds notes by tag combinations, and renames or merges tags vault-wide.
+ *
+ * Key Design:
+ * - Reads inline and frontmatter tags from the metadata cache (no file reads for list and find)
+ * - Nested tags follow their parent: renaming proj also renames proj/alpha; find any: [proj] matches proj/alpha
+ * - rename/merge edit inline tags in place (vault.process) and frontmatter via processFrontMatter;
+ *   dryRun reports the notes and counts without writing
+ * - Every changed note is recorded in the edit journal
+ *
+ * Relationships:
+ * - Uses TagOperations for matching and renaming, NoteSelector for paths
+ */
+export class TagsTool extends BaseTool<TagsParams, TagsResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new TagsTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'tags',
+      'Tags',
+      'List tags with counts, find notes by tags (all/any/none), and rename or merge tags across the vault',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with tags, notes, or per-note changes
+   */
+  async execute(params: TagsParams): Promise<TagsResult> {
+    try {
+      const files = this.selectFiles(params.paths);
+      if (typeof files === 'string') {
+        return this.prepareResult(false, undefined, files);
+      }
+
+      const limit = Math.min(Math.max(1, params.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+      switch (params.operation) {
+        case 'list':
+          return this.listTags(files, params.prefix, limit);
+        case 'find':
+          return this.findNotes(files, params, limit);
+        case 'rename':
+        case 'merge':
+          return await this.renameTags(files, params);
+        default:
+          return this.prepareResult(false, undefined,
+            `Invalid operation: "${params.operation}". Use list, find, rename, or merge.`
+          );
+      }
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error processing tags: ', error));
+    }
+  }
+
+  /**
+   * Notes to work on, or an error message
+   */
+  private selectFiles(paths?: string[]): TFile[] | string {
+    if (!paths?.length) {
+      return this.app.vault.getMarkdownFiles();
+    }
+
+    const { files, unmatched } = NoteSelector.select(this.app, paths);
+    if (files.length === 0) {
+      return `No notes match paths: ${unmatched.join(', ')}. Use storageManager.list to check folder names.`;
+    }
+    return files;
+  }
+
+  /**
+   * Count tag usage across notes
+   */
+  private listTags(files: TFile[], prefix: string | undefined, limit: number): TagsResult {
+    const wanted = prefix ? [TagOperations.normalize(prefix)] : null;
+    const counts = new Map<string, { notes: number; inline: number; frontmatter: number; spellings: Map<string, number> }>();
+
+    const count = (tag: string, inline: number, frontmatter: number) => {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key) ?? { notes: 0, inline: 0, frontmatter: 0, spellings: new Map<string, number>() };
+      entry.notes++;
+      entry.inline += inline;
+      entry.frontmatter += frontmatter;
+      entry.spellings.set(tag, (entry.spellings.get(tag) ?? 0) + 1);
+      counts.set(key, entry);
+    };
+
+    for (const file of files) {
+      const noteTags = TagOperations.getNoteTags(this.app.metadataCache.getFileCache(file));
+      const perNote = new Map<string, { tag: string; inline: number; frontmatter: number }>();
+      for (const entry of noteTags.inline) {
+        const tag = entry.tag.slice(1);
+        const current = perNote.get(tag.toLowerCase()) ?? { tag, inline: 0, frontmatter: 0 };
+        current.inline++;
+        perNote.set(tag.toLowerCase(), current);
+      }
+      for (const tag of noteTags.frontmatter) {
+        const current = perNote.get(tag.toLowerCase()) ?? { tag, inline: 0, frontmatter: 0 };
+        current.frontmatter = 1;
+        perNote.set(tag.toLowerCase(), current);
+      }
+
+      for (const { tag, inline, frontmatter } of perNote.values()) {
+        if (!wanted || TagOperations.matches(tag, wanted)) {
+          count(tag, inline, frontmatter);
+        }
+      }
+    }
+
+    const tags: TagInfo[] = Array.from(counts.values())
+      .map(entry => {
+        const spellings = Array.from(entry.spellings.entries()).sort((a, b) => b[1] - a[1]);
+        return {
+          tag: spellings[0][0],
+          notes: entry.notes,
+          inline: entry.inline,
+          frontmatter: entry.frontmatter,
+          ...(spellings.length > 1 ? { variants: spellings.slice(1).map(([spelling]) => spelling) } : {})
+        };
+      })
+      .sort((a, b) => b.notes - a.notes || a.tag.localeCompare(b.tag));
+
+    return this.prepareResult(true, { tags: tags.slice(0, limit), total: tags.length });
+  }
+
+  /**
+   * Find notes by tag combination
+   */
+  private findNotes(files: TFile[], params: TagsParams, limit: number): TagsResult {
+    const all = (params.all ?? []).map(tag => TagOperations.normalize(tag));
+    const any = (params.any ?? []).map(tag => TagOperations.normalize(tag));
+    const none = (params.none ?? []).map(tag => TagOperations.normalize(tag));
+    if (all.length + any.length + none.length === 0) {
+      return this.prepareResult(false, undefined, 'find needs at least one of all, any, or none, e.g. { "all": ["project"], "none": ["archived"] }.');
+    }
+
+    const notes: Array<{ path: string; tags: string[] }> = [];
+    for (const file of files) {
+      const noteTags = TagOperations.getNoteTags(this.app.metadataCache.getFileCache(file));
+      const tags = Array.from(new Set([...noteTags.inline.map(entry => entry.tag.slice(1)), ...noteTags.frontmatter]));
+
+      const has = (want: string) => tags.some(tag => TagOperations.matches(tag, [want]));
+      if (!all.every(has)) continue;
+      if (any.length > 0 && !any.some(has)) continue;
+      if (none.some(has)) continue;
+      notes.push({ path: file.path, tags });
+    }
+
+    return this.prepareResult(true, { notes: notes.slice(0, limit), total: notes.length });
+  }
+
+  /**
+   * Rename or merge tags in every note that uses them
+   */
+  private async renameTags(files: TFile[], params: TagsParams): Promise<TagsResult> {
+    const sources = (Array.isArray(params.from) ? params.from : params.from ? [params.from] : [])
+      .map(tag => TagOperations.normalize(tag))
+      .filter(tag => tag.length > 0);
+    const to = params.to?.trim().replace(/^#/, '') ?? '';
+
+    if (sources.length === 0) {
+      return this.prepareResult(false, undefined,
+        params.operation === 'merge'
+          ? 'from is required for merge: the tags to merge, e.g. ["todo", "to-do"].'
+          : 'from is required for rename: the tag to rename, e.g. "proj".'
+      );
+    }
+    if (params.operation === 'rename' && sources.length > 1) {
+      return this.prepareResult(false, undefined, 'rename takes one tag in from. Use merge to combine several tags.');
+    }
+    const invalid = TagOperations.validate(to);
+    if (invalid) {
+      return this.prepareResult(false, undefined, `to is required: the new tag. ${invalid}`);
+    }
+    if (sources.some(source => to.toLowerCase().startsWith(`${source}/`))) {
+      return this.prepareResult(false, undefined, `Cannot rename a tag into its own nested tag ("${to}").`);
+    }
+
+    const results: TagChangeFileResult[] = [];
+    for (const file of files) {
+      const noteTags = TagOperations.getNoteTags(this.app.metadataCache.getFileCache(file));
+      const inline = noteTags.inline.filter(entry => TagOperations.matches(entry.tag, sources)).length;
+      const frontmatter = noteTags.frontmatter.filter(tag => TagOperations.matches(tag, sources)).length;
+      if (inline + frontmatter === 0) continue;
+
+      results.push(params.dryRun
+        ? { path: file.path, inline, frontmatter }
+        : await this.renameInNote(file, sources, to, params));
+    }
+
+    const failed = results.filter(result => result.error);
+    const data = {
+      files: results.slice(0, MAX_LIMIT),
+      total: results.length,
+      ...(params.dryRun ? { dryRun: true } : {})
+    };
+    if (failed.length > 0) {
+      return this.prepareResult(false, data,
+        `${failed.length} of ${results.length} note(s) not changed. ${failed.slice(0, 10).map(result => `${result.path}: ${result.error}`).join(' | ')}`
+      );
+    }
+    return this.prepareResult(true, data);
+  }
+
+  /**
+   * Rename tags in one note (inline first, then frontmatter)
+   */
+  private async renameInNote(file: TFile, sources: string[], to: string, params: TagsParams): Promise<TagChangeFileResult> {
+    try {
+      const before = await this.app.vault.read(file);
+      const { inline, frontmatter } = TagOperations.getNoteTags(this.app.metadataCache.getFileCache(file));
+
+      let inlineCount = 0;
+      if (inline.some(entry => TagOperations.matches(entry.tag, sources))) {
+        await this.app.vault.process(file, (content: string) => {
+          const renamed = TagOperations.renameInline(content, inline, sources, to);
+          inlineCount = renamed.count;
+          return renamed.content;
+        });
+      }
+
+      let frontmatterCount = 0;
+      if (frontmatter.some(tag => TagOperations.matches(tag, sources))) {
+        await this.app.fileManager.processFrontMatter(file, (properties: Record<string, unknown>) => {
+          frontmatterCount = TagOperations.renameInFrontmatter(properties, sources, to);
+        });
+      }
+
+      const after = await this.app.vault.read(file);
+      if (after !== before) {
+        await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context: params.context }, [
+          { kind: 'modify', path: file.path, before, afterHash: ContentVersioning.hash(after) }
+        ]);
+      }
+
+      return { path: file.path, inline: inlineCount, frontmatter: frontmatterCount };
+    } catch (error) {
+      return { path: file.path, inline: 0, frontmatter: 0, error: getErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const tagList = { type: 'array', items: { type: 'string' } };
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['list', 'find', 'rename', 'merge'],
+          description: 'list: tags with counts; find: notes by tags; rename: one tag to a new name; merge: several tags into one'
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Notes, folders, or glob patterns to limit the operation to (default: whole vault)'
+        },
+        prefix: {
+          type: 'string',
+          description: 'list: only this tag and its nested tags'
+        },
+        all: { ...tagList, description: 'find: notes must have all of these tags (AND)' },
+        any: { ...tagList, description: 'find: notes must have at least one of these tags (OR)' },
+        none: { ...tagList, description: 'find: notes must have none of these tags (NOT)' },
+        from: {
+          type: ['string', 'array'],
+          items: { type: 'string' },
+          description: 'rename: the tag to rename; merge: the tags to merge. Nested tags move with their parent'
+        },
+        to: {
+          type: 'string',
+          description: 'rename/merge: the new tag, or the tag to merge into'
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'rename/merge: report notes and counts without writing',
+          default: false
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum tags or notes to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+        }
+      },
+      required: ['operation']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the operation succeeded for every note'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            tags: {
+              type: 'array',
+              description: 'list: tags by number of notes',
+              items: {
+                type: 'object',
+                properties: {
+                  tag: { type: 'string' },
+                  notes: { type: 'number', description: 'Notes using the tag' },
+                  inline: { type: 'number', description: 'Inline #tag occurrences' },
+                  frontmatter: { type: 'number', description: 'Notes with the tag in frontmatter' },
+                  variants: { type: 'array', items: { type: 'string' }, description: 'Other spellings in use' }
+                }
+              }
+            },
+            notes: {
+              type: 'array',
+              description: 'find: matching notes with their tags',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  tags: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            },
+            files: {
+              type: 'array',
+              description: 'rename/merge: notes changed (or that would change with dryRun)',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  inline: { type: 'number' },
+                  frontmatter: { type: 'number' },
+                  error: { type: 'string' }
+                }
+              }
+            },
+            total: { type: 'number', description: 'Total before the limit' },
+            dryRun: { type: 'boolean' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
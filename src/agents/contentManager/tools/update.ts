@@ -1,8 +1,11 @@
 import { App, TFile } from 'obsidian';
 import { BaseTool } from '../../baseTool';
-import { UpdateParams, UpdateResult } from '../types';
+import { UpdateParams, UpdateResult, UpdateMode } from '../types';
 import { ContentOperations } from '../utils/ContentOperations';
+import { SectionResolver, ResolvedSection } from '../utils/SectionResolver';
+import { ContentVersioning } from '../utils/ContentVersioning';
 import { createErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
 
 /**
  * Location: src/agents/contentManager/tools/update.ts
@@ -15,6 +18,10 @@ import { createErrorMessage } from '../../../utils/errorUtils';
  * - startLine + endLine → REPLACE that range
  * - content: "" with range → DELETE that range
  * - startLine: -1 → APPEND to end of file
+ * - heading / blockId / frontmatterKey → anchored edit, resolved to lines at call time
+ *   (mode: replace | append | insertBefore | insertAfter)
+ * - expectedHash → fail with a conflict if the file (or targeted range) changed since read
+ * - Every write is recorded in the edit journal (revertible via contentManager.revert)
  *
  * Key Design:
  * - Single tool replaces: appendContent, prependContent, replaceContent, replaceByLine, findReplaceContent, deleteContent
@@ -23,11 +30,13 @@ import { createErrorMessage } from '../../../utils/errorUtils';
  *
  * Relationships:
  * - Uses ContentOperations utility for file operations
+ * - Uses SectionResolver to turn anchors into line ranges
  * - Part of CRUA architecture (Update operation)
  * - Follows write tool response stripping principle (returns { success: true } only)
  */
 export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
   private app: App;
+  receivesContext = true;
 
   /**
    * Create a new UpdateTool
@@ -37,7 +46,7 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
     super(
       'update',
       'Update',
-      'Insert, replace, or delete content at specific line positions',
+      'Insert, replace, or delete content at line positions, headings, block ids, or frontmatter keys',
       '1.0.0'
     );
 
@@ -51,13 +60,34 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
    */
   async execute(params: UpdateParams): Promise<UpdateResult> {
     try {
-      const { path, content, startLine, endLine } = params;
+      const { path, content, startLine, endLine, heading, blockId, frontmatterKey, expectedHash } = params;
+
+      const anchorCount = [heading, blockId, frontmatterKey].filter(anchor => !!anchor).length;
+      if (anchorCount > 1) {
+        return this.prepareResult(false, undefined,
+          'Provide only one of heading, blockId, or frontmatterKey.'
+        );
+      }
+      if (anchorCount === 1 && startLine !== undefined) {
+        return this.prepareResult(false, undefined,
+          'Provide either startLine or an anchor (heading, blockId, frontmatterKey), not both.'
+        );
+      }
+      if (anchorCount === 0 && startLine === undefined) {
+        return this.prepareResult(false, undefined,
+          'startLine is required unless heading, blockId, or frontmatterKey is provided. Use -1 to append to end of file.'
+        );
+      }
 
       // Normalize path (remove leading slash)
       const normalizedPath = path.startsWith('/') ? path.slice(1) : path;
       const file = this.app.vault.getAbstractFileByPath(normalizedPath);
 
       if (!file) {
+        if (expectedHash !== undefined) {
+          const conflict = ContentVersioning.buildConflict(normalizedPath, expectedHash, null);
+          return this.prepareResult(false, { conflict }, ContentVersioning.formatConflictMessage(conflict));
+        }
         return this.prepareResult(false, undefined,
           `File not found: "${path}". Use searchContent to find files by name, or storageManager.list to explore folders.`
         );
@@ -70,22 +100,35 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
       }
 
       const existingContent = await this.app.vault.read(file);
+      const save = (updated: string, range?: { startLine: number; endLine: number }) =>
+        this.saveContent(file, normalizedPath, existingContent, updated, params.context, expectedHash, range);
       const lines = existingContent.split('\n');
       const totalLines = lines.length;
 
       let newContent: string;
 
+      // Anchored edit: resolve the target to a line range from the current content
+      if (anchorCount === 1) {
+        const section = heading
+          ? SectionResolver.resolveHeading(this.app, file, lines, heading)
+          : blockId
+            ? SectionResolver.resolveBlock(this.app, file, lines, blockId)
+            : SectionResolver.resolveFrontmatterKey(this.app, file, lines, frontmatterKey as string);
+
+        newContent = this.applyAnchoredUpdate(lines, section, content, params.mode || 'replace', blockId);
+        return await save(newContent, { startLine: section.startLine, endLine: section.endLine });
+      }
+
       // Special case: startLine === -1 means APPEND to end of file
       if (startLine === -1) {
         // Add newline before appending if file doesn't end with one
         const needsNewline = existingContent.length > 0 && !existingContent.endsWith('\n');
         newContent = existingContent + (needsNewline ? '\n' : '') + content;
-        await this.app.vault.modify(file, newContent);
-        return this.prepareResult(true);
+        return await save(newContent);
       }
 
       // Validate line numbers
-      if (startLine < 1) {
+      if (startLine === undefined || startLine < 1) {
         return this.prepareResult(false, undefined,
           `Invalid startLine: ${startLine}. Line numbers are 1-based. Use -1 to append to end of file.`
         );
@@ -110,8 +153,7 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
           ...afterLines
         ].join('\n');
 
-        await this.app.vault.modify(file, newContent);
-        return this.prepareResult(true);
+        return await save(newContent);
       }
 
       // Validate endLine
@@ -148,14 +190,126 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
         ].join('\n');
       }
 
-      await this.app.vault.modify(file, newContent);
-      return this.prepareResult(true);
+      return await save(newContent, { startLine, endLine });
 
     } catch (error) {
       return this.prepareResult(false, undefined, createErrorMessage('Error updating file: ', error));
     }
   }
 
+  /**
+   * Write new content after checking expectedHash against the file or the targeted range
+   * @param file File to modify
+   * @param path Normalized path (used for snapshots and conflict reporting)
+   * @param existingContent Content the update was computed from
+   * @param newContent Content to write
+   * @param context Tool call context (recorded in the edit journal)
+   * @param expectedHash Optional hash from read (file hash or rangeHash)
+   * @param range Targeted lines in existingContent, whose rangeHash is also accepted
+   * @returns Success (with the new hash when expectedHash was given) or a conflict
+   */
+  private async saveContent(
+    file: TFile,
+    path: string,
+    existingContent: string,
+    newContent: string,
+    context: UpdateParams['context'] | undefined,
+    expectedHash?: string,
+    range?: { startLine: number; endLine: number }
+  ): Promise<UpdateResult> {
+    if (expectedHash === undefined) {
+      await this.modifyJournaled(file, path, existingContent, newContent, context);
+      return this.prepareResult(true);
+    }
+
+    const matchesFile = ContentVersioning.hash(existingContent) === expectedHash;
+    const matchesRange = range !== undefined &&
+      ContentVersioning.hashLines(existingContent.split('\n'), range.startLine, range.endLine) === expectedHash;
+
+    if (!matchesFile && !matchesRange) {
+      const conflict = ContentVersioning.buildConflict(path, expectedHash, existingContent, newContent);
+      return this.prepareResult(false, { conflict }, ContentVersioning.formatConflictMessage(conflict));
+    }
+
+    await this.modifyJournaled(file, path, existingContent, newContent, context);
+    return this.prepareResult(true, { hash: ContentVersioning.remember(path, newContent) });
+  }
+
+  /**
+   * Modify the file and record the before-image in the edit journal
+   */
+  private async modifyJournaled(
+    file: TFile,
+    path: string,
+    existingContent: string,
+    newContent: string,
+    context: UpdateParams['context'] | undefined
+  ): Promise<void> {
+    await this.app.vault.modify(file, newContent);
+    await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context }, [
+      { kind: 'modify', path, before: existingContent, afterHash: ContentVersioning.hash(newContent) }
+    ]);
+  }
+
+  /**
+   * Apply content to a resolved anchor
+   * @param lines Current file lines
+   * @param section Resolved line range of the anchor
+   * @param content Content to apply
+   * @param mode How the content is applied
+   * @param blockId Block id when targeting a block (kept on replaced blocks so links still resolve)
+   * @returns New file content
+   */
+  private applyAnchoredUpdate(
+    lines: string[],
+    section: ResolvedSection,
+    content: string,
+    mode: UpdateMode,
+    blockId?: string
+  ): string {
+    const contentLines = content === '' ? [] : content.split('\n');
+
+    // Returns lines with [fromLine, toLine] (1-based, inclusive) replaced by contentLines
+    const splice = (fromLine: number, toLine: number, replacement: string[]): string => [
+      ...lines.slice(0, fromLine - 1),
+      ...replacement,
+      ...lines.slice(toLine)
+    ].join('\n');
+
+    // Last non-blank line of the body, so trailing spacing before the next heading is kept
+    let lastContentLine = section.endLine;
+    while (lastContentLine >= section.contentStartLine && lines[lastContentLine - 1].trim() === '') {
+      lastContentLine--;
+    }
+
+    switch (mode) {
+      case 'replace': {
+        if (section.kind === 'block' && blockId && contentLines.length > 0) {
+          const marker = `^${blockId.trim().replace(/^\^/, '')}`;
+          if (!content.includes(marker)) {
+            contentLines[contentLines.length - 1] = `${contentLines[contentLines.length - 1]} ${marker}`;
+          }
+        }
+        // An empty section body becomes an insert directly after the heading
+        return splice(section.contentStartLine, lastContentLine, contentLines);
+      }
+
+      case 'append': {
+        const insertAfter = Math.max(lastContentLine, section.contentStartLine - 1);
+        return splice(insertAfter + 1, insertAfter, contentLines);
+      }
+
+      case 'insertBefore':
+        return splice(section.startLine, section.startLine - 1, contentLines);
+
+      case 'insertAfter':
+        return splice(section.endLine + 1, section.endLine, contentLines);
+
+      default:
+        throw new Error(`Invalid mode: "${mode}". Use replace, append, insertBefore, or insertAfter.`);
+    }
+  }
+
   /**
    * Get the JSON schema for the tool's parameters
    * @returns JSON schema object
@@ -174,14 +328,36 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
         },
         startLine: {
           type: 'number',
-          description: 'Start line (1-based). Use -1 to append to end of file. Use 1 to prepend to start.'
+          description: 'Start line (1-based). Use -1 to append to end of file. Use 1 to prepend to start. Required unless heading, blockId, or frontmatterKey is provided.'
         },
         endLine: {
           type: 'number',
           description: 'End line (1-based, inclusive). Omit to INSERT at startLine. Provide to REPLACE range.'
+        },
+        heading: {
+          type: 'string',
+          description: 'Target a section by heading instead of lines, e.g. "## Tasks". Use " > " for nested headings: "Project > Tasks". Write a ">" inside heading text as "\\>".'
+        },
+        blockId: {
+          type: 'string',
+          description: 'Target a block by id instead of lines, e.g. "^abc123"'
+        },
+        frontmatterKey: {
+          type: 'string',
+          description: 'Target a frontmatter entry by key instead of lines (content replaces the whole "key: value" entry)'
+        },
+        mode: {
+          type: 'string',
+          enum: ['replace', 'append', 'insertBefore', 'insertAfter'],
+          description: 'For heading/blockId/frontmatterKey: replace the section body (heading kept), append to the end of the section, or insert before/after the whole target (default: replace)',
+          default: 'replace'
+        },
+        expectedHash: {
+          type: 'string',
+          description: 'hash (or rangeHash of the same lines) from read. Fails with a conflict instead of overwriting if the content changed since.'
         }
       },
-      required: ['path', 'content', 'startLine']
+      required: ['path', 'content']
     };
 
     return this.getMergedSchema(toolSchema);
@@ -202,6 +378,14 @@ export class UpdateTool extends BaseTool<UpdateParams, UpdateResult> {
         error: {
           type: 'string',
           description: 'Error message if failed (includes recovery guidance)'
+        },
+        data: {
+          type: 'object',
+          description: 'Only present when expectedHash was given',
+          properties: {
+            hash: { type: 'string', description: 'New file hash after the update' },
+            conflict: { type: 'object', description: 'Conflict details (path, expectedHash, currentHash, diff) when the content changed' }
+          }
         }
       },
       required: ['success']
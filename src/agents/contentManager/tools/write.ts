@@ -2,7 +2,9 @@ import { App, TFile } from 'obsidian';
 import { BaseTool } from '../../baseTool';
 import { WriteParams, WriteResult } from '../types';
 import { ContentOperations } from '../utils/ContentOperations';
+import { ContentVersioning } from '../utils/ContentVersioning';
 import { createErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
 
 /**
  * Location: src/agents/contentManager/tools/write.ts
@@ -13,6 +15,8 @@ import { createErrorMessage } from '../../../utils/errorUtils';
  * Key Design:
  * - Default behavior is safe (no overwrite)
  * - Explicit overwrite flag required to replace existing files
+ * - Optional expectedHash fails with a conflict if the file changed since it was read
+ * - Changes are recorded in the edit journal so they can be reverted
  * - Clear error messages guide recovery
  *
  * Relationships:
@@ -22,6 +26,7 @@ import { createErrorMessage } from '../../../utils/errorUtils';
  */
 export class WriteTool extends BaseTool<WriteParams, WriteResult> {
   private app: App;
+  receivesContext = true;
 
   /**
    * Create a new WriteTool
@@ -45,7 +50,7 @@ export class WriteTool extends BaseTool<WriteParams, WriteResult> {
    */
   async execute(params: WriteParams): Promise<WriteResult> {
     try {
-      const { content, overwrite = false } = params;
+      const { content, overwrite = false, expectedHash } = params;
       let { path } = params;
 
       // Normalize empty/root paths - generate a filename if only directory is specified
@@ -80,13 +85,34 @@ export class WriteTool extends BaseTool<WriteParams, WriteResult> {
           );
         }
 
+        const currentContent = await this.app.vault.read(existingFile);
+        if (expectedHash !== undefined && ContentVersioning.hash(currentContent) !== expectedHash) {
+          const conflict = ContentVersioning.buildConflict(normalizedPath, expectedHash, currentContent, content);
+          return this.prepareResult(false, { conflict }, ContentVersioning.formatConflictMessage(conflict));
+        }
+
         await this.app.vault.modify(existingFile, content);
+        await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context: params.context }, [
+          { kind: 'modify', path: normalizedPath, before: currentContent, afterHash: ContentVersioning.hash(content) }
+        ]);
       } else {
+        // A version token for a file that no longer exists is a conflict, not a create
+        if (expectedHash !== undefined) {
+          const conflict = ContentVersioning.buildConflict(normalizedPath, expectedHash, null);
+          return this.prepareResult(false, { conflict }, ContentVersioning.formatConflictMessage(conflict));
+        }
+
         // Create new file
         await ContentOperations.createContent(this.app, path, content);
+        await recordAgentEdit(this.app, { agent: 'contentManager', tool: this.slug, context: params.context }, [
+          { kind: 'create', path: normalizedPath, afterHash: ContentVersioning.hash(content) }
+        ]);
       }
 
       // Success - LLM already knows the path and content it passed
+      if (expectedHash !== undefined) {
+        return this.prepareResult(true, { hash: ContentVersioning.remember(normalizedPath, content) });
+      }
       return this.prepareResult(true);
     } catch (error) {
       return this.prepareResult(false, undefined, createErrorMessage('Error writing file: ', error));
@@ -113,6 +139,10 @@ export class WriteTool extends BaseTool<WriteParams, WriteResult> {
           type: 'boolean',
           description: 'Overwrite if file exists (default: false)',
           default: false
+        },
+        expectedHash: {
+          type: 'string',
+          description: 'hash from read. When overwriting, fails with a conflict instead of replacing content that changed since.'
         }
       },
       required: ['path', 'content']
@@ -136,6 +166,14 @@ export class WriteTool extends BaseTool<WriteParams, WriteResult> {
         error: {
           type: 'string',
           description: 'Error message if failed (includes recovery guidance)'
+        },
+        data: {
+          type: 'object',
+          description: 'Only present when expectedHash was given',
+          properties: {
+            hash: { type: 'string', description: 'New file hash after the write' },
+            conflict: { type: 'object', description: 'Conflict details (path, expectedHash, currentHash, diff) when the file changed' }
+          }
         }
       },
       required: ['success']
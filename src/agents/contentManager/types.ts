@@ -1,4 +1,8 @@
 import { CommonParameters, CommonResult } from '../../types';
+import type { ContentConflict } from './utils/ContentVersioning';
+import type { NoteOutline } from './utils/SectionResolver';
+import type { EmbedExpansionStats } from '../../utils/EmbedExpander';
+import type { RevertOutcome } from '../../services/journal/EditJournalService';
 
 // ============================================================================
 // NEW SIMPLIFIED TOOLS (3 tools replacing 8)
@@ -14,14 +18,41 @@ export interface ReadParams extends CommonParameters {
   path: string;
 
   /**
-   * Start line (1-based), REQUIRED - forces intentional positioning
+   * Start line (1-based), REQUIRED unless outline or section is used - forces intentional positioning
    */
-  startLine: number;
+  startLine?: number;
 
   /**
    * End line (1-based, inclusive). If omitted, reads to end of file.
    */
   endLine?: number;
+
+  /**
+   * Return the heading outline (line ranges, word counts, block ids) instead of content
+   */
+  outline?: boolean;
+
+  /**
+   * Read only the section under a heading, e.g. "## Tasks" or "Project > Tasks"
+   */
+  section?: string;
+
+  /**
+   * Inline embedded notes (![[Note]], ![[Note#Heading]], ![[Note#^block]]) after the lines that embed them
+   */
+  expandEmbeds?: boolean;
+
+  /**
+   * Maximum nesting depth for embeds inside embedded notes
+   * @default 3
+   */
+  maxEmbedDepth?: number;
+
+  /**
+   * Token budget for all inlined embed content
+   * @default 4000
+   */
+  maxEmbedTokens?: number;
 }
 
 /**
@@ -30,9 +61,9 @@ export interface ReadParams extends CommonParameters {
 export interface ReadResult extends CommonResult {
   data?: {
     /**
-     * Content of the file
+     * Content of the file (absent in outline mode)
      */
-    content: string;
+    content?: string;
 
     /**
      * Path to the file
@@ -42,12 +73,32 @@ export interface ReadResult extends CommonResult {
     /**
      * Starting line that was read
      */
-    startLine: number;
+    startLine?: number;
 
     /**
      * Ending line that was read (if applicable)
      */
     endLine?: number;
+
+    /**
+     * Hash of the whole file (pass as expectedHash to write/update)
+     */
+    hash: string;
+
+    /**
+     * Hash of the returned lines (pass as expectedHash to update the same range or heading)
+     */
+    rangeHash?: string;
+
+    /**
+     * Heading outline of the note (outline mode)
+     */
+    outline?: NoteOutline;
+
+    /**
+     * Embeds expanded and skipped (expandEmbeds only)
+     */
+    embeds?: EmbedExpansionStats;
   };
 }
 
@@ -69,6 +120,11 @@ export interface WriteParams extends CommonParameters {
    * Overwrite if file exists (default: false)
    */
   overwrite?: boolean;
+
+  /**
+   * Hash from read. If set, the write fails with a conflict when the file changed since that read.
+   */
+  expectedHash?: string;
 }
 
 /**
@@ -76,6 +132,23 @@ export interface WriteParams extends CommonParameters {
  */
 export interface WriteResult extends CommonResult {
   // No data returned - LLM already knows the path and content it passed
+  // (when expectedHash was given, data carries the new hash, or the conflict on failure)
+  data?: VersionedWriteData;
+}
+
+/**
+ * Data returned by write/update when expectedHash is used
+ */
+export interface VersionedWriteData {
+  /**
+   * Hash of the file after a successful write
+   */
+  hash?: string;
+
+  /**
+   * Conflict details when expectedHash did not match
+   */
+  conflict?: ContentConflict;
 }
 
 /**
@@ -94,20 +167,729 @@ export interface UpdateParams extends CommonParameters {
 
   /**
    * Start line (1-based). Use -1 to append to end of file.
+   * Required unless heading, blockId, or frontmatterKey is provided.
    */
-  startLine: number;
+  startLine?: number;
 
   /**
    * End line (1-based, inclusive). Omit to INSERT at startLine. Provide to REPLACE range.
    */
   endLine?: number;
+
+  /**
+   * Heading to target instead of line numbers, e.g. "## Tasks" or "Project > Tasks" for nested headings
+   */
+  heading?: string;
+
+  /**
+   * Block id to target instead of line numbers, e.g. "^abc123"
+   */
+  blockId?: string;
+
+  /**
+   * Frontmatter key to target instead of line numbers
+   */
+  frontmatterKey?: string;
+
+  /**
+   * How content is applied to an anchored target (default: replace)
+   */
+  mode?: UpdateMode;
+
+  /**
+   * Hash from read (file hash, or rangeHash of the targeted lines).
+   * If set, the update fails with a conflict when the content changed since that read.
+   */
+  expectedHash?: string;
 }
 
+/**
+ * Modes for anchored updates (heading, blockId, frontmatterKey)
+ * - replace: replace the section body (heading line is kept) or the whole block/key entry
+ * - append: add content at the end of the section, block, or key entry
+ * - insertBefore: insert content before the target (before the heading line for sections)
+ * - insertAfter: insert content after the whole target
+ */
+export type UpdateMode = 'replace' | 'append' | 'insertBefore' | 'insertAfter';
+
 /**
  * Result of updating content in a file
  */
 export interface UpdateResult extends CommonResult {
   // No data returned - LLM already knows the path, content, and lines it passed
+  // (when expectedHash was given, data carries the new hash, or the conflict on failure)
+  data?: VersionedWriteData;
+}
+
+/**
+ * Search/replace hunks for one file in a patch call
+ */
+export interface PatchFileEdit {
+  /**
+   * Path to the file to patch
+   */
+  path: string;
+
+  /**
+   * Hunks applied in order. search should include a few lines of surrounding context.
+   */
+  hunks: Array<{ search: string; replace: string }>;
+}
+
+/**
+ * Params for applying a patch (unified diff or search/replace hunks) to one or more files
+ */
+export interface PatchParams extends CommonParameters {
+  /**
+   * Unified diff, may contain several files
+   */
+  diff?: string;
+
+  /**
+   * Target path for a diff without "---"/"+++" headers
+   */
+  path?: string;
+
+  /**
+   * Search/replace hunks per file (alternative to diff)
+   */
+  edits?: PatchFileEdit[];
+
+  /**
+   * Fuzzy match threshold from 0 (exact only) to 1 (default: 0.3)
+   */
+  fuzz?: number;
+}
+
+/**
+ * Per-file outcome of a patch
+ */
+export interface PatchFileResult {
+  /**
+   * Path of the file
+   */
+  path: string;
+
+  /**
+   * Whether the file was written (all hunks applied)
+   */
+  applied: boolean;
+
+  /**
+   * Number of hunks that applied
+   */
+  hunksApplied: number;
+
+  /**
+   * Number of hunks that needed fuzzy matching
+   */
+  hunksFuzzy?: number;
+
+  /**
+   * Hunks that did not apply (file left unchanged)
+   */
+  failedHunks?: Array<{ index: number; label: string; reason: string }>;
+
+  /**
+   * File-level error (not found, unsupported operation)
+   */
+  error?: string;
+
+  /**
+   * Whether the file was created by the patch
+   */
+  created?: boolean;
+}
+
+/**
+ * Result of applying a patch
+ */
+export interface PatchResult extends CommonResult {
+  data?: {
+    /**
+     * Outcome per file
+     */
+    files: PatchFileResult[];
+  };
+}
+
+/**
+ * Params for reverting agent changes recorded in the edit journal
+ * With no selector, the last change of the current session is reverted.
+ */
+export interface RevertParams extends CommonParameters {
+  /**
+   * Journal entry to revert
+   */
+  entryId?: string;
+
+  /**
+   * Revert every change made by this tool call
+   */
+  toolCallId?: string;
+
+  /**
+   * Revert every change made in this session
+   */
+  sessionId?: string;
+
+  /**
+   * Revert the most recent change to this file
+   */
+  path?: string;
+
+  /**
+   * List recent journal entries instead of reverting
+   */
+  list?: boolean;
+
+  /**
+   * Maximum entries to list (default: 20)
+   */
+  limit?: number;
+
+  /**
+   * Report what would be reverted without changing anything
+   */
+  dryRun?: boolean;
+
+  /**
+   * Revert even if the files changed after the agent edit
+   */
+  force?: boolean;
+}
+
+/**
+ * Journal entry summary returned by revert
+ */
+export interface JournalEntrySummary {
+  id: string;
+  timestamp: string;
+  tool: string;
+  paths: string[];
+  toolCallId?: string;
+  sessionId?: string;
+  reverted: boolean;
+}
+
+/**
+ * Result of a revert call
+ */
+export interface RevertResult extends CommonResult {
+  data?: {
+    /**
+     * Journal entries (list mode)
+     */
+    entries?: JournalEntrySummary[];
+
+    /**
+     * Outcome per reverted entry
+     */
+    outcomes?: RevertOutcome[];
+  };
+}
+
+/**
+ * Operation performed by the properties tool
+ */
+export type PropertiesOperation = 'get' | 'set' | 'delete' | 'append';
+
+/**
+ * Params for reading or changing frontmatter properties of one or more notes
+ */
+export interface PropertiesParams extends CommonParameters {
+  /**
+   * get, set, delete, or append (add items to list-valued keys)
+   */
+  operation: PropertiesOperation;
+
+  /**
+   * Path to a single note
+   */
+  path?: string;
+
+  /**
+   * Paths, folders, or glob patterns (e.g. "Projects/**\/*.md") selecting several notes
+   */
+  paths?: string[];
+
+  /**
+   * Key/value pairs for set and append
+   */
+  properties?: Record<string, unknown>;
+
+  /**
+   * Keys to get (default: all) or delete
+   */
+  keys?: string[];
+}
+
+/**
+ * Per-note outcome of a properties call
+ */
+export interface PropertiesFileResult {
+  /**
+   * Path of the note
+   */
+  path: string;
+
+  /**
+   * Requested properties (get)
+   */
+  properties?: Record<string, unknown>;
+
+  /**
+   * Keys that were changed (set/delete/append)
+   */
+  changed?: string[];
+
+  /**
+   * Why the note was left unchanged
+   */
+  error?: string;
+}
+
+/**
+ * Result of a properties call
+ */
+export interface PropertiesResult extends CommonResult {
+  data?: {
+    /**
+     * Outcome per note
+     */
+    files: PropertiesFileResult[];
+  };
+}
+
+/**
+ * Params for vault-wide find and replace
+ * Without a token the call is a dry run that returns matches and a preview token;
+ * passing the token applies exactly the previewed replacements.
+ */
+export interface FindReplaceParams extends CommonParameters {
+  /**
+   * Text or regular expression to find (preview only)
+   */
+  find?: string;
+
+  /**
+   * Replacement text; in regex mode $1, $<name> and $& refer to the match (preview only)
+   */
+  replace?: string;
+
+  /**
+   * Treat find as a regular expression (^ and $ match at line boundaries)
+   * @default false
+   */
+  regex?: boolean;
+
+  /**
+   * Whether matching is case sensitive
+   * @default true
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Only match whole words
+   * @default false
+   */
+  wholeWord?: boolean;
+
+  /**
+   * Notes, folders, or glob patterns to search (default: all markdown notes)
+   */
+  paths?: string[];
+
+  /**
+   * Preview token to apply
+   */
+  token?: string;
+
+  /**
+   * Match ids from the preview to leave unchanged when applying
+   */
+  exclude?: string[];
+}
+
+/**
+ * One match in a find and replace preview
+ */
+export interface FindReplaceMatch {
+  /**
+   * Match id, usable in exclude (e.g. "3:2" = file 3, match 2)
+   */
+  id: string;
+
+  /**
+   * Path of the note
+   */
+  path: string;
+
+  /**
+   * Line of the match start (1-based)
+   */
+  line: number;
+
+  /**
+   * Column of the match start (1-based)
+   */
+  column: number;
+
+  /**
+   * Matched text
+   */
+  match: string;
+
+  /**
+   * Text the match will be replaced with
+   */
+  replacement: string;
+
+  /**
+   * Line as it is now
+   */
+  before: string;
+
+  /**
+   * Line after the replacement
+   */
+  after: string;
+}
+
+/**
+ * Per-note outcome of applying a preview
+ */
+export interface FindReplaceFileResult {
+  /**
+   * Path of the note
+   */
+  path: string;
+
+  /**
+   * Number of replacements made
+   */
+  replacements: number;
+
+  /**
+   * Why the note was left unchanged (e.g. edited since the preview)
+   */
+  error?: string;
+}
+
+/**
+ * Result of a find and replace call
+ */
+export interface FindReplaceResult extends CommonResult {
+  data?: {
+    /**
+     * Token to pass back to apply the preview (dry run only)
+     */
+    token?: string;
+
+    /**
+     * When the token expires (dry run only)
+     */
+    expiresAt?: number;
+
+    /**
+     * Number of notes searched (dry run only)
+     */
+    filesSearched?: number;
+
+    /**
+     * Number of notes with matches
+     */
+    filesMatched: number;
+
+    /**
+     * Total number of matches (dry run) or replacements made (apply)
+     */
+    totalMatches: number;
+
+    /**
+     * Matches with line previews (dry run only; every match, or the first ones if truncated)
+     */
+    matches?: FindReplaceMatch[];
+
+    /**
+     * True if not every match is listed in matches (the preview then has no token)
+     */
+    truncated?: boolean;
+
+    /**
+     * Outcome per note (apply only)
+     */
+    files?: FindReplaceFileResult[];
+  };
+}
+
+/**
+ * Params for creating a note from a template
+ */
+export interface FromTemplateParams extends CommonParameters {
+  /**
+   * Template note: a path, or a name in the templates folder
+   */
+  template: string;
+
+  /**
+   * Path of the note to create (a folder path ending in "/" uses title as the file name)
+   */
+  path: string;
+
+  /**
+   * Value for {{title}} (default: the new note's file name)
+   */
+  title?: string;
+
+  /**
+   * Values for custom {{variables}} in the template
+   */
+  variables?: Record<string, string | number | boolean>;
+
+  /**
+   * Frontmatter properties merged over the template's frontmatter
+   */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Result of creating a note from a template
+ */
+export interface FromTemplateResult extends CommonResult {
+  data?: {
+    /**
+     * Path of the created note
+     */
+    path: string;
+
+    /**
+     * Template the note was created from
+     */
+    template: string;
+
+    /**
+     * Supplied variables the template does not use
+     */
+    unusedVariables?: string[];
+  };
+}
+
+/**
+ * A {{variable}} used in a template
+ */
+export interface TemplateVariable {
+  /**
+   * Variable name (title, date and time are built in)
+   */
+  name: string;
+
+  /**
+   * Moment.js format, for {{date:FORMAT}} and {{time:FORMAT}}
+   */
+  format?: string;
+
+  /**
+   * True for title, date and time (filled automatically)
+   */
+  builtin: boolean;
+}
+
+/**
+ * Params for listing templates
+ */
+export interface ListTemplatesParams extends CommonParameters {
+  /**
+   * Folder to list (default: the templates folder of the Templates core plugin or Templater)
+   */
+  folder?: string;
+}
+
+/**
+ * A template as listed
+ */
+export interface TemplateInfo {
+  /**
+   * Path of the template note
+   */
+  path: string;
+
+  /**
+   * Template name (file name without extension)
+   */
+  name: string;
+
+  /**
+   * Variables used in the template
+   */
+  variables: TemplateVariable[];
+
+  /**
+   * Frontmatter properties the template sets
+   */
+  properties: string[];
+}
+
+/**
+ * Result of listing templates
+ */
+export interface ListTemplatesResult extends CommonResult {
+  data?: {
+    /**
+     * Folder that was listed
+     */
+    folder: string;
+
+    /**
+     * Templates in the folder (including subfolders)
+     */
+    templates: TemplateInfo[];
+  };
+}
+
+/**
+ * Operation performed by the tags tool
+ */
+export type TagsOperation = 'list' | 'find' | 'rename' | 'merge';
+
+/**
+ * Params for listing, finding, renaming and merging tags
+ * Tags are matched case-insensitively, with or without "#"; a tag also matches its nested tags (proj matches proj/alpha).
+ */
+export interface TagsParams extends CommonParameters {
+  /**
+   * list, find, rename, or merge
+   */
+  operation: TagsOperation;
+
+  /**
+   * Notes, folders, or glob patterns to limit the operation to (default: whole vault)
+   */
+  paths?: string[];
+
+  /**
+   * Only list this tag and its nested tags (list)
+   */
+  prefix?: string;
+
+  /**
+   * Notes must have all of these tags (find)
+   */
+  all?: string[];
+
+  /**
+   * Notes must have at least one of these tags (find)
+   */
+  any?: string[];
+
+  /**
+   * Notes must have none of these tags (find)
+   */
+  none?: string[];
+
+  /**
+   * Tag to rename, or tags to merge
+   */
+  from?: string | string[];
+
+  /**
+   * New tag name (rename) or tag to merge into (merge)
+   */
+  to?: string;
+
+  /**
+   * Report what rename/merge would change without writing
+   */
+  dryRun?: boolean;
+
+  /**
+   * Maximum tags or notes to return (default: 200)
+   */
+  limit?: number;
+}
+
+/**
+ * A tag with its usage counts
+ */
+export interface TagInfo {
+  /**
+   * Tag without "#" (most used spelling)
+   */
+  tag: string;
+
+  /**
+   * Notes using the tag
+   */
+  notes: number;
+
+  /**
+   * Inline #tag occurrences
+   */
+  inline: number;
+
+  /**
+   * Notes with the tag in frontmatter
+   */
+  frontmatter: number;
+
+  /**
+   * Other spellings in use (different case)
+   */
+  variants?: string[];
+}
+
+/**
+ * Per-note outcome of a rename or merge
+ */
+export interface TagChangeFileResult {
+  path: string;
+
+  /**
+   * Inline tags changed
+   */
+  inline: number;
+
+  /**
+   * Frontmatter tags changed
+   */
+  frontmatter: number;
+
+  /**
+   * Why the note was left unchanged
+   */
+  error?: string;
+}
+
+/**
+ * Result of a tags call
+ */
+export interface TagsResult extends CommonResult {
+  data?: {
+    /**
+     * Tags with counts (list)
+     */
+    tags?: TagInfo[];
+
+    /**
+     * Matching notes with their tags (find)
+     */
+    notes?: Array<{ path: string; tags: string[] }>;
+
+    /**
+     * Notes changed, or that would change (rename/merge)
+     */
+    files?: TagChangeFileResult[];
+
+    /**
+     * Total tags, notes, or changed notes before the limit
+     */
+    total: number;
+
+    /**
+     * True if nothing was written
+     */
+    dryRun?: boolean;
+  };
 }
 
 // ============================================================================
@@ -0,0 +1,205 @@
+import { diff_match_patch } from 'diff-match-patch';
+
+/**
+ * Location: src/agents/contentManager/utils/ContentVersioning.ts
+ *
+ * Optimistic concurrency helpers for ContentManager.
+ * - read returns content hashes (per file and per returned range)
+ * - write/update accept an expectedHash and fail with a conflict if the file changed
+ *
+ * Recently read snapshots are kept in memory (bounded) so a conflict can show
+ * what changed since the agent's read instead of only the proposed edit.
+ *
+ * Relationships:
+ * - Used by ReadTool, WriteTool, UpdateTool
+ */
+
+/**
+ * Structured conflict details returned in result data when expectedHash does not match
+ */
+export interface ContentConflict {
+  /** Path of the conflicting file */
+  path: string;
+
+  /** Hash the caller expected */
+  expectedHash: string;
+
+  /** Hash of the file as it is now (null if the file no longer exists) */
+  currentHash: string | null;
+
+  /** Compact line diff ("-N:" removed from old line N, "+N:" added at new line N) */
+  diff: string;
+
+  /** What the diff compares: changes since the caller's read, or current vs proposed content */
+  diffBasis: 'sinceRead' | 'proposed';
+}
+
+/** Maximum number of snapshots kept for conflict diffs */
+const MAX_SNAPSHOTS = 50;
+
+/** Maximum snapshot size kept in memory (characters) */
+const MAX_SNAPSHOT_LENGTH = 200_000;
+
+/** Maximum number of changed lines shown in a conflict diff */
+const MAX_DIFF_LINES = 20;
+
+/**
+ * Utility class for content hashes and conflict reporting
+ */
+export class ContentVersioning {
+  /** Recently read content keyed by path + hash (insertion order used for eviction) */
+  private static snapshots: Map<string, string> = new Map();
+
+  /**
+   * Hash content (FNV-1a, 32-bit) with the content length as a prefix
+   * @param content Content to hash
+   * @returns Short hash string, e.g. "1k3-9f2a6c1e"
+   */
+  static hash(content: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+      hash ^= content.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return `${content.length.toString(36)}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+  }
+
+  /**
+   * Hash a range of lines (1-based, inclusive)
+   * @param lines File lines
+   * @param startLine First line of the range
+   * @param endLine Last line of the range
+   * @returns Hash of the joined lines
+   */
+  static hashLines(lines: string[], startLine: number, endLine: number): string {
+    return this.hash(lines.slice(Math.max(0, startLine - 1), Math.max(0, endLine)).join('\n'));
+  }
+
+  /**
+   * Remember content that was returned to a caller, so later conflicts can be diffed against it
+   * @param path File path
+   * @param content Full file content
+   * @returns Hash of the content
+   */
+  static remember(path: string, content: string): string {
+    const hash = this.hash(content);
+    if (content.length > MAX_SNAPSHOT_LENGTH) {
+      return hash;
+    }
+
+    const key = `${path}\u0000${hash}`;
+    this.snapshots.delete(key);
+    this.snapshots.set(key, content);
+
+    while (this.snapshots.size > MAX_SNAPSHOTS) {
+      const oldest = this.snapshots.keys().next().value;
+      if (oldest === undefined) break;
+      this.snapshots.delete(oldest);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Build conflict details for a failed expectedHash check
+   * @param path File path
+   * @param expectedHash Hash the caller expected
+   * @param currentContent Current file content (null if the file no longer exists)
+   * @param proposedContent Content the caller tried to write (used when no snapshot is available)
+   * @returns Conflict details
+   */
+  static buildConflict(
+    path: string,
+    expectedHash: string,
+    currentContent: string | null,
+    proposedContent?: string
+  ): ContentConflict {
+    const snapshot = this.snapshots.get(`${path}\u0000${expectedHash}`);
+    const current = currentContent ?? '';
+
+    let diff: string;
+    let diffBasis: ContentConflict['diffBasis'];
+    if (snapshot !== undefined) {
+      diff = this.lineDiff(snapshot, current);
+      diffBasis = 'sinceRead';
+    } else {
+      diff = this.lineDiff(current, proposedContent ?? '');
+      diffBasis = 'proposed';
+    }
+
+    return {
+      path,
+      expectedHash,
+      currentHash: currentContent === null ? null : this.hash(currentContent),
+      diff,
+      diffBasis
+    };
+  }
+
+  /**
+   * Format a conflict as an error message with recovery guidance
+   * @param conflict Conflict details
+   * @returns Error message
+   */
+  static formatConflictMessage(conflict: ContentConflict): string {
+    if (conflict.currentHash === null) {
+      return `Conflict: "${conflict.path}" no longer exists (expected hash ${conflict.expectedHash}). Use searchContent to find where it went.`;
+    }
+
+    const basis = conflict.diffBasis === 'sinceRead'
+      ? 'Changes since your read'
+      : 'Current content vs your proposed content';
+
+    return `Conflict: "${conflict.path}" changed since it was read (expected hash ${conflict.expectedHash}, current hash ${conflict.currentHash}). ` +
+      `Re-read the affected lines and retry with expectedHash: "${conflict.currentHash}".\n${basis}:\n${conflict.diff || '(no line changes)'}`;
+  }
+
+  /**
+   * Produce a compact line diff between two texts
+   * @param before Original text
+   * @param after Changed text
+   * @returns Diff lines prefixed with "-" or "+", truncated to MAX_DIFF_LINES
+   */
+  static lineDiff(before: string, after: string): string {
+    const dmp = new diff_match_patch();
+    const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(before, after);
+    const diffs = dmp.diff_main(chars1, chars2, false);
+    dmp.diff_charsToLines_(diffs, lineArray);
+
+    const output: string[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    let omitted = 0;
+
+    for (const [operation, text] of diffs) {
+      const lines = text.endsWith('\n') ? text.slice(0, -1).split('\n') : text.split('\n');
+
+      if (operation === diff_match_patch.DIFF_EQUAL) {
+        oldLine += lines.length;
+        newLine += lines.length;
+        continue;
+      }
+
+      // Removed lines are numbered in the old text, added lines in the new text
+      const isDelete = operation === diff_match_patch.DIFF_DELETE;
+      for (const line of lines) {
+        if (output.length < MAX_DIFF_LINES) {
+          output.push(isDelete ? `-${oldLine}: ${line}` : `+${newLine}: ${line}`);
+        } else {
+          omitted++;
+        }
+        if (isDelete) {
+          oldLine++;
+        } else {
+          newLine++;
+        }
+      }
+    }
+
+    if (omitted > 0) {
+      output.push(`... ${omitted} more changed lines`);
+    }
+
+    return output.join('\n');
+  }
+}
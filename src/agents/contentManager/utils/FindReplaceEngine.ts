@@ -0,0 +1,292 @@
+import { generateUUID } from '../../../utils/uuid';
+
+/**
+ * Location: src/agents/contentManager/utils/FindReplaceEngine.ts
+ *
+ * Matching and preview storage for vault-wide find and replace.
+ * - Literal or regex patterns with case and whole-word options
+ * - Matches are recorded with offsets and their expanded replacement, so applying
+ *   a preview replaces exactly what was shown (no re-matching at apply time)
+ * - Previews are kept in memory (bounded, short-lived) and redeemed once by token
+ *
+ * Relationships:
+ * - Used by FindReplaceTool
+ */
+
+/**
+ * Options that define a find and replace
+ */
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+/**
+ * One match in a note's content
+ */
+export interface TextMatch {
+  /** Offset of the match in the content */
+  index: number;
+  /** Matched text */
+  match: string;
+  /** Expanded replacement text */
+  replacement: string;
+  /** Line of the match start (1-based) */
+  line: number;
+  /** Column of the match start (1-based) */
+  column: number;
+}
+
+/**
+ * Matches in one note, with the hash of the content they were found in
+ */
+export interface PreviewFile {
+  path: string;
+  hash: string;
+  matches: TextMatch[];
+}
+
+/**
+ * A stored preview that can be applied by token
+ */
+export interface FindReplacePreview {
+  token: string;
+  expiresAt: number;
+  options: FindReplaceOptions;
+  files: PreviewFile[];
+}
+
+/** How long a preview token stays valid */
+const PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+/** Maximum number of previews kept in memory */
+const MAX_PREVIEWS = 20;
+
+/** Maximum characters of a line shown in a preview */
+const MAX_PREVIEW_LINE_LENGTH = 240;
+
+/** Characters that count as part of a word for whole-word matching */
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/**
+ * Utility class for find and replace matching and previews
+ */
+export class FindReplaceEngine {
+  /** Stored previews keyed by token (insertion order used for eviction) */
+  private static previews: Map<string, FindReplacePreview> = new Map();
+
+  /**
+   * Build the global pattern for a find and replace
+   * ^ and $ match at line boundaries in regex mode.
+   * Whole-word matching uses Unicode word boundaries in both modes, so "café" is not matched
+   * inside "cafés"; this needs Unicode mode, which is stricter about regex syntax.
+   * @param options Find and replace options
+   * @returns Global regular expression
+   * @throws Error if the regular expression is invalid
+   */
+  static buildPattern(options: FindReplaceOptions): RegExp {
+    let source = options.regex ? `(?:${options.find})` : this.escapeRegExp(options.find);
+    let flags = 'gm' + (options.caseSensitive ? '' : 'i');
+
+    // Literal text is always escaped for Unicode mode; regexes keep their own syntax unless wholeWord needs \p{}
+    if (!options.regex || options.wholeWord) {
+      flags += 'u';
+    }
+    if (options.wholeWord) {
+      source = `(?<!${WORD_CHAR})${source}(?!${WORD_CHAR})`;
+    }
+
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      if (options.regex && options.wholeWord) {
+        throw new Error(`${error instanceof Error ? error.message : String(error)} (wholeWord uses Unicode mode: escape only special characters)`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find all non-empty matches in content
+   * @param content Note content
+   * @param pattern Global pattern from buildPattern
+   * @param options Find and replace options (for replacement expansion)
+   * @returns Matches in content order
+   */
+  static findMatches(content: string, pattern: RegExp, options: FindReplaceOptions): TextMatch[] {
+    const matches: TextMatch[] = [];
+    let line = 1;
+    let lineStart = 0;
+    let scanned = 0;
+
+    pattern.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = pattern.exec(content)) !== null) {
+      if (result[0].length === 0) {
+        // Empty matches (e.g. "^" or "x*") would insert text everywhere; skip them
+        pattern.lastIndex++;
+        continue;
+      }
+
+      for (; scanned < result.index; scanned++) {
+        if (content.charCodeAt(scanned) === 10) {
+          line++;
+          lineStart = scanned + 1;
+        }
+      }
+
+      matches.push({
+        index: result.index,
+        match: result[0],
+        replacement: options.regex ? this.expandReplacement(options.replace, result, content) : options.replace,
+        line,
+        column: result.index - lineStart + 1
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Replace the given matches in content
+   * @param content Content the matches were found in
+   * @param matches Matches to replace (content order)
+   * @returns New content
+   */
+  static applyMatches(content: string, matches: TextMatch[]): string {
+    let output = '';
+    let position = 0;
+    for (const match of matches) {
+      output += content.slice(position, match.index) + match.replacement;
+      position = match.index + match.match.length;
+    }
+    return output + content.slice(position);
+  }
+
+  /**
+   * Show the line containing a match, as it is now and after the replacement
+   * Matches that span lines show the start line joined with the rest of the end line.
+   * @param content Note content
+   * @param match Match to preview
+   * @returns Line before and after, clipped around the match
+   */
+  static previewLine(content: string, match: TextMatch): { before: string; after: string } {
+    const lineStart = match.index - match.column + 1;
+    const matchEnd = match.index + match.match.length;
+    const startLineEnd = this.lineEnd(content, match.index);
+    const endLineEnd = this.lineEnd(content, matchEnd);
+
+    const prefix = content.slice(lineStart, match.index);
+    return {
+      before: this.clip(content.slice(lineStart, startLineEnd), prefix.length),
+      after: this.clip(prefix + match.replacement + content.slice(matchEnd, endLineEnd), prefix.length)
+    };
+  }
+
+  /**
+   * Store a preview and return it with its token
+   * @param options Options the preview was made with
+   * @param files Notes with matches
+   * @returns The stored preview
+   */
+  static storePreview(options: FindReplaceOptions, files: PreviewFile[]): FindReplacePreview {
+    this.pruneExpired();
+    while (this.previews.size >= MAX_PREVIEWS) {
+      const oldest = this.previews.keys().next().value;
+      if (oldest === undefined) break;
+      this.previews.delete(oldest);
+    }
+
+    const preview: FindReplacePreview = {
+      token: `fr_${generateUUID().replace(/-/g, '').slice(0, 16)}`,
+      expiresAt: Date.now() + PREVIEW_TTL_MS,
+      options,
+      files
+    };
+    this.previews.set(preview.token, preview);
+    return preview;
+  }
+
+  /**
+   * Redeem a preview token (each token can be used once)
+   * @param token Token returned by storePreview
+   * @returns The preview, or null if unknown or expired
+   */
+  static takePreview(token: string): FindReplacePreview | null {
+    this.pruneExpired();
+    const preview = this.previews.get(token);
+    if (!preview) {
+      return null;
+    }
+    this.previews.delete(token);
+    return preview;
+  }
+
+  /**
+   * Expand $-patterns in a regex replacement ($$, $&, $`, $', $1-$99, $<name>)
+   */
+  private static expandReplacement(template: string, result: RegExpExecArray, content: string): string {
+    if (!template.includes('$')) {
+      return template;
+    }
+
+    const captures = result.length - 1;
+    const matchEnd = result.index + result[0].length;
+
+    return template.replace(/\$(\$|&|`|'|\d{1,2}|<[^>]*>)/g, (token: string, ref: string) => {
+      if (ref === '$') return '$';
+      if (ref === '&') return result[0];
+      if (ref === '`') return content.slice(0, result.index);
+      if (ref === "'") return content.slice(matchEnd);
+
+      if (ref.startsWith('<')) {
+        if (!result.groups) return token;
+        return result.groups[ref.slice(1, -1)] ?? '';
+      }
+
+      // Two-digit references fall back to one digit plus a literal when out of range
+      const twoDigit = Number(ref);
+      if (ref.length === 2 && twoDigit >= 1 && twoDigit <= captures) {
+        return result[twoDigit] ?? '';
+      }
+      const oneDigit = Number(ref[0]);
+      if (oneDigit >= 1 && oneDigit <= captures) {
+        return (result[oneDigit] ?? '') + ref.slice(1);
+      }
+      return token;
+    });
+  }
+
+  private static lineEnd(content: string, from: number): number {
+    const end = content.indexOf('\n', from);
+    return end === -1 ? content.length : end;
+  }
+
+  /**
+   * Clip a long line to a window around the match position
+   */
+  private static clip(text: string, focus: number): string {
+    if (text.length <= MAX_PREVIEW_LINE_LENGTH) {
+      return text;
+    }
+    const start = Math.max(0, Math.min(focus - MAX_PREVIEW_LINE_LENGTH / 3, text.length - MAX_PREVIEW_LINE_LENGTH));
+    const end = start + MAX_PREVIEW_LINE_LENGTH;
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+
+  private static pruneExpired(): void {
+    const now = Date.now();
+    for (const [token, preview] of this.previews) {
+      if (preview.expiresAt <= now) {
+        this.previews.delete(token);
+      }
+    }
+  }
+
+  private static escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,191 @@
+import { getFrontMatterInfo, parseYaml } from 'obsidian';
+import type { PropertyDefinition, PropertySchema } from '../../../database/types/workspace/WorkspaceTypes';
+
+/**
+ * Location: src/agents/contentManager/utils/FrontmatterProperties.ts
+ *
+ * Helpers for structured frontmatter (property) edits.
+ * - Parses frontmatter from content (never from a possibly stale metadata cache)
+ * - Coerces incoming values to the property's type (schema type, or the type already in the note)
+ * - Validates values against a workspace property schema
+ *
+ * Relationships:
+ * - Used by PropertiesTool
+ * - PropertySchema is stored in the workspace context (propertySchema)
+ */
+
+/** YYYY-MM-DD */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** YYYY-MM-DDTHH:mm with optional seconds */
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Utility class for frontmatter property operations
+ */
+export class FrontmatterProperties {
+  /**
+   * Parse the frontmatter of a note
+   * @param content Note content
+   * @returns Frontmatter object (empty if the note has none)
+   * @throws Error if the YAML is invalid
+   */
+  static parse(content: string): Record<string, unknown> {
+    const info = getFrontMatterInfo(content);
+    if (!info.exists || !info.frontmatter.trim()) {
+      return {};
+    }
+
+    const parsed = parseYaml(info.frontmatter);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+  }
+
+  /**
+   * Coerce a value to the property's type
+   * Uses the schema type when defined, otherwise the type of the value already in the note
+   * (so "5" stays a number on a numeric property and "true" a boolean on a checkbox).
+   * @param value Incoming value
+   * @param existing Current value in the note (undefined if the key is new)
+   * @param definition Schema definition for the key, if any
+   * @returns Coerced value (unchanged if it cannot be coerced; validation reports that)
+   */
+  static coerce(value: unknown, existing: unknown, definition?: PropertyDefinition): unknown {
+    const type = definition?.type ?? this.inferType(existing);
+
+    switch (type) {
+      case 'number':
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+          return Number(value);
+        }
+        return value;
+      case 'checkbox':
+        if (value === 'true' || value === 'false') {
+          return value === 'true';
+        }
+        return value;
+      case 'list':
+        if (value === null || value === undefined || Array.isArray(value)) {
+          return value;
+        }
+        return [value];
+      case 'text':
+        return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      case 'date':
+        return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+      case 'datetime':
+        return value instanceof Date ? value.toISOString().slice(0, 19) : value;
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Append values to a list property, skipping values already present
+   * A scalar value already in the note becomes the first list item.
+   * @param existing Current value in the note
+   * @param values Values to append
+   * @returns The new list
+   */
+  static appendValues(existing: unknown, values: unknown[]): unknown[] {
+    const list: unknown[] = existing === undefined || existing === null
+      ? []
+      : Array.isArray(existing) ? [...existing] : [existing];
+
+    for (const value of values) {
+      if (!list.some(item => this.isSameValue(item, value))) {
+        list.push(value);
+      }
+    }
+
+    return list;
+  }
+
+  /**
+   * Validate a value against its schema definition
+   * @param key Property key
+   * @param value Value about to be written
+   * @param definition Schema definition (no definition means anything is allowed)
+   * @returns Error message, or null if valid
+   */
+  static validate(key: string, value: unknown, definition?: PropertyDefinition): string | null {
+    if (!definition || value === null) {
+      return null;
+    }
+
+    const describe = (v: unknown) => JSON.stringify(v);
+
+    switch (definition.type) {
+      case 'number':
+        if (typeof value !== 'number' || isNaN(value)) {
+          return `"${key}" must be a number (got ${describe(value)})`;
+        }
+        break;
+      case 'checkbox':
+        if (typeof value !== 'boolean') {
+          return `"${key}" must be true or false (got ${describe(value)})`;
+        }
+        break;
+      case 'date':
+        if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+          return `"${key}" must be a date in YYYY-MM-DD format (got ${describe(value)})`;
+        }
+        break;
+      case 'datetime':
+        if (typeof value !== 'string' || !DATETIME_PATTERN.test(value)) {
+          return `"${key}" must be a date-time in YYYY-MM-DDTHH:mm format (got ${describe(value)})`;
+        }
+        break;
+      case 'list':
+        if (!Array.isArray(value)) {
+          return `"${key}" must be a list (got ${describe(value)})`;
+        }
+        break;
+      case 'text':
+        if (typeof value !== 'string') {
+          return `"${key}" must be text (got ${describe(value)})`;
+        }
+        break;
+    }
+
+    if (definition.allowed && definition.allowed.length > 0) {
+      const items = Array.isArray(value) ? value : [value];
+      const invalid = items.filter(item => !definition.allowed?.some(allowed => this.isSameValue(allowed, item)));
+      if (invalid.length > 0) {
+        return `"${key}" does not allow ${invalid.map(describe).join(', ')}. Allowed: ${definition.allowed.map(describe).join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that a key may be deleted under the schema
+   * @returns Error message, or null if the key is not required
+   */
+  static validateDelete(key: string, schema?: PropertySchema): string | null {
+    if (schema?.[key]?.required) {
+      return `"${key}" is required by the workspace property schema and cannot be deleted`;
+    }
+    return null;
+  }
+
+  /**
+   * Infer a property type from a value already in the note
+   */
+  private static inferType(value: unknown): PropertyDefinition['type'] | undefined {
+    if (Array.isArray(value)) return 'list';
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return 'checkbox';
+    return undefined;
+  }
+
+  /**
+   * Compare property values (case-sensitive, structural for objects)
+   */
+  private static isSameValue(a: unknown, b: unknown): boolean {
+    if (typeof a === 'object' || typeof b === 'object') {
+      return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return a === b;
+  }
+}
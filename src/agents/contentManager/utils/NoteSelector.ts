@@ -0,0 +1,68 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { normalizePath, isGlobPattern, globToRegex } from '../../../utils/pathUtils';
+
+/**
+ * Location: src/agents/contentManager/utils/NoteSelector.ts
+ *
+ * Resolves a mix of note paths, folder paths and glob patterns to markdown notes.
+ *
+ * Relationships:
+ * - Used by PropertiesTool and FindReplaceTool for multi-note operations
+ */
+
+/**
+ * Notes matched by a selection, plus selectors that matched nothing
+ */
+export interface NoteSelection {
+  files: TFile[];
+  unmatched: string[];
+}
+
+/**
+ * Utility class for selecting notes by path, folder or glob
+ */
+export class NoteSelector {
+  /**
+   * Resolve selectors to markdown notes (deduplicated, in vault order for globs/folders)
+   * - "Projects/**\/*.md" → glob over note paths
+   * - "Projects" or "Projects/" → every note under the folder
+   * - "Projects/plan.md" or "Projects/plan" → that note
+   * @param app Obsidian app instance
+   * @param selectors Paths, folders or glob patterns
+   * @returns Matched notes and selectors that matched nothing
+   */
+  static select(app: App, selectors: string[]): NoteSelection {
+    const files = new Map<string, TFile>();
+    const unmatched: string[] = [];
+
+    for (const selector of selectors) {
+      const normalized = normalizePath(selector).replace(/\/+$/, '');
+      let matches: TFile[];
+
+      if (isGlobPattern(normalized)) {
+        const regex = globToRegex(normalized);
+        matches = app.vault.getMarkdownFiles().filter(file => regex.test(file.path));
+      } else {
+        const item = normalized === ''
+          ? app.vault.getRoot()
+          : app.vault.getAbstractFileByPath(normalized) ?? app.vault.getAbstractFileByPath(`${normalized}.md`);
+
+        if (item instanceof TFolder) {
+          const prefix = item.isRoot() ? '' : `${item.path}/`;
+          matches = app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+        } else if (item instanceof TFile && item.extension === 'md') {
+          matches = [item];
+        } else {
+          matches = [];
+        }
+      }
+
+      if (matches.length === 0) {
+        unmatched.push(selector);
+      }
+      matches.forEach(file => files.set(file.path, file));
+    }
+
+    return { files: Array.from(files.values()), unmatched };
+  }
+}
@@ -0,0 +1,408 @@
+import { diff_match_patch } from 'diff-match-patch';
+
+/**
+ * Location: src/agents/contentManager/utils/PatchApplier.ts
+ *
+ * Parses unified diffs and search/replace hunks, and applies them to file content.
+ * Each hunk is located by exact whole-line match first (nearest to its expected position),
+ * then by fuzzy context matching with diff-match-patch.
+ *
+ * Relationships:
+ * - Used by PatchTool
+ */
+
+/**
+ * A single change: text to find (including context) and its replacement
+ */
+export interface PatchHunk {
+  /** Text to find, including surrounding context lines */
+  search: string;
+
+  /** Replacement for the found text */
+  replace: string;
+
+  /** Expected 1-based line of the hunk in the original file (from "@@ -l,s" headers) */
+  expectedLine?: number;
+
+  /** Label used in reports (hunk header or index) */
+  label?: string;
+}
+
+/**
+ * All hunks targeting one file
+ */
+export interface FilePatch {
+  /** Target path */
+  path: string;
+
+  /** Hunks applied in order */
+  hunks: PatchHunk[];
+
+  /** True when the diff creates the file (old side is /dev/null) */
+  isNewFile?: boolean;
+
+  /** True when the diff deletes the file (new side is /dev/null) */
+  isDeletion?: boolean;
+}
+
+/**
+ * Outcome of applying hunks to content
+ */
+export interface PatchApplyOutcome {
+  /** Patched content (only meaningful when every hunk applied) */
+  content: string;
+
+  /** Hunks that applied */
+  appliedCount: number;
+
+  /** Hunks that did not apply */
+  failed: Array<{ index: number; label: string; reason: string }>;
+
+  /** Hunks that needed fuzzy matching */
+  fuzzyCount: number;
+}
+
+/** Default fuzzy threshold (0.0 = exact, 1.0 = anything matches) */
+export const DEFAULT_PATCH_FUZZ = 0.3;
+
+/**
+ * Utility class for parsing and applying patches
+ */
+export class PatchApplier {
+  /**
+   * Parse a unified diff into per-file patches
+   * @param diff Unified diff text (may contain several files)
+   * @param defaultPath Path used when the diff has no file headers
+   * @returns File patches in diff order
+   * @throws Error if the diff contains no hunks or no target path can be determined
+   */
+  static parseUnifiedDiff(diff: string, defaultPath?: string): FilePatch[] {
+    const lines = diff.replace(/\r\n/g, '\n').split('\n');
+    const files: FilePatch[] = [];
+    let current: FilePatch | null = null;
+    let oldPath: string | null = null;
+
+    const startFile = (path: string | null, isNewFile: boolean, isDeletion: boolean): FilePatch => {
+      const target = path ?? defaultPath;
+      if (!target) {
+        throw new Error('Diff has no file headers. Add "--- a/path" / "+++ b/path" lines or pass path.');
+      }
+      const file: FilePatch = { path: target, hunks: [], isNewFile, isDeletion };
+      files.push(file);
+      return file;
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+        oldPath = this.parseHeaderPath(line.slice(4));
+        const newPath = this.parseHeaderPath(lines[i + 1].slice(4));
+        current = startFile(newPath ?? oldPath, oldPath === null, newPath === null);
+        i += 2;
+        continue;
+      }
+
+      const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (header) {
+        if (!current) {
+          current = startFile(null, false, false);
+        }
+
+        const oldCount = header[2] !== undefined ? parseInt(header[2], 10) : 1;
+        const newCount = header[4] !== undefined ? parseInt(header[4], 10) : 1;
+        const searchLines: string[] = [];
+        const replaceLines: string[] = [];
+        let oldSeen = 0;
+        let newSeen = 0;
+        i++;
+
+        // Read hunk body until both sides are complete or the next header starts
+        while (i < lines.length && (oldSeen < oldCount || newSeen < newCount)) {
+          const body = lines[i];
+          if (body.startsWith('@@ ') || (body.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+            break;
+          }
+          if (body.startsWith('\\')) {
+            // "\ No newline at end of file"
+            i++;
+            continue;
+          }
+
+          const marker = body.charAt(0);
+          const text = body.slice(1);
+          if (marker === '-') {
+            searchLines.push(text);
+            oldSeen++;
+          } else if (marker === '+') {
+            replaceLines.push(text);
+            newSeen++;
+          } else {
+            // Context line (some tools strip the leading space of blank context lines)
+            const contextText = marker === ' ' ? text : body;
+            searchLines.push(contextText);
+            replaceLines.push(contextText);
+            oldSeen++;
+            newSeen++;
+          }
+          i++;
+        }
+
+        current.hunks.push({
+          search: searchLines.join('\n'),
+          replace: replaceLines.join('\n'),
+          expectedLine: parseInt(header[1], 10),
+          label: line.trim()
+        });
+        continue;
+      }
+
+      if (line.startsWith('diff --git ')) {
+        current = null;
+      }
+      i++;
+    }
+
+    if (files.length === 0 || files.every(file => file.hunks.length === 0)) {
+      throw new Error('No hunks found in diff. Expected unified diff format with "@@ -l,s +l,s @@" hunk headers.');
+    }
+
+    return files.filter(file => file.hunks.length > 0 || file.isNewFile || file.isDeletion);
+  }
+
+  /**
+   * Apply hunks to content in order. Hunks that fail are reported; the caller decides whether to write.
+   * @param content Original content
+   * @param hunks Hunks to apply
+   * @param fuzz Fuzzy match threshold (0.0 = exact only, higher = more tolerant)
+   * @returns Outcome with patched content and failures
+   */
+  static applyHunks(content: string, hunks: PatchHunk[], fuzz = DEFAULT_PATCH_FUZZ): PatchApplyOutcome {
+    let working = content;
+    let lineDelta = 0;
+    let appliedCount = 0;
+    let fuzzyCount = 0;
+    const failed: PatchApplyOutcome['failed'] = [];
+
+    hunks.forEach((hunk, index) => {
+      const label = hunk.label || `hunk ${index + 1}`;
+
+      // Pure insertion with no context: insert at the expected line (or end of file)
+      if (hunk.search === '') {
+        const workingLines = working.split('\n');
+        const insertAt = hunk.expectedLine !== undefined
+          ? Math.min(Math.max(hunk.expectedLine + lineDelta, 0), workingLines.length)
+          : workingLines.length;
+        const inserted = hunk.replace.split('\n');
+        working = working === ''
+          ? hunk.replace
+          : [...workingLines.slice(0, insertAt), ...inserted, ...workingLines.slice(insertAt)].join('\n');
+        lineDelta += inserted.length;
+        appliedCount++;
+        return;
+      }
+
+      const expectedOffset = hunk.expectedLine !== undefined
+        ? this.lineToOffset(working, hunk.expectedLine + lineDelta)
+        : undefined;
+
+      const exactOffset = this.findNearest(working, hunk.search, expectedOffset ?? 0);
+      if (exactOffset !== -1) {
+        working = working.slice(0, exactOffset) + hunk.replace + working.slice(exactOffset + hunk.search.length);
+        lineDelta += this.lineCount(hunk.replace) - this.lineCount(hunk.search);
+        appliedCount++;
+        return;
+      }
+
+      if (fuzz <= 0) {
+        failed.push({ index, label, reason: 'Context not found (exact match required)' });
+        return;
+      }
+
+      const fuzzyResult = this.applyFuzzy(working, hunk, fuzz, expectedOffset);
+      if (fuzzyResult === null) {
+        failed.push({ index, label, reason: `Context not found (fuzzy threshold ${fuzz})` });
+        return;
+      }
+
+      working = fuzzyResult;
+      lineDelta += this.lineCount(hunk.replace) - this.lineCount(hunk.search);
+      appliedCount++;
+      fuzzyCount++;
+    });
+
+    return { content: working, appliedCount, failed, fuzzyCount };
+  }
+
+  /**
+   * Apply one hunk with diff-match-patch fuzzy matching.
+   * The search block is located as a whole (start and end anchors), then checked for overall similarity.
+   * @returns Patched content, or null if the hunk could not be located
+   */
+  private static applyFuzzy(content: string, hunk: PatchHunk, fuzz: number, expectedOffset?: number): string | null {
+    // Try near the expected position first, then anywhere (line hints from models are often off)
+    const region = (expectedOffset !== undefined ? this.locateFuzzy(content, hunk.search, fuzz, expectedOffset) : null)
+      ?? this.locateFuzzy(content, hunk.search, fuzz, undefined);
+
+    if (!region) {
+      return null;
+    }
+
+    return content.slice(0, region.start) + hunk.replace + content.slice(region.end);
+  }
+
+  /**
+   * Locate the region of content that best matches search
+   * The region is extended to full lines (hunks cover whole lines), so a short block
+   * cannot match part of a longer line.
+   * @param content Text to search in
+   * @param search Text to find
+   * @param fuzz Match threshold (also the maximum edit distance ratio for the whole region)
+   * @param expectedOffset Position hint, or undefined to search the whole content
+   * @returns Matched region, or null
+   */
+  private static locateFuzzy(
+    content: string,
+    search: string,
+    fuzz: number,
+    expectedOffset: number | undefined
+  ): { start: number; end: number } | null {
+    const dmp = new diff_match_patch();
+    dmp.Match_Threshold = fuzz;
+    // Without a position hint, distance from the start of the file should not count against a match
+    dmp.Match_Distance = expectedOffset !== undefined ? 1000 : Math.max(1000, content.length * 1000);
+
+    const maxBits = dmp.Match_MaxBits;
+    const loc = Math.min(expectedOffset ?? 0, content.length);
+    let start: number;
+    let end: number;
+
+    if (search.length <= maxBits) {
+      start = dmp.match_main(content, search, loc);
+      if (start === -1) {
+        return null;
+      }
+      end = start + search.length;
+    } else {
+      start = dmp.match_main(content, search.slice(0, maxBits), loc);
+      if (start === -1) {
+        return null;
+      }
+      const tailLoc = Math.min(start + search.length - maxBits, content.length);
+      const tailStart = dmp.match_main(content, search.slice(-maxBits), tailLoc);
+      if (tailStart === -1 || tailStart < start) {
+        return null;
+      }
+      end = Math.min(tailStart + maxBits, content.length);
+    }
+
+    // Anchors are approximate; map the first and last characters of search into a window around them
+    const windowStart = Math.max(0, start - maxBits);
+    const windowEnd = Math.min(content.length, end + maxBits);
+    const windowDiffs = dmp.diff_main(search, content.slice(windowStart, windowEnd));
+    start = windowStart + dmp.diff_xIndex(windowDiffs, 0);
+    end = windowStart + dmp.diff_xIndex(windowDiffs, search.length - 1) + 1;
+
+    start = content.lastIndexOf('\n', start - 1) + 1;
+
+    // The mapped end can land on a later line when the last characters also occur there,
+    // so also try a region with as many lines as the search block and keep the closer one
+    const ends = [this.extendToLineEnd(content, search, Math.max(end - 1, start))];
+    const searchLineCount = search.replace(/\n$/, '').split('\n').length;
+    let lineStart = start;
+    for (let line = 1; line < searchLineCount && lineStart <= content.length; line++) {
+      const next = content.indexOf('\n', lineStart);
+      lineStart = next === -1 ? content.length + 1 : next + 1;
+    }
+    if (lineStart <= content.length) {
+      ends.push(this.extendToLineEnd(content, search, lineStart));
+    }
+
+    // Reject regions that differ too much from the search block overall
+    let best: { end: number; distance: number } | null = null;
+    for (const candidate of ends) {
+      const distance = dmp.diff_levenshtein(dmp.diff_main(search, content.slice(start, candidate)));
+      if (!best || distance < best.distance) {
+        best = { end: candidate, distance };
+      }
+    }
+    if (!best || best.distance / Math.max(search.length, 1) > fuzz) {
+      return null;
+    }
+
+    return { start, end: best.end };
+  }
+
+  /**
+   * End of the line containing offset (after its newline if the search block ends with one)
+   */
+  private static extendToLineEnd(content: string, search: string, offset: number): number {
+    const lineEnd = content.indexOf('\n', offset);
+    if (lineEnd === -1) {
+      return content.length;
+    }
+    return search.endsWith('\n') ? lineEnd + 1 : lineEnd;
+  }
+
+  /**
+   * Find the whole-line occurrence of needle closest to an offset
+   * Occurrences must start at a line start and end at a line end, so "x = 1" does not match inside "max = 1".
+   * @returns Offset of the nearest occurrence, or -1
+   */
+  private static findNearest(haystack: string, needle: string, nearOffset: number): number {
+    let best = -1;
+    let bestDistance = Infinity;
+    let idx = haystack.indexOf(needle);
+    while (idx !== -1) {
+      const end = idx + needle.length;
+      const startsLine = idx === 0 || haystack[idx - 1] === '\n';
+      const endsLine = end === haystack.length || haystack[end] === '\n' || needle.endsWith('\n');
+      if (!startsLine || !endsLine) {
+        idx = haystack.indexOf(needle, idx + 1);
+        continue;
+      }
+      const distance = Math.abs(idx - nearOffset);
+      if (distance < bestDistance) {
+        best = idx;
+        bestDistance = distance;
+      }
+      idx = haystack.indexOf(needle, idx + 1);
+    }
+    return best;
+  }
+
+  /**
+   * Convert a 1-based line number to a character offset (clamped to the content)
+   */
+  private static lineToOffset(content: string, line: number): number {
+    let offset = 0;
+    for (let current = 1; current < line; current++) {
+      const next = content.indexOf('\n', offset);
+      if (next === -1) {
+        return content.length;
+      }
+      offset = next + 1;
+    }
+    return offset;
+  }
+
+  /**
+   * Count lines in a text fragment ('' counts as 0)
+   */
+  private static lineCount(text: string): number {
+    return text === '' ? 0 : text.split('\n').length;
+  }
+
+  /**
+   * Parse a path from a "---"/"+++" header, stripping a/ b/ prefixes and timestamps
+   * @returns Path, or null for /dev/null
+   */
+  private static parseHeaderPath(raw: string): string | null {
+    const path = raw.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+    if (path === '/dev/null') {
+      return null;
+    }
+    return path.replace(/^[ab]\//, '');
+  }
+}
@@ -0,0 +1,612 @@
+import { App, TFile, HeadingCache, BlockCache } from 'obsidian';
+
+/**
+ * Location: src/agents/contentManager/utils/SectionResolver.ts
+ *
+ * Resolves structural anchors (headings, block ids, frontmatter keys) to line ranges.
+ * Uses Obsidian's metadata cache when it matches the current content, and falls back
+ * to parsing the lines directly when the cache is missing or stale.
+ *
+ * Relationships:
+ * - Used by UpdateTool for anchored edits
+ * - Used by ReadTool for outline and section reads
+ * - Used by periodic note and task tools to append under a heading
+ */
+
+/**
+ * Simplified heading entry with 1-based line numbers
+ */
+export interface HeadingEntry {
+  heading: string;
+  level: number;
+  line: number;
+
+  /** Underline of a setext heading ("Title" over "==="); the body starts after it */
+  underline?: number;
+}
+
+/**
+ * Line range resolved for an anchor (all line numbers are 1-based and inclusive)
+ */
+export interface ResolvedSection {
+  /** What the range was resolved from */
+  kind: 'heading' | 'block' | 'frontmatter';
+
+  /** First line of the target (heading line, first block line, or first key line) */
+  startLine: number;
+
+  /** First line of the body (line after the heading; same as startLine for blocks/keys) */
+  contentStartLine: number;
+
+  /** Last line of the target */
+  endLine: number;
+}
+
+/**
+ * Block id with its 1-based line (the line carrying the ^id marker)
+ */
+export interface BlockEntry {
+  id: string;
+  line: number;
+}
+
+/**
+ * Heading in a note outline (line numbers are 1-based and inclusive)
+ */
+export interface OutlineHeading {
+  /** Heading text */
+  heading: string;
+
+  /** Heading level (1-6) */
+  level: number;
+
+  /** Nested heading path, usable as read's section or update's heading ("Project > Tasks", ">" in text escaped as "\>") */
+  path: string;
+
+  /** Heading line */
+  startLine: number;
+
+  /** Last line of the section, including subsections */
+  endLine: number;
+
+  /** Words in the section body, including subsections */
+  words: number;
+
+  /** Block ids directly in this section (not in subsections) */
+  blockIds: string[];
+
+  /** Subsections */
+  children: OutlineHeading[];
+}
+
+/**
+ * Structure of a note: frontmatter, content before the first heading, and the heading tree
+ */
+export interface NoteOutline {
+  /** Total number of lines */
+  totalLines: number;
+
+  /** Words in the note (frontmatter excluded) */
+  words: number;
+
+  /** Frontmatter line range, if the note has frontmatter */
+  frontmatter?: { startLine: number; endLine: number };
+
+  /** Block ids before the first heading */
+  blockIds: string[];
+
+  /** Top-level headings */
+  headings: OutlineHeading[];
+}
+
+/**
+ * Separator between segments of a nested heading path ("# Project > ## Tasks")
+ * A ">" that is part of the heading text is written as "\>" ("A \> B > Tasks").
+ */
+export const HEADING_PATH_SEPARATOR = '>';
+
+/**
+ * Utility class for resolving anchors to line ranges
+ */
+export class SectionResolver {
+  /**
+   * Get all headings of a file with 1-based line numbers
+   * The cache is used while every cached heading still sits on its line; the lines are
+   * parsed (ATX headings only) when it is missing or stale.
+   * @param app Obsidian app instance
+   * @param file File to inspect
+   * @param lines Current content of the file split into lines
+   * @returns Ordered list of headings
+   */
+  static getHeadings(app: App, file: TFile, lines: string[]): HeadingEntry[] {
+    const cached = app.metadataCache?.getFileCache(file)?.headings;
+    if (!cached || !cached.every(h => this.isHeadingOnLine(h, lines))) {
+      return this.parseHeadings(lines);
+    }
+
+    // Cached headings still fit, but a heading may have been added since the cache was built
+    const parsed = this.parseHeadings(lines);
+    if (!this.hasEveryHeading(cached, parsed)) {
+      return parsed;
+    }
+
+    return cached.map(h => {
+      const entry: HeadingEntry = { heading: h.heading, level: h.level, line: h.position.start.line + 1 };
+      if (h.position.end.line > h.position.start.line) {
+        entry.underline = h.position.end.line + 1;
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * Resolve a heading path to the section it introduces
+   * A section runs from the heading line to the line before the next heading of the same or higher level.
+   * @param app Obsidian app instance
+   * @param file File to inspect
+   * @param lines Current content of the file split into lines
+   * @param headingPath Heading text or nested path, e.g. "## Tasks", "Project > Tasks" or "A \> B"
+   * @returns Resolved section
+   * @throws Error with the available headings if the path cannot be resolved
+   */
+  static resolveHeading(app: App, file: TFile, lines: string[], headingPath: string): ResolvedSection {
+    const headings = this.getHeadings(app, file, lines);
+    const segments = this.parseHeadingPath(headingPath);
+
+    if (segments.length === 0) {
+      throw new Error('Heading path is empty. Provide heading text such as "## Tasks" or "Project > Tasks".');
+    }
+
+    // Walk the path: each segment must be found inside the previous segment's section
+    let searchFrom = 0;
+    let searchTo = headings.length;
+    let matchIndex = -1;
+
+    for (const segment of segments) {
+      matchIndex = -1;
+      for (let i = searchFrom; i < searchTo; i++) {
+        const candidate = headings[i];
+        if (segment.level !== undefined && candidate.level !== segment.level) {
+          continue;
+        }
+        if (this.normalizeHeadingText(candidate.heading) === segment.text) {
+          matchIndex = i;
+          break;
+        }
+      }
+
+      if (matchIndex === -1) {
+        throw new Error(
+          `Heading not found: "${headingPath}". Available headings: ${this.formatHeadingList(headings)}`
+        );
+      }
+
+      searchFrom = matchIndex + 1;
+      searchTo = this.findSectionEndIndex(headings, matchIndex);
+    }
+
+    const match = headings[matchIndex];
+    const next = headings[this.findSectionEndIndex(headings, matchIndex)];
+    const endLine = next ? next.line - 1 : lines.length;
+
+    return {
+      kind: 'heading',
+      startLine: match.line,
+      contentStartLine: (match.underline ?? match.line) + 1,
+      endLine
+    };
+  }
+
+  /**
+   * Resolve a block id ("^abc123" or "abc123") to the lines of its block
+   * @param app Obsidian app instance
+   * @param file File to inspect
+   * @param lines Current content of the file split into lines
+   * @param blockId Block identifier with or without the leading caret
+   * @returns Resolved block range
+   * @throws Error if the block id cannot be found
+   */
+  static resolveBlock(app: App, file: TFile, lines: string[], blockId: string): ResolvedSection {
+    const id = blockId.trim().replace(/^\^/, '');
+    const marker = `^${id}`;
+    const cached = app.metadataCache?.getFileCache(file)?.blocks?.[id.toLowerCase()];
+
+    if (cached) {
+      const endIdx = cached.position.end.line;
+      if (lines[endIdx] !== undefined && lines[endIdx].includes(marker)) {
+        return {
+          kind: 'block',
+          startLine: cached.position.start.line + 1,
+          contentStartLine: cached.position.start.line + 1,
+          endLine: endIdx + 1
+        };
+      }
+    }
+
+    // Fallback: find the marker line and extend upward to the start of the paragraph
+    const markerPattern = new RegExp(`(^|\\s)\\^${this.escapeRegExp(id)}\\s*$`);
+    const endIdx = lines.findIndex(line => markerPattern.test(line));
+    if (endIdx === -1) {
+      throw new Error(`Block not found: "${marker}". Use read to check the block id exists in the file.`);
+    }
+
+    let startIdx = endIdx;
+    while (startIdx > 0 && lines[startIdx - 1].trim() !== '' && !/^#{1,6}\s/.test(lines[startIdx - 1])) {
+      startIdx--;
+    }
+
+    return {
+      kind: 'block',
+      startLine: startIdx + 1,
+      contentStartLine: startIdx + 1,
+      endLine: endIdx + 1
+    };
+  }
+
+  /**
+   * Resolve a frontmatter key to the lines of its YAML entry (key line plus nested/list lines)
+   * @param app Obsidian app instance
+   * @param file File to inspect
+   * @param lines Current content of the file split into lines
+   * @param key Frontmatter key
+   * @returns Resolved key range
+   * @throws Error if the file has no frontmatter or the key is missing
+   */
+  static resolveFrontmatterKey(app: App, file: TFile, lines: string[], key: string): ResolvedSection {
+    const bounds = this.getFrontmatterBounds(app, file, lines);
+    if (!bounds) {
+      throw new Error(`File has no frontmatter. Use update with startLine: 1 to add a frontmatter block.`);
+    }
+
+    const keyPattern = new RegExp(`^${this.escapeRegExp(key)}\\s*:`);
+    let keyIdx = -1;
+    for (let i = bounds.openIdx + 1; i < bounds.closeIdx; i++) {
+      if (keyPattern.test(lines[i])) {
+        keyIdx = i;
+        break;
+      }
+    }
+
+    if (keyIdx === -1) {
+      throw new Error(
+        `Frontmatter key not found: "${key}". Frontmatter spans lines ${bounds.openIdx + 1}-${bounds.closeIdx + 1}.`
+      );
+    }
+
+    // Continuation lines are indented or list items belonging to this key
+    let endIdx = keyIdx;
+    while (endIdx + 1 < bounds.closeIdx && /^(\s+|-\s|-$)/.test(lines[endIdx + 1])) {
+      endIdx++;
+    }
+
+    return {
+      kind: 'frontmatter',
+      startLine: keyIdx + 1,
+      contentStartLine: keyIdx + 1,
+      endLine: endIdx + 1
+    };
+  }
+
+  /**
+   * Get all block ids of a file with 1-based line numbers
+   * @param app Obsidian app instance
+   * @param file File to inspect
+   * @param lines Current content of the file split into lines
+   * @returns Block ids in line order
+   */
+  static getBlocks(app: App, file: TFile, lines: string[]): BlockEntry[] {
+    const cached = app.metadataCache?.getFileCache(file)?.blocks;
+
+    if (cached && this.isBlockCacheCurrent(Object.values(cached), lines)) {
+      return Object.values(cached)
+        .map(block => ({ id: block.id, line: block.position.end.line + 1 }))
+        .sort((a, b) => a.line - b.line);
+    }
+
+    const blocks: BlockEntry[] = [];
+    let inFence = false;
+    lines.forEach((line, idx) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return;
+      }
+      const match = !inFence && line.match(/(?:^|\s)\^([A-Za-z0-9-]+)\s*$/);
+      if (match) {
+        blocks.push({ id: match[1], line: idx + 1 });
+      }
+    });
+    return blocks;
+  }
+
+  /**
+   * Build the outline of a note: heading tree with line ranges, word counts and block ids
+   * @param app Obsidian app instance
+   * @param file File to inspect
+   * @param lines Current content of the file split into lines
+   * @returns Note outline
+   */
+  static buildOutline(app: App, file: TFile, lines: string[]): NoteOutline {
+    const headings = this.getHeadings(app, file, lines);
+    const blocks = this.getBlocks(app, file, lines);
+    const bounds = this.getFrontmatterBounds(app, file, lines);
+    const bodyStart = bounds ? bounds.closeIdx + 2 : 1;
+
+    const outline: NoteOutline = {
+      totalLines: lines.length,
+      words: this.countWords(lines, bodyStart, lines.length),
+      frontmatter: bounds ? { startLine: bounds.openIdx + 1, endLine: bounds.closeIdx + 1 } : undefined,
+      blockIds: [],
+      headings: []
+    };
+
+    // Walk headings in order, keeping the chain of open ancestors
+    const nodes: OutlineHeading[] = [];
+    const stack: OutlineHeading[] = [];
+    headings.forEach((entry, index) => {
+      while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) {
+        stack.pop();
+      }
+
+      const next = headings[this.findSectionEndIndex(headings, index)];
+      const endLine = next ? next.line - 1 : lines.length;
+      const parent = stack[stack.length - 1];
+      const segment = entry.heading.split(HEADING_PATH_SEPARATOR).join(`\\${HEADING_PATH_SEPARATOR}`);
+      const node: OutlineHeading = {
+        heading: entry.heading,
+        level: entry.level,
+        path: parent ? `${parent.path} ${HEADING_PATH_SEPARATOR} ${segment}` : segment,
+        startLine: entry.line,
+        endLine,
+        words: this.countWords(lines, (entry.underline ?? entry.line) + 1, endLine),
+        blockIds: [],
+        children: []
+      };
+
+      (parent ? parent.children : outline.headings).push(node);
+      stack.push(node);
+      nodes.push(node);
+    });
+
+    // A block belongs to the closest heading above it
+    for (const block of blocks) {
+      let owner: OutlineHeading | undefined;
+      for (const node of nodes) {
+        if (node.startLine > block.line) break;
+        owner = node;
+      }
+      (owner ? owner.blockIds : outline.blockIds).push(block.id);
+    }
+
+    return outline;
+  }
+
+  /**
+   * Append text at the end of a section (after its last non-blank line), or at the end of the note
+   * A heading that is not in the note yet is added at the end (the last segment of a nested path; "## " if no level is given).
+   * @param app Obsidian app instance
+   * @param file File being edited
+   * @param content Current content of the file
+   * @param text Text to add (one or more lines)
+   * @param headingPath Optional heading to append under, e.g. "## Log"
+   * @returns New content and the 1-based line the text starts at
+   */
+  static appendToSection(app: App, file: TFile, content: string, text: string, headingPath?: string): { content: string; line: number } {
+    const lines = content.split('\n');
+    const textLines = text.replace(/\n+$/, '').split('\n');
+
+    if (headingPath?.trim()) {
+      let endIndex = -1;
+      try {
+        const resolved = this.resolveHeading(app, file, lines, headingPath);
+        endIndex = resolved.endLine - 1;
+        while (endIndex >= resolved.startLine && lines[endIndex].trim() === '') {
+          endIndex--;
+        }
+      } catch {
+        // Heading not in the note yet; added below
+      }
+
+      if (endIndex >= 0) {
+        lines.splice(endIndex + 1, 0, ...textLines);
+        return { content: lines.join('\n'), line: endIndex + 2 };
+      }
+
+      const body = this.trimTrailingBlankLines(lines);
+      const last = this.splitHeadingPath(headingPath).pop() ?? headingPath.trim();
+      const heading = /^#{1,6}\s/.test(last) ? last : `## ${last}`;
+      const prefix = body.length > 0 ? [...body, '', heading] : [heading];
+      return { content: [...prefix, ...textLines, ''].join('\n'), line: prefix.length + 1 };
+    }
+
+    const body = this.trimTrailingBlankLines(lines);
+    return { content: [...body, ...textLines, ''].join('\n'), line: body.length + 1 };
+  }
+
+  /**
+   * Parse a heading path into segments
+   * Each segment may carry leading #'s to pin the heading level.
+   * @param headingPath Raw heading path
+   * @returns Segments with normalized text and optional level
+   */
+  static parseHeadingPath(headingPath: string): Array<{ text: string; level?: number }> {
+    return this.splitHeadingPath(headingPath)
+      .map(segment => {
+        const match = segment.match(/^(#{1,6})\s+(.*)$/);
+        if (match) {
+          return { text: this.normalizeHeadingText(match[2]), level: match[1].length };
+        }
+        return { text: this.normalizeHeadingText(segment) };
+      });
+  }
+
+  /**
+   * Split a heading path on unescaped separators, turning "\>" back into ">"
+   */
+  private static splitHeadingPath(headingPath: string): string[] {
+    const escaped = `\\${HEADING_PATH_SEPARATOR}`;
+    return headingPath
+      .split(new RegExp(`(?<!\\\\)${HEADING_PATH_SEPARATOR}`))
+      .map(segment => segment.split(escaped).join(HEADING_PATH_SEPARATOR).trim())
+      .filter(segment => segment.length > 0);
+  }
+
+  /**
+   * Lines without trailing blank lines
+   */
+  private static trimTrailingBlankLines(lines: string[]): string[] {
+    let end = lines.length;
+    while (end > 0 && lines[end - 1].trim() === '') {
+      end--;
+    }
+    return lines.slice(0, end);
+  }
+
+  /**
+   * Find the index of the first heading after `index` that closes its section
+   * @returns Index of the closing heading, or headings.length if the section runs to end of file
+   */
+  private static findSectionEndIndex(headings: HeadingEntry[], index: number): number {
+    const level = headings[index].level;
+    for (let i = index + 1; i < headings.length; i++) {
+      if (headings[i].level <= level) {
+        return i;
+      }
+    }
+    return headings.length;
+  }
+
+  /**
+   * Locate the frontmatter delimiters (0-based indices of the opening and closing "---")
+   */
+  private static getFrontmatterBounds(app: App, file: TFile, lines: string[]): { openIdx: number; closeIdx: number } | null {
+    const position = app.metadataCache?.getFileCache(file)?.frontmatterPosition;
+    if (position && lines[position.start.line]?.trim() === '---' && lines[position.end.line]?.trim() === '---') {
+      return { openIdx: position.start.line, closeIdx: position.end.line };
+    }
+
+    if (lines[0]?.trim() !== '---') {
+      return null;
+    }
+    for (let i = 1; i < lines.length; i++) {
+      if (lines[i].trim() === '---') {
+        return { openIdx: 0, closeIdx: i };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check that a cached heading still sits on its line with the same level and text: an ATX
+   * heading ("## Title"), or a setext heading whose text line is followed by its underline
+   * ("===" for level 1, "---" for level 2). Checking only that the line starts with "#" lets a
+   * stale cache through when lines are inserted above consecutive headings.
+   */
+  private static isHeadingOnLine(heading: HeadingCache, lines: string[]): boolean {
+    const { start, end } = heading.position;
+    const text = this.normalizeHeadingText(heading.heading);
+
+    if (end.line === start.line) {
+      const match = lines[start.line]?.match(/^ {0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+      return !!match && match[1].length === heading.level && this.normalizeHeadingText(match[2]) === text;
+    }
+
+    const underline = heading.level === 1 ? /^ {0,3}=+\s*$/ : /^ {0,3}-+\s*$/;
+    return end.line === start.line + 1 &&
+      heading.level <= 2 &&
+      this.normalizeHeadingText(lines[start.line] ?? '') === text &&
+      underline.test(lines[end.line] ?? '');
+  }
+
+  /**
+   * Check that every parsed heading is in the cache at the same line and level
+   */
+  private static hasEveryHeading(headings: HeadingCache[], parsed: HeadingEntry[]): boolean {
+    const cachedLevels = new Map(headings.map(h => [h.position.start.line + 1, h.level]));
+    return parsed.every(entry => cachedLevels.get(entry.line) === entry.level);
+  }
+
+  /**
+   * Check that cached block positions still point at lines carrying their ^id marker
+   */
+  private static isBlockCacheCurrent(blocks: BlockCache[], lines: string[]): boolean {
+    return blocks.every(block => lines[block.position.end.line]?.includes(`^${block.id}`));
+  }
+
+  /**
+   * Count words in a line range (1-based, inclusive)
+   * Tokens without letters or digits (list markers, "##") and block id markers are ignored.
+   */
+  private static countWords(lines: string[], startLine: number, endLine: number): number {
+    let words = 0;
+    for (let i = Math.max(0, startLine - 1); i < Math.min(endLine, lines.length); i++) {
+      for (const token of lines[i].split(/\s+/)) {
+        if (/[\p{L}\p{N}]/u.test(token) && !token.startsWith('^')) {
+          words++;
+        }
+      }
+    }
+    return words;
+  }
+
+  /**
+   * Parse ATX headings from raw lines, skipping frontmatter and fenced code blocks
+   */
+  private static parseHeadings(lines: string[]): HeadingEntry[] {
+    const headings: HeadingEntry[] = [];
+    let inFence = false;
+    let startIdx = 0;
+
+    // Skip frontmatter
+    if (lines[0]?.trim() === '---') {
+      const closeIdx = lines.findIndex((line, idx) => idx > 0 && line.trim() === '---');
+      if (closeIdx !== -1) {
+        startIdx = closeIdx + 1;
+      }
+    }
+
+    for (let i = startIdx; i < lines.length; i++) {
+      const line = lines[i];
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) {
+        continue;
+      }
+      const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (match) {
+        headings.push({ heading: match[2], level: match[1].length, line: i + 1 });
+      }
+    }
+
+    return headings;
+  }
+
+  /**
+   * Normalize heading text for comparison (case-insensitive, collapsed whitespace)
+   */
+  private static normalizeHeadingText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  /**
+   * Format headings for error messages (capped to keep errors short)
+   */
+  private static formatHeadingList(headings: HeadingEntry[]): string {
+    if (headings.length === 0) {
+      return '(none)';
+    }
+    const listed = headings.slice(0, 20).map(h => `"${'#'.repeat(h.level)} ${h.heading}" (line ${h.line})`);
+    if (headings.length > 20) {
+      listed.push(`... ${headings.length - 20} more`);
+    }
+    return listed.join(', ');
+  }
+
+  /**
+   * Escape special characters in a string for use in a regular expression
+   */
+  private static escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
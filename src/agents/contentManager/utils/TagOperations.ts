@@ -0,0 +1,162 @@
+import { CachedMetadata, TagCache, parseFrontMatterTags } from 'obsidian';
+
+/**
+ * Location: src/agents/contentManager/utils/TagOperations.ts
+ *
+ * Tag matching and renaming for inline #tags and frontmatter tags.
+ * - Tags are compared case-insensitively without "#"; a tag matches its nested tags (proj → proj/alpha)
+ * - Renames keep the nested part: proj → project turns #proj/alpha into #project/alpha
+ * - Inline tags are located with the metadata cache offsets, which are checked against the content
+ *
+ * Relationships:
+ * - Used by TagsTool
+ */
+
+/** Frontmatter keys Obsidian reads tags from */
+export const FRONTMATTER_TAG_KEYS = ['tags', 'tag'];
+
+const VALID_TAG = /^[\p{L}\p{N}_-]+(?:\/[\p{L}\p{N}_-]+)*$/u;
+
+/**
+ * Tags of one note as found in the metadata cache
+ */
+export interface NoteTags {
+  /** Inline #tags (with "#", as written) */
+  inline: TagCache[];
+  /** Frontmatter tags (without "#") */
+  frontmatter: string[];
+}
+
+/**
+ * Utility class for tag operations
+ */
+export class TagOperations {
+  /**
+   * Normalize a tag for comparison
+   * @param tag Tag with or without "#"
+   * @returns Lowercase tag without "#"
+   */
+  static normalize(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+  }
+
+  /**
+   * Check a tag name for use as a rename target
+   * @param tag Tag without "#"
+   * @returns Error message, or null if the tag is valid
+   */
+  static validate(tag: string): string | null {
+    if (!VALID_TAG.test(tag)) {
+      return `Invalid tag: "${tag}". Use letters, numbers, "_", "-" and "/" for nesting, without spaces.`;
+    }
+    if (/^\d+$/.test(tag)) {
+      return `Invalid tag: "${tag}". Tags need at least one non-numeric character.`;
+    }
+    return null;
+  }
+
+  /**
+   * True if a tag equals one of the wanted tags or is nested under it
+   * @param tag Tag (any case, with or without "#")
+   * @param wanted Normalized tags
+   */
+  static matches(tag: string, wanted: string[]): boolean {
+    const normalized = this.normalize(tag);
+    return wanted.some(want => normalized === want || normalized.startsWith(`${want}/`));
+  }
+
+  /**
+   * Rename a tag if it matches one of the sources
+   * @param tag Tag without "#", as written
+   * @param from Normalized source tags
+   * @param to New tag
+   * @returns Renamed tag, or null if the tag does not match
+   */
+  static rename(tag: string, from: string[], to: string): string | null {
+    const normalized = tag.toLowerCase();
+    for (const source of from) {
+      if (normalized === source || normalized.startsWith(`${source}/`)) {
+        return `${to}${tag.slice(source.length)}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the inline and frontmatter tags of a note from its cache entry
+   * @param cache Metadata cache entry
+   * @returns Tags of the note
+   */
+  static getNoteTags(cache: CachedMetadata | null): NoteTags {
+    return {
+      inline: cache?.tags ?? [],
+      frontmatter: (parseFrontMatterTags(cache?.frontmatter ?? null) ?? []).map(tag => tag.replace(/^#/, ''))
+    };
+  }
+
+  /**
+   * Rename matching inline tags in note content
+   * @param content Current note content
+   * @param inline Inline tags from the metadata cache
+   * @param from Normalized source tags
+   * @param to New tag
+   * @returns New content and the number of tags renamed
+   * @throws Error if the cache offsets do not match the content (the note changed since it was indexed)
+   */
+  static renameInline(content: string, inline: TagCache[], from: string[], to: string): { content: string; count: number } {
+    const edits = inline
+      .map(entry => ({ entry, renamed: this.rename(entry.tag.slice(1), from, to) }))
+      .filter((edit): edit is { entry: TagCache; renamed: string } => edit.renamed !== null)
+      .sort((a, b) => b.entry.position.start.offset - a.entry.position.start.offset);
+
+    let updated = content;
+    for (const { entry, renamed } of edits) {
+      const { start, end } = entry.position;
+      if (updated.slice(start.offset, end.offset) !== entry.tag) {
+        throw new Error('Note changed since it was indexed. Wait a moment and try again.');
+      }
+      updated = `${updated.slice(0, start.offset)}#${renamed}${updated.slice(end.offset)}`;
+    }
+    return { content: updated, count: edits.length };
+  }
+
+  /**
+   * Rename matching tags in frontmatter (tags or tag key; list or comma/space separated string)
+   * Duplicates created by a merge are removed.
+   * @param frontmatter Frontmatter object (changed in place)
+   * @param from Normalized source tags
+   * @param to New tag
+   * @returns Number of tags renamed
+   */
+  static renameInFrontmatter(frontmatter: Record<string, unknown>, from: string[], to: string): number {
+    let count = 0;
+    const renameItem = (item: string): string => {
+      const hash = item.startsWith('#') ? '#' : '';
+      const renamed = this.rename(item.slice(hash.length), from, to);
+      if (renamed === null) {
+        return item;
+      }
+      count++;
+      return `${hash}${renamed}`;
+    };
+
+    for (const key of FRONTMATTER_TAG_KEYS) {
+      const value = frontmatter[key];
+      if (Array.isArray(value)) {
+        const seen = new Set<string>();
+        frontmatter[key] = value
+          .map(item => (typeof item === 'string' ? renameItem(item) : item))
+          .filter(item => {
+            if (typeof item !== 'string') return true;
+            const normalized = this.normalize(item);
+            if (seen.has(normalized)) return false;
+            seen.add(normalized);
+            return true;
+          });
+      } else if (typeof value === 'string') {
+        frontmatter[key] = value.replace(/[^\s,]+/g, renameItem);
+      }
+    }
+    return count;
+  }
+}
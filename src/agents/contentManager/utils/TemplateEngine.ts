@@ -0,0 +1,177 @@
+import { App, getFrontMatterInfo, moment, stringifyYaml } from 'obsidian';
+import { FrontmatterProperties } from './FrontmatterProperties';
+import { normalizePath } from '../../../utils/pathUtils';
+import type { TemplateVariable } from '../types';
+
+/**
+ * Location: src/agents/contentManager/utils/TemplateEngine.ts
+ *
+ * Template discovery and {{variable}} filling, compatible with Obsidian's Templates core plugin.
+ * - {{title}}, {{date}}, {{time}}, {{date:FORMAT}}, {{time:FORMAT}} are built in (Moment.js formats;
+ *   default formats come from the Templates core plugin settings)
+ * - Any other {{name}} is filled from agent-supplied values
+ * - Supplied properties are merged over the template's frontmatter
+ *
+ * Relationships:
+ * - Used by FromTemplateTool and ListTemplatesTool
+ * - Uses FrontmatterProperties to parse template frontmatter
+ */
+
+/** {{name}} or {{name:format}} */
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*(?::([^}]*))?\}\}/g;
+
+/** Variables filled without agent input */
+const BUILTIN_VARIABLES = new Set(['title', 'date', 'time']);
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+/**
+ * Values used to fill a template
+ */
+export interface TemplateValues {
+  /** Value for {{title}} */
+  title: string;
+  /** Values for custom variables */
+  variables: Record<string, string | number | boolean>;
+  /** Time used for {{date}} and {{time}} (default: now) */
+  now?: Date;
+  /** Format for {{date}} without a format (default: Templates core plugin setting) */
+  dateFormat?: string;
+}
+
+/**
+ * A filled template
+ */
+export interface RenderedTemplate {
+  content: string;
+  /** Custom variables without a value (left in the content as written) */
+  missing: string[];
+  /** Supplied variables the template does not use */
+  unused: string[];
+}
+
+/** Settings of the Templates core plugin (undocumented API) */
+interface CoreTemplateOptions {
+  folder?: string;
+  dateFormat?: string;
+  timeFormat?: string;
+}
+
+/**
+ * Utility class for note templates
+ */
+export class TemplateEngine {
+  /**
+   * Find the configured templates folder
+   * Uses the Templates core plugin setting, then Templater's.
+   * @param app Obsidian app instance
+   * @returns Folder path, or null if none is configured
+   */
+  static getTemplatesFolder(app: App): string | null {
+    const coreFolder = this.getCoreOptions(app).folder;
+    if (coreFolder) {
+      return normalizePath(coreFolder);
+    }
+
+    const templater = app.plugins.getPlugin('templater-obsidian') as unknown as { settings?: { templates_folder?: string } } | null;
+    const templaterFolder = templater?.settings?.templates_folder;
+    return templaterFolder ? normalizePath(templaterFolder) : null;
+  }
+
+  /**
+   * List the variables used in a template (unique, in order of first use)
+   * @param content Template content
+   * @returns Variables
+   */
+  static findVariables(content: string): TemplateVariable[] {
+    const variables = new Map<string, TemplateVariable>();
+    for (const match of content.matchAll(VARIABLE_PATTERN)) {
+      const name = match[1];
+      const format = match[2]?.trim() || undefined;
+      const key = `${name}:${format ?? ''}`;
+      if (!variables.has(key)) {
+        variables.set(key, { name, ...(format ? { format } : {}), builtin: BUILTIN_VARIABLES.has(name) });
+      }
+    }
+    return Array.from(variables.values());
+  }
+
+  /**
+   * Fill a template
+   * @param app Obsidian app instance (for the default date and time formats)
+   * @param content Template content
+   * @param values Title, custom values and time
+   * @returns Filled content and variables without a value
+   */
+  static render(app: App, content: string, values: TemplateValues): RenderedTemplate {
+    const options = this.getCoreOptions(app);
+    const now = moment(values.now ?? new Date());
+    const missing = new Set<string>();
+    const used = new Set<string>();
+
+    const rendered = content.replace(VARIABLE_PATTERN, (token: string, name: string, format?: string) => {
+      const customFormat = format?.trim();
+      if (name in values.variables) {
+        used.add(name);
+        return String(values.variables[name]);
+      }
+      if (name === 'title') {
+        return values.title;
+      }
+      if (name === 'date') {
+        return now.format(customFormat || values.dateFormat || options.dateFormat || DEFAULT_DATE_FORMAT);
+      }
+      if (name === 'time') {
+        return now.format(customFormat || options.timeFormat || DEFAULT_TIME_FORMAT);
+      }
+      missing.add(name);
+      return token;
+    });
+
+    return {
+      content: rendered,
+      missing: Array.from(missing),
+      unused: Object.keys(values.variables).filter(name => !used.has(name))
+    };
+  }
+
+  /**
+   * List the frontmatter properties a template sets
+   * @param content Template content
+   * @returns Property names (empty if the frontmatter is not valid YAML before filling)
+   */
+  static getPropertyNames(content: string): string[] {
+    try {
+      return Object.keys(FrontmatterProperties.parse(content));
+    } catch {
+      return Array.from(getFrontMatterInfo(content).frontmatter.matchAll(/^([^\s#:][^:]*):/gm), match => match[1].trim());
+    }
+  }
+
+  /**
+   * Merge properties over the frontmatter of filled content
+   * @param content Filled template content
+   * @param properties Properties to set (override the template's values)
+   * @returns Content with the merged frontmatter
+   * @throws Error if the template frontmatter is not valid YAML after filling
+   */
+  static mergeProperties(content: string, properties: Record<string, unknown>): string {
+    if (Object.keys(properties).length === 0) {
+      return content;
+    }
+
+    const info = getFrontMatterInfo(content);
+    const merged = { ...FrontmatterProperties.parse(content), ...properties };
+    const body = info.exists ? content.slice(info.contentStart) : content;
+    return `---\n${stringifyYaml(merged)}---\n${body}`;
+  }
+
+  private static getCoreOptions(app: App): CoreTemplateOptions {
+    const internalPlugins = (app as unknown as {
+      internalPlugins?: { getPluginById?: (id: string) => { enabled?: boolean; instance?: { options?: CoreTemplateOptions } } | null };
+    }).internalPlugins;
+    const core = internalPlugins?.getPluginById?.('templates');
+    return core?.enabled ? core.instance?.options ?? {} : {};
+  }
+}
@@ -1,6 +1,8 @@
 // Core agents in the new agent structure
 export * from './contentManager/contentManager';
 export * from './storageManager/storageManager';
+export * from './periodicNotesManager/periodicNotesManager';
+export * from './taskManager/taskManager';
 export * from './searchManager/searchManager';
 export * from './memoryManager/memoryManager';
 export * from './promptManager/promptManager';
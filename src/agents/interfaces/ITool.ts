@@ -25,6 +25,12 @@ export interface ITool<T = unknown, R = unknown> {
    */
   version: string;
 
+  /**
+   * True if execute() reads params.context (e.g. to journal its edits per session and call);
+   * useTools only passes the call context to these tools
+   */
+  receivesContext?: boolean;
+
   /**
    * Execute the tool with parameters
    * @param params Parameters for the tool
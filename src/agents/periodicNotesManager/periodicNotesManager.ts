@@ -0,0 +1,50 @@
+import { App } from 'obsidian';
+import { BaseAgent } from '../baseAgent';
+import {
+  OpenPeriodicNoteTool,
+  CreatePeriodicNoteTool,
+  AppendPeriodicNoteTool,
+  ReadPeriodicRangeTool
+} from './tools';
+import { PeriodicNoteResolver } from './utils/PeriodicNoteResolver';
+
+/**
+ * Agent for daily, weekly and monthly notes
+ * Follows the Daily Notes core plugin (and Periodic Notes plugin) folder, format and template settings
+ */
+export class PeriodicNotesManagerAgent extends BaseAgent {
+  private app: App;
+
+  /**
+   * Create a new PeriodicNotesManagerAgent
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'periodicNotesManager',
+      'Daily, weekly and monthly notes: open, create, append and read date ranges',
+      '1.0.0'
+    );
+
+    this.app = app;
+
+    this.registerTool(new OpenPeriodicNoteTool(app));
+    this.registerTool(new CreatePeriodicNoteTool(app));
+    this.registerTool(new AppendPeriodicNoteTool(app));
+    this.registerTool(new ReadPeriodicRangeTool(app));
+  }
+
+  /**
+   * Dynamic description that includes where daily notes are kept
+   */
+  get description(): string {
+    const baseDescription = 'Daily, weekly and monthly notes: open, create, append and read date ranges';
+
+    try {
+      const daily = PeriodicNoteResolver.getSettings(this.app, 'daily');
+      return `${baseDescription}\n\n📅 Daily notes: "${daily.folder || '/'}" as ${daily.format}${daily.template ? `, template "${daily.template}"` : ''}`;
+    } catch {
+      return baseDescription;
+    }
+  }
+}
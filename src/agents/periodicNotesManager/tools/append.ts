@@ -0,0 +1,126 @@
+import { App } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { AppendPeriodicNoteParams, AppendPeriodicNoteResult } from '../types';
+import { PeriodicNoteResolver } from '../utils/PeriodicNoteResolver';
+import { SectionResolver } from '../../contentManager/utils/SectionResolver';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+import { PERIODIC_TARGET_PROPERTIES } from './targetSchema';
+
+/**
+ * Location: src/agents/periodicNotesManager/tools/append.ts
+ *
+ * Appends content to the daily, weekly or monthly note for a date.
+ *
+ * Key Design:
+ * - The note is created from its template first if it does not exist
+ * - With section, content goes after the last non-blank line of that section;
+ *   a missing heading is added at the end of the note
+ * - The change is recorded in the edit journal
+ *
+ * Relationships:
+ * - Uses PeriodicNoteResolver for the note and SectionResolver for the section
+ */
+export class AppendPeriodicNoteTool extends BaseTool<AppendPeriodicNoteParams, AppendPeriodicNoteResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new AppendPeriodicNoteTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'append',
+      'Append to Periodic Note',
+      'Append to today\'s (or any date\'s) daily, weekly or monthly note, optionally under a heading such as "## Log"',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with where the content was added
+   */
+  async execute(params: AppendPeriodicNoteParams): Promise<AppendPeriodicNoteResult> {
+    try {
+      if (typeof params.content !== 'string' || params.content.trim() === '') {
+        return this.prepareResult(false, undefined, 'content is required: the text to append.');
+      }
+
+      const period = params.period ?? 'daily';
+      const date = PeriodicNoteResolver.resolveDate(params);
+      const source = { agent: 'periodicNotesManager', tool: this.slug, context: params.context };
+      const { file, created } = await PeriodicNoteResolver.ensureNote(this.app, period, date, source);
+
+      const existing = await this.app.vault.read(file);
+      const { content, line } = SectionResolver.appendToSection(this.app, file, existing, params.content, params.section);
+
+      await this.app.vault.modify(file, content);
+      await recordAgentEdit(this.app, source, [
+        { kind: 'modify', path: file.path, before: existing, afterHash: ContentVersioning.hash(content) }
+      ]);
+
+      return this.prepareResult(true, { path: file.path, created, line });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error appending to periodic note: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        ...PERIODIC_TARGET_PROPERTIES,
+        content: {
+          type: 'string',
+          description: 'Content to append'
+        },
+        section: {
+          type: 'string',
+          description: 'Heading to append under, e.g. "## Log" (added at the end of the note if missing)'
+        }
+      },
+      required: ['content']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the content was appended'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the note' },
+            created: { type: 'boolean', description: 'True if the note was created for this append' },
+            line: { type: 'number', description: 'Line the content starts at (1-based)' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
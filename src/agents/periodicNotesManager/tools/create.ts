@@ -0,0 +1,100 @@
+import { App } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { CreatePeriodicNoteParams, CreatePeriodicNoteResult } from '../types';
+import { PeriodicNoteResolver } from '../utils/PeriodicNoteResolver';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { PERIODIC_TARGET_PROPERTIES } from './targetSchema';
+
+/**
+ * Location: src/agents/periodicNotesManager/tools/create.ts
+ *
+ * Creates the daily, weekly or monthly note for a date from its template.
+ * An existing note is left unchanged and reported with created: false.
+ *
+ * Relationships:
+ * - Uses PeriodicNoteResolver for settings, path and template filling
+ */
+export class CreatePeriodicNoteTool extends BaseTool<CreatePeriodicNoteParams, CreatePeriodicNoteResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new CreatePeriodicNoteTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'create',
+      'Create Periodic Note',
+      'Create the daily, weekly or monthly note for a date, using the Daily Notes folder, format and template settings',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the note path
+   */
+  async execute(params: CreatePeriodicNoteParams): Promise<CreatePeriodicNoteResult> {
+    try {
+      const period = params.period ?? 'daily';
+      const date = PeriodicNoteResolver.resolveDate(params);
+      const { file, created } = await PeriodicNoteResolver.ensureNote(this.app, period, date, {
+        agent: 'periodicNotesManager',
+        tool: this.slug,
+        context: params.context
+      });
+
+      return this.prepareResult(true, { path: file.path, created });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error creating periodic note: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        ...PERIODIC_TARGET_PROPERTIES
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the note exists now'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the note' },
+            created: { type: 'boolean', description: 'False if the note already existed' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
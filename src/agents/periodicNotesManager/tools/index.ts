@@ -0,0 +1,4 @@
+export * from './open';
+export * from './create';
+export * from './append';
+export * from './readRange';
@@ -0,0 +1,145 @@
+import { App, WorkspaceLeaf } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { OpenPeriodicNoteParams, OpenPeriodicNoteResult } from '../types';
+import { PeriodicNoteResolver } from '../utils/PeriodicNoteResolver';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { PERIODIC_TARGET_PROPERTIES } from './targetSchema';
+
+/**
+ * Location: src/agents/periodicNotesManager/tools/open.ts
+ *
+ * Opens the daily, weekly or monthly note for a date in the editor,
+ * creating it from its template first unless create is false.
+ *
+ * Relationships:
+ * - Uses PeriodicNoteResolver for settings, path and template filling
+ * - Opens leaves the same way as storageManager.open
+ */
+export class OpenPeriodicNoteTool extends BaseTool<OpenPeriodicNoteParams, OpenPeriodicNoteResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new OpenPeriodicNoteTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'open',
+      'Open Periodic Note',
+      'Open today\'s (or any date\'s) daily, weekly or monthly note, creating it from its template if needed',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the opened note
+   */
+  async execute(params: OpenPeriodicNoteParams): Promise<OpenPeriodicNoteResult> {
+    try {
+      const period = params.period ?? 'daily';
+      const date = PeriodicNoteResolver.resolveDate(params);
+
+      let file;
+      let created = false;
+      if (params.create === false) {
+        const path = PeriodicNoteResolver.getPath(PeriodicNoteResolver.getSettings(this.app, period), date);
+        file = this.app.vault.getFileByPath(path);
+        if (!file) {
+          return this.prepareResult(false, undefined,
+            `No ${period} note for ${date.format('YYYY-MM-DD')} ("${path}"). Omit create: false to create it.`
+          );
+        }
+      } else {
+        ({ file, created } = await PeriodicNoteResolver.ensureNote(this.app, period, date, {
+          agent: 'periodicNotesManager',
+          tool: this.slug,
+          context: params.context
+        }));
+      }
+
+      let leaf: WorkspaceLeaf;
+      switch (params.mode || 'current') {
+        case 'tab':
+          leaf = this.app.workspace.getLeaf('tab');
+          break;
+        case 'split':
+          leaf = this.app.workspace.getLeaf('split');
+          break;
+        case 'window':
+          leaf = this.app.workspace.getLeaf('window');
+          break;
+        case 'current':
+        default:
+          leaf = this.app.workspace.getLeaf(false);
+          break;
+      }
+
+      await leaf.openFile(file);
+      this.app.workspace.setActiveLeaf(leaf, { focus: true });
+
+      return this.prepareResult(true, { path: file.path, created });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error opening periodic note: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        ...PERIODIC_TARGET_PROPERTIES,
+        create: {
+          type: 'boolean',
+          description: 'Create the note from its template if it does not exist',
+          default: true
+        },
+        mode: {
+          type: 'string',
+          enum: ['tab', 'split', 'window', 'current'],
+          description: 'Where to open the note',
+          default: 'current'
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the note was opened'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'Path of the opened note' },
+            created: { type: 'boolean', description: 'True if the note was created before opening' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -0,0 +1,219 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { PeriodicNoteContent, ReadPeriodicRangeParams, ReadPeriodicRangeResult } from '../types';
+import { PeriodicNoteResolver } from '../utils/PeriodicNoteResolver';
+import { SectionResolver } from '../../contentManager/utils/SectionResolver';
+import { createErrorMessage } from '../../../utils/errorUtils';
+
+/**
+ * Location: src/agents/periodicNotesManager/tools/readRange.ts
+ *
+ * Reads the periodic notes of a date range in one call, e.g. the "## Log" section of the last 7 daily notes.
+ *
+ * Key Design:
+ * - Range is from..to, or the last count periods ending at to (default: the last 7)
+ * - Periods without a note are listed in missing rather than failing the call
+ * - Range and total content are capped; later notes are left out and truncated is set
+ *
+ * Relationships:
+ * - Uses PeriodicNoteResolver for paths and SectionResolver for sections
+ */
+
+const DEFAULT_COUNT = 7;
+const MAX_PERIODS = 92;
+const MAX_TOTAL_CHARS = 40000;
+
+export class ReadPeriodicRangeTool extends BaseTool<ReadPeriodicRangeParams, ReadPeriodicRangeResult> {
+  private app: App;
+
+  /**
+   * Create a new ReadPeriodicRangeTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'readRange',
+      'Read Periodic Notes Range',
+      'Read the daily, weekly or monthly notes of a date range in one call, optionally only one section of each',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the notes of the range
+   */
+  async execute(params: ReadPeriodicRangeParams): Promise<ReadPeriodicRangeResult> {
+    try {
+      const period = params.period ?? 'daily';
+      const unit = PeriodicNoteResolver.getUnit(period);
+      const to = PeriodicNoteResolver.parseDate(params.to).startOf(unit);
+
+      let from;
+      if (params.from) {
+        from = PeriodicNoteResolver.parseDate(params.from).startOf(unit);
+      } else {
+        const count = params.count ?? DEFAULT_COUNT;
+        if (!Number.isInteger(count) || count < 1) {
+          return this.prepareResult(false, undefined, 'count must be a whole number of at least 1.');
+        }
+        from = to.clone().subtract(count - 1, unit);
+      }
+
+      if (from.isAfter(to)) {
+        return this.prepareResult(false, undefined,
+          `from (${from.format('YYYY-MM-DD')}) is after to (${to.format('YYYY-MM-DD')}).`
+        );
+      }
+      if (to.diff(from, unit) + 1 > MAX_PERIODS) {
+        return this.prepareResult(false, undefined,
+          `Range too long: at most ${MAX_PERIODS} ${period} notes per call. Split it into smaller ranges.`
+        );
+      }
+
+      const settings = PeriodicNoteResolver.getSettings(this.app, period);
+      const notes: PeriodicNoteContent[] = [];
+      const missing: string[] = [];
+      let totalChars = 0;
+      let truncated = false;
+
+      for (const date = from.clone(); !date.isAfter(to); date.add(1, unit)) {
+        const label = date.format('YYYY-MM-DD');
+        const path = PeriodicNoteResolver.getPath(settings, date);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+          missing.push(label);
+          continue;
+        }
+
+        const note = await this.readNote(file, label, params.section);
+        if (totalChars + note.content.length > MAX_TOTAL_CHARS && notes.length > 0) {
+          truncated = true;
+          break;
+        }
+        totalChars += note.content.length;
+        notes.push(note);
+      }
+
+      return this.prepareResult(true, {
+        period,
+        from: from.format('YYYY-MM-DD'),
+        to: to.format('YYYY-MM-DD'),
+        notes,
+        missing,
+        ...(truncated ? { truncated } : {})
+      });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error reading periodic notes: ', error));
+    }
+  }
+
+  /**
+   * Read a note, or only one of its sections
+   */
+  private async readNote(file: TFile, date: string, section?: string): Promise<PeriodicNoteContent> {
+    const content = await this.app.vault.cachedRead(file);
+    if (!section?.trim()) {
+      return { date, path: file.path, content };
+    }
+
+    const lines = content.split('\n');
+    try {
+      const resolved = SectionResolver.resolveHeading(this.app, file, lines, section);
+      const body = lines.slice(resolved.contentStartLine - 1, resolved.endLine).join('\n').trim();
+      return { date, path: file.path, content: body };
+    } catch {
+      return { date, path: file.path, content: '', sectionMissing: true };
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        period: {
+          type: 'string',
+          enum: ['daily', 'weekly', 'monthly'],
+          description: 'Kind of note (default: daily)'
+        },
+        from: {
+          type: 'string',
+          description: 'First date of the range: YYYY-MM-DD, "today", "yesterday" or "tomorrow"'
+        },
+        to: {
+          type: 'string',
+          description: 'Last date of the range (default: today)'
+        },
+        count: {
+          type: 'number',
+          description: `Number of periods ending at to, e.g. 7 for the last 7 days (used when from is omitted; default ${DEFAULT_COUNT})`
+        },
+        section: {
+          type: 'string',
+          description: 'Only return this section of each note, e.g. "## Log"'
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the range was read'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            period: { type: 'string' },
+            from: { type: 'string', description: 'First period of the range (YYYY-MM-DD)' },
+            to: { type: 'string', description: 'Last period of the range (YYYY-MM-DD)' },
+            notes: {
+              type: 'array',
+              description: 'Existing notes, oldest first',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string', description: 'First day of the period' },
+                  path: { type: 'string' },
+                  content: { type: 'string', description: 'Note content, or the section content' },
+                  sectionMissing: { type: 'boolean', description: 'True if the note does not have the section' }
+                }
+              }
+            },
+            missing: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Periods in the range without a note'
+            },
+            truncated: {
+              type: 'boolean',
+              description: 'True if the content limit was reached (later notes left out; narrow the range or use section)'
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Location: src/agents/periodicNotesManager/tools/targetSchema.ts
+ *
+ * Parameter schema shared by the tools that act on one periodic note.
+ */
+export const PERIODIC_TARGET_PROPERTIES = {
+  period: {
+    type: 'string',
+    enum: ['daily', 'weekly', 'monthly'],
+    description: 'Kind of note (default: daily)'
+  },
+  date: {
+    type: 'string',
+    description: 'Date inside the period: "today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)'
+  },
+  offset: {
+    type: 'number',
+    description: 'Periods to move from date, e.g. -1 for the previous day/week/month'
+  }
+};
@@ -0,0 +1,147 @@
+import { CommonParameters, CommonResult } from '../../types';
+
+/**
+ * Kinds of periodic notes
+ */
+export type NotePeriod = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Parameters that pick a periodic note
+ */
+export interface PeriodicNoteTarget {
+  /**
+   * Kind of note (default: daily)
+   */
+  period?: NotePeriod;
+
+  /**
+   * Date inside the period: "today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)
+   */
+  date?: string;
+
+  /**
+   * Periods to move from date, e.g. -1 for the previous day/week/month
+   */
+  offset?: number;
+}
+
+// Open Tool
+export interface OpenPeriodicNoteParams extends CommonParameters, PeriodicNoteTarget {
+  /**
+   * Create the note from its template if it does not exist (default: true)
+   */
+  create?: boolean;
+
+  /**
+   * Where to open the note (default: current)
+   */
+  mode?: 'tab' | 'split' | 'window' | 'current';
+}
+
+export interface OpenPeriodicNoteResult extends CommonResult {
+  data?: {
+    path: string;
+    created: boolean;
+  };
+}
+
+// Create Tool
+export interface CreatePeriodicNoteParams extends CommonParameters, PeriodicNoteTarget {}
+
+export interface CreatePeriodicNoteResult extends CommonResult {
+  data?: {
+    path: string;
+    /**
+     * False if the note already existed
+     */
+    created: boolean;
+  };
+}
+
+// Append Tool
+export interface AppendPeriodicNoteParams extends CommonParameters, PeriodicNoteTarget {
+  /**
+   * Content to append
+   */
+  content: string;
+
+  /**
+   * Heading to append under, e.g. "## Log" (added at the end of the note if missing)
+   */
+  section?: string;
+}
+
+export interface AppendPeriodicNoteResult extends CommonResult {
+  data?: {
+    path: string;
+    /**
+     * True if the note was created for this append
+     */
+    created: boolean;
+    /**
+     * Line the content starts at (1-based)
+     */
+    line: number;
+  };
+}
+
+// Read Range Tool
+export interface ReadPeriodicRangeParams extends CommonParameters {
+  /**
+   * Kind of note (default: daily)
+   */
+  period?: NotePeriod;
+
+  /**
+   * First date of the range (YYYY-MM-DD, "today", ...)
+   */
+  from?: string;
+
+  /**
+   * Last date of the range (default: today)
+   */
+  to?: string;
+
+  /**
+   * Number of periods ending at to, e.g. 7 for the last 7 days (used when from is omitted)
+   */
+  count?: number;
+
+  /**
+   * Only return this section of each note, e.g. "## Log"
+   */
+  section?: string;
+}
+
+export interface PeriodicNoteContent {
+  /**
+   * First day of the period (YYYY-MM-DD)
+   */
+  date: string;
+  path: string;
+  /**
+   * Note content, or the section content
+   */
+  content: string;
+  /**
+   * True if the note does not have the section
+   */
+  sectionMissing?: boolean;
+}
+
+export interface ReadPeriodicRangeResult extends CommonResult {
+  data?: {
+    period: NotePeriod;
+    from: string;
+    to: string;
+    notes: PeriodicNoteContent[];
+    /**
+     * Periods in the range without a note
+     */
+    missing: string[];
+    /**
+     * True if the content limit was reached (later notes left out)
+     */
+    truncated?: boolean;
+  };
+}
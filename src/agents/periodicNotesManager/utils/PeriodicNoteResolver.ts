@@ -0,0 +1,211 @@
+import { App, TFile, moment } from 'obsidian';
+import { ContentOperations } from '../../contentManager/utils/ContentOperations';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+import { TemplateEngine } from '../../contentManager/utils/TemplateEngine';
+import { normalizePath } from '../../../utils/pathUtils';
+import { recordAgentEdit, EditSource } from '../../../services/journal/EditJournalService';
+import type { NotePeriod, PeriodicNoteTarget } from '../types';
+
+/**
+ * Location: src/agents/periodicNotesManager/utils/PeriodicNoteResolver.ts
+ *
+ * Finds and creates daily, weekly and monthly notes the way Obsidian does.
+ * - Daily notes use the Daily Notes core plugin settings (folder, format, template),
+ *   then the Periodic Notes community plugin's, then Obsidian's defaults
+ * - Weekly and monthly notes use the Periodic Notes plugin settings, or defaults
+ * - New notes are filled from the configured template with {{title}}, {{date}} and {{time}}
+ *
+ * Relationships:
+ * - Used by all periodicNotesManager tools
+ * - Uses TemplateEngine to fill templates and ContentOperations to create notes
+ */
+
+/** Moment.js date (the obsidian module re-exports moment without its types) */
+export type Moment = ReturnType<typeof moment>;
+
+/** Settings of one kind of periodic note */
+export interface PeriodicNoteSettings {
+  folder: string;
+  format: string;
+  template: string;
+}
+
+/** Stored settings (Daily Notes core plugin options and Periodic Notes plugin settings share this shape) */
+interface StoredPeriodicSettings {
+  enabled?: boolean;
+  folder?: string;
+  format?: string;
+  template?: string;
+}
+
+const DEFAULT_FORMATS: Record<NotePeriod, string> = {
+  daily: 'YYYY-MM-DD',
+  weekly: 'gggg-[W]ww',
+  monthly: 'YYYY-MM'
+};
+
+const PERIOD_UNITS: Record<NotePeriod, 'day' | 'week' | 'month'> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month'
+};
+
+const RELATIVE_DATES: Record<string, number> = {
+  today: 0,
+  yesterday: -1,
+  tomorrow: 1
+};
+
+/**
+ * Utility class for periodic notes
+ */
+export class PeriodicNoteResolver {
+  /**
+   * Get the folder, file name format and template for a kind of note
+   * @param app Obsidian app instance
+   * @param period Kind of note
+   * @returns Settings (folder and template may be empty)
+   */
+  static getSettings(app: App, period: NotePeriod): PeriodicNoteSettings {
+    const stored = (period === 'daily' ? this.getDailyNotesOptions(app) : null) ??
+      this.getPeriodicNotesSettings(app, period) ??
+      {};
+
+    return {
+      folder: normalizePath(stored.folder?.trim() ?? '').replace(/^\/+|\/+$/g, ''),
+      format: stored.format?.trim() || DEFAULT_FORMATS[period],
+      template: stored.template?.trim() ?? ''
+    };
+  }
+
+  /**
+   * Parse a date parameter
+   * @param date "today", "yesterday", "tomorrow" or YYYY-MM-DD (default: today)
+   * @returns Start of the day
+   * @throws Error if the date cannot be parsed
+   */
+  static parseDate(date?: string): Moment {
+    const value = date?.trim().toLowerCase() || 'today';
+    if (value in RELATIVE_DATES) {
+      return moment().startOf('day').add(RELATIVE_DATES[value], 'day');
+    }
+
+    const parsed = moment(value, 'YYYY-MM-DD', true);
+    if (!parsed.isValid()) {
+      throw new Error(`Invalid date: "${date}". Use YYYY-MM-DD, "today", "yesterday" or "tomorrow".`);
+    }
+    return parsed.startOf('day');
+  }
+
+  /**
+   * Resolve the start of the period a target points at
+   * @param target Period, date and offset
+   * @returns Start of the day, week or month
+   */
+  static resolveDate(target: PeriodicNoteTarget): Moment {
+    const period = target.period ?? 'daily';
+    const unit = PERIOD_UNITS[period];
+    return this.parseDate(target.date).add(target.offset ?? 0, unit).startOf(unit);
+  }
+
+  /**
+   * Get the unit a period steps by
+   */
+  static getUnit(period: NotePeriod): 'day' | 'week' | 'month' {
+    return PERIOD_UNITS[period];
+  }
+
+  /**
+   * Get the note path for a period
+   * @param settings Settings of the kind of note
+   * @param date Start of the period
+   * @returns Vault path of the note
+   */
+  static getPath(settings: PeriodicNoteSettings, date: Moment): string {
+    const name = date.format(settings.format);
+    return normalizePath(settings.folder ? `${settings.folder}/${name}.md` : `${name}.md`);
+  }
+
+  /**
+   * Get the note for a period, creating it from its template if it does not exist
+   * @param app Obsidian app instance
+   * @param period Kind of note
+   * @param date Start of the period
+   * @param source Agent and tool recorded in the edit journal for a created note
+   * @returns The note and whether it was created
+   */
+  static async ensureNote(
+    app: App,
+    period: NotePeriod,
+    date: Moment,
+    source: EditSource
+  ): Promise<{ file: TFile; created: boolean }> {
+    const settings = this.getSettings(app, period);
+    const path = this.getPath(settings, date);
+
+    const existing = app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      return { file: existing, created: false };
+    }
+    if (existing) {
+      throw new Error(`"${path}" is a folder, not a note. Check the ${period} note format setting.`);
+    }
+
+    const content = await this.renderTemplate(app, settings, date, path);
+    const file = await ContentOperations.createContent(app, path, content);
+    await recordAgentEdit(app, source, [
+      { kind: 'create', path, afterHash: ContentVersioning.hash(content) }
+    ]);
+
+    return { file, created: true };
+  }
+
+  /**
+   * Fill the configured template for a new note (empty content if there is no template)
+   */
+  private static async renderTemplate(
+    app: App,
+    settings: PeriodicNoteSettings,
+    date: Moment,
+    path: string
+  ): Promise<string> {
+    if (!settings.template) {
+      return '';
+    }
+
+    const templatePath = normalizePath(settings.template);
+    const templateFile = app.vault.getAbstractFileByPath(
+      templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`
+    );
+    if (!(templateFile instanceof TFile)) {
+      throw new Error(`Template not found: "${settings.template}". Fix the template in the periodic note settings.`);
+    }
+
+    // Daily Notes fills {{date}} with the note's own date and format, not the current time
+    const template = await app.vault.read(templateFile);
+    const now = moment();
+    const time = date.clone().set({ hour: now.hour(), minute: now.minute(), second: now.second() });
+    return TemplateEngine.render(app, template, {
+      title: path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, ''),
+      variables: {},
+      now: time.toDate(),
+      dateFormat: settings.format
+    }).content;
+  }
+
+  private static getDailyNotesOptions(app: App): StoredPeriodicSettings | null {
+    const internalPlugins = (app as unknown as {
+      internalPlugins?: { getPluginById?: (id: string) => { enabled?: boolean; instance?: { options?: StoredPeriodicSettings } } | null };
+    }).internalPlugins;
+    const core = internalPlugins?.getPluginById?.('daily-notes');
+    return core?.enabled ? core.instance?.options ?? {} : null;
+  }
+
+  private static getPeriodicNotesSettings(app: App, period: NotePeriod): StoredPeriodicSettings | null {
+    const plugin = app.plugins.getPlugin('periodic-notes') as unknown as {
+      settings?: Partial<Record<NotePeriod, StoredPeriodicSettings>>;
+    } | null;
+    const settings = plugin?.settings?.[period];
+    return settings?.enabled ? settings : null;
+  }
+}
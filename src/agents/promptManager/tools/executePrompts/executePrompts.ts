@@ -392,6 +392,10 @@ export class ExecutePromptsTool extends BaseTool<BatchExecutePromptParams, Batch
                 items: { type: 'string' },
                 description: 'File paths to include as context (text requests only)'
               },
+              expandEmbeds: {
+                type: 'boolean',
+                description: 'Inline notes embedded in contextFiles (![[Note]], ![[Note#Heading]], ![[Note#^block]]) so the model sees their content (text requests only)'
+              },
               workspace: {
                 type: 'string',
                 description: 'Workspace name for context gathering (text requests only)'
@@ -91,6 +91,7 @@ export class PromptExecutor {
         systemPrompt,
         userPrompt,
         filepaths: textConfig.contextFiles,
+        expandEmbeds: textConfig.expandEmbeds,
         provider,
         model,
         workspace: textConfig.workspace,
@@ -42,6 +42,8 @@ export interface TextPromptRequest extends BaseBatchRequest {
   model?: string;
   /** Optional context files to include */
   contextFiles?: string[];
+  /** Inline notes embedded in the context files (![[Note]], ![[Note#Heading]]) */
+  expandEmbeds?: boolean;
   /** Optional workspace for context */
   workspace?: string;
   /** Optional action to perform with the LLM response */
@@ -87,6 +89,7 @@ export interface TextPromptConfig {
   provider?: string;
   model?: string;
   contextFiles?: string[];
+  expandEmbeds?: boolean;
   workspace?: string;
   id?: string;
   sequence?: number;
@@ -144,6 +147,7 @@ export interface PromptExecutionParams {
   systemPrompt: string;
   userPrompt: string;
   filepaths?: string[];
+  expandEmbeds?: boolean;
   provider?: string;
   model?: string;
   workspace?: string;
@@ -3,7 +3,11 @@ import { BaseAgent } from '../baseAgent';
 import {
   SearchContentTool,
   SearchDirectoryTool,
-  SearchMemoryTool
+  SearchMemoryTool,
+  GraphTool,
+  RelatedNotesTool,
+  QueryTool,
+  SearchConversationsTool
 } from './tools';
 import { MemorySettings, DEFAULT_MEMORY_SETTINGS } from '../../types';
 import { MemoryService } from "../memoryManager/services/MemoryService";
@@ -137,6 +141,19 @@ export class SearchManagerAgent extends BaseAgent {
       this.workspaceService || undefined,
       this.storageAdapter || undefined  // SQLite storage adapter for memory trace search
     ));
+
+    this.registerTool(new GraphTool(app));
+
+    // Related notes by embedding similarity (EmbeddingService wired the same way as searchContent)
+    const relatedNotesTool = new RelatedNotesTool(pluginOrFallback);
+    if (this.embeddingService) {
+      relatedNotesTool.setEmbeddingService(this.embeddingService);
+    }
+    this.registerTool(relatedNotesTool);
+
+    this.registerTool(new QueryTool(pluginOrFallback));
+
+    this.registerTool(new SearchConversationsTool(pluginOrFallback));
   }
 
 
@@ -2,7 +2,7 @@
  * Memory Search Processor
  * 
  * Location: src/agents/searchManager/services/MemorySearchProcessor.ts
- * Purpose: Core search logic across multiple memory types (traces, sessions, workspaces, etc.)
+ * Purpose: Core search logic across multiple memory types (traces, sessions, workspaces, conversations, etc.)
  * Used by: SearchMemoryMode for processing search requests and enriching results
  */
 
@@ -26,6 +26,14 @@ import { IStorageAdapter } from '../../../database/interfaces/IStorageAdapter';
 import { MemoryTraceData, StateMetadata } from '../../../types/storage/HybridStorageTypes';
 import { getNexusPlugin } from '../../../utils/pluginLocator';
 import type NexusPlugin from '../../../main';
+import type { HybridStorageAdapter } from '../../../database/adapters/HybridStorageAdapter';
+import type { EmbeddingManager } from '../../../services/embeddings/EmbeddingManager';
+import { ConversationSearchService } from '../../../services/search/ConversationSearchService';
+
+/**
+ * NexusPlugin with the optional embedding manager (desktop)
+ */
+type NexusPluginWithEmbeddings = NexusPlugin & { embeddingManager?: EmbeddingManager };
 
 export interface MemorySearchProcessorInterface {
   process(params: MemorySearchParameters): Promise<EnrichedMemorySearchResult[]>;
@@ -155,7 +163,7 @@ export class MemorySearchProcessor implements MemorySearchProcessorInterface {
     const searchPromises: Promise<RawMemoryResult[]>[] = [];
 
     // Get default memory types if not specified
-    const memoryTypes = options.memoryTypes || ['traces', 'toolCalls', 'sessions', 'states', 'workspaces'];
+    const memoryTypes = options.memoryTypes || ['traces', 'toolCalls', 'sessions', 'states', 'workspaces', 'conversations'];
     const limit = options.limit || this.configuration.defaultLimit;
 
     // Search legacy traces
@@ -183,6 +191,11 @@ export class MemorySearchProcessor implements MemorySearchProcessorInterface {
       searchPromises.push(this.searchWorkspaces(query, options));
     }
 
+    // Search chat conversations
+    if (memoryTypes.includes('conversations')) {
+      searchPromises.push(this.searchConversations(query, options));
+    }
+
     // Execute all searches in parallel
     const searchResults = await Promise.allSettled(searchPromises);
     
@@ -241,7 +254,8 @@ export class MemorySearchProcessor implements MemorySearchProcessorInterface {
       // Session filtering removed - memory is workspace-scoped, not session-scoped
       sessionId: undefined,
       limit: params.limit || this.configuration.defaultLimit,
-      toolCallFilters: params.toolCallFilters
+      toolCallFilters: params.toolCallFilters,
+      memoryTypes: params.memoryTypes
     };
   }
 
@@ -477,6 +491,47 @@ export class MemorySearchProcessor implements MemorySearchProcessorInterface {
     }
   }
 
+  /**
+   * Past chat exchanges, matched by meaning on desktop (conversation embeddings) and by keywords
+   */
+  private async searchConversations(query: string, options: MemorySearchExecutionOptions): Promise<RawMemoryResult[]> {
+    const plugin = getNexusPlugin<NexusPluginWithEmbeddings>(this.plugin.app);
+    const storageAdapter = plugin?.getServiceIfReady<HybridStorageAdapter>('hybridStorageAdapter');
+    if (!storageAdapter?.isReady()) return [];
+
+    try {
+      const workspaceId = options.workspaceId && options.workspaceId !== GLOBAL_WORKSPACE_ID
+        ? options.workspaceId
+        : undefined;
+      const hits = await new ConversationSearchService(
+        storageAdapter.cache,
+        plugin?.embeddingManager?.getService() ?? null
+      ).search(query, { semantic: true, workspaceId, limit: options.limit });
+
+      // Rank order maps onto 1.0 .. 0.5 so conversations interleave with other memory types
+      return hits.map((hit, index) => ({
+        trace: {
+          id: hit.messageId ?? hit.conversationId,
+          workspaceId: hit.workspaceId ?? GLOBAL_WORKSPACE_ID,
+          timestamp: hit.timestamp,
+          type: 'conversation',
+          content: hit.snippet.replace(/\*\*/g, ''),
+          metadata: {
+            context: {
+              conversationId: hit.conversationId,
+              conversationTitle: hit.conversationTitle,
+              ...(hit.messageId && { messageId: hit.messageId })
+            }
+          }
+        },
+        similarity: 1 - index / (2 * hits.length)
+      }));
+    } catch (error) {
+      console.error('[MemorySearchProcessor] Error searching conversations:', error);
+      return [];
+    }
+  }
+
   private async searchToolCallsExact(query: string, options: MemorySearchExecutionOptions): Promise<RawMemoryResult[]> {
     // MemoryTraceService not available in simplified architecture
     return [];
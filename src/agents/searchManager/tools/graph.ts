@@ -0,0 +1,347 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { CommonParameters, CommonResult } from '../../../types';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import {
+  LinkGraph,
+  LinkCount,
+  LinkDirection,
+  LinkNeighborhood,
+  UnresolvedLink
+} from '../../../database/utils/graph/LinkGraph';
+
+/** Default number of notes or links returned */
+const DEFAULT_LIMIT = 100;
+
+/** Maximum number of notes or links returned */
+const MAX_LIMIT = 1000;
+
+/** Maximum hops for neighborhood */
+const MAX_NEIGHBORHOOD_DEPTH = 3;
+
+/** Hops searched by path unless maxDepth is given, and the most allowed */
+const DEFAULT_PATH_DEPTH = 6;
+const MAX_PATH_DEPTH = 10;
+
+export type GraphOperation = 'backlinks' | 'outgoing' | 'unresolved' | 'neighborhood' | 'path' | 'orphans';
+
+export interface GraphParams extends CommonParameters {
+  operation: GraphOperation;
+  /** Note to start from: path or link text (all operations except orphans; optional for unresolved) */
+  note?: string;
+  /** path: the note to reach */
+  target?: string;
+  /** neighborhood: hops from the note; path: maximum hops to search */
+  depth?: number;
+  /** neighborhood and path: links to follow (default: both) */
+  direction?: LinkDirection;
+  /** unresolved (vault-wide) and orphans: only notes in this folder */
+  folder?: string;
+  /** Maximum notes or links returned */
+  limit?: number;
+}
+
+export interface GraphResult extends CommonResult {
+  data?: {
+    note?: string;
+    backlinks?: LinkCount[];
+    links?: LinkCount[];
+    unresolved?: Array<{ link: string; count: number }> | UnresolvedLink[];
+    nodes?: LinkNeighborhood['nodes'];
+    edges?: LinkNeighborhood['edges'];
+    truncated?: boolean;
+    target?: string;
+    found?: boolean;
+    path?: string[];
+    hops?: number;
+    orphans?: string[];
+    total?: number;
+  };
+}
+
+/**
+ * Location: src/agents/searchManager/tools/graph.ts
+ *
+ * Graph tool for SearchManager.
+ * Answers link questions from the metadata cache: backlinks, outgoing and unresolved links,
+ * N-hop neighborhoods, the shortest link path between two notes, and orphan notes.
+ *
+ * Key Design:
+ * - Read-only and cache-based: no file reads, so vault-wide operations stay fast
+ * - Notes are accepted as paths or link text ("Project Alpha", "[[Project Alpha|alias]]");
+ *   unknown notes get similarly named suggestions
+ * - Traversals (neighborhood, path) follow links between markdown notes only
+ *
+ * Relationships:
+ * - Uses LinkGraph (database/utils/graph), which GraphOperations boosting in searchContent shares
+ */
+export class GraphTool extends BaseTool<GraphParams, GraphResult> {
+  private app: App;
+
+  /**
+   * Create a new GraphTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'graph',
+      'Link Graph',
+      'Explore the note link graph: backlinks, outgoing links, unresolved links, N-hop neighborhoods, the shortest link path between two notes, and orphan notes',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the requested links or notes
+   */
+  async execute(params: GraphParams): Promise<GraphResult> {
+    try {
+      const linkGraph = new LinkGraph(this.app);
+      const limit = Math.min(Math.max(1, params.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+
+      switch (params.operation) {
+        case 'backlinks':
+        case 'outgoing':
+        case 'neighborhood': {
+          const note = this.resolve(linkGraph, params.note, 'note');
+          if (typeof note === 'string') {
+            return this.prepareResult(false, undefined, note);
+          }
+          if (params.operation === 'backlinks') {
+            const backlinks = linkGraph.getBacklinks(note.path);
+            return this.prepareResult(true, { note: note.path, backlinks: backlinks.slice(0, limit), total: backlinks.length });
+          }
+          if (params.operation === 'outgoing') {
+            const links = linkGraph.getOutgoing(note.path);
+            return this.prepareResult(true, {
+              note: note.path,
+              links: links.slice(0, limit),
+              unresolved: linkGraph.getUnresolvedFrom(note.path),
+              total: links.length
+            });
+          }
+          return this.getNeighborhood(linkGraph, note, params, limit);
+        }
+        case 'unresolved':
+          return this.getUnresolved(linkGraph, params, limit);
+        case 'path':
+          return this.findPath(linkGraph, params);
+        case 'orphans': {
+          const orphans = linkGraph.getOrphans(this.folderFilter(params.folder));
+          return this.prepareResult(true, { orphans: orphans.slice(0, limit), total: orphans.length });
+        }
+        default:
+          return this.prepareResult(false, undefined,
+            `Invalid operation: "${params.operation}". Use backlinks, outgoing, unresolved, neighborhood, path, or orphans.`
+          );
+      }
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error reading link graph: ', error));
+    }
+  }
+
+  /**
+   * Resolve a note parameter, or return an error message
+   */
+  private resolve(linkGraph: LinkGraph, input: string | undefined, name: string): TFile | string {
+    if (!input?.trim()) {
+      return `${name} is required for this operation`;
+    }
+
+    const file = linkGraph.resolveNote(input);
+    if (file) {
+      return file;
+    }
+
+    const suggestions = linkGraph.suggestNotes(input);
+    return suggestions.length > 0
+      ? `Note not found: "${input}". Similar notes: ${suggestions.join(', ')}`
+      : `Note not found: "${input}". Use searchContent to find the note path.`;
+  }
+
+  /**
+   * Notes within depth hops of a note
+   */
+  private getNeighborhood(linkGraph: LinkGraph, note: TFile, params: GraphParams, limit: number): GraphResult {
+    const depth = Math.min(Math.max(1, params.depth ?? 1), MAX_NEIGHBORHOOD_DEPTH);
+    const neighborhood = linkGraph.getNeighborhood(note.path, depth, params.direction ?? 'both', limit);
+    return this.prepareResult(true, { note: note.path, ...neighborhood });
+  }
+
+  /**
+   * Unresolved links of one note, or of the whole vault (optionally one folder)
+   */
+  private getUnresolved(linkGraph: LinkGraph, params: GraphParams, limit: number): GraphResult {
+    if (params.note?.trim()) {
+      const note = this.resolve(linkGraph, params.note, 'note');
+      if (typeof note === 'string') {
+        return this.prepareResult(false, undefined, note);
+      }
+      const unresolved = linkGraph.getUnresolvedFrom(note.path);
+      return this.prepareResult(true, { note: note.path, unresolved: unresolved.slice(0, limit), total: unresolved.length });
+    }
+
+    const unresolved = linkGraph.getUnresolved(this.folderFilter(params.folder));
+    return this.prepareResult(true, { unresolved: unresolved.slice(0, limit), total: unresolved.length });
+  }
+
+  /**
+   * Shortest link path from note to target
+   */
+  private findPath(linkGraph: LinkGraph, params: GraphParams): GraphResult {
+    const from = this.resolve(linkGraph, params.note, 'note');
+    if (typeof from === 'string') {
+      return this.prepareResult(false, undefined, from);
+    }
+    const to = this.resolve(linkGraph, params.target, 'target');
+    if (typeof to === 'string') {
+      return this.prepareResult(false, undefined, to);
+    }
+
+    const maxDepth = Math.min(Math.max(1, params.depth ?? DEFAULT_PATH_DEPTH), MAX_PATH_DEPTH);
+    const path = linkGraph.findShortestPath(from.path, to.path, params.direction ?? 'both', maxDepth);
+    if (!path) {
+      return this.prepareResult(true, { note: from.path, target: to.path, found: false });
+    }
+    return this.prepareResult(true, { note: from.path, target: to.path, found: true, path, hops: path.length - 1 });
+  }
+
+  /**
+   * Path filter for a folder parameter
+   */
+  private folderFilter(folder?: string): ((path: string) => boolean) | undefined {
+    const normalized = folder ? normalizePath(folder) : '';
+    if (!normalized || normalized === '/') {
+      return undefined;
+    }
+    return (path: string) => path.startsWith(`${normalized}/`);
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['backlinks', 'outgoing', 'unresolved', 'neighborhood', 'path', 'orphans'],
+          description: 'backlinks: notes linking to note. outgoing: links from note. unresolved: links to missing notes (from note, or vault-wide). neighborhood: notes within depth hops. path: shortest link path from note to target. orphans: notes with no links in or out.'
+        },
+        note: {
+          type: 'string',
+          description: 'Note path or link text. Required for backlinks, outgoing, neighborhood and path; optional for unresolved.'
+        },
+        target: {
+          type: 'string',
+          description: 'path: the note to reach (path or link text)'
+        },
+        depth: {
+          type: 'number',
+          description: `neighborhood: hops from note (default: 1, max: ${MAX_NEIGHBORHOOD_DEPTH}). path: maximum hops to search (default: ${DEFAULT_PATH_DEPTH}, max: ${MAX_PATH_DEPTH}).`
+        },
+        direction: {
+          type: 'string',
+          enum: ['outgoing', 'incoming', 'both'],
+          description: 'neighborhood and path: links to follow (default: both)',
+          default: 'both'
+        },
+        folder: {
+          type: 'string',
+          description: 'unresolved (vault-wide) and orphans: only notes in this folder'
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum notes or links to return; for neighborhood, maximum notes including note (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+        }
+      },
+      required: ['operation']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    const linkCount = {
+      type: 'object',
+      properties: {
+        path: { type: 'string' },
+        count: { type: 'number', description: 'Number of links' }
+      }
+    };
+
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the operation succeeded'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            note: { type: 'string', description: 'Resolved path of note' },
+            backlinks: { type: 'array', description: 'backlinks: linking notes, most links first', items: linkCount },
+            links: { type: 'array', description: 'outgoing: linked files, most links first', items: linkCount },
+            unresolved: {
+              type: 'array',
+              description: 'outgoing/unresolved: missing link targets; vault-wide results include the linking notes',
+              items: {
+                type: 'object',
+                properties: {
+                  link: { type: 'string' },
+                  count: { type: 'number' },
+                  sources: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            },
+            nodes: {
+              type: 'array',
+              description: 'neighborhood: notes with their hop distance from note',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  distance: { type: 'number' }
+                }
+              }
+            },
+            edges: {
+              type: 'array',
+              description: 'neighborhood: links between the notes',
+              items: {
+                type: 'object',
+                properties: {
+                  from: { type: 'string' },
+                  to: { type: 'string' }
+                }
+              }
+            },
+            truncated: { type: 'boolean', description: 'neighborhood: stopped at limit' },
+            target: { type: 'string', description: 'path: resolved path of target' },
+            found: { type: 'boolean', description: 'path: whether the notes are connected within depth hops' },
+            path: { type: 'array', items: { type: 'string' }, description: 'path: notes from note to target' },
+            hops: { type: 'number', description: 'path: number of links in the path' },
+            orphans: { type: 'array', items: { type: 'string' }, description: 'orphans: unlinked notes' },
+            total: { type: 'number', description: 'Total before the limit' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
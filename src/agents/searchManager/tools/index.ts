@@ -2,3 +2,7 @@
 export * from './searchContent';
 export * from './searchDirectory';
 export * from './searchMemory';
+export * from './graph';
+export * from './relatedNotes';
+export * from './query';
+export * from './searchConversations';
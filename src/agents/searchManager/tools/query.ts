@@ -0,0 +1,180 @@
+import { Plugin } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { CommonParameters, CommonResult } from '../../../types';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { MetadataQueryError, MetadataQueryParser } from '../../../services/search/MetadataQuery';
+import { IndexedFileSource, MetadataQueryEngine, QueryRow } from '../../../services/search/MetadataQueryEngine';
+
+/**
+ * Plugin with the service container accessor (for the cacheManager and its VaultFileIndex)
+ */
+interface PluginWithServices extends Plugin {
+  getServiceIfReady?<T>(name: string): T | null;
+}
+
+/** Rows returned when neither the query nor the limit parameter sets a limit */
+const DEFAULT_LIMIT = 50;
+
+/** Maximum rows returned */
+const MAX_LIMIT = 1000;
+
+export interface QueryParams extends CommonParameters {
+  /** Query text, e.g. status = "active" AND #project SORT due ASC LIMIT 20 */
+  query: string;
+  /** Fields to return when the query has no SELECT */
+  fields?: string[];
+  /** Maximum rows when the query has no LIMIT */
+  limit?: number;
+}
+
+export interface QueryResult extends CommonResult {
+  data?: {
+    fields: string[];
+    rows: QueryRow[];
+    total: number;
+  };
+}
+
+/**
+ * Location: src/agents/searchManager/tools/query.ts
+ *
+ * Query tool for SearchManager.
+ * Filters and sorts notes by frontmatter properties, tags, folders, file dates, link counts
+ * and task counts, returning one row per note with the selected fields.
+ *
+ * Key Design:
+ * - A small query language (see MetadataQuery) instead of fuzzy search followed by reading every note
+ * - Cache-based: notes from VaultFileIndex, metadata from the metadata cache; no Dataview needed
+ * - Parse errors name the position, so the query can be fixed without guessing
+ *
+ * Relationships:
+ * - Uses MetadataQueryParser and MetadataQueryEngine (services/search)
+ */
+export class QueryTool extends BaseTool<QueryParams, QueryResult> {
+  private plugin: Plugin;
+
+  /**
+   * Create a new QueryTool
+   * @param plugin Plugin instance (for the app and the cacheManager service)
+   */
+  constructor(plugin: Plugin) {
+    super(
+      'query',
+      'Metadata Query',
+      'Query notes by frontmatter properties, tags, folder, file dates, link counts and task counts, returning rows with selected fields. ' +
+      'Example: status = "active" AND owner = "sam" AND #project SORT due ASC LIMIT 20',
+      '1.0.0'
+    );
+
+    this.plugin = plugin;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the matching rows
+   */
+  async execute(params: QueryParams): Promise<QueryResult> {
+    try {
+      if (!params.query?.trim()) {
+        return this.prepareResult(false, undefined, 'query is required, e.g. status = "active" AND #project SORT due ASC');
+      }
+
+      const query = MetadataQueryParser.parse(params.query);
+      if (query.select.length === 0 && params.fields?.length) {
+        query.select = params.fields;
+      }
+      const limit = Math.min(Math.max(1, query.limit ?? params.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+
+      const result = new MetadataQueryEngine(this.plugin.app, this.getFileSource()).run(query, limit);
+      return this.prepareResult(true, result);
+    } catch (error) {
+      if (error instanceof MetadataQueryError) {
+        return this.prepareResult(false, undefined, `Invalid query: ${error.message}`);
+      }
+      return this.prepareResult(false, undefined, createErrorMessage('Error running query: ', error));
+    }
+  }
+
+  /**
+   * The cacheManager's VaultFileIndex, or null before the service is ready (notes then come from the vault)
+   */
+  private getFileSource(): IndexedFileSource | null {
+    return (this.plugin as PluginWithServices).getServiceIfReady?.<IndexedFileSource>('cacheManager') ?? null;
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: [
+            'Query: [SELECT field, ...] [FROM "folder"] [WHERE] condition [SORT field [ASC|DESC], ...] [LIMIT n].',
+            'Conditions: field = value (also !=, <, <=, >, >=, contains), #tag (includes nested tags), a bare field (is set), combined with AND, OR, NOT and parentheses.',
+            'Fields: frontmatter properties (nested with dots, quote names with spaces) or file.path, file.name, file.folder, file.ext, file.size, file.ctime, file.mtime, file.tags, file.outlinks, file.inlinks, file.tasks, file.openTasks, file.doneTasks.',
+            'Values: "text", numbers, true/false, null, dates (2024-05-01, today, yesterday, tomorrow, -7d, +2w, -1m, +1y).',
+            'Text matching ignores case; list properties match if any item matches.',
+            'Example: status = "active" AND owner = "sam" AND #project SORT due ASC LIMIT 20'
+          ].join(' ')
+        },
+        fields: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Fields to return when the query has no SELECT (default: the fields the query uses)'
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum rows when the query has no LIMIT (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+        }
+      },
+      required: ['query']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the operation succeeded'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            fields: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Fields in each row besides path'
+            },
+            rows: {
+              type: 'array',
+              description: 'Matching notes in sort order: path plus the selected fields (null if a note lacks a field)',
+              items: { type: 'object' }
+            },
+            total: {
+              type: 'number',
+              description: 'Notes matching the query before the limit'
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { Plugin, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { CommonParameters, CommonResult } from '../../../types';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { EmbeddingService } from '../../../services/embeddings/EmbeddingService';
+import { EmbeddingManager } from '../../../services/embeddings/EmbeddingManager';
+import { RelatedNote, RelatedNotesFinder } from '../../../services/search/RelatedNotesFinder';
+import { LinkGraph } from '../../../database/utils/graph/LinkGraph';
+
+/**
+ * Extended plugin interface that includes the optional embedding manager
+ */
+interface PluginWithEmbeddings extends Plugin {
+  embeddingManager?: EmbeddingManager;
+}
+
+/** Default and maximum number of related notes returned */
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export interface RelatedNotesParams extends CommonParameters {
+  /** Note path or link text (default: the note open in the editor) */
+  note?: string;
+  /** Maximum notes returned */
+  limit?: number;
+  /** Share of the score from link proximity, 0-1 */
+  graphWeight?: number;
+  /** Leave out notes already linked to or from the note */
+  excludeLinked?: boolean;
+}
+
+export interface RelatedNotesResult extends CommonResult {
+  data?: {
+    note: string;
+    related: RelatedNote[];
+  };
+}
+
+/**
+ * Location: src/agents/searchManager/tools/relatedNotes.ts
+ *
+ * Related notes tool for SearchManager.
+ * Lists the notes most similar in meaning to a note, using the note embeddings,
+ * optionally blended with link-graph distance.
+ *
+ * Key Design:
+ * - Defaults to the active note, so "what relates to this note?" needs no parameters
+ * - Desktop-only like semantic search; explains when embeddings are not ready yet
+ *
+ * Relationships:
+ * - Uses RelatedNotesFinder (services/search), shared with the Related Notes side pane
+ */
+export class RelatedNotesTool extends BaseTool<RelatedNotesParams, RelatedNotesResult> {
+  private plugin: Plugin;
+  private embeddingService: EmbeddingService | null = null;
+
+  /**
+   * Create a new RelatedNotesTool
+   * @param plugin Plugin instance (for the app and the lazily created embedding manager)
+   */
+  constructor(plugin: Plugin) {
+    super(
+      'relatedNotes',
+      'Related Notes',
+      'Find notes related in meaning to a note (default: the note open in the editor), ranked by embedding similarity. Set graphWeight to also favor notes close in the link graph, or excludeLinked to find related notes that are not linked yet. Desktop-only; needs the embedding index.',
+      '1.0.0'
+    );
+
+    this.plugin = plugin;
+  }
+
+  /**
+   * Set the embedding service
+   */
+  setEmbeddingService(service: EmbeddingService): void {
+    this.embeddingService = service;
+  }
+
+  /**
+   * Lazily get the embedding service from the plugin
+   * (EmbeddingManager initializes after the agents are registered)
+   */
+  private getEmbeddingService(): EmbeddingService | null {
+    if (!this.embeddingService) {
+      this.embeddingService = (this.plugin as PluginWithEmbeddings).embeddingManager?.getService() ?? null;
+    }
+    return this.embeddingService;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the related notes
+   */
+  async execute(params: RelatedNotesParams): Promise<RelatedNotesResult> {
+    try {
+      const note = this.resolveNote(params.note);
+      if (typeof note === 'string') {
+        return this.prepareResult(false, undefined, note);
+      }
+
+      const embeddingService = this.getEmbeddingService();
+      if (!embeddingService) {
+        return this.prepareResult(false, undefined,
+          'Related notes are not available yet. The embedding system may still be initializing. Try again in a moment.'
+        );
+      }
+      if (!embeddingService.isServiceEnabled()) {
+        return this.prepareResult(false, undefined,
+          'Embedding service is disabled (mobile platform or initialization failed). Use searchManager.graph for linked notes.'
+        );
+      }
+
+      const limit = Math.min(Math.max(1, params.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+      const related = await new RelatedNotesFinder(this.plugin.app, embeddingService).find(note.path, {
+        limit,
+        graphWeight: params.graphWeight,
+        excludeLinked: params.excludeLinked
+      });
+
+      if (!related) {
+        return this.prepareResult(false, undefined,
+          `"${note.path}" has no embedding yet. It may be empty, or the vault is still being indexed.`
+        );
+      }
+
+      return this.prepareResult(true, { note: note.path, related });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error finding related notes: ', error));
+    }
+  }
+
+  /**
+   * Resolve the note parameter (or the active note), or return an error message
+   */
+  private resolveNote(input?: string): TFile | string {
+    if (!input?.trim()) {
+      const active = this.plugin.app.workspace.getActiveFile();
+      if (!active || active.extension !== 'md') {
+        return 'No note given and no markdown note is open. Pass note as a path or link text.';
+      }
+      return active;
+    }
+
+    const linkGraph = new LinkGraph(this.plugin.app);
+    const file = linkGraph.resolveNote(input);
+    if (file) {
+      return file;
+    }
+
+    const suggestions = linkGraph.suggestNotes(input);
+    return suggestions.length > 0
+      ? `Note not found: "${input}". Similar notes: ${suggestions.join(', ')}`
+      : `Note not found: "${input}". Use searchContent to find the note path.`;
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        note: {
+          type: 'string',
+          description: 'Note path or link text (default: the note open in the editor)'
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum related notes to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+        },
+        graphWeight: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          description: 'Share of the score from link proximity (1 hop = 1, 2 hops = 0.5, 3 hops = 0.33). 0 (default) ranks by meaning only.'
+        },
+        excludeLinked: {
+          type: 'boolean',
+          description: 'Leave out notes already linked to or from the note (default: false)'
+        }
+      }
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the operation succeeded'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            note: { type: 'string', description: 'Resolved path of the note' },
+            related: {
+              type: 'array',
+              description: 'Related notes, best first',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  similarity: { type: 'number', description: 'Cosine similarity of the note embeddings (0-1)' },
+                  linkDistance: { type: ['number', 'null'], description: 'Link hops from the note (1 = linked directly); null if more than 3' },
+                  score: { type: 'number', description: 'Ranking score (similarity blended with link proximity)' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -3,17 +3,33 @@ import { BaseTool } from '../../baseTool';
 import { getErrorMessage } from '../../../utils/errorUtils';
 import { BRAND_NAME } from '../../../constants/branding';
 import { isGlobPattern, globToRegex, normalizePath } from '../../../utils/pathUtils';
-import { EmbeddingService } from '../../../services/embeddings/EmbeddingService';
+import { EmbeddingService, SimilarNote } from '../../../services/embeddings/EmbeddingService';
 import { EmbeddingManager } from '../../../services/embeddings/EmbeddingManager';
+import { NoteFtsIndex } from '../../../services/search/NoteFtsIndex';
 import { CommonParameters } from '../../../types';
+import { GraphBoostOptions } from '../types';
+import { GraphOperations } from '../../../database/utils/graph/GraphOperations';
+import { LinkGraph } from '../../../database/utils/graph/LinkGraph';
 
 /**
- * Extended plugin interface that includes optional embedding manager
+ * Extended plugin interface that includes optional embedding manager and keyword index
  */
 interface PluginWithEmbeddings extends Plugin {
   embeddingManager?: EmbeddingManager;
+  noteFtsIndex?: NoteFtsIndex;
 }
 
+/** Reciprocal rank fusion constant: higher values flatten the advantage of top ranks */
+const RRF_K = 60;
+
+/** Candidates ranked before graph boosting and fusion, per requested result (min 30, max 150) */
+const CANDIDATE_FACTOR = 3;
+const MIN_CANDIDATES = 30;
+const MAX_CANDIDATES = 150;
+
+/** Index matches read when a path filter may discard most of them */
+const FILTERED_INDEX_CANDIDATES = 1000;
+
 /**
  * Internal search result with scoring
  * Used internally for ranking before returning clean results to caller
@@ -25,9 +41,14 @@ interface ScoredSearchResult {
   _score: number; // Internal property for sorting
 }
 
-export interface ContentSearchParams extends CommonParameters {
+export type ContentSearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface ContentSearchParams extends CommonParameters, GraphBoostOptions {
   query: string;
-  semantic?: boolean;  // Default: false (keyword search). Set true for vector/embedding search
+  mode?: ContentSearchMode;  // Default: 'keyword' ('semantic' when semantic=true)
+  semantic?: boolean;  // Legacy switch: true is mode 'semantic', false is mode 'keyword'
+  keywordWeight?: number;   // Hybrid: weight of keyword ranks in fusion (default: 1)
+  semanticWeight?: number;  // Hybrid: weight of semantic ranks in fusion (default: 1)
   limit?: number;
   includeContent?: boolean;
   snippetLength?: number;
@@ -39,16 +60,41 @@ export interface ContentSearchResult {
   results: Array<{
     filePath: string;
     frontmatter?: Record<string, unknown>;
-    content?: string;  // Keyword search only
+    content?: string;  // Keyword snippet, or semantic passage text
+    passage?: {        // Semantic and hybrid search: best-matching passage of the note
+      heading?: string;
+      startLine: number;
+      endLine: number;
+    };
+    signals?: {        // Hybrid search only: 1-based rank of the note in each signal that matched it
+      keyword?: number;
+      semantic?: number;
+    };
   }>;
   error?: string;
 }
 
 /**
- * Content search tool with both semantic (vector) and keyword search capabilities
+ * Search settings after defaults are applied
+ */
+interface ResolvedSearchParams {
+  query: string;
+  limit: number;
+  paths: string[];
+  includeContent: boolean;
+  snippetLength: number;
+  graph: GraphBoostOptions;
+}
+
+/**
+ * Content search tool with keyword, semantic (vector) and hybrid search
  *
- * - semantic: true → Uses embedding-based vector similarity search (best for conceptual queries)
- * - semantic: false → Uses Obsidian's fuzzy + keyword search (best for exact matches)
+ * - mode 'keyword' → Ranks notes with the FTS5 note index (BM25) plus fuzzy filename matching,
+ *   scanning files instead until the index has finished its first sync (best for exact matches)
+ * - mode 'semantic' → Uses embedding-based vector similarity search (best for conceptual queries),
+ *   returning the best-matching passage of each note with its line range
+ * - mode 'hybrid' → Runs both and merges the rankings with weighted reciprocal rank fusion,
+ *   reporting which signals matched each note
  */
 export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSearchResult> {
   private plugin: Plugin;
@@ -58,7 +104,7 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
     super(
       'searchContent',
       'Content Search',
-      'Search vault files. Set semantic=true for AI-powered conceptual search using local embeddings (best for concepts/related ideas), or semantic=false for keyword/fuzzy search (best for exact matches). Semantic search is desktop-only and becomes available once the embedding system initializes in the background (first run may take longer while the model downloads).',
+      'Search vault files. mode=keyword (default) for keyword/fuzzy search (best for exact matches), mode=semantic for AI-powered conceptual search using local embeddings (best for concepts/related ideas; returns the best-matching passage of each note with line numbers), or mode=hybrid to run both and merge the rankings (each result reports which signals matched). Semantic search is desktop-only and becomes available once the embedding system initializes in the background (first run may take longer while the model downloads); until then hybrid search returns keyword results. Pass seedNotes to rank notes linked to them higher.',
       '2.0.0'
     );
     this.plugin = plugin;
@@ -97,6 +143,14 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
     return null;
   }
 
+  /**
+   * Get the note keyword index from the plugin once its first sync has finished
+   */
+  private getNoteFtsIndex(): NoteFtsIndex | null {
+    const noteFtsIndex = (this.plugin as PluginWithEmbeddings).noteFtsIndex;
+    return noteFtsIndex && noteFtsIndex.isReady() ? noteFtsIndex : null;
+  }
+
   async execute(params: ContentSearchParams): Promise<ContentSearchResult> {
     const startTime = performance.now();
 
@@ -105,17 +159,37 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
         return this.prepareResult(false, undefined, 'Query parameter is required and cannot be empty');
       }
 
-      const searchParams = {
+      // Default to keyword search (always available)
+      const mode: ContentSearchMode = params.mode ?? (params.semantic ? 'semantic' : 'keyword');
+      if (!['keyword', 'semantic', 'hybrid'].includes(mode)) {
+        return this.prepareResult(false, undefined, `Invalid mode: "${mode}". Use keyword, semantic, or hybrid.`);
+      }
+
+      const searchParams: ResolvedSearchParams = {
         query: params.query.trim(),
-        semantic: params.semantic ?? false, // Default to keyword search (always available)
         limit: params.limit || 10,
         includeContent: params.includeContent !== false,
         snippetLength: params.snippetLength || 200,
-        paths: params.paths || []
+        paths: params.paths || [],
+        graph: {
+          useGraphBoost: params.useGraphBoost,
+          graphBoostFactor: params.graphBoostFactor,
+          graphMaxDistance: params.graphMaxDistance,
+          seedNotes: params.seedNotes
+        }
       };
 
+      if (mode === 'hybrid') {
+        const keywordWeight = Math.max(0, params.keywordWeight ?? 1);
+        const semanticWeight = Math.max(0, params.semanticWeight ?? 1);
+        if (keywordWeight === 0 && semanticWeight === 0) {
+          return this.prepareResult(false, undefined, 'keywordWeight and semanticWeight cannot both be 0');
+        }
+        return await this.performHybridSearch(searchParams, keywordWeight, semanticWeight);
+      }
+
       // Use semantic search if requested
-      if (searchParams.semantic) {
+      if (mode === 'semantic') {
         return await this.performSemanticSearch(searchParams, startTime);
       }
 
@@ -132,75 +206,38 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
    * Perform semantic (vector) search using embeddings
    */
   private async performSemanticSearch(
-    searchParams: { query: string; limit: number; paths: string[]; includeContent: boolean; snippetLength: number },
+    searchParams: ResolvedSearchParams,
     startTime: number
   ): Promise<ContentSearchResult> {
-    // Lazily get the embedding service (handles timing issues)
-    const embeddingService = this.getEmbeddingService();
-
-    if (!embeddingService) {
-      return this.prepareResult(false, undefined, 'Semantic search is not available yet. The embedding system may still be initializing (and may need to download the embedding model on first run). Try again in a moment, or use semantic=false for keyword search.');
-    }
-
-    if (!embeddingService.isServiceEnabled()) {
-      return this.prepareResult(false, undefined, 'Embedding service is disabled (mobile platform or initialization failed). Use semantic=false for keyword search.');
-    }
-
-    // Check if we have any embeddings
-    const stats = await embeddingService.getStats();
-    if (stats.noteCount === 0) {
-      return this.prepareResult(false, undefined, 'No embeddings found. The vault is likely still being indexed. Please wait for indexing to complete, or use semantic=false for keyword search.');
-    }
-
     try {
-      // Use EmbeddingService.semanticSearch()
-      const semanticResults = await embeddingService.semanticSearch(searchParams.query, searchParams.limit * 2); // Get extra for path filtering
+      const candidates = await this.getSemanticCandidates(searchParams, searchParams.limit * 2); // Get extra for path filtering
+      if (typeof candidates === 'string') {
+        return this.prepareResult(false, undefined, candidates);
+      }
 
-      if (semanticResults.length === 0) {
+      if (candidates.length === 0) {
         return this.prepareResult(false, undefined, 'Semantic search returned no results. This may indicate an issue with the vector database. Please check the console for errors.');
       }
 
-      // Filter by paths if specified
-      let filteredResults = semanticResults;
-      if (searchParams.paths.length > 0) {
-        const globPatterns = searchParams.paths
-          .filter(p => isGlobPattern(p))
-          .map(p => globToRegex(p));
-
-        const literalPaths = searchParams.paths
-          .filter(p => !isGlobPattern(p))
-          .map(p => normalizePath(p));
-
-        filteredResults = semanticResults.filter(result => {
-          const matchesLiteral = literalPaths.some(path => {
-            // Empty path (from "/") matches everything
-            if (path === '') return true;
-            return result.notePath.startsWith(path);
-          });
-          const matchesGlob = globPatterns.some(regex => regex.test(result.notePath));
-          return matchesLiteral || matchesGlob;
-        });
-      }
+      // Re-rank by link graph if requested (distance is lower-is-better, boosting needs higher-is-better)
+      const rankedResults = this.applyGraphBoost(
+        candidates.map(result => ({ item: result, filePath: result.notePath, score: 1 / (1 + result.distance) })),
+        searchParams.graph
+      );
 
-      // Convert to lean result format (just filePath + frontmatter)
-      const results: Array<{ filePath: string; frontmatter?: Record<string, unknown> }> = [];
-      for (const result of filteredResults.slice(0, searchParams.limit)) {
+      // Convert to lean result format (filePath + frontmatter + best passage)
+      const results: ContentSearchResult['results'] = [];
+      for (const result of rankedResults.slice(0, searchParams.limit)) {
         const file = this.plugin.app.vault.getAbstractFileByPath(result.notePath);
         if (file instanceof TFile) {
-          // Get frontmatter only
-          let frontmatter: Record<string, unknown> | undefined;
-          const fileCache = this.plugin.app.metadataCache.getFileCache(file);
-          if (fileCache?.frontmatter) {
-            frontmatter = { ...fileCache.frontmatter };
-            delete frontmatter.position;
-          }
-
-          const entry: { filePath: string; frontmatter?: Record<string, unknown> } = {
+          const entry: ContentSearchResult['results'][number] = {
             filePath: result.notePath
           };
-          if (frontmatter && Object.keys(frontmatter).length > 0) {
+          const frontmatter = this.getFrontmatter(file);
+          if (frontmatter) {
             entry.frontmatter = frontmatter;
           }
+          await this.addPassage(entry, file, result, searchParams);
           results.push(entry);
         }
       }
@@ -213,67 +250,337 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
 
     } catch (error) {
       console.error(`[${BRAND_NAME}] Semantic search failed:`, error);
-      return this.prepareResult(false, undefined, `Semantic search failed: ${getErrorMessage(error)}. Try semantic=false for keyword search.`);
+      return this.prepareResult(false, undefined, `Semantic search failed: ${getErrorMessage(error)}. Try mode=keyword.`);
     }
   }
 
   /**
-   * Perform keyword/fuzzy search (original behavior)
+   * Get notes by embedding similarity, filtered by paths
+   * @returns Matches best first, or a message explaining why semantic search is unavailable
+   */
+  private async getSemanticCandidates(searchParams: ResolvedSearchParams, count: number): Promise<SimilarNote[] | string> {
+    // Lazily get the embedding service (handles timing issues)
+    const embeddingService = this.getEmbeddingService();
+
+    if (!embeddingService) {
+      return 'Semantic search is not available yet. The embedding system may still be initializing (and may need to download the embedding model on first run). Try again in a moment, or use mode=keyword.';
+    }
+
+    if (!embeddingService.isServiceEnabled()) {
+      return 'Embedding service is disabled (mobile platform or initialization failed). Use mode=keyword.';
+    }
+
+    // Check if we have any embeddings
+    const stats = await embeddingService.getStats();
+    if (stats.noteCount === 0) {
+      return 'No embeddings found. The vault is likely still being indexed. Please wait for indexing to complete, or use mode=keyword.';
+    }
+
+    const semanticResults = await embeddingService.semanticSearch(searchParams.query, count);
+
+    // Filter by paths if specified
+    if (searchParams.paths.length > 0) {
+      const matchesPaths = this.createPathFilter(searchParams.paths);
+      return semanticResults.filter(result => matchesPaths(result.notePath));
+    }
+    return semanticResults;
+  }
+
+  /**
+   * Add the best-matching passage of a semantic match to a result entry
+   */
+  private async addPassage(
+    entry: ContentSearchResult['results'][number],
+    file: TFile,
+    result: SimilarNote,
+    searchParams: ResolvedSearchParams
+  ): Promise<void> {
+    if (!result.passage) {
+      return;
+    }
+    const { heading, startLine, endLine } = result.passage;
+    entry.passage = heading ? { heading, startLine, endLine } : { startLine, endLine };
+    if (searchParams.includeContent) {
+      entry.content = await this.readPassage(file, startLine, endLine, searchParams.snippetLength);
+    }
+  }
+
+  /**
+   * Read the text of a passage, shortened to the snippet length
+   */
+  private async readPassage(file: TFile, startLine: number, endLine: number, snippetLength: number): Promise<string> {
+    const content = await this.plugin.app.vault.cachedRead(file);
+    const passage = content.split('\n').slice(startLine - 1, endLine).join('\n').trim();
+    return passage.length > snippetLength ? `${passage.slice(0, snippetLength).trimEnd()}...` : passage;
+  }
+
+  /**
+   * Perform keyword search: the note index once ready, otherwise a fuzzy + keyword file scan
    */
   private async performKeywordFuzzySearch(
-    searchParams: { query: string; limit: number; paths: string[]; includeContent: boolean; snippetLength: number },
+    searchParams: ResolvedSearchParams,
     startTime: number
   ): Promise<ContentSearchResult> {
-    // Get all markdown files
-    let allFiles = this.plugin.app.vault.getMarkdownFiles();
+    const candidates = await this.getKeywordCandidates(searchParams, this.getCandidateCount(searchParams.limit));
 
-    // Filter by paths if specified
-    if (searchParams.paths.length > 0) {
-      const globPatterns = searchParams.paths
-        .filter(p => isGlobPattern(p))
-        .map(p => globToRegex(p));
-
-      const literalPaths = searchParams.paths
-        .filter(p => !isGlobPattern(p))
-        .map(p => normalizePath(p));
-
-      allFiles = allFiles.filter(file => {
-        const matchesLiteral = literalPaths.some(path => {
-          // Empty path (from "/") matches everything
-          if (path === '') return true;
-          return file.path.startsWith(path);
-        });
-        const matchesGlob = globPatterns.some(regex => regex.test(file.path));
-        return matchesLiteral || matchesGlob;
+    // Re-rank by link graph if requested, and take top results
+    const rankedResults = this.applyGraphBoost(
+      candidates.map(result => ({ item: result, filePath: result.filePath, score: result._score })),
+      searchParams.graph
+    );
+
+    const results: ContentSearchResult['results'] = [];
+    for (const result of rankedResults.slice(0, searchParams.limit)) {
+      results.push(await this.toKeywordEntry(result, searchParams));
+    }
+
+    const executionTime = performance.now() - startTime;
+
+    return this.prepareResult(true, {
+      results
+    });
+  }
+
+  /**
+   * Perform hybrid search: keyword and semantic rankings merged with weighted reciprocal rank fusion.
+   * A note scores weight / (RRF_K + rank) for each signal that matched it, summed.
+   * If semantic search is unavailable, results come from keyword search alone.
+   */
+  private async performHybridSearch(
+    searchParams: ResolvedSearchParams,
+    keywordWeight: number,
+    semanticWeight: number
+  ): Promise<ContentSearchResult> {
+    const count = this.getCandidateCount(searchParams.limit);
+    const keywordResults = keywordWeight > 0 ? await this.getKeywordCandidates(searchParams, count) : [];
+    const semanticResults = semanticWeight > 0 ? await this.getSemanticCandidates(searchParams, count) : [];
+    if (typeof semanticResults === 'string' && keywordWeight === 0) {
+      return this.prepareResult(false, undefined, semanticResults);
+    }
+
+    const fused = new Map<string, {
+      filePath: string;
+      keyword?: ScoredSearchResult;
+      semantic?: SimilarNote;
+      signals: { keyword?: number; semantic?: number };
+      score: number;
+    }>();
+    const getFused = (filePath: string) => {
+      let candidate = fused.get(filePath);
+      if (!candidate) {
+        candidate = { filePath, signals: {}, score: 0 };
+        fused.set(filePath, candidate);
+      }
+      return candidate;
+    };
+
+    keywordResults.slice(0, count).forEach((result, index) => {
+      const candidate = getFused(result.filePath);
+      candidate.keyword = result;
+      candidate.signals.keyword = index + 1;
+      candidate.score += keywordWeight / (RRF_K + index + 1);
+    });
+    if (Array.isArray(semanticResults)) {
+      semanticResults.slice(0, count).forEach((result, index) => {
+        const candidate = getFused(result.notePath);
+        candidate.semantic = result;
+        candidate.signals.semantic = index + 1;
+        candidate.score += semanticWeight / (RRF_K + index + 1);
       });
     }
 
+    // Re-rank by link graph if requested
+    const rankedResults = this.applyGraphBoost(
+      Array.from(fused.values())
+        .sort((a, b) => b.score - a.score)
+        .map(candidate => ({ item: candidate, filePath: candidate.filePath, score: candidate.score })),
+      searchParams.graph
+    );
+
+    const results: ContentSearchResult['results'] = [];
+    for (const candidate of rankedResults) {
+      if (results.length >= searchParams.limit) {
+        break;
+      }
+      const file = this.plugin.app.vault.getAbstractFileByPath(candidate.filePath);
+      if (!(file instanceof TFile)) {
+        continue;
+      }
+
+      const entry: ContentSearchResult['results'][number] = {
+        filePath: candidate.filePath
+      };
+      const frontmatter = this.getFrontmatter(file);
+      if (frontmatter) {
+        entry.frontmatter = frontmatter;
+      }
+      // The semantic passage locates the match more precisely than a keyword snippet
+      if (candidate.semantic?.passage) {
+        await this.addPassage(entry, file, candidate.semantic, searchParams);
+      } else if (candidate.keyword && searchParams.includeContent) {
+        entry.content = candidate.keyword.content ?? await this.readKeywordSnippet(file, searchParams.query, searchParams.snippetLength);
+      }
+      entry.signals = candidate.signals;
+      results.push(entry);
+    }
+
+    return this.prepareResult(true, {
+      results
+    });
+  }
+
+  /**
+   * Number of candidates ranked before graph boosting and fusion
+   */
+  private getCandidateCount(limit: number): number {
+    return Math.min(Math.max(limit * CANDIDATE_FACTOR, MIN_CANDIDATES), MAX_CANDIDATES);
+  }
+
+  /**
+   * Get notes matching the query by keyword, best first, filtered by paths.
+   * Uses the note index once ready; until then scans every file.
+   * Index matches come without content; toKeywordEntry reads it for the notes returned.
+   */
+  private async getKeywordCandidates(searchParams: ResolvedSearchParams, count: number): Promise<ScoredSearchResult[]> {
+    let files = this.plugin.app.vault.getMarkdownFiles();
+    const matchesPaths = searchParams.paths.length > 0 ? this.createPathFilter(searchParams.paths) : null;
+    if (matchesPaths) {
+      files = files.filter(file => matchesPaths(file.path));
+    }
+
+    const noteFtsIndex = this.getNoteFtsIndex();
+    if (noteFtsIndex) {
+      return this.searchNoteIndex(noteFtsIndex, searchParams.query, files, matchesPaths, count);
+    }
+
     // Perform combined fuzzy + keyword search
-    const searchResults = await this.performCombinedSearch(
+    return this.performCombinedSearch(
       searchParams.query,
-      allFiles,
-      searchParams.limit,
+      files,
       searchParams.includeContent,
       searchParams.snippetLength
     );
+  }
 
-    const executionTime = performance.now() - startTime;
+  /**
+   * Rank notes with the keyword index, combined with fuzzy filename matching as in the file scan
+   */
+  private async searchNoteIndex(
+    noteFtsIndex: NoteFtsIndex,
+    query: string,
+    files: TFile[],
+    matchesPaths: ((filePath: string) => boolean) | null,
+    count: number
+  ): Promise<ScoredSearchResult[]> {
+    const matches = (await noteFtsIndex.search(query, matchesPaths ? FILTERED_INDEX_CANDIDATES : count))
+      .filter(match => !matchesPaths || matchesPaths(match.notePath));
 
-    return this.prepareResult(true, {
-      results: searchResults
-    });
+    // Scale BM25 to 0-1 so it combines with fuzzy filename scores
+    const topScore = matches[0]?.score || 1;
+    const keywordScores = new Map(matches.map(match => [match.notePath, match.score / topScore]));
+
+    const fuzzySearch = prepareFuzzySearch(query.toLowerCase());
+    const results: ScoredSearchResult[] = [];
+    for (const file of files) {
+      const keywordScore = keywordScores.get(file.path) ?? 0;
+      const fuzzyResult = fuzzySearch(file.basename);
+      const fuzzyScore = fuzzyResult ? Math.max(0, Math.min(1, 1 + (fuzzyResult.score / 100))) : 0;
+
+      // Same weighting as the file scan: 60% keyword + 40% fuzzy when both match
+      const score = keywordScore > 0 && fuzzyScore > 0
+        ? (keywordScore * 0.6) + (fuzzyScore * 0.4)
+        : Math.max(keywordScore, fuzzyScore);
+      if (score > 0) {
+        results.push({ filePath: file.path, _score: score });
+      }
+    }
+
+    results.sort((a, b) => b._score - a._score);
+    return results.slice(0, count);
+  }
+
+  /**
+   * Convert a keyword candidate to a result, reading frontmatter and snippet for index matches
+   */
+  private async toKeywordEntry(
+    result: ScoredSearchResult,
+    searchParams: ResolvedSearchParams
+  ): Promise<ContentSearchResult['results'][number]> {
+    // Strip internal score before returning
+    const { _score, ...entry } = result;
+    if (entry.content !== undefined) {
+      return entry;
+    }
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(entry.filePath);
+    if (!(file instanceof TFile)) {
+      return entry;
+    }
+    const frontmatter = this.getFrontmatter(file);
+    if (frontmatter) {
+      entry.frontmatter = frontmatter;
+    }
+    if (searchParams.includeContent) {
+      entry.content = await this.readKeywordSnippet(file, searchParams.query, searchParams.snippetLength);
+    }
+    return entry;
   }
 
   /**
-   * Perform combined fuzzy and keyword search with result ranking
+   * Read the snippet around the first query match in a note
+   */
+  private async readKeywordSnippet(file: TFile, query: string, snippetLength: number): Promise<string> {
+    const content = await this.plugin.app.vault.cachedRead(file);
+    const keywordResult = this.performKeywordSearch(query, query.toLowerCase(), content, snippetLength);
+    // Index matches are stemmed, so the query words may not appear as typed
+    return keywordResult.found ? keywordResult.snippet : `File: ${file.path}`;
+  }
+
+  /**
+   * Get a note's frontmatter without Obsidian's position metadata
+   */
+  private getFrontmatter(file: TFile): Record<string, unknown> | undefined {
+    const fileCache = this.plugin.app.metadataCache.getFileCache(file);
+    if (!fileCache?.frontmatter) {
+      return undefined;
+    }
+    const frontmatter: Record<string, unknown> = { ...fileCache.frontmatter };
+    delete frontmatter.position;
+    return Object.keys(frontmatter).length > 0 ? frontmatter : undefined;
+  }
+
+  /**
+   * Build a matcher for the paths parameter (folder prefixes and glob patterns)
+   */
+  private createPathFilter(paths: string[]): (filePath: string) => boolean {
+    const globPatterns = paths
+      .filter(p => isGlobPattern(p))
+      .map(p => globToRegex(p));
+
+    const literalPaths = paths
+      .filter(p => !isGlobPattern(p))
+      .map(p => normalizePath(p));
+
+    return (filePath: string) => {
+      const matchesLiteral = literalPaths.some(path => {
+        // Empty path (from "/") matches everything
+        if (path === '') return true;
+        return filePath.startsWith(path);
+      });
+      const matchesGlob = globPatterns.some(regex => regex.test(filePath));
+      return matchesLiteral || matchesGlob;
+    };
+  }
+
+  /**
+   * Perform combined fuzzy and keyword search over files, best first
    */
   private async performCombinedSearch(
     query: string,
     files: TFile[],
-    limit: number,
     includeContent: boolean,
     snippetLength: number
-  ): Promise<ContentSearchResult['results']> {
+  ): Promise<ScoredSearchResult[]> {
     const normalizedQuery = query.toLowerCase();
     const fuzzySearch = prepareFuzzySearch(normalizedQuery);
     const allResults: ScoredSearchResult[] = [];
@@ -290,14 +597,54 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
       allResults.push(...results);
     }
 
-    // Sort by internal score (higher is better) and take top results
+    // Sort by internal score (higher is better)
     allResults.sort((a, b) => (b._score || 0) - (a._score || 0));
-    // Strip internal score before returning
-    const finalResults = allResults.slice(0, limit).map(r => {
-      const { _score, ...rest } = r;
-      return rest;
-    });
-    return finalResults;
+    return allResults;
+  }
+
+  /**
+   * Re-rank results with GraphOperations.
+   * - seedNotes: seed notes and the notes linked to or from them gain score
+   * - useGraphBoost: results linked to other strong results also gain score
+   * Without either option the order is unchanged.
+   */
+  private applyGraphBoost<T>(
+    candidates: Array<{ item: T; filePath: string; score: number }>,
+    options: GraphBoostOptions
+  ): T[] {
+    const requestedSeeds = (options.seedNotes || []).filter(seed => seed.trim().length > 0);
+    if ((!options.useGraphBoost && requestedSeeds.length === 0) || candidates.length === 0) {
+      return candidates.map(candidate => candidate.item);
+    }
+
+    const linkGraph = new LinkGraph(this.plugin.app);
+    // Seeds are matched by path; unresolved seeds still get GraphOperations' name matching
+    const seedNotes = requestedSeeds.map(seed => linkGraph.resolveNote(seed)?.path || seed);
+
+    const records = candidates.map(candidate => ({
+      record: {
+        id: candidate.filePath,
+        filePath: candidate.filePath,
+        content: '',
+        metadata: { links: linkGraph.getSearchRecordLinks(candidate.filePath) }
+      },
+      similarity: candidate.score
+    }));
+
+    const graphOperations = new GraphOperations();
+    const boosted = options.useGraphBoost
+      ? graphOperations.applyGraphBoost(records, {
+        useGraphBoost: true,
+        boostFactor: options.graphBoostFactor,
+        maxDistance: options.graphMaxDistance,
+        seedNotes
+      })
+      : graphOperations.applySeedBoost(records, seedNotes);
+
+    return candidates
+      .map((candidate, index) => ({ item: candidate.item, score: boosted[index].similarity }))
+      .sort((a, b) => b.score - a.score)
+      .map(candidate => candidate.item);
   }
 
   /**
@@ -461,16 +808,33 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
     const toolSchema = {
       type: 'object',
       title: 'Content Search Params',
-      description: 'Search vault files. REQUIRED: Set "semantic" parameter to choose search mode.',
+      description: 'Search vault files. Set "mode" to choose keyword, semantic, or hybrid search.',
       properties: {
         query: {
           type: 'string',
           description: 'Search query to find files and content.'
         },
+        mode: {
+          type: 'string',
+          enum: ['keyword', 'semantic', 'hybrid'],
+          description: 'keyword = keyword/fuzzy search (default, best for exact matches). semantic = AI-powered conceptual search (desktop only, best for concepts/related ideas). hybrid = both, merged by rank; results report which signals matched.',
+          default: 'keyword'
+        },
         semantic: {
           type: 'boolean',
-          description: 'true = AI-powered conceptual search (desktop only, best for concepts/related ideas). false = keyword/fuzzy search (default, best for exact matches).',
-          default: false
+          description: 'Legacy alternative to mode: true = mode semantic, false = mode keyword. Ignored when mode is set.'
+        },
+        keywordWeight: {
+          type: 'number',
+          description: 'Hybrid only: weight of the keyword ranking when merging (default: 1)',
+          minimum: 0,
+          default: 1
+        },
+        semanticWeight: {
+          type: 'number',
+          description: 'Hybrid only: weight of the semantic ranking when merging (default: 1)',
+          minimum: 0,
+          default: 1
         },
         limit: {
           type: 'number',
@@ -481,12 +845,12 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
         },
         includeContent: {
           type: 'boolean',
-          description: 'For keyword search only: include content snippets (default: true). Ignored for semantic search.',
+          description: 'Include content snippets (default: true). For semantic and hybrid search, the text of the best-matching passage when there is one.',
           default: true
         },
         snippetLength: {
           type: 'number',
-          description: 'For keyword search only: length of content snippets (default: 200). Ignored for semantic search.',
+          description: 'Length of content snippets or passage text (default: 200)',
           minimum: 50,
           maximum: 1000,
           default: 200
@@ -495,6 +859,30 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
           type: 'array',
           description: 'Restrict search to specific folder paths. Supports glob patterns.',
           items: { type: 'string' }
+        },
+        useGraphBoost: {
+          type: 'boolean',
+          description: 'Rank results linked to other strong results higher (default: false)',
+          default: false
+        },
+        graphBoostFactor: {
+          type: 'number',
+          description: 'Share of a linked result\'s score added per hop (default: 0.3)',
+          minimum: 0,
+          maximum: 1,
+          default: 0.3
+        },
+        graphMaxDistance: {
+          type: 'number',
+          description: 'Number of link hops the graph boost spreads over (default: 1)',
+          minimum: 1,
+          maximum: 3,
+          default: 1
+        },
+        seedNotes: {
+          type: 'array',
+          description: 'Notes the query is about (paths or link text). They and the notes linked to or from them rank higher.',
+          items: { type: 'string' }
         }
       },
       required: ['query'],
@@ -532,7 +920,24 @@ export class SearchContentTool extends BaseTool<ContentSearchParams, ContentSear
               },
               content: {
                 type: 'string',
-                description: 'Content snippet (keyword search only)'
+                description: 'Content snippet (keyword search) or passage text (semantic search)'
+              },
+              passage: {
+                type: 'object',
+                description: 'Semantic and hybrid search: best-matching passage of the note (1-based, inclusive lines)',
+                properties: {
+                  heading: { type: 'string', description: 'Heading path of the passage, e.g. "Project > Goals"' },
+                  startLine: { type: 'number' },
+                  endLine: { type: 'number' }
+                }
+              },
+              signals: {
+                type: 'object',
+                description: 'Hybrid search only: rank of the note (1 = best) in each search that matched it',
+                properties: {
+                  keyword: { type: 'number', description: 'Rank in keyword search' },
+                  semantic: { type: 'number', description: 'Rank in semantic search' }
+                }
               }
             },
             required: ['filePath']
@@ -0,0 +1,251 @@
+import { Plugin } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { CommonParameters, CommonResult } from '../../../types';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import type { HybridStorageAdapter } from '../../../database/adapters/HybridStorageAdapter';
+import { EmbeddingManager } from '../../../services/embeddings/EmbeddingManager';
+import { ConversationSearchHit, ConversationSearchService } from '../../../services/search/ConversationSearchService';
+
+/**
+ * Plugin with the service container accessor and the optional embedding manager
+ */
+interface PluginWithServices extends Plugin {
+  getServiceIfReady?<T>(name: string): T | null;
+  embeddingManager?: EmbeddingManager;
+}
+
+/** Default and maximum number of hits returned */
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export interface SearchConversationsParams extends CommonParameters {
+  /** Words to find in conversation titles and messages */
+  query: string;
+  /** Only messages from this date or time on (ISO 8601, e.g. 2024-05-01) */
+  since?: string;
+  /** Only messages up to this date (inclusive) or time */
+  until?: string;
+  /** Model or provider id, matched as a substring (e.g. "claude", "gpt-4o", "ollama") */
+  model?: string;
+  /** Only conversations in this workspace */
+  workspaceId?: string;
+  /** Also match by meaning (indexed exchanges), not just shared words */
+  semantic?: boolean;
+  /** Include branch conversations (subagent runs and alternatives) */
+  includeBranches?: boolean;
+  /** Maximum hits */
+  limit?: number;
+}
+
+export interface SearchConversationsResult extends CommonResult {
+  data?: {
+    query: string;
+    results: ConversationSearchHit[];
+    /** Set when semantic matching was asked for but embeddings are unavailable */
+    note?: string;
+  };
+}
+
+/**
+ * Location: src/agents/searchManager/tools/searchConversations.ts
+ *
+ * Conversation search tool for SearchManager.
+ * Searches past chat conversations: titles and user/assistant messages, with snippets and
+ * conversation/message ids.
+ *
+ * Key Design:
+ * - Full-text (FTS5, BM25) on all platforms; with semantic, fused with the nearest embedded exchanges (desktop)
+ * - Filters by date, model/provider and workspace from each conversation's chat settings
+ * - Hits carry the ids the "Search chat conversations" command uses to open the chat at the message
+ *
+ * Relationships:
+ * - Uses ConversationSearchService (services/search) on the SQLite cache of HybridStorageAdapter
+ */
+export class SearchConversationsTool extends BaseTool<SearchConversationsParams, SearchConversationsResult> {
+  private plugin: Plugin;
+
+  /**
+   * Create a new SearchConversationsTool
+   * @param plugin Plugin instance (for the storage adapter and the embedding manager)
+   */
+  constructor(plugin: Plugin) {
+    super(
+      'searchConversations',
+      'Search Conversations',
+      'Search past chat conversations by words in their titles and messages, with optional date, model and workspace filters. ' +
+      'Returns message snippets with conversation and message ids. Set semantic to also find exchanges by meaning, even without shared words (desktop).',
+      '1.0.0'
+    );
+
+    this.plugin = plugin;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the matching messages and titles
+   */
+  async execute(params: SearchConversationsParams): Promise<SearchConversationsResult> {
+    try {
+      if (!params.query?.trim()) {
+        return this.prepareResult(false, undefined, 'query is required');
+      }
+
+      const since = this.parseTime(params.since, false);
+      const until = this.parseTime(params.until, true);
+      if (since === null || until === null) {
+        return this.prepareResult(false, undefined,
+          `Invalid ${since === null ? 'since' : 'until'} date. Use ISO 8601, e.g. 2024-05-01 or 2024-05-01T14:30.`
+        );
+      }
+
+      const plugin = this.plugin as PluginWithServices;
+      const storageAdapter = plugin.getServiceIfReady?.<HybridStorageAdapter>('hybridStorageAdapter');
+      if (!storageAdapter?.isReady()) {
+        return this.prepareResult(false, undefined,
+          'Conversation search is not available yet. The chat database may still be loading. Try again in a moment.'
+        );
+      }
+
+      const embeddingService = plugin.embeddingManager?.getService() ?? null;
+      const semanticUnavailable = params.semantic && !embeddingService?.isServiceEnabled();
+
+      const limit = Math.min(Math.max(1, params.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+      const results = await new ConversationSearchService(storageAdapter.cache, embeddingService).search(params.query, {
+        limit,
+        since,
+        until,
+        model: params.model,
+        workspaceId: params.workspaceId,
+        includeBranches: params.includeBranches,
+        semantic: params.semantic
+      });
+
+      return this.prepareResult(true, {
+        query: params.query,
+        results,
+        ...(semanticUnavailable && {
+          note: 'Embeddings are unavailable (mobile, or the embedding model failed to load); results are ranked by keywords only.'
+        })
+      });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error searching conversations: ', error));
+    }
+  }
+
+  /**
+   * Parse a since/until value; a date without a time means the start (since) or end (until) of that day
+   * @returns Timestamp, undefined if not given, or null if invalid
+   */
+  private parseTime(value: string | undefined, endOfDay: boolean): number | undefined | null {
+    if (!value?.trim()) {
+      return undefined;
+    }
+
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    if (dateOnly) {
+      const [year, month, day] = dateOnly.slice(1).map(Number);
+      const date = endOfDay
+        ? new Date(year, month - 1, day, 23, 59, 59, 999)
+        : new Date(year, month - 1, day);
+      return date.getMonth() === month - 1 ? date.getTime() : null;
+    }
+
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words to find in conversation titles and messages. Messages with more and rarer matching words rank higher.'
+        },
+        since: {
+          type: 'string',
+          description: 'Only messages from this date or time on (ISO 8601, e.g. 2024-05-01)'
+        },
+        until: {
+          type: 'string',
+          description: 'Only messages up to this date (inclusive) or time (ISO 8601)'
+        },
+        model: {
+          type: 'string',
+          description: 'Only conversations using a model or provider whose id contains this text (e.g. "claude", "gpt-4o", "ollama")'
+        },
+        workspaceId: {
+          type: 'string',
+          description: 'Only conversations in this workspace'
+        },
+        semantic: {
+          type: 'boolean',
+          description: 'Also find exchanges by meaning using the local embedding model, even without shared words (desktop only, default: false)'
+        },
+        includeBranches: {
+          type: 'boolean',
+          description: 'Include branch conversations such as subagent runs (default: false)'
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum results (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+        }
+      },
+      required: ['query']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the operation succeeded'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            results: {
+              type: 'array',
+              description: 'Matches, best first',
+              items: {
+                type: 'object',
+                properties: {
+                  conversationId: { type: 'string' },
+                  conversationTitle: { type: 'string' },
+                  messageId: { type: ['string', 'null'], description: 'Matching message; null when the title matched' },
+                  role: { type: 'string', enum: ['user', 'assistant'] },
+                  timestamp: { type: 'number', description: 'Message time (ms since epoch); last update for title matches' },
+                  snippet: { type: 'string', description: 'Matching text with matched words in **bold**' },
+                  model: { type: 'string' },
+                  provider: { type: 'string' },
+                  workspaceId: { type: 'string' },
+                  score: { type: 'number' }
+                }
+              }
+            },
+            note: { type: 'string' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -22,8 +22,9 @@ import { NudgeHelpers } from '../../../utils/nudgeHelpers';
  * Memory types available for search (simplified after MemoryManager refactor)
  * - 'traces': Tool execution traces (includes tool calls)
  * - 'states': Workspace states (snapshots of work context)
+ * - 'conversations': Past chat exchanges, recalled by meaning (desktop) or keywords
  */
-export type MemoryType = 'traces' | 'states';
+export type MemoryType = 'traces' | 'states' | 'conversations';
 
 /**
  * Session filtering options
@@ -53,7 +54,7 @@ export interface SearchMemoryParams extends CommonParameters {
   workspaceId: string;  // Required - states and traces are workspace-scoped
 
   // OPTIONAL PARAMETERS
-  memoryTypes?: MemoryType[];  // 'traces' and/or 'states'
+  memoryTypes?: MemoryType[];  // 'traces', 'states' and/or 'conversations'
   searchMethod?: 'semantic' | 'exact' | 'mixed';
   sessionFiltering?: SessionFilterOptions;
   temporalFiltering?: TemporalFilterOptions;
@@ -99,7 +100,7 @@ export class SearchMemoryTool extends BaseTool<SearchMemoryParams, SearchMemoryR
     super(
       'searchMemory',
       'Search Memory',
-      'MEMORY-FOCUSED search with mandatory workspaceId parameter. Search through memory traces and states within a workspace context. Traces include tool execution history. States capture workspace snapshots. Requires: query (search terms) and workspaceId (workspace context).',
+      'MEMORY-FOCUSED search with mandatory workspaceId parameter. Search through memory traces and states within a workspace context. Traces include tool execution history. States capture workspace snapshots. Conversations recall past chat exchanges by meaning. Requires: query (search terms) and workspaceId (workspace context).',
       '2.0.0'
     );
 
@@ -238,10 +239,10 @@ export class SearchMemoryTool extends BaseTool<SearchMemoryParams, SearchMemoryR
           type: 'array',
           items: {
             type: 'string',
-            enum: ['traces', 'states']
+            enum: ['traces', 'states', 'conversations']
           },
-          description: 'Types of memory to search. "traces" includes tool execution history. "states" includes workspace snapshots. Defaults to both types.',
-          default: ['traces', 'states']
+          description: 'Types of memory to search. "traces" includes tool execution history. "states" includes workspace snapshots. "conversations" finds past chat exchanges by meaning (e.g. where a decision was made). Defaults to all types.',
+          default: ['traces', 'states', 'conversations']
         },
         dateRange: {
           type: 'object',
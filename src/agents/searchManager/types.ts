@@ -6,11 +6,21 @@ import { CommonParameters, CommonResult } from '../../types';
 
 /**
  * Graph boost options for enhancing search results using graph connections
- * Note: Graph boost is now hardcoded into the RRF calculation with sensible defaults
- * These options are maintained for internal use but no longer exposed to users
+ * Used by searchContent: seedNotes alone boosts the seeds and their linked notes;
+ * useGraphBoost also spreads score along links between results
  */
 export interface GraphBoostOptions {
-  // Internal parameters - no longer user-facing since graph boost is hardcoded
+  /** Raise the score of results linked to other high-scoring results */
+  useGraphBoost?: boolean;
+
+  /** Share of a linked result's score added per hop (default: 0.3) */
+  graphBoostFactor?: number;
+
+  /** Number of link hops the boost spreads over (default: 1) */
+  graphMaxDistance?: number;
+
+  /** Notes (paths or link text) the query is about; they and the notes linked to them rank higher */
+  seedNotes?: string[];
 }
 
 
@@ -4,8 +4,11 @@ import {
   ListTool,
   CreateFolderTool,
   MoveTool,
+  ReorganizeTool,
   CopyTool,
   ArchiveTool,
+  ListArchivedTool,
+  RestoreTool,
   OpenTool
 } from './tools';
 import { sanitizeVaultName } from '../../utils/vaultUtils';
@@ -37,8 +40,11 @@ export class StorageManagerAgent extends BaseAgent {
     this.registerTool(new ListTool(app));
     this.registerTool(new CreateFolderTool(app));
     this.registerTool(new MoveTool(app));
+    this.registerTool(new ReorganizeTool(app));
     this.registerTool(new CopyTool(app));
     this.registerTool(new ArchiveTool(app));
+    this.registerTool(new ListArchivedTool(app));
+    this.registerTool(new RestoreTool(app));
     this.registerTool(new OpenTool(app));
   }
 
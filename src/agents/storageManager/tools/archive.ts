@@ -3,13 +3,16 @@ import { App, TFile, TFolder } from 'obsidian';
 import { BaseTool } from '../../baseTool';
 import { ArchiveParams, ArchiveResult } from '../types';
 import { FileOperations } from '../utils/FileOperations';
+import { ArchiveStore, ARCHIVE_ROOT } from '../utils/ArchiveStore';
 import { createErrorMessage } from '../../../utils/errorUtils';
 import { normalizePath } from '../../../utils/pathUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
 
 /**
  * Location: src/agents/storageManager/tools/archive.ts
  * Purpose: Safely archive files and folders with timestamp preservation
- * Relationships: Uses FileOperations for move logic
+ * Relationships: Uses FileOperations for move logic, ArchiveStore for archive ids and metadata
+ * (read back by listArchived/restore), records archives in the edit journal
  */
 
 /**
@@ -17,6 +20,7 @@ import { normalizePath } from '../../../utils/pathUtils';
  */
 export class ArchiveTool extends BaseTool<ArchiveParams, ArchiveResult> {
   private app: App;
+  receivesContext = true;
 
   /**
    * Create a new ArchiveTool
@@ -39,7 +43,7 @@ export class ArchiveTool extends BaseTool<ArchiveParams, ArchiveResult> {
    * @returns Promise that resolves with the result of archiving
    */
   async execute(params: ArchiveParams): Promise<ArchiveResult> {
-    const { path } = params;
+    const { path, reason } = params;
 
     try {
       // Normalize path
@@ -55,48 +59,50 @@ export class ArchiveTool extends BaseTool<ArchiveParams, ArchiveResult> {
         );
       }
 
-      // Generate timestamp for archive folder
+      if (!(sourceItem instanceof TFile) && !(sourceItem instanceof TFolder)) {
+        return this.prepareResult(false, undefined, `Unknown item type at path: ${path}`);
+      }
+
+      // Archive folder named by timestamp (suffixed if another archive has the same second)
       const now = new Date();
-      const timestamp = this.formatTimestamp(now);
+      const id = await ArchiveStore.allocateId(this.app, now);
 
       // Construct archive path: .archive/[YYYY-MM-DD_HH-mm-ss]/[original-path]
-      const archivePath = `.archive/${timestamp}/${normalizedPath}`;
+      const archivePath = `${ARCHIVE_ROOT}/${id}/${normalizedPath}`;
+      const files = FileOperations.getContainedFilePaths(sourceItem).length;
 
       // Ensure .archive directory exists
-      await FileOperations.ensureFolder(this.app, '.archive');
+      await FileOperations.ensureFolder(this.app, ARCHIVE_ROOT);
 
       // Move item to archive (auto-detects file vs folder)
+      // Links are left as they are, so they work again if the item is moved back
       if (sourceItem instanceof TFile) {
-        await FileOperations.moveNote(this.app, normalizedPath, archivePath, false);
-      } else if (sourceItem instanceof TFolder) {
-        await FileOperations.moveFolder(this.app, normalizedPath, archivePath, false);
+        await FileOperations.moveNote(this.app, normalizedPath, archivePath, false, false);
       } else {
-        return this.prepareResult(false, undefined, `Unknown item type at path: ${path}`);
+        await FileOperations.moveFolder(this.app, normalizedPath, archivePath, false, false);
       }
 
-      // Success - LLM already knows the path it passed
-      return this.prepareResult(true);
+      await ArchiveStore.writeMetadata(this.app, {
+        id,
+        originalPath: normalizedPath,
+        archivePath,
+        type: sourceItem instanceof TFile ? 'file' : 'folder',
+        archivedAt: now.getTime(),
+        files,
+        ...(reason ? { reason } : {}),
+        ...(params.context?.sessionId ? { sessionId: params.context.sessionId } : {})
+      });
+
+      await recordAgentEdit(this.app, { agent: 'storageManager', tool: this.slug, context: params.context }, [
+        { kind: 'rename', path: archivePath, from: normalizedPath }
+      ]);
+
+      return this.prepareResult(true, { id, archivePath });
     } catch (error) {
       return this.prepareResult(false, undefined, createErrorMessage('Failed to archive: ', error));
     }
   }
 
-  /**
-   * Format timestamp for archive folder name
-   * @param date Date to format
-   * @returns Formatted timestamp string (YYYY-MM-DD_HH-mm-ss)
-   */
-  private formatTimestamp(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    const seconds = String(date.getSeconds()).padStart(2, '0');
-
-    return `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
-  }
-
   /**
    * Get the JSON schema for the tool's parameters
    * @returns JSON schema object
@@ -108,10 +114,14 @@ export class ArchiveTool extends BaseTool<ArchiveParams, ArchiveResult> {
         path: {
           type: 'string',
           description: 'Path to file or folder to archive'
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the item is archived (shown by listArchived)'
         }
       },
       required: ['path'],
-      description: 'Archive a file or folder by moving it to .archive/[YYYY-MM-DD_HH-mm-ss]/[original-path]. Auto-detects file vs folder. Creates .archive/ if needed.'
+      description: 'Archive a file or folder by moving it to .archive/[YYYY-MM-DD_HH-mm-ss]/[original-path]. Auto-detects file vs folder. Creates .archive/ if needed. Use listArchived and restore to bring it back.'
     };
 
     // Merge with common schema (sessionId and context)
@@ -123,7 +133,14 @@ export class ArchiveTool extends BaseTool<ArchiveParams, ArchiveResult> {
       type: 'object',
       properties: {
         success: { type: 'boolean', description: 'Whether the operation succeeded' },
-        error: { type: 'string', description: 'Error message if failed (includes recovery guidance)' }
+        error: { type: 'string', description: 'Error message if failed (includes recovery guidance)' },
+        data: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Archive id (pass to restore)' },
+            archivePath: { type: 'string', description: 'Path of the item inside .archive/' }
+          }
+        }
       },
       required: ['success']
     };
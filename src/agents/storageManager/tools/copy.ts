@@ -1,14 +1,17 @@
 import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
-import { App } from 'obsidian';
+import { App, TFile } from 'obsidian';
 import { BaseTool } from '../../baseTool';
 import { CopyParams, CopyResult } from '../types';
 import { FileOperations } from '../utils/FileOperations';
 import { createErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+import { recordAgentEdit, captureBeforeImage, EditChange } from '../../../services/journal/EditJournalService';
 
 /**
  * Location: src/agents/storageManager/tools/copy.ts
  * Purpose: Duplicate a file to a new location
- * Relationships: Uses FileOperations for copy logic
+ * Relationships: Uses FileOperations for copy logic, records copies in the edit journal
  */
 
 /**
@@ -16,6 +19,7 @@ import { createErrorMessage } from '../../../utils/errorUtils';
  */
 export class CopyTool extends BaseTool<CopyParams, CopyResult> {
   private app: App;
+  receivesContext = true;
 
   /**
    * Create a new CopyTool
@@ -47,7 +51,14 @@ export class CopyTool extends BaseTool<CopyParams, CopyResult> {
         return this.prepareResult(false, undefined, 'Destination path is required');
       }
 
-      await FileOperations.duplicateNote(
+      // Keep the content of a file that an overwrite will replace, so the copy can be reverted
+      const changes: EditChange[] = [];
+      const destination = this.app.vault.getAbstractFileByPath(normalizePath(params.newPath));
+      if (params.overwrite && destination instanceof TFile) {
+        changes.push({ kind: 'delete', path: destination.path, ...(await captureBeforeImage(this.app, destination)) });
+      }
+
+      const { targetPath } = await FileOperations.duplicateNote(
         this.app,
         params.path,
         params.newPath,
@@ -55,6 +66,11 @@ export class CopyTool extends BaseTool<CopyParams, CopyResult> {
         false // autoIncrement not supported in simplified API
       );
 
+      const created = this.app.vault.getAbstractFileByPath(targetPath);
+      const afterHash = created instanceof TFile ? ContentVersioning.hash(await this.app.vault.read(created)) : undefined;
+      changes.push({ kind: 'create', path: targetPath, afterHash });
+      await recordAgentEdit(this.app, { agent: 'storageManager', tool: this.slug, context: params.context }, changes);
+
       // Success - LLM already knows the paths it passed
       return this.prepareResult(true);
     } catch (error) {
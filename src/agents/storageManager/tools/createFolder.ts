@@ -3,12 +3,15 @@ import { BaseTool } from '../../baseTool';
 import { CreateFolderParams, CreateFolderResult } from '../types';
 import { FileOperations } from '../utils/FileOperations';
 import { createErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
 
 /**
  * Tool to create a new folder
  */
 export class CreateFolderTool extends BaseTool<CreateFolderParams, CreateFolderResult> {
   private app: App;
+  receivesContext = true;
 
   /**
    * Create a new CreateFolderTool
@@ -35,6 +38,9 @@ export class CreateFolderTool extends BaseTool<CreateFolderParams, CreateFolderR
         return this.prepareResult(false, undefined, 'Path is required');
       }
 
+      const normalizedPath = normalizePath(params.path);
+      const existedBefore = this.app.vault.getAbstractFileByPath(normalizedPath) !== null;
+
       if (typeof FileOperations?.createFolder === 'function') {
         await FileOperations.createFolder(this.app, params.path);
       } else {
@@ -44,6 +50,12 @@ export class CreateFolderTool extends BaseTool<CreateFolderParams, CreateFolderR
         }
       }
 
+      if (!existedBefore) {
+        await recordAgentEdit(this.app, { agent: 'storageManager', tool: this.slug, context: params.context }, [
+          { kind: 'createFolder', path: normalizedPath }
+        ]);
+      }
+
       // Success - LLM already knows the path it passed
       return this.prepareResult(true);
     } catch (error) {
@@ -2,6 +2,9 @@
 export * from './list';
 export * from './createFolder';
 export * from './move';
+export * from './reorganize';
 export * from './copy';
 export * from './archive';
+export * from './listArchived';
+export * from './restore';
 export * from './open';
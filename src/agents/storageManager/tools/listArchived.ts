@@ -0,0 +1,132 @@
+import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
+import { App } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { ListArchivedParams, ListArchivedResult, ArchivedItemInfo } from '../types';
+import { ArchiveStore } from '../utils/ArchiveStore';
+import { createErrorMessage } from '../../../utils/errorUtils';
+
+/** Default number of archived items returned */
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Location: src/agents/storageManager/tools/listArchived.ts
+ * Purpose: List archived files and folders with their original paths
+ * Relationships: Uses ArchiveStore to read archive metadata; ids are passed to restore
+ */
+
+/**
+ * Tool for listing archived items (newest first)
+ */
+export class ListArchivedTool extends BaseTool<ListArchivedParams, ListArchivedResult> {
+  private app: App;
+
+  /**
+   * Create a new ListArchivedTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'listArchived',
+      'List Archived',
+      'List archived files and folders with their original paths',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the archived items
+   */
+  async execute(params: ListArchivedParams): Promise<ListArchivedResult> {
+    try {
+      const query = params.query?.trim().toLowerCase();
+      const limit = Math.max(1, params.limit ?? DEFAULT_LIMIT);
+
+      let archived = await ArchiveStore.list(this.app);
+      if (query) {
+        archived = archived.filter(item => item.originalPath.toLowerCase().includes(query));
+      }
+
+      const items: ArchivedItemInfo[] = [];
+      for (const item of archived.slice(0, limit)) {
+        items.push({
+          id: item.id,
+          originalPath: item.originalPath,
+          archivePath: item.archivePath,
+          type: item.type,
+          archivedAt: new Date(item.archivedAt).toISOString(),
+          files: item.files,
+          ...(item.reason ? { reason: item.reason } : {}),
+          originalPathTaken: await this.app.vault.adapter.exists(item.originalPath),
+          ...(item.legacy ? { legacy: true } : {})
+        });
+      }
+
+      return this.prepareResult(true, { total: archived.length, items });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Failed to list archived items: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): JSONSchema {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Only list items whose original path contains this text (case-insensitive)'
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum number of items, newest first (default: ${DEFAULT_LIMIT})`
+        }
+      },
+      required: [],
+      description: 'List items archived to .archive/ with original path, archive time and reason. Pass an id to restore to bring an item back.'
+    };
+
+    // Merge with common schema (sessionId and context)
+    return this.getMergedSchema(toolSchema);
+  }
+
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the operation succeeded' },
+        error: { type: 'string', description: 'Error message if failed' },
+        data: {
+          type: 'object',
+          properties: {
+            total: { type: 'number', description: 'Matching archived items (before limit)' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Archive id (pass to restore)' },
+                  originalPath: { type: 'string' },
+                  archivePath: { type: 'string' },
+                  type: { type: 'string', enum: ['file', 'folder'] },
+                  archivedAt: { type: 'string', description: 'ISO 8601 time' },
+                  files: { type: 'number', description: 'Files archived' },
+                  reason: { type: 'string' },
+                  originalPathTaken: { type: 'boolean', description: 'Original path is in use; restore would rename' },
+                  legacy: { type: 'boolean', description: 'Archived without metadata; original path is inferred' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
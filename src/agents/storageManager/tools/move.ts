@@ -1,15 +1,21 @@
 import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
 import { App, TFile, TFolder } from 'obsidian';
 import { BaseTool } from '../../baseTool';
-import { MoveParams, MoveResult } from '../types';
+import { MoveParams, MoveResult, MoveLinkingFile } from '../types';
 import { FileOperations } from '../utils/FileOperations';
 import { createErrorMessage } from '../../../utils/errorUtils';
 import { normalizePath } from '../../../utils/pathUtils';
+import { LinkRewriteTracker } from '../utils/LinkRewriteTracker';
+import { recordAgentEdit, captureBeforeImage, EditChange } from '../../../services/journal/EditJournalService';
+
+/** Maximum number of linking notes listed in a dry run */
+const MAX_LISTED_FILES = 100;
 
 /**
  * Location: src/agents/storageManager/tools/move.ts
- * Purpose: Move or rename files and folders (auto-detects type)
- * Relationships: Uses FileOperations for move logic
+ * Purpose: Move or rename files and folders (auto-detects type), rewriting links to them
+ * Relationships: Uses FileOperations for move logic (fileManager.renameFile updates links),
+ * LinkRewriteTracker to count rewritten links, records the move and every rewritten note in the edit journal
  */
 
 /**
@@ -17,6 +23,7 @@ import { normalizePath } from '../../../utils/pathUtils';
  */
 export class MoveTool extends BaseTool<MoveParams, MoveResult> {
   private app: App;
+  receivesContext = true;
 
   /**
    * Create a new MoveTool
@@ -26,7 +33,7 @@ export class MoveTool extends BaseTool<MoveParams, MoveResult> {
     super(
       'move',
       'Move',
-      'Move or rename a file or folder',
+      'Move or rename a file or folder, updating links to it',
       '1.0.0'
     );
 
@@ -39,7 +46,7 @@ export class MoveTool extends BaseTool<MoveParams, MoveResult> {
    * @returns Promise that resolves with the result of moving the file or folder
    */
   async execute(params: MoveParams): Promise<MoveResult> {
-    const { path, newPath, overwrite } = params;
+    const { path, newPath, overwrite, dryRun } = params;
 
     try {
       // Normalize paths
@@ -55,17 +62,68 @@ export class MoveTool extends BaseTool<MoveParams, MoveResult> {
         );
       }
 
+      if (!(sourceItem instanceof TFile) && !(sourceItem instanceof TFolder)) {
+        return this.prepareResult(false, undefined, `Unknown item type at path: ${path}`);
+      }
+
+      const normalizedNewPath = normalizePath(newPath);
+      const destination = this.app.vault.getAbstractFileByPath(normalizedNewPath);
+      if (destination && !overwrite) {
+        return this.prepareResult(false, undefined,
+          `Destination already exists: "${newPath}". Choose another path or set overwrite: true.`
+        );
+      }
+
+      // Notes linking to anything being moved, from the resolved link cache
+      const movedPaths = FileOperations.getContainedFilePaths(sourceItem);
+      const backlinks = FileOperations.findBacklinks(this.app, movedPaths);
+      const totalBacklinks = Array.from(backlinks.values()).reduce((sum, count) => sum + count, 0);
+
+      if (dryRun) {
+        const affectedFiles: MoveLinkingFile[] = Array.from(backlinks.entries())
+          .map(([linkingPath, links]) => ({ path: linkingPath, links }))
+          .sort((a, b) => b.links - a.links || a.path.localeCompare(b.path));
+        return this.prepareResult(true, {
+          dryRun: true,
+          filesMoved: movedPaths.length,
+          backlinks: totalBacklinks,
+          linkingFiles: backlinks.size,
+          affectedFiles: affectedFiles.slice(0, MAX_LISTED_FILES)
+        });
+      }
+
+      // Keep the content of a file that an overwrite will replace, so the move can be reverted
+      const changes: EditChange[] = [];
+      if (overwrite && destination instanceof TFile) {
+        changes.push({ kind: 'delete', path: normalizedNewPath, ...(await captureBeforeImage(this.app, destination)) });
+      }
+
+      // Snapshot linking notes so rewritten links can be counted and reverted
+      const tracker = new LinkRewriteTracker(this.app);
+      await tracker.snapshot(backlinks.keys());
+
       // Auto-detect and move accordingly
       if (sourceItem instanceof TFile) {
         await FileOperations.moveNote(this.app, path, newPath, overwrite);
-      } else if (sourceItem instanceof TFolder) {
-        await FileOperations.moveFolder(this.app, path, newPath, overwrite);
       } else {
-        return this.prepareResult(false, undefined, `Unknown item type at path: ${path}`);
+        await FileOperations.moveFolder(this.app, path, newPath, overwrite);
       }
 
-      // Success - LLM already knows the paths it passed
-      return this.prepareResult(true);
+      changes.push({ kind: 'rename', path: normalizedNewPath, from: normalizedPath });
+
+      // Rewritten notes are journaled after the rename, so a revert restores them before moving back
+      const rewritten = await tracker.collect([{ from: normalizedPath, to: normalizedNewPath }]);
+      changes.push(...rewritten.changes);
+
+      await recordAgentEdit(this.app, { agent: 'storageManager', tool: this.slug, context: params.context }, changes);
+
+      return this.prepareResult(true, {
+        filesMoved: movedPaths.length,
+        backlinks: totalBacklinks,
+        linkingFiles: backlinks.size,
+        linksRewritten: rewritten.linksRewritten,
+        filesRewritten: rewritten.changes.length
+      });
     } catch (error) {
       return this.prepareResult(false, undefined, createErrorMessage('Failed to move: ', error));
     }
@@ -91,10 +149,15 @@ export class MoveTool extends BaseTool<MoveParams, MoveResult> {
           type: 'boolean',
           description: 'Overwrite if destination exists (default: false)',
           default: false
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'List the notes linking to the item (and link counts) without moving it (default: false)',
+          default: false
         }
       },
       required: ['path', 'newPath'],
-      description: 'Move or rename a file or folder (auto-detects type)'
+      description: 'Move or rename a file or folder (auto-detects type). Links to it are updated per the vault\'s link settings'
     };
 
     // Merge with common schema (sessionId and context)
@@ -106,7 +169,29 @@ export class MoveTool extends BaseTool<MoveParams, MoveResult> {
       type: 'object',
       properties: {
         success: { type: 'boolean', description: 'Whether the operation succeeded' },
-        error: { type: 'string', description: 'Error message if failed (includes recovery guidance)' }
+        error: { type: 'string', description: 'Error message if failed (includes recovery guidance)' },
+        data: {
+          type: 'object',
+          properties: {
+            dryRun: { type: 'boolean', description: 'True if nothing was moved' },
+            filesMoved: { type: 'number', description: 'Files moved (every file inside a folder)' },
+            backlinks: { type: 'number', description: 'Links pointing at the moved files' },
+            linkingFiles: { type: 'number', description: 'Notes containing those links' },
+            linksRewritten: { type: 'number', description: 'Links rewritten by the move (0 if the vault does not auto-update links)' },
+            filesRewritten: { type: 'number', description: 'Notes whose links were rewritten' },
+            affectedFiles: {
+              type: 'array',
+              description: `Dry run: linking notes with link counts (at most ${MAX_LISTED_FILES})`,
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  links: { type: 'number' }
+                }
+              }
+            }
+          }
+        }
       },
       required: ['success']
     };
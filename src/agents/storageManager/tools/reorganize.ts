@@ -0,0 +1,380 @@
+import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
+import { App, TFile, TFolder } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { ReorganizeParams, ReorganizeResult, ReorganizeEntry } from '../types';
+import { FileOperations } from '../utils/FileOperations';
+import { ReorganizePlanner } from '../utils/ReorganizePlanner';
+import { LinkRewriteTracker, PathMove } from '../utils/LinkRewriteTracker';
+import { NoteSelector } from '../../contentManager/utils/NoteSelector';
+import { createErrorMessage, getErrorMessage } from '../../../utils/errorUtils';
+import { recordAgentEdit, EditChange } from '../../../services/journal/EditJournalService';
+
+/** Maximum number of notes a single plan may move */
+const MAX_PLANNED = 2000;
+
+/** Maximum number of plan entries listed in a result */
+const MAX_LISTED_ENTRIES = 200;
+
+/**
+ * Location: src/agents/storageManager/tools/reorganize.ts
+ *
+ * Bulk move tool for StorageManager.
+ * Moves every note matching a selection to a destination built from a path template.
+ *
+ * Key Design:
+ * - Two calls: a plan lists every move with conflicts flagged and returns a token; passing the token applies it
+ * - Conflicting entries are never applied; others can be left out with exclude
+ * - Applying checks the whole plan first, moves with link updates, and undoes every move
+ *   (and the link rewrites) if one fails
+ *
+ * Relationships:
+ * - Uses NoteSelector (paths/folders/globs) and ReorganizePlanner (filters, templates, plan tokens)
+ * - Uses FileOperations.moveNote (fileManager.renameFile) and LinkRewriteTracker
+ * - Records the whole reorganize as one edit journal entry
+ */
+export class ReorganizeTool extends BaseTool<ReorganizeParams, ReorganizeResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new ReorganizeTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'reorganize',
+      'Reorganize',
+      'Move many notes at once: select by path/glob, tag, property or date, plan destinations from a template, then apply the plan by token',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the plan or the applied moves
+   */
+  async execute(params: ReorganizeParams): Promise<ReorganizeResult> {
+    try {
+      return params.token ? await this.apply(params) : await this.plan(params);
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error in reorganize: ', error));
+    }
+  }
+
+  /**
+   * Select notes, render destinations and store the plan
+   */
+  private async plan(params: ReorganizeParams): Promise<ReorganizeResult> {
+    if (!params.destination) {
+      return this.prepareResult(false, undefined,
+        'destination is required for a plan (or pass token to apply one), e.g. "Archive/Meetings/{year}".'
+      );
+    }
+
+    for (const [name, value] of [['dateBefore', params.dateBefore], ['dateAfter', params.dateAfter]]) {
+      if (value !== undefined && ReorganizePlanner.parseDate(value) === undefined) {
+        return this.prepareResult(false, undefined, `${name} is not a date: "${value}". Use YYYY-MM-DD.`);
+      }
+    }
+
+    let files: TFile[];
+    if (params.paths && params.paths.length > 0) {
+      const selection = NoteSelector.select(this.app, params.paths);
+      if (selection.unmatched.length > 0) {
+        return this.prepareResult(false, undefined,
+          `No markdown notes match ${selection.unmatched.map(p => `"${p}"`).join(', ')}. Fix or drop those paths and plan again.`
+        );
+      }
+      files = selection.files;
+    } else {
+      files = this.app.vault.getMarkdownFiles();
+    }
+
+    const selected = files
+      .filter(file => ReorganizePlanner.matches(this.app, file, params))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const entries: ReorganizeEntry[] = [];
+    let unchanged = 0;
+    for (const file of selected) {
+      const destination = ReorganizePlanner.renderDestination(this.app, file, params.destination, params.dateProperty);
+      if ('error' in destination) {
+        entries.push({ id: String(entries.length + 1), from: file.path, to: '', conflict: destination.error });
+      } else if (destination.path === file.path) {
+        unchanged++;
+      } else {
+        entries.push({ id: String(entries.length + 1), from: file.path, to: destination.path });
+      }
+    }
+
+    if (entries.length > MAX_PLANNED) {
+      return this.prepareResult(false, undefined,
+        `${entries.length} notes would move; the limit is ${MAX_PLANNED} per plan. Narrow the selection with paths, tags, where or dates.`
+      );
+    }
+
+    ReorganizePlanner.flagConflicts(this.app, entries);
+
+    const backlinks = FileOperations.findBacklinks(this.app, entries.filter(entry => !entry.conflict).map(entry => entry.from));
+    const conflicts = entries.filter(entry => entry.conflict);
+    const listed = [...conflicts, ...entries.filter(entry => !entry.conflict)].slice(0, MAX_LISTED_ENTRIES);
+
+    const summary = {
+      matched: selected.length,
+      unchanged,
+      planned: entries.length,
+      conflicts: conflicts.length,
+      backlinks: Array.from(backlinks.values()).reduce((sum, count) => sum + count, 0),
+      linkingFiles: backlinks.size,
+      entries: listed
+    };
+
+    if (conflicts.length === entries.length) {
+      return this.prepareResult(true, summary);
+    }
+
+    const stored = ReorganizePlanner.storePlan(entries);
+    return this.prepareResult(true, { token: stored.token, expiresAt: stored.expiresAt, ...summary });
+  }
+
+  /**
+   * Apply a stored plan, rolling back if a move fails
+   */
+  private async apply(params: ReorganizeParams): Promise<ReorganizeResult> {
+    const plan = ReorganizePlanner.takePlan(params.token as string);
+    if (!plan) {
+      return this.prepareResult(false, undefined,
+        'Unknown or expired token. Tokens last 10 minutes and can be used once; plan again (without token).'
+      );
+    }
+
+    const excluded = new Set(params.exclude || []);
+    const moves: PathMove[] = plan.entries
+      .filter(entry => !entry.conflict && !excluded.has(entry.id))
+      .map(entry => ({ from: entry.from, to: entry.to }));
+
+    // Check the whole plan before moving anything
+    const problems: string[] = [];
+    for (const move of moves) {
+      if (!(this.app.vault.getAbstractFileByPath(move.from) instanceof TFile)) {
+        problems.push(`${move.from}: no longer exists`);
+      } else if (await this.app.vault.adapter.exists(move.to)) {
+        problems.push(`${move.to}: destination now exists`);
+      }
+    }
+    if (problems.length > 0) {
+      const details = problems.slice(0, 10);
+      if (problems.length > 10) {
+        details.push(`... ${problems.length - 10} more`);
+      }
+      return this.prepareResult(false, undefined,
+        `Vault changed since the plan; nothing was moved. Plan again. ${details.join(' | ')}`
+      );
+    }
+
+    const createdFolders = this.getMissingFolders(moves.map(move => move.to));
+    const backlinks = FileOperations.findBacklinks(this.app, moves.map(move => move.from));
+    const tracker = new LinkRewriteTracker(this.app);
+    await tracker.snapshot([...backlinks.keys(), ...moves.map(move => move.from)]);
+
+    const done: PathMove[] = [];
+    try {
+      for (const move of moves) {
+        await FileOperations.moveNote(this.app, move.from, move.to);
+        done.push(move);
+      }
+    } catch (error) {
+      const failedMove = moves[done.length];
+      const rollbackErrors = await this.rollback(done, tracker, createdFolders);
+      const message = `Moving ${failedMove.from} to ${failedMove.to} failed: ${getErrorMessage(error)}.`;
+      if (rollbackErrors.length > 0) {
+        return this.prepareResult(false, { moved: done.length, rolledBack: false },
+          `${message} Rollback incomplete: ${rollbackErrors.slice(0, 10).join(' | ')}`
+        );
+      }
+      return this.prepareResult(false, { moved: 0, rolledBack: true },
+        `${message} All ${done.length} completed move(s) were undone.`
+      );
+    }
+
+    // Folders first and rewritten notes last, so a journal revert restores notes, moves back, then removes folders
+    const rewritten = await tracker.collect(moves);
+    const changes: EditChange[] = [
+      ...createdFolders.map(path => ({ kind: 'createFolder' as const, path })),
+      ...moves.map(move => ({ kind: 'rename' as const, path: move.to, from: move.from })),
+      ...rewritten.changes
+    ];
+    if (moves.length > 0) {
+      await recordAgentEdit(this.app, { agent: 'storageManager', tool: this.slug, context: params.context }, changes);
+    }
+
+    return this.prepareResult(true, {
+      moved: moves.length,
+      linksRewritten: rewritten.linksRewritten,
+      filesRewritten: rewritten.changes.length,
+      foldersCreated: createdFolders.length
+    });
+  }
+
+  /**
+   * Undo completed moves, restore rewritten notes and remove folders created for the plan
+   * @returns Problems that prevented a complete rollback
+   */
+  private async rollback(done: PathMove[], tracker: LinkRewriteTracker, createdFolders: string[]): Promise<string[]> {
+    const errors: string[] = [];
+
+    for (const move of [...done].reverse()) {
+      try {
+        await FileOperations.moveNote(this.app, move.to, move.from, false, false);
+      } catch (error) {
+        errors.push(`${move.to}: ${getErrorMessage(error)}`);
+      }
+    }
+
+    const unrestored = await tracker.restore();
+    errors.push(...unrestored.map(path => `${path}: links not restored`));
+
+    for (const path of [...createdFolders].reverse()) {
+      const folder = this.app.vault.getAbstractFileByPath(path);
+      if (folder instanceof TFolder && folder.children.length === 0) {
+        try {
+          await this.app.vault.delete(folder);
+        } catch (error) {
+          errors.push(`${path}: ${getErrorMessage(error)}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Folders (parents first) that must be created for the destinations
+   */
+  private getMissingFolders(destinations: string[]): string[] {
+    const missing = new Set<string>();
+    for (const destination of destinations) {
+      const segments = destination.split('/').slice(0, -1);
+      for (let i = 1; i <= segments.length; i++) {
+        const folder = segments.slice(0, i).join('/');
+        if (!this.app.vault.getAbstractFileByPath(folder)) {
+          missing.add(folder);
+        }
+      }
+    }
+    return Array.from(missing).sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): JSONSchema {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Notes, folders, or glob patterns to select from (default: every markdown note)'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only notes with all of these tags (nested tags count: "meeting" matches #meeting/weekly)'
+        },
+        where: {
+          type: 'array',
+          description: 'Only notes whose frontmatter meets all conditions',
+          items: {
+            type: 'object',
+            properties: {
+              property: { type: 'string' },
+              op: {
+                type: 'string',
+                enum: ['equals', 'notEquals', 'contains', 'exists', 'notExists', 'lt', 'lte', 'gt', 'gte']
+              },
+              value: { type: ['string', 'number', 'boolean'] }
+            },
+            required: ['property', 'op']
+          }
+        },
+        dateBefore: {
+          type: 'string',
+          description: 'Only notes dated before this date (YYYY-MM-DD, exclusive)'
+        },
+        dateAfter: {
+          type: 'string',
+          description: 'Only notes dated on or after this date (YYYY-MM-DD)'
+        },
+        dateProperty: {
+          type: 'string',
+          description: 'Frontmatter property holding the note date for date filters and {year}/{month}/{day} (default: modified time)'
+        },
+        destination: {
+          type: 'string',
+          description: 'Destination template. Variables: {name}, {folder}, {year}, {month}, {day}, {prop:key}. Without {name} it is a folder and notes keep their file names. Required for a plan'
+        },
+        token: {
+          type: 'string',
+          description: 'Token from a plan. Applies exactly the planned moves; other selection parameters are ignored'
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Plan entry ids to leave in place when applying'
+        }
+      },
+      required: [],
+      description: 'Bulk move notes. Call without token to get a plan (conflicts flagged, nothing moved), then call with the token to apply. Links are updated; a failed apply is rolled back.'
+    };
+
+    // Merge with common schema (sessionId and context)
+    return this.getMergedSchema(toolSchema);
+  }
+
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the plan or apply succeeded' },
+        error: { type: 'string', description: 'Error message; for a failed apply, whether it was rolled back' },
+        data: {
+          type: 'object',
+          properties: {
+            token: { type: 'string', description: 'Pass back as token to apply this plan (valid 10 minutes, once)' },
+            expiresAt: { type: 'number', description: 'Token expiry (ms since epoch)' },
+            matched: { type: 'number', description: 'Notes selected' },
+            unchanged: { type: 'number', description: 'Notes already at their destination' },
+            planned: { type: 'number', description: 'Planned moves, including conflicts' },
+            conflicts: { type: 'number', description: 'Planned moves that will not be applied' },
+            backlinks: { type: 'number', description: 'Links pointing at the notes to move' },
+            linkingFiles: { type: 'number', description: 'Notes containing those links' },
+            entries: {
+              type: 'array',
+              description: `Planned moves, conflicts first (at most ${MAX_LISTED_ENTRIES})`,
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', description: 'Entry id for exclude' },
+                  from: { type: 'string' },
+                  to: { type: 'string' },
+                  conflict: { type: 'string', description: 'Why this move will not be applied' }
+                }
+              }
+            },
+            moved: { type: 'number', description: 'Notes moved' },
+            linksRewritten: { type: 'number' },
+            filesRewritten: { type: 'number' },
+            foldersCreated: { type: 'number' },
+            rolledBack: { type: 'boolean', description: 'True if a failed apply was undone' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { JSONSchema } from '../../../types/schema/JSONSchemaTypes';
+import { App } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { RestoreParams, RestoreResult } from '../types';
+import { ArchiveStore } from '../utils/ArchiveStore';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/storageManager/tools/restore.ts
+ * Purpose: Move an archived file or folder back into the vault
+ * Relationships: Uses ArchiveStore for lookup and the move, records restores in the edit journal
+ */
+
+/**
+ * Tool for restoring archived items to their original (or another) path
+ */
+export class RestoreTool extends BaseTool<RestoreParams, RestoreResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new RestoreTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'restore',
+      'Restore',
+      'Restore an archived file or folder to its original path',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the restored path
+   */
+  async execute(params: RestoreParams): Promise<RestoreResult> {
+    const { id, targetPath, onConflict = 'rename' } = params;
+
+    try {
+      const item = await ArchiveStore.get(this.app, id);
+      if (!item) {
+        return this.prepareResult(false, undefined,
+          `Archive not found: "${id}". Use listArchived to see archived items and their ids.`
+        );
+      }
+
+      const requestedPath = normalizePath(targetPath || item.originalPath);
+      if (onConflict === 'fail' && await this.app.vault.adapter.exists(requestedPath)) {
+        return this.prepareResult(false, undefined,
+          `Destination already exists: "${requestedPath}". Pass targetPath, or onConflict: "rename" to restore next to it.`
+        );
+      }
+
+      const restoredPath = await ArchiveStore.restore(this.app, item, requestedPath, onConflict);
+
+      await recordAgentEdit(this.app, { agent: 'storageManager', tool: this.slug, context: params.context }, [
+        { kind: 'rename', path: restoredPath, from: item.archivePath }
+      ]);
+
+      return this.prepareResult(true, { restoredPath, renamed: restoredPath !== requestedPath });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Failed to restore: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): JSONSchema {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Archive id from listArchived (e.g. "2025-01-31_14-05-09")'
+        },
+        targetPath: {
+          type: 'string',
+          description: 'Where to restore to (default: the original path)'
+        },
+        onConflict: {
+          type: 'string',
+          enum: ['rename', 'fail'],
+          description: 'If the destination exists: "rename" restores as "name (restored).ext" (default), "fail" leaves the item archived',
+          default: 'rename'
+        }
+      },
+      required: ['id'],
+      description: 'Move an archived file or folder back out of .archive/. Links to it were kept when it was archived, so they work again at the original path.'
+    };
+
+    // Merge with common schema (sessionId and context)
+    return this.getMergedSchema(toolSchema);
+  }
+
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the operation succeeded' },
+        error: { type: 'string', description: 'Error message if failed (includes recovery guidance)' },
+        data: {
+          type: 'object',
+          properties: {
+            restoredPath: { type: 'string', description: 'Path the item was restored to' },
+            renamed: { type: 'boolean', description: 'True if the destination was taken and another name was used' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -365,6 +365,26 @@ export interface MoveParams extends CommonParameters {
    * Whether to overwrite if destination exists
    */
   overwrite?: boolean;
+
+  /**
+   * List the notes that link to the item without moving anything
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Note that links to a moved item
+ */
+export interface MoveLinkingFile {
+  /**
+   * Path of the linking note
+   */
+  path: string;
+
+  /**
+   * Number of links to the moved item
+   */
+  links: number;
 }
 
 /**
@@ -380,6 +400,235 @@ export interface MoveResult {
    * Error message if move failed
    */
   error?: string;
+
+  /**
+   * Link impact of the move
+   */
+  data?: {
+    /**
+     * True if nothing was moved
+     */
+    dryRun?: boolean;
+
+    /**
+     * Files moved (1 for a file, every file inside a folder)
+     */
+    filesMoved: number;
+
+    /**
+     * Links to the moved files before the move
+     */
+    backlinks: number;
+
+    /**
+     * Notes containing those links
+     */
+    linkingFiles: number;
+
+    /**
+     * Links rewritten by the move
+     */
+    linksRewritten?: number;
+
+    /**
+     * Notes whose links were rewritten
+     */
+    filesRewritten?: number;
+
+    /**
+     * Linking notes (dry run only, capped)
+     */
+    affectedFiles?: MoveLinkingFile[];
+  };
+}
+
+/**
+ * Condition on a frontmatter property for reorganize selections
+ */
+export interface PropertyCondition {
+  /**
+   * Property name
+   */
+  property: string;
+
+  /**
+   * Comparison
+   * - equals / notEquals: exact match (list properties match if any item matches)
+   * - contains: case-insensitive substring (or list item)
+   * - exists / notExists: property is present with a non-empty value
+   * - lt / lte / gt / gte: numbers numerically, dates and text as strings
+   */
+  op: 'equals' | 'notEquals' | 'contains' | 'exists' | 'notExists' | 'lt' | 'lte' | 'gt' | 'gte';
+
+  /**
+   * Value to compare with (not used by exists/notExists)
+   */
+  value?: string | number | boolean;
+}
+
+/**
+ * Arguments for planning or applying a bulk reorganize
+ */
+export interface ReorganizeParams extends CommonParameters {
+  /**
+   * Notes, folders or glob patterns to select from (default: every markdown note)
+   */
+  paths?: string[];
+
+  /**
+   * Only notes with all of these tags (nested tags count: "meeting" matches #meeting/weekly)
+   */
+  tags?: string[];
+
+  /**
+   * Only notes whose frontmatter meets all of these conditions
+   */
+  where?: PropertyCondition[];
+
+  /**
+   * Only notes dated before this date (YYYY-MM-DD or ISO 8601, exclusive)
+   */
+  dateBefore?: string;
+
+  /**
+   * Only notes dated on or after this date (YYYY-MM-DD or ISO 8601)
+   */
+  dateAfter?: string;
+
+  /**
+   * Frontmatter property holding the note date (default: modified time)
+   */
+  dateProperty?: string;
+
+  /**
+   * Destination template, e.g. "Archive/Meetings/{year}" or "People/{prop:company}/{name}"
+   */
+  destination?: string;
+
+  /**
+   * Token from a plan; applies exactly the planned moves
+   */
+  token?: string;
+
+  /**
+   * Plan entry ids to leave in place when applying
+   */
+  exclude?: string[];
+}
+
+/**
+ * One planned move
+ */
+export interface ReorganizeEntry {
+  /**
+   * Entry id (for exclude)
+   */
+  id: string;
+
+  /**
+   * Current path
+   */
+  from: string;
+
+  /**
+   * Destination path
+   */
+  to: string;
+
+  /**
+   * Why the move cannot be applied (destination taken, duplicate destination, missing template value)
+   */
+  conflict?: string;
+}
+
+/**
+ * Result of planning or applying a bulk reorganize
+ */
+export interface ReorganizeResult {
+  /**
+   * Whether the plan or apply succeeded
+   */
+  success: boolean;
+
+  /**
+   * Error message (for a failed apply, also whether it was rolled back)
+   */
+  error?: string;
+
+  /**
+   * Plan or apply summary
+   */
+  data?: {
+    /**
+     * Token to apply the plan (plans only, when something can be moved)
+     */
+    token?: string;
+
+    /**
+     * Token expiry (ms since epoch)
+     */
+    expiresAt?: number;
+
+    /**
+     * Notes selected
+     */
+    matched?: number;
+
+    /**
+     * Notes already at their destination
+     */
+    unchanged?: number;
+
+    /**
+     * Planned moves (including conflicts)
+     */
+    planned?: number;
+
+    /**
+     * Planned moves that conflict (never applied)
+     */
+    conflicts?: number;
+
+    /**
+     * Links pointing at the notes to move
+     */
+    backlinks?: number;
+
+    /**
+     * Notes containing those links
+     */
+    linkingFiles?: number;
+
+    /**
+     * Planned moves (capped; conflicts first)
+     */
+    entries?: ReorganizeEntry[];
+
+    /**
+     * Notes moved (apply)
+     */
+    moved?: number;
+
+    /**
+     * Links rewritten (apply)
+     */
+    linksRewritten?: number;
+
+    /**
+     * Notes whose links were rewritten (apply)
+     */
+    filesRewritten?: number;
+
+    /**
+     * Folders created for destinations (apply)
+     */
+    foldersCreated?: number;
+
+    /**
+     * True if a failed apply was undone
+     */
+    rolledBack?: boolean;
+  };
 }
 
 /**
@@ -425,6 +674,11 @@ export interface ArchiveParams extends CommonParameters {
    * Path to file or folder to archive
    */
   path: string;
+
+  /**
+   * Why the item is archived (kept in the archive metadata)
+   */
+  reason?: string;
 }
 
 /**
@@ -440,6 +694,168 @@ export interface ArchiveResult {
    * Error message if archive failed
    */
   error?: string;
+
+  /**
+   * Where the item was archived
+   */
+  data?: {
+    /**
+     * Archive id (pass to restore)
+     */
+    id: string;
+
+    /**
+     * Path of the item inside .archive/
+     */
+    archivePath: string;
+  };
+}
+
+/**
+ * Arguments for listing archived items
+ */
+export interface ListArchivedParams extends CommonParameters {
+  /**
+   * Only list items whose original path contains this text (case-insensitive)
+   */
+  query?: string;
+
+  /**
+   * Maximum number of items to return (newest first, default: 50)
+   */
+  limit?: number;
+}
+
+/**
+ * An archived item as returned by listArchived
+ */
+export interface ArchivedItemInfo {
+  /**
+   * Archive id (pass to restore)
+   */
+  id: string;
+
+  /**
+   * Path the item was archived from
+   */
+  originalPath: string;
+
+  /**
+   * Path of the item inside .archive/
+   */
+  archivePath: string;
+
+  /**
+   * Item type
+   */
+  type: 'file' | 'folder';
+
+  /**
+   * Archive time (ISO 8601)
+   */
+  archivedAt: string;
+
+  /**
+   * Number of files archived
+   */
+  files: number;
+
+  /**
+   * Why the item was archived
+   */
+  reason?: string;
+
+  /**
+   * True if the original path is taken (restore would rename)
+   */
+  originalPathTaken: boolean;
+
+  /**
+   * True for archives made without metadata (original path inferred)
+   */
+  legacy?: boolean;
+}
+
+/**
+ * Result of listing archived items
+ */
+export interface ListArchivedResult {
+  /**
+   * Whether the operation was successful
+   */
+  success: boolean;
+
+  /**
+   * Error message if listing failed
+   */
+  error?: string;
+
+  /**
+   * Archived items
+   */
+  data?: {
+    /**
+     * Items matching the query (before limit)
+     */
+    total: number;
+
+    /**
+     * Items, newest first
+     */
+    items: ArchivedItemInfo[];
+  };
+}
+
+/**
+ * Arguments for restoring an archived item
+ */
+export interface RestoreParams extends CommonParameters {
+  /**
+   * Archive id from listArchived (or from archive)
+   */
+  id: string;
+
+  /**
+   * Where to restore to (default: the original path)
+   */
+  targetPath?: string;
+
+  /**
+   * What to do if the destination exists
+   * - 'rename': restore as "name (restored).ext" (default)
+   * - 'fail': leave the item archived
+   */
+  onConflict?: 'rename' | 'fail';
+}
+
+/**
+ * Result of restoring an archived item
+ */
+export interface RestoreResult {
+  /**
+   * Whether the operation was successful
+   */
+  success: boolean;
+
+  /**
+   * Error message if restore failed
+   */
+  error?: string;
+
+  /**
+   * Where the item was restored
+   */
+  data?: {
+    /**
+     * Path the item was restored to
+     */
+    restoredPath: string;
+
+    /**
+     * True if the destination was taken and the item was restored under another name
+     */
+    renamed: boolean;
+  };
 }
 
 /**
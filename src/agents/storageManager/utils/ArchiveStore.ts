@@ -0,0 +1,312 @@
+import { App } from 'obsidian';
+import { normalizePath } from '../../../utils/pathUtils';
+import { FileOperations } from './FileOperations';
+import { JOURNAL_RETENTION_DAYS } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/storageManager/utils/ArchiveStore.ts
+ *
+ * Metadata, listing and restore for archived items.
+ * - Each archive lives in its own folder: .archive/[id]/[original-path], id = YYYY-MM-DD_HH-mm-ss (suffixed on collision)
+ * - The folder holds a metadata file with the original path, so restores do not have to guess
+ * - Archives made before metadata existed are listed as legacy items (path inferred from the folder layout)
+ * - Restores keep the metadata while the edit journal can still move the item back (then it is pruned)
+ * - .archive/ is hidden from the vault index, so everything here goes through the adapter
+ *
+ * Relationships:
+ * - Used by ArchiveTool (writes metadata), ListArchivedTool and RestoreTool
+ * - Used by ArchiveBrowserModal (archive browsing UI)
+ */
+
+/** Folder that holds all archives */
+export const ARCHIVE_ROOT = '.archive';
+
+/** Metadata file inside each archive folder */
+const METADATA_FILE = '.archive.json';
+
+/**
+ * Metadata recorded when an item is archived
+ */
+export interface ArchiveMetadata {
+  /** Archive folder name under .archive/ */
+  id: string;
+  /** Path the item was archived from */
+  originalPath: string;
+  /** Path of the item inside the archive */
+  archivePath: string;
+  type: 'file' | 'folder';
+  /** Archive time (ms since epoch) */
+  archivedAt: number;
+  /** Number of files archived (1 for a file) */
+  files: number;
+  /** Why the item was archived */
+  reason?: string;
+  /** Session that archived the item */
+  sessionId?: string;
+  /** Last restore time (ms since epoch); the metadata is kept until the journal entry expires */
+  restoredAt?: number;
+}
+
+/**
+ * An archived item as listed
+ */
+export interface ArchivedItem extends ArchiveMetadata {
+  /** True for archives without metadata (original path inferred) */
+  legacy?: boolean;
+}
+
+/**
+ * How to handle an existing item at the restore destination
+ * - rename: restore next to it as "name (restored).ext", "name (restored 2).ext", ...
+ * - fail: do not restore
+ */
+export type RestoreConflictMode = 'rename' | 'fail';
+
+/**
+ * Utility class for archive metadata and restores
+ */
+export class ArchiveStore {
+  /**
+   * Reserve an archive id for the given time
+   * @param app Obsidian app instance
+   * @param date Archive time
+   * @returns Id whose archive folder does not exist yet
+   */
+  static async allocateId(app: App, date: Date): Promise<string> {
+    const base = this.formatTimestamp(date);
+    let id = base;
+    for (let counter = 2; await app.vault.adapter.exists(`${ARCHIVE_ROOT}/${id}`); counter++) {
+      id = `${base}_${counter}`;
+    }
+    return id;
+  }
+
+  /**
+   * Write the metadata of an archive
+   * @param app Obsidian app instance
+   * @param metadata Archive metadata
+   */
+  static async writeMetadata(app: App, metadata: ArchiveMetadata): Promise<void> {
+    await app.vault.adapter.write(`${ARCHIVE_ROOT}/${metadata.id}/${METADATA_FILE}`, JSON.stringify(metadata, null, 2));
+  }
+
+  /**
+   * List archived items, newest first
+   * Archives whose item is gone (e.g. restored by hand) are left out.
+   * @param app Obsidian app instance
+   * @returns Archived items
+   */
+  static async list(app: App): Promise<ArchivedItem[]> {
+    if (!(await app.vault.adapter.exists(ARCHIVE_ROOT))) {
+      return [];
+    }
+
+    const { folders } = await app.vault.adapter.list(ARCHIVE_ROOT);
+    const items: ArchivedItem[] = [];
+    for (const folder of folders) {
+      const id = folder.slice(ARCHIVE_ROOT.length + 1);
+      const item = await this.readItem(app, id);
+      if (item) {
+        items.push(item);
+      } else {
+        await this.pruneRestored(app, id);
+      }
+    }
+
+    return items.sort((a, b) => b.archivedAt - a.archivedAt || b.id.localeCompare(a.id));
+  }
+
+  /**
+   * Get an archived item by id
+   * @param app Obsidian app instance
+   * @param id Archive id
+   * @returns The item, or null if there is no such archive
+   */
+  static async get(app: App, id: string): Promise<ArchivedItem | null> {
+    if (!id || id.includes('/') || !(await app.vault.adapter.exists(`${ARCHIVE_ROOT}/${id}`))) {
+      return null;
+    }
+    return this.readItem(app, id);
+  }
+
+  /**
+   * Move an archived item back into the vault
+   * Links to the item were left unchanged when it was archived, so they work again once it is back
+   * at its original path.
+   * @param app Obsidian app instance
+   * @param item Archived item
+   * @param targetPath Destination (default: the original path)
+   * @param onConflict What to do if the destination exists
+   * @returns Path the item was restored to
+   * @throws Error if the destination exists and onConflict is 'fail'
+   */
+  static async restore(
+    app: App,
+    item: ArchivedItem,
+    targetPath?: string,
+    onConflict: RestoreConflictMode = 'rename'
+  ): Promise<string> {
+    const requestedPath = normalizePath(targetPath || item.originalPath);
+    let destination = requestedPath;
+    if (await app.vault.adapter.exists(destination)) {
+      if (onConflict === 'fail') {
+        throw new Error(`Destination already exists: ${destination}`);
+      }
+      destination = await this.findAvailablePath(app, requestedPath, item.type);
+    }
+
+    const parent = destination.substring(0, destination.lastIndexOf('/'));
+    if (parent) {
+      await FileOperations.ensureFolder(app, parent);
+    }
+    await app.vault.adapter.rename(item.archivePath, destination);
+
+    // Keep the archive folder and its metadata: reverting the restore through the edit journal
+    // moves the item back, and it should list with its original path again (see pruneRestored).
+    // Legacy archives get metadata here too, recording the inferred path.
+    const { id, originalPath, archivePath, type, archivedAt, files, reason, sessionId } = item;
+    await this.writeMetadata(app, {
+      id, originalPath, archivePath, type, archivedAt, files, reason, sessionId, restoredAt: Date.now()
+    });
+
+    return destination;
+  }
+
+  /**
+   * Drop the folder of a restored archive once its restore can no longer be reverted
+   * (the journal entry has expired) and nothing else is left in it
+   */
+  private static async pruneRestored(app: App, id: string): Promise<void> {
+    const folder = `${ARCHIVE_ROOT}/${id}`;
+    const metadataPath = `${folder}/${METADATA_FILE}`;
+    if (!(await app.vault.adapter.exists(metadataPath))) {
+      return;
+    }
+
+    try {
+      const metadata = JSON.parse(await app.vault.adapter.read(metadataPath)) as ArchiveMetadata;
+      const expired = metadata.restoredAt !== undefined &&
+        Date.now() - metadata.restoredAt > JOURNAL_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      if (expired && !(await this.containsFiles(app, folder, metadataPath))) {
+        await app.vault.adapter.rmdir(folder, true);
+      }
+    } catch (error) {
+      console.warn(`[ArchiveStore] Could not prune restored archive: ${folder}`, error);
+    }
+  }
+
+  private static async readItem(app: App, id: string): Promise<ArchivedItem | null> {
+    const folder = `${ARCHIVE_ROOT}/${id}`;
+    const metadataPath = `${folder}/${METADATA_FILE}`;
+
+    if (await app.vault.adapter.exists(metadataPath)) {
+      try {
+        const metadata = JSON.parse(await app.vault.adapter.read(metadataPath)) as ArchiveMetadata;
+        return await app.vault.adapter.exists(metadata.archivePath) ? { ...metadata, id } : null;
+      } catch (error) {
+        console.warn(`[ArchiveStore] Unreadable archive metadata: ${metadataPath}`, error);
+      }
+    }
+
+    return this.inferLegacyItem(app, id);
+  }
+
+  /**
+   * Best guess for archives without metadata: follow single-child folders down from the
+   * archive folder; the item is the first file or the first folder with several children.
+   */
+  private static async inferLegacyItem(app: App, id: string): Promise<ArchivedItem | null> {
+    const folder = `${ARCHIVE_ROOT}/${id}`;
+    let current = folder;
+    let type: 'file' | 'folder' = 'folder';
+
+    for (;;) {
+      const { files, folders } = await app.vault.adapter.list(current);
+      const children = [...files, ...folders].filter(path => !path.endsWith(`/${METADATA_FILE}`));
+      if (children.length !== 1) break;
+
+      current = children[0];
+      if (files.includes(current)) {
+        type = 'file';
+        break;
+      }
+    }
+
+    if (current === folder) {
+      return null;
+    }
+
+    const stat = await app.vault.adapter.stat(current);
+    return {
+      id,
+      originalPath: current.slice(folder.length + 1),
+      archivePath: current,
+      type,
+      archivedAt: this.parseTimestamp(id) ?? stat?.mtime ?? 0,
+      files: type === 'file' ? 1 : await this.countFiles(app, current),
+      legacy: true
+    };
+  }
+
+  /**
+   * Find a free path next to `path`: "name (restored).ext", then "name (restored 2).ext", ...
+   */
+  private static async findAvailablePath(app: App, path: string, type: 'file' | 'folder'): Promise<string> {
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    const hasExtension = type === 'file' && dot > slash + 1;
+    const base = hasExtension ? path.slice(0, dot) : path;
+    const extension = hasExtension ? path.slice(dot) : '';
+
+    for (let counter = 1; counter < 1000; counter++) {
+      const candidate = `${base} (restored${counter === 1 ? '' : ` ${counter}`})${extension}`;
+      if (!(await app.vault.adapter.exists(candidate))) {
+        return candidate;
+      }
+    }
+    throw new Error(`No free name to restore ${path} to`);
+  }
+
+  private static async containsFiles(app: App, folder: string, ignore: string): Promise<boolean> {
+    const { files, folders } = await app.vault.adapter.list(folder);
+    if (files.some(file => file !== ignore)) {
+      return true;
+    }
+    for (const child of folders) {
+      if (await this.containsFiles(app, child, ignore)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private static async countFiles(app: App, folder: string): Promise<number> {
+    const { files, folders } = await app.vault.adapter.list(folder);
+    let count = files.length;
+    for (const child of folders) {
+      count += await this.countFiles(app, child);
+    }
+    return count;
+  }
+
+  /**
+   * Format a date as an archive id (YYYY-MM-DD_HH-mm-ss)
+   */
+  private static formatTimestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+  }
+
+  /**
+   * Read the time back from an archive id (local time)
+   */
+  private static parseTimestamp(id: string): number | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})/.exec(id);
+    if (!match) {
+      return undefined;
+    }
+    const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+    return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  }
+}
@@ -1,4 +1,4 @@
-import { App, TFile, TFolder } from 'obsidian';
+import { App, TAbstractFile, TFile, TFolder } from 'obsidian';
 import { smartNormalizePath, normalizePath } from '../../../utils/pathUtils';
 
 /**
@@ -159,6 +159,7 @@ export class FileOperations {
    * @param path Path to the note
    * @param newPath New path for the note
    * @param overwrite Whether to overwrite if a note already exists at the new path
+   * @param updateLinks Rewrite links to the note (per the user's link settings) via fileManager.renameFile
    * @returns Promise that resolves when the note is moved
    * @throws Error if move fails
    */
@@ -166,7 +167,8 @@ export class FileOperations {
     app: App,
     path: string,
     newPath: string,
-    overwrite = false
+    overwrite = false,
+    updateLinks = true
   ): Promise<void> {
     // Normalize paths to remove any leading slashes
     const normalizedPath = normalizePath(path);
@@ -197,7 +199,7 @@ export class FileOperations {
       await FileOperations.ensureFolder(app, folderPath);
     }
     
-    await app.vault.rename(file, normalizedNewPath);
+    await FileOperations.rename(app, file, normalizedNewPath, updateLinks);
   }
   
   /**
@@ -206,6 +208,7 @@ export class FileOperations {
    * @param path Path to the folder
    * @param newPath New path for the folder
    * @param overwrite Whether to overwrite if a folder already exists at the new path
+   * @param updateLinks Rewrite links to notes in the folder (per the user's link settings) via fileManager.renameFile
    * @returns Promise that resolves when the folder is moved
    * @throws Error if move fails
    */
@@ -213,7 +216,8 @@ export class FileOperations {
     app: App,
     path: string,
     newPath: string,
-    overwrite = false
+    overwrite = false,
+    updateLinks = true
   ): Promise<void> {
     // Normalize paths to remove any leading slashes
     const normalizedPath = normalizePath(path);
@@ -244,7 +248,62 @@ export class FileOperations {
       await FileOperations.ensureFolder(app, parentPath);
     }
     
-    await app.vault.rename(folder, normalizedNewPath);
+    await FileOperations.rename(app, folder, normalizedNewPath, updateLinks);
+  }
+
+  /**
+   * List the paths of every file an item contains (the file itself, or all files in a folder)
+   * @param item File or folder
+   * @returns File paths
+   */
+  static getContainedFilePaths(item: TAbstractFile): string[] {
+    if (item instanceof TFile) {
+      return [item.path];
+    }
+
+    const paths: string[] = [];
+    if (item instanceof TFolder) {
+      for (const child of item.children) {
+        paths.push(...FileOperations.getContainedFilePaths(child));
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Find notes that link to any of the given files, from the resolved link cache
+   * @param app Obsidian app instance
+   * @param targetPaths Paths of the linked files
+   * @returns Linking note path → number of links to the given files
+   */
+  static findBacklinks(app: App, targetPaths: string[]): Map<string, number> {
+    const targets = new Set(targetPaths);
+    const backlinks = new Map<string, number>();
+
+    for (const [sourcePath, links] of Object.entries(app.metadataCache.resolvedLinks)) {
+      let count = 0;
+      for (const [targetPath, linkCount] of Object.entries(links)) {
+        if (targets.has(targetPath)) {
+          count += linkCount;
+        }
+      }
+      if (count > 0) {
+        backlinks.set(sourcePath, count);
+      }
+    }
+
+    return backlinks;
+  }
+
+  /**
+   * Rename an item, with or without link updates
+   */
+  private static async rename(app: App, item: TAbstractFile, newPath: string, updateLinks: boolean): Promise<void> {
+    if (updateLinks) {
+      await app.fileManager.renameFile(item, newPath);
+    } else {
+      await app.vault.rename(item, newPath);
+    }
   }
   
   /**
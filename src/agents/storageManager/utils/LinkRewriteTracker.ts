@@ -0,0 +1,137 @@
+import { App, TFile } from 'obsidian';
+import { captureBeforeImage, EditChange } from '../../../services/journal/EditJournalService';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+
+/**
+ * Location: src/agents/storageManager/utils/LinkRewriteTracker.ts
+ *
+ * Tracks the notes Obsidian rewrites when files move (fileManager.renameFile updates links).
+ * - snapshot() keeps the content of linking notes before the move
+ * - collect() compares them afterwards: link counts for the result, modify changes for the journal
+ * - restore() writes the snapshots back (rollback of a failed bulk move)
+ *
+ * Relationships:
+ * - Used by MoveTool and ReorganizeTool
+ */
+
+/** Wikilinks/embeds and markdown link targets, compared before and after a move */
+const LINK_PATTERN = /!?\[\[[^\]]+\]\]|\]\([^)\s]+\)/g;
+
+/**
+ * A completed move (file or folder)
+ */
+export interface PathMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Notes whose links were rewritten by a move
+ */
+export interface LinkRewriteSummary {
+  /** Links that changed */
+  linksRewritten: number;
+  /** Journal changes for the rewritten notes (at their current path) */
+  changes: EditChange[];
+}
+
+/**
+ * Snapshots linking notes around a move
+ */
+export class LinkRewriteTracker {
+  private snapshots = new Map<string, string>();
+
+  constructor(private app: App) {}
+
+  /**
+   * Keep the current content of notes (non-text files are ignored)
+   * @param paths Paths of notes that may be rewritten
+   */
+  async snapshot(paths: Iterable<string>): Promise<void> {
+    for (const path of paths) {
+      if (this.snapshots.has(path)) continue;
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        const { before } = await captureBeforeImage(this.app, file);
+        if (before !== undefined) {
+          this.snapshots.set(path, before);
+        }
+      }
+    }
+  }
+
+  /**
+   * Compare snapshotted notes (at their new path if they moved too) with their current content
+   * @param moves Moves that were made
+   * @returns Rewritten link count and a modify change per rewritten note
+   */
+  async collect(moves: PathMove[]): Promise<LinkRewriteSummary> {
+    let linksRewritten = 0;
+    const changes: EditChange[] = [];
+
+    for (const [path, before] of this.snapshots) {
+      const currentPath = LinkRewriteTracker.pathAfterMoves(path, moves);
+      const file = this.app.vault.getAbstractFileByPath(currentPath);
+      if (!(file instanceof TFile)) continue;
+
+      const after = await this.app.vault.read(file);
+      if (after !== before) {
+        linksRewritten += LinkRewriteTracker.countChangedLinks(before, after);
+        changes.push({ kind: 'modify', path: currentPath, before, afterHash: ContentVersioning.hash(after) });
+      }
+    }
+
+    return { linksRewritten, changes };
+  }
+
+  /**
+   * Write snapshots back where the content differs (call after the moves were undone)
+   * @returns Paths that could not be restored
+   */
+  async restore(): Promise<string[]> {
+    const failed: string[] = [];
+    for (const [path, before] of this.snapshots) {
+      try {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile && await this.app.vault.read(file) !== before) {
+          await this.app.vault.modify(file, before);
+        }
+      } catch (error) {
+        failed.push(path);
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Map a path to where it is after the given moves (folder moves carry their contents)
+   */
+  static pathAfterMoves(path: string, moves: PathMove[]): string {
+    for (const { from, to } of moves) {
+      if (path === from) return to;
+      if (path.startsWith(`${from}/`)) return `${to}${path.slice(from.length)}`;
+    }
+    return path;
+  }
+
+  /**
+   * Count links in `before` that no longer appear in `after`
+   */
+  private static countChangedLinks(before: string, after: string): number {
+    const remaining = new Map<string, number>();
+    for (const link of after.match(LINK_PATTERN) || []) {
+      remaining.set(link, (remaining.get(link) || 0) + 1);
+    }
+
+    let changed = 0;
+    for (const link of before.match(LINK_PATTERN) || []) {
+      const count = remaining.get(link) || 0;
+      if (count > 0) {
+        remaining.set(link, count - 1);
+      } else {
+        changed++;
+      }
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,297 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { PropertyCondition, ReorganizeEntry } from '../types';
+import { generateUUID } from '../../../utils/uuid';
+
+/**
+ * Location: src/agents/storageManager/utils/ReorganizePlanner.ts
+ *
+ * Selection, destination templates and plan storage for bulk reorganize.
+ * - Notes are filtered by tags, frontmatter conditions and date (metadata cache)
+ * - Destinations come from a path template; conflicts are flagged per entry, never resolved silently
+ * - Plans are kept in memory (bounded, short-lived) and redeemed once by token
+ *
+ * Template variables:
+ * - {name}: note name without extension; if the template contains it, the template is the full path,
+ *   otherwise it is a folder and the note keeps its file name
+ * - {folder}: current folder path
+ * - {year}, {month}, {day}: note date (dateProperty, or modified time)
+ * - {prop:key}: frontmatter value (first item of a list)
+ *
+ * Relationships:
+ * - Used by ReorganizeTool
+ */
+
+/**
+ * Note filters of a reorganize selection
+ */
+export interface ReorganizeFilters {
+  tags?: string[];
+  where?: PropertyCondition[];
+  dateBefore?: string;
+  dateAfter?: string;
+  dateProperty?: string;
+}
+
+/**
+ * A stored plan that can be applied by token
+ */
+export interface ReorganizePlan {
+  token: string;
+  expiresAt: number;
+  entries: ReorganizeEntry[];
+}
+
+/** How long a plan token stays valid */
+const PLAN_TTL_MS = 10 * 60 * 1000;
+
+/** Maximum number of plans kept in memory */
+const MAX_PLANS = 20;
+
+/** Characters not allowed in a substituted template value */
+const UNSAFE_SEGMENT_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Utility class for reorganize plans
+ */
+export class ReorganizePlanner {
+  /** Stored plans keyed by token (insertion order used for eviction) */
+  private static plans: Map<string, ReorganizePlan> = new Map();
+
+  /**
+   * Check whether a note passes the filters
+   * @param app Obsidian app instance
+   * @param file Note to check
+   * @param filters Tag, frontmatter and date filters
+   * @returns True if every filter matches
+   */
+  static matches(app: App, file: TFile, filters: ReorganizeFilters): boolean {
+    const cache = app.metadataCache.getFileCache(file);
+    const frontmatter = cache?.frontmatter ?? {};
+
+    if (filters.tags && filters.tags.length > 0) {
+      const noteTags = (cache ? getAllTags(cache) ?? [] : []).map(tag => tag.replace(/^#/, '').toLowerCase());
+      const hasAll = filters.tags.every(tag => {
+        const wanted = tag.replace(/^#/, '').toLowerCase();
+        return noteTags.some(noteTag => noteTag === wanted || noteTag.startsWith(`${wanted}/`));
+      });
+      if (!hasAll) return false;
+    }
+
+    if (filters.where && !filters.where.every(condition => this.meetsCondition(frontmatter[condition.property], condition))) {
+      return false;
+    }
+
+    if (filters.dateBefore || filters.dateAfter) {
+      const date = this.getNoteDate(file, frontmatter, filters.dateProperty);
+      if (date === undefined) return false;
+      if (filters.dateBefore && date >= (this.parseDate(filters.dateBefore) as number)) return false;
+      if (filters.dateAfter && date < (this.parseDate(filters.dateAfter) as number)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Render the destination path of a note
+   * @param app Obsidian app instance
+   * @param file Note to move
+   * @param template Destination template
+   * @param dateProperty Frontmatter property holding the note date
+   * @returns Destination path, or the reason it cannot be rendered
+   */
+  static renderDestination(
+    app: App,
+    file: TFile,
+    template: string,
+    dateProperty?: string
+  ): { path: string } | { error: string } {
+    const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    const missing: string[] = [];
+    let date: Date | undefined;
+
+    const rendered = template.replace(/\{([^{}]+)\}/g, (token: string, variable: string) => {
+      const key = variable.trim();
+      let value: unknown;
+
+      if (key === 'name') {
+        value = file.basename;
+      } else if (key === 'folder') {
+        // Folder paths keep their slashes
+        return file.parent && !file.parent.isRoot() ? file.parent.path : '';
+      } else if (key === 'year' || key === 'month' || key === 'day') {
+        if (!date) {
+          const time = this.getNoteDate(file, frontmatter, dateProperty);
+          date = time !== undefined ? new Date(time) : undefined;
+        }
+        if (date) {
+          value = key === 'year' ? date.getFullYear()
+            : String((key === 'month' ? date.getMonth() + 1 : date.getDate())).padStart(2, '0');
+        }
+      } else if (key.startsWith('prop:')) {
+        const raw = frontmatter[key.slice(5).trim()];
+        value = Array.isArray(raw) ? raw[0] : raw;
+      } else {
+        missing.push(`${token} (unknown variable)`);
+        return token;
+      }
+
+      const text = value === undefined || value === null ? '' : String(value).replace(UNSAFE_SEGMENT_CHARS, '-').trim();
+      if (!text) {
+        missing.push(token);
+      }
+      return text;
+    });
+
+    if (missing.length > 0) {
+      return { error: `No value for ${missing.join(', ')}` };
+    }
+
+    const target = rendered.split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+    if (/\{\s*name\s*\}/.test(template)) {
+      return { path: target.toLowerCase().endsWith(`.${file.extension}`) ? target : `${target}.${file.extension}` };
+    }
+    return { path: target ? `${target}/${file.name}` : file.name };
+  }
+
+  /**
+   * Flag entries whose destination is taken or shared with other entries
+   * @param app Obsidian app instance
+   * @param entries Planned moves (entries with a conflict already are left as they are)
+   */
+  static flagConflicts(app: App, entries: ReorganizeEntry[]): void {
+    const byDestination = new Map<string, ReorganizeEntry[]>();
+    for (const entry of entries) {
+      const key = entry.to.toLowerCase();
+      byDestination.set(key, [...(byDestination.get(key) ?? []), entry]);
+    }
+
+    for (const entry of entries) {
+      if (entry.conflict) continue;
+      const sharing = byDestination.get(entry.to.toLowerCase()) ?? [];
+      if (sharing.length > 1) {
+        entry.conflict = `Same destination as ${sharing.filter(other => other !== entry).map(other => other.from).join(', ')}`;
+      } else if (app.vault.getAbstractFileByPath(entry.to)) {
+        entry.conflict = 'Destination already exists';
+      }
+    }
+  }
+
+  /**
+   * Store a plan and return it with its token
+   * @param entries Planned moves
+   * @returns The stored plan
+   */
+  static storePlan(entries: ReorganizeEntry[]): ReorganizePlan {
+    this.pruneExpired();
+    while (this.plans.size >= MAX_PLANS) {
+      const oldest = this.plans.keys().next().value;
+      if (oldest === undefined) break;
+      this.plans.delete(oldest);
+    }
+
+    const plan: ReorganizePlan = {
+      token: `ro_${generateUUID().replace(/-/g, '').slice(0, 16)}`,
+      expiresAt: Date.now() + PLAN_TTL_MS,
+      entries
+    };
+    this.plans.set(plan.token, plan);
+    return plan;
+  }
+
+  /**
+   * Redeem a plan token (each token can be used once)
+   * @param token Token returned by storePlan
+   * @returns The plan, or null if unknown or expired
+   */
+  static takePlan(token: string): ReorganizePlan | null {
+    this.pruneExpired();
+    const plan = this.plans.get(token);
+    if (!plan) {
+      return null;
+    }
+    this.plans.delete(token);
+    return plan;
+  }
+
+  /**
+   * Parse a date (YYYY-MM-DD as local midnight, otherwise anything Date understands)
+   * @returns Milliseconds since epoch, or undefined if not a date
+   */
+  static parseDate(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (typeof value !== 'string' || !value.trim()) {
+      return undefined;
+    }
+
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    const time = dateOnly
+      ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])).getTime()
+      : Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  private static getNoteDate(file: TFile, frontmatter: Record<string, unknown>, dateProperty?: string): number | undefined {
+    return dateProperty ? this.parseDate(frontmatter[dateProperty]) : file.stat.mtime;
+  }
+
+  private static meetsCondition(value: unknown, condition: PropertyCondition): boolean {
+    const present = value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    const expected = condition.value;
+
+    switch (condition.op) {
+      case 'exists':
+        return present;
+      case 'notExists':
+        return !present;
+      case 'equals':
+        return present && values.some(item => this.isEqual(item, expected));
+      case 'notEquals':
+        return !present || !values.some(item => this.isEqual(item, expected));
+      case 'contains': {
+        const needle = String(expected ?? '').toLowerCase();
+        return present && values.some(item => String(item).toLowerCase().includes(needle));
+      }
+      case 'lt':
+      case 'lte':
+      case 'gt':
+      case 'gte': {
+        if (!present || Array.isArray(value) || expected === undefined) return false;
+        const order = this.compare(value, expected);
+        if (condition.op === 'lt') return order < 0;
+        if (condition.op === 'lte') return order <= 0;
+        if (condition.op === 'gt') return order > 0;
+        return order >= 0;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    if (typeof a === 'number' || typeof b === 'number') {
+      return Number(a) === Number(b);
+    }
+    return String(a) === String(b);
+  }
+
+  private static compare(a: unknown, b: unknown): number {
+    const numberA = Number(a);
+    const numberB = Number(b);
+    if (typeof a !== 'boolean' && a !== '' && b !== '' && !Number.isNaN(numberA) && !Number.isNaN(numberB)) {
+      return numberA - numberB;
+    }
+    return String(a).localeCompare(String(b));
+  }
+
+  private static pruneExpired(): void {
+    const now = Date.now();
+    for (const [token, plan] of this.plans) {
+      if (plan.expiresAt <= now) {
+        this.plans.delete(token);
+      }
+    }
+  }
+}
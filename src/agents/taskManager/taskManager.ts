@@ -0,0 +1,29 @@
+import { App } from 'obsidian';
+import { BaseAgent } from '../baseAgent';
+import {
+  QueryTasksTool,
+  UpdateTasksTool,
+  AddTasksTool
+} from './tools';
+
+/**
+ * Agent for checkbox tasks across the vault
+ * Reads and writes Tasks plugin emoji dates and Dataview inline fields
+ */
+export class TaskManagerAgent extends BaseAgent {
+  /**
+   * Create a new TaskManagerAgent
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'taskManager',
+      'Checkbox tasks: query by status, tags, dates and path; toggle, reschedule and add tasks',
+      '1.0.0'
+    );
+
+    this.registerTool(new QueryTasksTool(app));
+    this.registerTool(new UpdateTasksTool(app));
+    this.registerTool(new AddTasksTool(app));
+  }
+}
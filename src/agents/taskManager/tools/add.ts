@@ -0,0 +1,180 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { AddTasksParams, AddTasksResult, TaskDateField } from '../types';
+import { TaskParser } from '../utils/TaskParser';
+import { SectionResolver } from '../../contentManager/utils/SectionResolver';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { smartNormalizePath } from '../../../utils/pathUtils';
+import { recordAgentEdit } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/taskManager/tools/add.ts
+ *
+ * Adds open tasks to a note, at the end or under a heading.
+ * Dates are written in Tasks plugin emoji syntax. The note is rewritten atomically (vault.process)
+ * and the change is recorded in the edit journal.
+ *
+ * Relationships:
+ * - Uses TaskParser to format task lines and SectionResolver to place them
+ */
+
+const MAX_TASKS = 100;
+
+export class AddTasksTool extends BaseTool<AddTasksParams, AddTasksResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new AddTasksTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'add',
+      'Add Tasks',
+      'Add tasks with optional due/scheduled/start dates to a note, at the end or under a heading',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the added lines
+   */
+  async execute(params: AddTasksParams): Promise<AddTasksResult> {
+    try {
+      if (!Array.isArray(params.tasks) || params.tasks.length === 0) {
+        return this.prepareResult(false, undefined, 'tasks is required: [{ text, due?, scheduled?, start? }].');
+      }
+      if (params.tasks.length > MAX_TASKS) {
+        return this.prepareResult(false, undefined, `Too many tasks (${params.tasks.length}). Add at most ${MAX_TASKS} per call.`);
+      }
+
+      const taskLines: string[] = [];
+      for (const task of params.tasks) {
+        if (!task?.text?.trim()) {
+          return this.prepareResult(false, undefined, 'Every task needs text.');
+        }
+        const dates: Partial<Record<TaskDateField, string>> = {};
+        try {
+          for (const field of ['start', 'scheduled', 'due'] as const) {
+            if (task[field]) {
+              dates[field] = TaskParser.resolveDate(task[field] as string);
+            }
+          }
+        } catch (error) {
+          return this.prepareResult(false, undefined, createErrorMessage(`Task "${task.text}": `, error));
+        }
+        taskLines.push(TaskParser.format(task.text, dates));
+      }
+
+      const path = smartNormalizePath(params.path ?? '', false, 'NOTE');
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) {
+        return this.prepareResult(false, undefined,
+          `Note not found: "${path}". Create it first with contentManager.write, or use storageManager.list to find it.`
+        );
+      }
+
+      let before = '';
+      let firstLine = 0;
+      const after = await this.app.vault.process(file, (content: string) => {
+        before = content;
+        const result = SectionResolver.appendToSection(this.app, file, content, taskLines.join('\n'), params.section);
+        firstLine = result.line;
+        return result.content;
+      });
+
+      await recordAgentEdit(this.app, { agent: 'taskManager', tool: this.slug, context: params.context }, [
+        { kind: 'modify', path: file.path, before, afterHash: ContentVersioning.hash(after) }
+      ]);
+
+      return this.prepareResult(true, {
+        path: file.path,
+        tasks: taskLines.map((raw, i) => ({ line: firstLine + i, hash: ContentVersioning.hash(raw), raw }))
+      });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error adding tasks: ', error));
+    }
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Note to add the tasks to'
+        },
+        tasks: {
+          type: 'array',
+          description: `Tasks to add (max ${MAX_TASKS})`,
+          items: {
+            type: 'object',
+            properties: {
+              text: { type: 'string', description: 'Task text; may include #tags' },
+              due: { type: 'string', description: '"today", "tomorrow" or YYYY-MM-DD' },
+              scheduled: { type: 'string', description: '"today", "tomorrow" or YYYY-MM-DD' },
+              start: { type: 'string', description: '"today", "tomorrow" or YYYY-MM-DD' }
+            },
+            required: ['text']
+          }
+        },
+        section: {
+          type: 'string',
+          description: 'Heading to add the tasks under, e.g. "## Tasks" (added at the end of the note if missing)'
+        }
+      },
+      required: ['path', 'tasks']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the tasks were added'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            path: { type: 'string' },
+            tasks: {
+              type: 'array',
+              description: 'Added task lines, with line and hash for update',
+              items: {
+                type: 'object',
+                properties: {
+                  line: { type: 'number' },
+                  hash: { type: 'string' },
+                  raw: { type: 'string' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export * from './query';
+export * from './update';
+export * from './add';
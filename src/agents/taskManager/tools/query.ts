@@ -0,0 +1,291 @@
+import { App, TFile } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { QueryTasksParams, QueryTasksResult, TaskItem, TaskStatus } from '../types';
+import { TaskParser, TaskDateRange } from '../utils/TaskParser';
+import { NoteSelector } from '../../contentManager/utils/NoteSelector';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+import { createErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+import { getNexusPlugin } from '../../../utils/pluginLocator';
+import type { WorkspaceService } from '../../../services/WorkspaceService';
+import type { NexusPluginWithServices } from '../../memoryManager/tools/utils/pluginTypes';
+
+/**
+ * Location: src/agents/taskManager/tools/query.ts
+ *
+ * Finds checkbox tasks across the vault, a workspace's root folder, or given paths.
+ *
+ * Key Design:
+ * - Filters by status, tags (nested tags match their parent), due/scheduled date and text
+ * - Dates are read in Tasks plugin emoji and Dataview inline field syntax
+ * - Only list items the metadata cache marks as tasks are parsed (tasks in code blocks are skipped);
+ *   notes without a cache entry are scanned line by line
+ * - Every task carries path, line and a line hash for taskManager.update
+ *
+ * Relationships:
+ * - Uses TaskParser for task lines and NoteSelector for path filters
+ */
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const DEFAULT_STATUSES: TaskStatus[] = ['open', 'inProgress'];
+
+export class QueryTasksTool extends BaseTool<QueryTasksParams, QueryTasksResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new QueryTasksTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'query',
+      'Query Tasks',
+      'Find checkbox tasks by status, tags, due/scheduled date and path, e.g. open tasks due this week in Projects/',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with the matching tasks
+   */
+  async execute(params: QueryTasksParams): Promise<QueryTasksResult> {
+    try {
+      const statuses = new Set(params.status?.length ? params.status : DEFAULT_STATUSES);
+      const tags = (params.tags ?? []).map(tag => tag.replace(/^#/, '').toLowerCase());
+      const text = params.text?.toLowerCase();
+      const limit = Math.min(Math.max(1, params.limit ?? DEFAULT_LIMIT), MAX_LIMIT);
+
+      let due: TaskDateRange | undefined;
+      let scheduled: TaskDateRange | undefined;
+      try {
+        due = params.due ? TaskParser.resolveDateRange(params.due) : undefined;
+        scheduled = params.scheduled ? TaskParser.resolveDateRange(params.scheduled) : undefined;
+      } catch (error) {
+        return this.prepareResult(false, undefined, createErrorMessage('Invalid date filter: ', error));
+      }
+
+      const files = await this.selectFiles(params);
+      if (typeof files === 'string') {
+        return this.prepareResult(false, undefined, files);
+      }
+
+      const matches: TaskItem[] = [];
+      for (const file of files) {
+        for (const task of await this.readTasks(file)) {
+          if (!statuses.has(task.status)) continue;
+          if (tags.length > 0 && !task.tags.some(tag => this.matchesTag(tag.toLowerCase(), tags))) continue;
+          if (due && !TaskParser.matchesDateRange(task.due, due)) continue;
+          if (scheduled && !TaskParser.matchesDateRange(task.scheduled, scheduled)) continue;
+          if (text && !task.text.toLowerCase().includes(text)) continue;
+          matches.push(task);
+        }
+      }
+
+      matches.sort((a, b) =>
+        (a.due ?? '9999').localeCompare(b.due ?? '9999') ||
+        a.path.localeCompare(b.path) ||
+        a.line - b.line
+      );
+
+      return this.prepareResult(true, { tasks: matches.slice(0, limit), total: matches.length });
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error querying tasks: ', error));
+    }
+  }
+
+  /**
+   * Notes to search, or an error message
+   */
+  private async selectFiles(params: QueryTasksParams): Promise<TFile[] | string> {
+    let files = this.app.vault.getMarkdownFiles();
+
+    if (params.scope === 'workspace') {
+      const rootFolder = await this.getWorkspaceRoot(params.context?.workspaceId);
+      if (rootFolder === null) {
+        return 'No workspace root folder found for this session. Load a workspace, or use scope: "vault".';
+      }
+      if (rootFolder) {
+        files = files.filter(file => file.path.startsWith(`${rootFolder}/`));
+      }
+    }
+
+    if (params.paths?.length) {
+      const selection = NoteSelector.select(this.app, params.paths);
+      if (selection.files.length === 0) {
+        return `No notes match paths: ${selection.unmatched.join(', ')}. Use storageManager.list to check folder names.`;
+      }
+      const selected = new Set(selection.files.map(file => file.path));
+      files = files.filter(file => selected.has(file.path));
+    }
+
+    return files;
+  }
+
+  /**
+   * Root folder of the calling workspace ("" for the vault root), or null if there is none
+   */
+  private async getWorkspaceRoot(workspaceId?: string): Promise<string | null> {
+    if (!workspaceId || workspaceId === 'default') {
+      return null;
+    }
+
+    try {
+      const plugin = getNexusPlugin<NexusPluginWithServices>(this.app);
+      const workspaceService = await plugin?.getService<WorkspaceService>('workspaceService');
+      const workspace = await workspaceService?.getWorkspaceByNameOrId(workspaceId);
+      return workspace ? normalizePath(workspace.rootFolder ?? '').replace(/^\/+|\/+$/g, '') : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the tasks of a note
+   */
+  private async readTasks(file: TFile): Promise<TaskItem[]> {
+    const listItems = this.app.metadataCache.getFileCache(file)?.listItems;
+    if (listItems && !listItems.some(item => item.task !== undefined)) {
+      return [];
+    }
+
+    const lines = (await this.app.vault.cachedRead(file)).split('\n');
+    const candidates = listItems
+      ? listItems.filter(item => item.task !== undefined).map(item => item.position.start.line)
+      : lines.map((_line, index) => index);
+
+    const tasks: TaskItem[] = [];
+    for (const index of candidates) {
+      const raw = lines[index];
+      const parsed = raw === undefined ? null : TaskParser.parse(raw);
+      if (!parsed) continue;
+
+      tasks.push({
+        path: file.path,
+        line: index + 1,
+        hash: ContentVersioning.hash(raw),
+        status: parsed.status,
+        text: parsed.text,
+        raw,
+        tags: parsed.tags,
+        ...(parsed.dates.due ? { due: parsed.dates.due } : {}),
+        ...(parsed.dates.scheduled ? { scheduled: parsed.dates.scheduled } : {}),
+        ...(parsed.dates.start ? { start: parsed.dates.start } : {}),
+        ...(parsed.dates.done ? { done: parsed.dates.done } : {})
+      });
+    }
+    return tasks;
+  }
+
+  /**
+   * True if a tag equals a wanted tag or is nested under it
+   */
+  private matchesTag(tag: string, wanted: string[]): boolean {
+    return wanted.some(want => tag === want || tag.startsWith(`${want}/`));
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const dateFilter = 'today, overdue, thisWeek, nextWeek, thisMonth, none, any, YYYY-MM-DD, or a range "YYYY-MM-DD..YYYY-MM-DD" (either end may be empty)';
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'array',
+          items: { type: 'string', enum: ['open', 'inProgress', 'done', 'cancelled', 'other'] },
+          description: 'Statuses to include (default: open and inProgress)'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only tasks with any of these tags; #project also matches #project/alpha'
+        },
+        due: {
+          type: 'string',
+          description: `Due date filter: ${dateFilter}`
+        },
+        scheduled: {
+          type: 'string',
+          description: `Scheduled date filter: ${dateFilter}`
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Note paths, folders or glob patterns to search (default: whole vault)'
+        },
+        scope: {
+          type: 'string',
+          enum: ['vault', 'workspace'],
+          description: 'Search the whole vault or only the current workspace\'s root folder',
+          default: 'vault'
+        },
+        text: {
+          type: 'string',
+          description: 'Only tasks whose text contains this (case-insensitive)'
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum tasks to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+        }
+      },
+      required: []
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether the query ran'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if failed'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            tasks: {
+              type: 'array',
+              description: 'Matching tasks, by due date (undated last), then path and line',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  line: { type: 'number', description: 'Line of the task (1-based)' },
+                  hash: { type: 'string', description: 'Pass to update with path and line' },
+                  status: { type: 'string' },
+                  text: { type: 'string', description: 'Task text without dates' },
+                  raw: { type: 'string', description: 'Full line as written' },
+                  tags: { type: 'array', items: { type: 'string' } },
+                  due: { type: 'string' },
+                  scheduled: { type: 'string' },
+                  start: { type: 'string' },
+                  done: { type: 'string' }
+                }
+              }
+            },
+            total: { type: 'number', description: 'Matching tasks before the limit' }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
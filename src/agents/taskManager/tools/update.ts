@@ -0,0 +1,247 @@
+import { App, TFile, moment } from 'obsidian';
+import { BaseTool } from '../../baseTool';
+import { TaskUpdate, TaskUpdateOutcome, UpdateTasksParams, UpdateTasksResult } from '../types';
+import { TaskParser } from '../utils/TaskParser';
+import { ContentVersioning } from '../../contentManager/utils/ContentVersioning';
+import { createErrorMessage, getErrorMessage } from '../../../utils/errorUtils';
+import { normalizePath } from '../../../utils/pathUtils';
+import { EditChange, recordAgentEdit } from '../../../services/journal/EditJournalService';
+
+/**
+ * Location: src/agents/taskManager/tools/update.ts
+ *
+ * Toggles, completes and reschedules tasks found with taskManager.query.
+ *
+ * Key Design:
+ * - Each update changes exactly one line and is checked against the line hash from query;
+ *   if lines above were added or removed, the task is found again by its hash
+ * - Updates are independent: one stale line fails alone, the others still apply
+ * - Each note is rewritten once, atomically (vault.process), and recorded in the edit journal
+ *
+ * Relationships:
+ * - Uses TaskParser to edit status and dates in the line's own syntax
+ */
+
+const MAX_UPDATES = 100;
+
+export class UpdateTasksTool extends BaseTool<UpdateTasksParams, UpdateTasksResult> {
+  private app: App;
+  receivesContext = true;
+
+  /**
+   * Create a new UpdateTasksTool
+   * @param app Obsidian app instance
+   */
+  constructor(app: App) {
+    super(
+      'update',
+      'Update Tasks',
+      'Toggle, complete, cancel or reschedule tasks by path, line and hash from query',
+      '1.0.0'
+    );
+
+    this.app = app;
+  }
+
+  /**
+   * Execute the tool
+   * @param params Tool parameters
+   * @returns Promise that resolves with one outcome per update
+   */
+  async execute(params: UpdateTasksParams): Promise<UpdateTasksResult> {
+    try {
+      if (!Array.isArray(params.updates) || params.updates.length === 0) {
+        return this.prepareResult(false, undefined, 'updates is required: [{ path, line, hash, status?, due?, scheduled?, start? }] from query.');
+      }
+      if (params.updates.length > MAX_UPDATES) {
+        return this.prepareResult(false, undefined, `Too many updates (${params.updates.length}). Send at most ${MAX_UPDATES} per call.`);
+      }
+
+      const results: TaskUpdateOutcome[] = params.updates.map(update => ({
+        path: update.path,
+        line: update.line,
+        success: false
+      }));
+      const byPath = new Map<string, number[]>();
+      params.updates.forEach((update, index) => {
+        const path = normalizePath(update.path ?? '');
+        byPath.set(path, [...(byPath.get(path) ?? []), index]);
+      });
+
+      const changes: EditChange[] = [];
+      const today = moment().format('YYYY-MM-DD');
+
+      for (const [path, indexes] of byPath) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+          indexes.forEach(index => {
+            results[index].error = `Note not found: "${path}". Run query again to get current paths.`;
+          });
+          continue;
+        }
+
+        let before = '';
+        const after = await this.app.vault.process(file, (content: string) => {
+          before = content;
+          const lines = content.split('\n');
+          for (const index of indexes) {
+            Object.assign(results[index], this.applyUpdate(lines, params.updates[index], today));
+          }
+          return lines.join('\n');
+        });
+
+        if (after !== before) {
+          changes.push({ kind: 'modify', path: file.path, before, afterHash: ContentVersioning.hash(after) });
+        }
+      }
+
+      if (changes.length > 0) {
+        await recordAgentEdit(this.app, { agent: 'taskManager', tool: this.slug, context: params.context }, changes);
+      }
+
+      const updated = results.filter(result => result.success).length;
+      return this.prepareResult(updated > 0, {
+        updated,
+        failed: results.length - updated,
+        results
+      }, updated > 0 ? undefined : `No tasks updated: ${results[0].error}`);
+    } catch (error) {
+      return this.prepareResult(false, undefined, createErrorMessage('Error updating tasks: ', error));
+    }
+  }
+
+  /**
+   * Apply one update to the lines in place
+   * @returns Outcome fields for the update
+   */
+  private applyUpdate(lines: string[], update: TaskUpdate, today: string): Partial<TaskUpdateOutcome> {
+    const index = this.locate(lines, update);
+    if (index === null) {
+      return {
+        error: `Task at line ${update.line} changed since query (hash mismatch). Run query again and retry with the new line and hash.`
+      };
+    }
+
+    const original = lines[index];
+    let line = original;
+    try {
+      if (update.status) {
+        const current = TaskParser.parse(line)?.status;
+        const status = update.status === 'toggle'
+          ? (current === 'done' ? 'open' : 'done')
+          : update.status;
+        line = TaskParser.setStatus(line, status, today);
+      }
+      for (const field of ['due', 'scheduled', 'start'] as const) {
+        const value = update[field];
+        if (value !== undefined) {
+          line = TaskParser.setDate(line, field, value === null || value === '' ? null : TaskParser.resolveDate(value));
+        }
+      }
+    } catch (error) {
+      return { line: index + 1, error: getErrorMessage(error) };
+    }
+
+    lines[index] = line;
+    return { line: index + 1, success: true, raw: line, hash: ContentVersioning.hash(line) };
+  }
+
+  /**
+   * Find the task line: at the given line if its hash matches, otherwise the only task line with that hash
+   * @returns 0-based index, or null if the line cannot be found unambiguously
+   */
+  private locate(lines: string[], update: TaskUpdate): number | null {
+    const index = update.line - 1;
+    if (lines[index] !== undefined && ContentVersioning.hash(lines[index]) === update.hash) {
+      return index;
+    }
+
+    const moved = lines
+      .map((line, i) => (ContentVersioning.hash(line) === update.hash && TaskParser.parse(line) ? i : -1))
+      .filter(i => i !== -1);
+    return moved.length === 1 ? moved[0] : null;
+  }
+
+  /**
+   * Get the JSON schema for the tool's parameters
+   * @returns JSON schema object
+   */
+  getParameterSchema(): Record<string, unknown> {
+    const dateValue = {
+      type: ['string', 'null'],
+      description: '"today", "tomorrow", YYYY-MM-DD, or null to remove'
+    };
+    const toolSchema = {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          description: `Task changes (max ${MAX_UPDATES}); each applies to one line`,
+          items: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'Note path from query' },
+              line: { type: 'number', description: 'Line from query (1-based)' },
+              hash: { type: 'string', description: 'Line hash from query' },
+              status: {
+                type: 'string',
+                enum: ['open', 'inProgress', 'done', 'cancelled', 'toggle'],
+                description: 'New status; toggle switches between open and done'
+              },
+              due: { ...dateValue, description: `New due date: ${dateValue.description}` },
+              scheduled: { ...dateValue, description: `New scheduled date: ${dateValue.description}` },
+              start: { ...dateValue, description: `New start date: ${dateValue.description}` }
+            },
+            required: ['path', 'line', 'hash']
+          }
+        }
+      },
+      required: ['updates']
+    };
+
+    return this.getMergedSchema(toolSchema);
+  }
+
+  /**
+   * Get the JSON schema for the tool's result
+   * @returns JSON schema object
+   */
+  getResultSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        success: {
+          type: 'boolean',
+          description: 'Whether at least one task was updated'
+        },
+        error: {
+          type: 'string',
+          description: 'Error message if nothing was updated'
+        },
+        data: {
+          type: 'object',
+          properties: {
+            updated: { type: 'number' },
+            failed: { type: 'number' },
+            results: {
+              type: 'array',
+              description: 'One outcome per update, in request order',
+              items: {
+                type: 'object',
+                properties: {
+                  path: { type: 'string' },
+                  line: { type: 'number', description: 'Line the task is on now' },
+                  success: { type: 'boolean' },
+                  raw: { type: 'string', description: 'Updated line' },
+                  hash: { type: 'string', description: 'New line hash, for further updates' },
+                  error: { type: 'string', description: 'Why this update failed, with recovery guidance' }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ['success']
+    };
+  }
+}
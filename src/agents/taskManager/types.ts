@@ -0,0 +1,200 @@
+import { CommonParameters, CommonResult } from '../../types';
+
+/**
+ * Task status, from the checkbox character:
+ * " " open, "/" inProgress, "x" done, "-" cancelled, anything else other
+ */
+export type TaskStatus = 'open' | 'inProgress' | 'done' | 'cancelled' | 'other';
+
+/**
+ * Dates a task can carry, in Tasks plugin emoji (📅 ⏳ 🛫 ✅ ➕ ❌)
+ * or Dataview inline field ([due:: ...], [scheduled:: ...], [completion:: ...]) syntax
+ */
+export type TaskDateField = 'due' | 'scheduled' | 'start' | 'done' | 'created' | 'cancelled';
+
+/**
+ * A task found in a note
+ */
+export interface TaskItem {
+  path: string;
+
+  /**
+   * Line of the task (1-based)
+   */
+  line: number;
+
+  /**
+   * Hash of the task line; pass to update to make sure the line has not changed
+   */
+  hash: string;
+
+  status: TaskStatus;
+
+  /**
+   * Task text without dates
+   */
+  text: string;
+
+  /**
+   * Full line as written
+   */
+  raw: string;
+
+  tags: string[];
+  due?: string;
+  scheduled?: string;
+  start?: string;
+  done?: string;
+}
+
+// Query Tool
+export interface QueryTasksParams extends CommonParameters {
+  /**
+   * Statuses to include (default: open and inProgress)
+   */
+  status?: TaskStatus[];
+
+  /**
+   * Only tasks with any of these tags (nested tags match their parent)
+   */
+  tags?: string[];
+
+  /**
+   * Due date filter: "today", "overdue", "thisWeek", "nextWeek", "thisMonth", "none", "any",
+   * YYYY-MM-DD, or a range "YYYY-MM-DD..YYYY-MM-DD" (either end may be empty)
+   */
+  due?: string;
+
+  /**
+   * Scheduled date filter (same values as due)
+   */
+  scheduled?: string;
+
+  /**
+   * Note paths, folders or glob patterns to search (default: whole vault)
+   */
+  paths?: string[];
+
+  /**
+   * Search the whole vault or only the root folder of the current workspace (default: vault)
+   */
+  scope?: 'vault' | 'workspace';
+
+  /**
+   * Only tasks whose text contains this (case-insensitive)
+   */
+  text?: string;
+
+  /**
+   * Maximum tasks to return (default: 100, max: 500)
+   */
+  limit?: number;
+}
+
+export interface QueryTasksResult extends CommonResult {
+  data?: {
+    /**
+     * Matching tasks, by due date (tasks without one last), then path and line
+     */
+    tasks: TaskItem[];
+
+    /**
+     * Number of matching tasks before the limit
+     */
+    total: number;
+  };
+}
+
+// Update Tool
+export interface TaskUpdate {
+  path: string;
+
+  /**
+   * Line of the task (1-based) from query
+   */
+  line: number;
+
+  /**
+   * Hash of the task line from query
+   */
+  hash: string;
+
+  /**
+   * New status, or "toggle" to switch between open and done
+   */
+  status?: Exclude<TaskStatus, 'other'> | 'toggle';
+
+  /**
+   * New due date ("today", "tomorrow", YYYY-MM-DD), or null to remove it
+   */
+  due?: string | null;
+
+  /**
+   * New scheduled date, or null to remove it
+   */
+  scheduled?: string | null;
+
+  /**
+   * New start date, or null to remove it
+   */
+  start?: string | null;
+}
+
+export interface UpdateTasksParams extends CommonParameters {
+  updates: TaskUpdate[];
+}
+
+export interface TaskUpdateOutcome {
+  path: string;
+  /**
+   * Line the task is on now (1-based)
+   */
+  line: number;
+  success: boolean;
+  /**
+   * Updated line
+   */
+  raw?: string;
+  /**
+   * New hash of the line, for further updates
+   */
+  hash?: string;
+  error?: string;
+}
+
+export interface UpdateTasksResult extends CommonResult {
+  data?: {
+    updated: number;
+    failed: number;
+    results: TaskUpdateOutcome[];
+  };
+}
+
+// Add Tool
+export interface NewTask {
+  text: string;
+  due?: string;
+  scheduled?: string;
+  start?: string;
+}
+
+export interface AddTasksParams extends CommonParameters {
+  /**
+   * Note to add the tasks to
+   */
+  path: string;
+
+  tasks: NewTask[];
+
+  /**
+   * Heading to add the tasks under, e.g. "## Tasks" (added at the end of the note if missing)
+   */
+  section?: string;
+}
+
+export interface AddTasksResult extends CommonResult {
+  data?: {
+    path: string;
+    tasks: Array<{ line: number; hash: string; raw: string }>;
+  };
+}
@@ -0,0 +1,310 @@
+import { moment } from 'obsidian';
+import type { TaskDateField, TaskStatus } from '../types';
+
+/**
+ * Location: src/agents/taskManager/utils/TaskParser.ts
+ *
+ * Reads and edits Markdown task lines ("- [ ] ...").
+ * - Dates are read in Tasks plugin emoji syntax (📅 2024-05-01) and Dataview inline field
+ *   syntax ([due:: 2024-05-01] or (due:: 2024-05-01))
+ * - Edits keep the syntax a line already uses; lines without dates get emoji dates
+ * - Completing or cancelling a task that carries dates stamps the done/cancelled date, as the Tasks plugin does
+ *
+ * Relationships:
+ * - Used by all taskManager tools
+ */
+
+/**
+ * A parsed task line
+ */
+export interface ParsedTask {
+  status: TaskStatus;
+  /** Checkbox character */
+  statusChar: string;
+  /** Text without dates */
+  text: string;
+  tags: string[];
+  dates: Partial<Record<TaskDateField, string>>;
+}
+
+/**
+ * Resolved date filter (inclusive YYYY-MM-DD bounds)
+ */
+export interface TaskDateRange {
+  from?: string;
+  to?: string;
+  /** Only tasks without the date */
+  none?: boolean;
+  /** Any task with the date */
+  any?: boolean;
+}
+
+/** List marker, checkbox and rest of the line (blockquote prefixes allowed) */
+const TASK_PATTERN = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)(.)(\](?:\s+|$))(.*)$/;
+
+const DATE = '(\\d{4}-\\d{2}-\\d{2})';
+
+const EMOJI_FIELDS: Record<TaskDateField, string> = {
+  due: '📅',
+  scheduled: '⏳',
+  start: '🛫',
+  done: '✅',
+  created: '➕',
+  cancelled: '❌'
+};
+
+/** Alternative emoji the Tasks plugin also accepts */
+const EMOJI_ALIASES: Record<TaskDateField, string> = {
+  due: '📅|📆|🗓️?',
+  scheduled: '⏳|⌛',
+  start: '🛫',
+  done: '✅',
+  created: '➕',
+  cancelled: '❌'
+};
+
+const DATAVIEW_FIELDS: Record<TaskDateField, string> = {
+  due: 'due',
+  scheduled: 'scheduled',
+  start: 'start',
+  done: 'completion',
+  created: 'created',
+  cancelled: 'cancelled'
+};
+
+const STATUS_CHARS: Record<Exclude<TaskStatus, 'other'>, string> = {
+  open: ' ',
+  inProgress: '/',
+  done: 'x',
+  cancelled: '-'
+};
+
+const PRIORITY_PATTERN = /\s*(?:🔺|⏫|🔼|🔽|⏬)️?/gu;
+const TAG_PATTERN = /(?:^|\s)#([\p{L}\p{N}_/-]+)/gu;
+const BLOCK_ID_PATTERN = /\s\^[\w-]+$/;
+
+/**
+ * Utility class for Markdown task lines
+ */
+export class TaskParser {
+  /**
+   * Parse a line as a task
+   * @param line Line content
+   * @returns Parsed task, or null if the line is not a task
+   */
+  static parse(line: string): ParsedTask | null {
+    const match = line.match(TASK_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const statusChar = match[2];
+    const body = match[4];
+    const dates: Partial<Record<TaskDateField, string>> = {};
+    let text = body;
+
+    for (const field of Object.keys(EMOJI_FIELDS) as TaskDateField[]) {
+      for (const pattern of [this.emojiPattern(field), this.dataviewPattern(field)]) {
+        const found = text.match(pattern);
+        if (found) {
+          dates[field] = dates[field] ?? found[1];
+          text = text.replace(pattern, '');
+        }
+      }
+    }
+
+    const tags = Array.from(body.matchAll(TAG_PATTERN), tag => tag[1]).filter(tag => !/^\d+$/.test(tag));
+    text = text.replace(PRIORITY_PATTERN, '').replace(BLOCK_ID_PATTERN, '').replace(/\s+/g, ' ').trim();
+
+    return { status: this.toStatus(statusChar), statusChar, text, tags, dates };
+  }
+
+  /**
+   * Set the status of a task line
+   * @param line Task line
+   * @param status New status
+   * @param today Date stamped for done/cancelled (YYYY-MM-DD)
+   * @returns Updated line
+   */
+  static setStatus(line: string, status: Exclude<TaskStatus, 'other'>, today: string): string {
+    const parsed = this.parse(line);
+    if (!parsed || parsed.status === status) {
+      return line;
+    }
+
+    let updated = line.replace(TASK_PATTERN, (_all, before: string, _char: string, after: string, rest: string) =>
+      `${before}${STATUS_CHARS[status]}${after}${rest}`
+    );
+
+    const hasDates = Object.keys(parsed.dates).length > 0;
+    for (const field of ['done', 'cancelled'] as const) {
+      if (status === field) {
+        if (hasDates && !parsed.dates[field]) {
+          updated = this.setDate(updated, field, today);
+        }
+      } else if (parsed.dates[field]) {
+        updated = this.setDate(updated, field, null);
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Set or remove a date on a task line
+   * @param line Task line
+   * @param field Date to change
+   * @param date New date (YYYY-MM-DD), or null to remove it
+   * @returns Updated line
+   */
+  static setDate(line: string, field: TaskDateField, date: string | null): string {
+    const emoji = this.emojiPattern(field);
+    const dataview = this.dataviewPattern(field);
+
+    if (emoji.test(line) || dataview.test(line)) {
+      if (date === null) {
+        return line.replace(emoji, '').replace(dataview, '');
+      }
+      return line
+        .replace(emoji, (found: string, value: string) => found.replace(value, date))
+        .replace(dataview, (found: string, value: string) => found.replace(value, date));
+    }
+
+    if (date === null) {
+      return line;
+    }
+
+    const token = this.usesDataview(line)
+      ? `[${DATAVIEW_FIELDS[field]}:: ${date}]`
+      : `${EMOJI_FIELDS[field]} ${date}`;
+    const blockId = line.match(BLOCK_ID_PATTERN);
+    if (blockId) {
+      return `${line.slice(0, blockId.index).trimEnd()} ${token}${blockId[0]}`;
+    }
+    return `${line.trimEnd()} ${token}`;
+  }
+
+  /**
+   * Format a new open task line
+   * @param text Task text
+   * @param dates Dates to add (emoji syntax)
+   * @returns Task line
+   */
+  static format(text: string, dates: Partial<Record<TaskDateField, string>>): string {
+    let line = `- [ ] ${text.replace(/\s*\n\s*/g, ' ').trim()}`;
+    for (const [field, date] of Object.entries(dates) as Array<[TaskDateField, string | undefined]>) {
+      if (date) {
+        line = this.setDate(line, field, date);
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Resolve a date parameter to YYYY-MM-DD
+   * @param value "today", "tomorrow", "yesterday" or YYYY-MM-DD
+   * @returns Date string
+   * @throws Error if the value is not a date
+   */
+  static resolveDate(value: string): string {
+    const normalized = value.trim().toLowerCase();
+    const offsets: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+    if (normalized in offsets) {
+      return moment().add(offsets[normalized], 'day').format('YYYY-MM-DD');
+    }
+
+    if (!moment(normalized, 'YYYY-MM-DD', true).isValid()) {
+      throw new Error(`Invalid date: "${value}". Use YYYY-MM-DD, "today", "tomorrow" or "yesterday".`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Resolve a date filter
+   * @param filter "today", "overdue", "thisWeek", "nextWeek", "thisMonth", "none", "any",
+   *   a date, or a range "from..to" (either end may be empty)
+   * @returns Inclusive bounds
+   * @throws Error if the filter cannot be parsed
+   */
+  static resolveDateRange(filter: string): TaskDateRange {
+    const value = filter.trim();
+    const today = moment().startOf('day');
+    const format = (date: ReturnType<typeof moment>) => date.format('YYYY-MM-DD');
+
+    switch (value.toLowerCase()) {
+      case 'any':
+        return { any: true };
+      case 'none':
+        return { none: true };
+      case 'overdue':
+        return { to: format(today.clone().subtract(1, 'day')) };
+      case 'thisweek':
+        return { from: format(today.clone().startOf('week')), to: format(today.clone().endOf('week')) };
+      case 'nextweek': {
+        const next = today.clone().add(1, 'week');
+        return { from: format(next.clone().startOf('week')), to: format(next.clone().endOf('week')) };
+      }
+      case 'thismonth':
+        return { from: format(today.clone().startOf('month')), to: format(today.clone().endOf('month')) };
+    }
+
+    if (value.includes('..')) {
+      const [from, to] = value.split('..').map(part => part.trim());
+      return {
+        ...(from ? { from: this.resolveDate(from) } : {}),
+        ...(to ? { to: this.resolveDate(to) } : {})
+      };
+    }
+
+    const date = this.resolveDate(value);
+    return { from: date, to: date };
+  }
+
+  /**
+   * Check a task date against a resolved filter
+   */
+  static matchesDateRange(date: string | undefined, range: TaskDateRange): boolean {
+    if (range.none) {
+      return !date;
+    }
+    if (!date) {
+      return false;
+    }
+    return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+  }
+
+  /**
+   * Map a checkbox character to a status
+   */
+  static toStatus(statusChar: string): TaskStatus {
+    switch (statusChar) {
+      case ' ':
+        return 'open';
+      case '/':
+        return 'inProgress';
+      case 'x':
+      case 'X':
+        return 'done';
+      case '-':
+        return 'cancelled';
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * True if the line has Dataview date fields and no emoji dates
+   */
+  private static usesDataview(line: string): boolean {
+    const fields = Object.keys(EMOJI_FIELDS) as TaskDateField[];
+    return fields.some(field => this.dataviewPattern(field).test(line)) &&
+      !fields.some(field => this.emojiPattern(field).test(line));
+  }
+
+  private static emojiPattern(field: TaskDateField): RegExp {
+    return new RegExp(`\\s*(?:${EMOJI_ALIASES[field]})\\s*${DATE}`, 'u');
+  }
+
+  private static dataviewPattern(field: TaskDateField): RegExp {
+    return new RegExp(`\\s*[\\[(]${DATAVIEW_FIELDS[field]}::\\s*${DATE}\\s*[\\])]`, 'u');
+  }
+}
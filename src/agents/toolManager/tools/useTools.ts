@@ -14,6 +14,7 @@ import { getErrorMessage } from '../../../utils/errorUtils';
 import { getNexusPlugin } from '../../../utils/pluginLocator';
 import { WorkspaceService } from '../../../services/WorkspaceService';
 import { CommonResult } from '../../../types';
+import { generateUUID } from '../../../utils/uuid';
 
 /** Workspace info for validation */
 interface WorkspaceInfo {
@@ -85,14 +86,20 @@ export class UseToolTool implements ITool<UseToolParams, UseToolResult> {
         };
       }
 
+      // Batch call id; each call gets its own id derived from it (used by the edit journal)
+      const context: ToolContext = {
+        ...params.context,
+        toolCallId: params.context.toolCallId || `call_${generateUUID()}`
+      };
+
       // Execute based on strategy
       const strategy = params.strategy || 'serial';
       let results: ToolCallResult[];
 
       if (strategy === 'parallel') {
-        results = await this.executeParallel(params.context, params.calls);
+        results = await this.executeParallel(context, params.calls);
       } else {
-        results = await this.executeSerial(params.context, params.calls);
+        results = await this.executeSerial(context, params.calls);
       }
 
       // Determine overall success
@@ -109,7 +116,10 @@ export class UseToolTool implements ITool<UseToolParams, UseToolResult> {
           }
           return { success: true };
         }
-        // Failure: include error
+        // Failure: include error, plus structured details if the tool returned any (e.g. conflicts)
+        if (r.data !== undefined && typeof r.data === 'object' && r.data !== null && !Array.isArray(r.data)) {
+          return { success: false, error: r.error || 'Unknown error', ...(r.data as Record<string, unknown>) };
+        }
         return { success: false, error: r.error || 'Unknown error' };
       };
 
@@ -230,8 +240,8 @@ export class UseToolTool implements ITool<UseToolParams, UseToolResult> {
   private async executeSerial(context: ToolContext, calls: ToolCallParams[]): Promise<ToolCallResult[]> {
     const results: ToolCallResult[] = [];
 
-    for (const call of calls) {
-      const result = await this.executeCall(context, call);
+    for (const [index, call] of calls.entries()) {
+      const result = await this.executeCall(this.getCallContext(context, calls, index), call);
       results.push(result);
 
       // Stop on failure unless continueOnFailure is set
@@ -247,10 +257,22 @@ export class UseToolTool implements ITool<UseToolParams, UseToolResult> {
    * Execute calls in parallel
    */
   private async executeParallel(context: ToolContext, calls: ToolCallParams[]): Promise<ToolCallResult[]> {
-    const promises = calls.map(call => this.executeCall(context, call));
+    const promises = calls.map((call, index) => this.executeCall(this.getCallContext(context, calls, index), call));
     return Promise.all(promises);
   }
 
+  /**
+   * Context for one call of the batch
+   * A single call keeps the batch call id; calls of a larger batch get "<batch id>_<n>"
+   * so their journal entries can be told apart (the batch id still selects all of them).
+   */
+  private getCallContext(context: ToolContext, calls: ToolCallParams[], index: number): ToolContext {
+    if (calls.length === 1) {
+      return context;
+    }
+    return { ...context, toolCallId: `${context.toolCallId}_${index + 1}` };
+  }
+
   /**
    * Execute a single tool call
    */
@@ -306,9 +328,10 @@ export class UseToolTool implements ITool<UseToolParams, UseToolResult> {
     }
 
     try {
-      // Execute tool with ONLY its specific params
-      // Context is handled at useTool level - individual tools don't need it
-      const toolResult = await toolInstance.execute(params || {}) as CommonResult;
+      // Execute tool with ONLY its specific params; context is validated at useTool level
+      // and only passed to tools that use it (e.g. to journal their changes per session/call)
+      const toolParams = toolInstance.receivesContext ? { ...params, context } : params;
+      const toolResult = await toolInstance.execute(toolParams) as CommonResult;
 
       // Build minimal result
       const result: ToolCallResult = {
@@ -322,8 +345,8 @@ export class UseToolTool implements ITool<UseToolParams, UseToolResult> {
         result.error = toolResult.error;
       }
 
-      // Only include data if present (for tools that return data)
-      if (toolResult.success && toolResult.data !== undefined && toolResult.data !== null) {
+      // Only include data if present (for tools that return data, or failure details such as conflicts)
+      if (toolResult.data !== undefined && toolResult.data !== null) {
         result.data = toolResult.data;
       }
 
@@ -37,6 +37,7 @@ export interface ChatSettings {
   workspaceId: string | null;
   promptId: string | null;
   contextNotes: string[];
+  expandEmbeds?: boolean; // Inline ![[embeds]] in context notes
 }
 
 /**
@@ -558,6 +559,16 @@ export class ChatSettingsRenderer {
 
     this.contextNotesListEl = content.createDiv('csr-notes-list');
     this.renderContextNotesList();
+
+    new Setting(content)
+      .setName('Expand embeds')
+      .setDesc('Include the content of ![[embedded]] notes and sections')
+      .addToggle(toggle => toggle
+        .setValue(this.settings.expandEmbeds ?? false)
+        .onChange(value => {
+          this.settings.expandEmbeds = value;
+          this.notifyChange();
+        }));
   }
 
   private async syncWorkspacePrompt(workspaceId: string | null): Promise<void> {
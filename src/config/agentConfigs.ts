@@ -24,15 +24,23 @@ export const AGENTS: AgentDescriptor[] = [
   },
   {
     name: "contentManager",
-    description: "Note reading, editing, appending, replacing content in vault files"
+    description: "Note reading, editing, appending, replacing, diff patching, vault-wide find and replace, frontmatter properties, notes from templates, tag inventory/rename/merge, and reverting agent changes to content in vault files"
   },
   {
     name: "searchManager",
-    description: "Advanced search (universal, file search, directory search, memory search)"
+    description: "Advanced search (universal, file search, directory search, memory search, link graph, related notes, metadata query, conversation search)"
   },
   {
     name: "storageManager",
-    description: "File/folder operations (list, createFolder, move, copy, archive, open)"
+    description: "File/folder operations (list, createFolder, move, reorganize, copy, archive, listArchived, restore, open)"
+  },
+  {
+    name: "periodicNotesManager",
+    description: "Daily, weekly and monthly notes following the Daily Notes settings (open, create, append, readRange)"
+  },
+  {
+    name: "taskManager",
+    description: "Checkbox tasks across the vault with Tasks plugin and Dataview dates (query, update, add)"
   },
   {
     name: "memoryManager",
@@ -14,13 +14,20 @@ import { Settings } from '../settings';
 import { UpdateManager } from '../utils/UpdateManager';
 import { ServiceRegistrar } from './services/ServiceRegistrar';
 import { MaintenanceCommandManager } from './commands/MaintenanceCommandManager';
+import { EditJournalCommandManager } from './commands/EditJournalCommandManager';
+import { ArchiveCommandManager } from './commands/ArchiveCommandManager';
+import { EmbeddingIndexCommandManager } from './commands/EmbeddingIndexCommandManager';
 import { ChatUIManager } from './ui/ChatUIManager';
+import { RelatedNotesUIManager } from './ui/RelatedNotesUIManager';
 import { BackgroundProcessor } from './background/BackgroundProcessor';
 import { SettingsTabManager } from './settings/SettingsTabManager';
 import { EmbeddingManager } from '../services/embeddings/EmbeddingManager';
+import { NoteFtsIndex } from '../services/search/NoteFtsIndex';
+import { DEFAULT_EMBEDDING_SETTINGS } from '../types/embeddings';
 import type { ServiceCreationContext } from './services/ServiceDefinitions';
 import type { HybridStorageAdapter } from '../database/adapters/HybridStorageAdapter';
 import type { ChatTraceService } from '../services/chat/ChatTraceService';
+import type { ChatService } from '../services/chat/ChatService';
 
 // Type-only import to avoid bundling Node.js dependencies on mobile
 type MCPConnectorType = import('../connector').MCPConnector;
@@ -30,9 +37,10 @@ interface StateManager {
     saveState(): Promise<void>;
 }
 
-// Extended Plugin interface with optional embeddingManager property
+// Extended Plugin interface with optional search services exposed for agents
 interface PluginWithEmbedding extends Plugin {
     embeddingManager?: EmbeddingManager;
+    noteFtsIndex?: NoteFtsIndex;
 }
 
 export interface PluginLifecycleConfig {
@@ -53,10 +61,15 @@ export class PluginLifecycleManager {
     private startTime: number = Date.now();
     private serviceRegistrar: ServiceRegistrar;
     private commandManager: MaintenanceCommandManager;
+    private journalCommandManager: EditJournalCommandManager;
+    private archiveCommandManager: ArchiveCommandManager;
+    private embeddingIndexCommandManager: EmbeddingIndexCommandManager;
     private chatUIManager: ChatUIManager;
+    private relatedNotesUIManager: RelatedNotesUIManager;
     private backgroundProcessor: BackgroundProcessor;
     private settingsTabManager: SettingsTabManager;
     private embeddingManager: EmbeddingManager | null = null;
+    private noteFtsIndex: NoteFtsIndex | null = null;
 
     constructor(config: PluginLifecycleConfig) {
         this.config = config;
@@ -80,6 +93,25 @@ export class PluginLifecycleManager {
             isInitialized: () => this.isInitialized
         });
 
+        // Create edit journal command manager (undo/revert agent changes)
+        this.journalCommandManager = new EditJournalCommandManager({
+            plugin: config.plugin,
+            serviceManager: config.serviceManager,
+            getService: (name, timeoutMs) => this.serviceRegistrar.getService(name, timeoutMs)
+        });
+
+        // Create archive command manager (browse/restore archived items)
+        this.archiveCommandManager = new ArchiveCommandManager({
+            plugin: config.plugin,
+            serviceManager: config.serviceManager
+        });
+
+        // Create embedding index command manager (export/import vectors between devices)
+        this.embeddingIndexCommandManager = new EmbeddingIndexCommandManager({
+            plugin: config.plugin,
+            serviceManager: config.serviceManager
+        }, () => this.embeddingManager);
+
         // Create chat UI manager
         this.chatUIManager = new ChatUIManager({
             plugin: config.plugin,
@@ -88,6 +120,14 @@ export class PluginLifecycleManager {
             getService: (name, timeoutMs) => this.serviceRegistrar.getService(name, timeoutMs)
         });
 
+        // Create related notes UI manager (side pane backed by the embedding system)
+        this.relatedNotesUIManager = new RelatedNotesUIManager({
+            plugin: config.plugin,
+            app: config.app,
+            getEmbeddingManager: () => this.embeddingManager,
+            addToChat: (file) => this.chatUIManager.addNoteToChat(file)
+        });
+
         // Create background processor
         this.backgroundProcessor = new BackgroundProcessor({
             plugin: config.plugin,
@@ -182,6 +222,14 @@ export class PluginLifecycleManager {
 	                    // Register chat UI components AFTER ChatService is initialized
 	                    await this.chatUIManager.registerChatUI();
 
+	                    // Register related notes pane (desktop only: needs embeddings)
+	                    if (!Platform.isMobile) {
+	                        await this.relatedNotesUIManager.registerRelatedNotesUI();
+	                    }
+
+	                    // Initialize note keyword index (all platforms) once storage is ready
+	                    void this.initializeNoteFtsIndex();
+
 	                    // Initialize embedding system (desktop only) after 3-second delay
 	                    if (!Platform.isMobile) {
 	                        setTimeout(async () => {
@@ -198,7 +246,8 @@ export class PluginLifecycleManager {
 	                                    this.embeddingManager = new EmbeddingManager(
 	                                        this.config.app,
 	                                        this.config.plugin,
-	                                        storageAdapter.cache
+	                                        storageAdapter.cache,
+	                                        this.config.settings.settings.embeddings ?? DEFAULT_EMBEDDING_SETTINGS
 	                                    );
 	                                    await this.embeddingManager.initialize();
 	                                    // Expose on plugin for lazy access by agents
@@ -212,6 +261,15 @@ export class PluginLifecycleManager {
 	                                            chatTraceService.setEmbeddingService(embeddingService);
 	                                        }
 	                                    }
+
+	                                    // Re-embed conversations as they change
+	                                    const queue = this.embeddingManager.getQueue();
+	                                    if (queue) {
+	                                        const chatService = await this.serviceRegistrar.getService<ChatService>('chatService');
+	                                        if (chatService && typeof chatService.setIndexingQueue === 'function') {
+	                                            chatService.setIndexingQueue(queue);
+	                                        }
+	                                    }
 	                                }
 	                            } catch (error) {
 	                            }
@@ -227,6 +285,11 @@ export class PluginLifecycleManager {
 
             // Register all maintenance commands
             this.commandManager.registerMaintenanceCommands();
+            this.journalCommandManager.registerJournalCommands();
+            this.archiveCommandManager.registerArchiveCommands();
+            if (!Platform.isMobile) {
+                this.embeddingIndexCommandManager.registerEmbeddingIndexCommands();
+            }
 
             // Check for updates
             this.backgroundProcessor.checkForUpdatesOnStartup();
@@ -245,6 +308,32 @@ export class PluginLifecycleManager {
         }
     }
 
+    /**
+     * Start the note keyword index once SQLite storage is ready.
+     * Its startup sync runs in the background; keyword search scans files until it finishes.
+     */
+    private async initializeNoteFtsIndex(): Promise<void> {
+        try {
+            const storageAdapter = await this.serviceRegistrar.getService<HybridStorageAdapter>('hybridStorageAdapter');
+            if (storageAdapter && typeof storageAdapter.waitForReady === 'function') {
+                const ready = await storageAdapter.waitForReady();
+                if (!ready) {
+                    return;
+                }
+            }
+            if (!storageAdapter?.cache) {
+                return;
+            }
+
+            this.noteFtsIndex = new NoteFtsIndex(this.config.app, storageAdapter.cache);
+            this.noteFtsIndex.start();
+            // Expose on plugin for lazy access by agents
+            (this.config.plugin as PluginWithEmbedding).noteFtsIndex = this.noteFtsIndex;
+        } catch (error) {
+            console.error('[PluginLifecycleManager] Note keyword index initialization failed:', error);
+        }
+    }
+
     /**
      * Enable fallback mode with minimal functionality
      */
@@ -302,6 +391,11 @@ export class PluginLifecycleManager {
                 }
             }
 
+            // Stop note keyword index updates (before database closes)
+            if (this.noteFtsIndex) {
+                this.noteFtsIndex.stop();
+            }
+
             // Save processed files state before cleanup
             const stateManager = this.config.serviceManager?.getServiceIfReady<StateManager>('stateManager');
             if (stateManager && typeof stateManager.saveState === 'function') {
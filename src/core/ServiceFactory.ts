@@ -21,6 +21,8 @@ import type { ServiceManager } from './ServiceManager';
 import {
     ContentManagerAgent,
     StorageManagerAgent,
+    PeriodicNotesManagerAgent,
+    TaskManagerAgent,
     SearchManagerAgent,
     MemoryManagerAgent,
     PromptManagerAgent
@@ -108,6 +110,32 @@ export class StorageManagerAgentFactory extends BaseAgentFactory<StorageManagerA
     }
 }
 
+/**
+ * PeriodicNotesManager agent factory - no external dependencies
+ */
+export class PeriodicNotesManagerAgentFactory extends BaseAgentFactory<PeriodicNotesManagerAgent> {
+    constructor() {
+        super('periodicNotesManager', []); // No external dependencies
+    }
+
+    async create(dependencies: Map<string, any>, app: App): Promise<PeriodicNotesManagerAgent> {
+        return new PeriodicNotesManagerAgent(app);
+    }
+}
+
+/**
+ * TaskManager agent factory - no external dependencies
+ */
+export class TaskManagerAgentFactory extends BaseAgentFactory<TaskManagerAgent> {
+    constructor() {
+        super('taskManager', []); // No external dependencies
+    }
+
+    async create(dependencies: Map<string, any>, app: App): Promise<TaskManagerAgent> {
+        return new TaskManagerAgent(app);
+    }
+}
+
 /**
  * SearchManager agent factory with memory service dependencies
  */
@@ -194,6 +222,8 @@ export class AgentFactoryRegistry {
         // Register all agent factories
         this.registerFactory(new ContentManagerAgentFactory());
         this.registerFactory(new StorageManagerAgentFactory());
+        this.registerFactory(new PeriodicNotesManagerAgentFactory());
+        this.registerFactory(new TaskManagerAgentFactory());
         this.registerFactory(new SearchManagerAgentFactory());
         this.registerFactory(new MemoryManagerAgentFactory());
         this.registerFactory(new PromptManagerAgentFactory());
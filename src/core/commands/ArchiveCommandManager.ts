@@ -0,0 +1,24 @@
+/**
+ * Archive Command Manager
+ * Registers command-palette commands for browsing and restoring archived items
+ */
+
+import { CommandContext } from './CommandDefinitions';
+import { ArchiveBrowserModal } from '../../ui/archive/ArchiveBrowserModal';
+
+export class ArchiveCommandManager {
+  constructor(private context: CommandContext) {}
+
+  /**
+   * Register archive commands
+   */
+  registerArchiveCommands(): void {
+    this.context.plugin.addCommand({
+      id: 'browse-archived-items',
+      name: 'Browse archived items',
+      callback: () => {
+        new ArchiveBrowserModal(this.context.plugin.app).open();
+      }
+    });
+  }
+}
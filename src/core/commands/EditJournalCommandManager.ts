@@ -0,0 +1,108 @@
+/**
+ * Edit Journal Command Manager
+ * Registers command-palette commands for undoing agent changes recorded in the edit journal
+ */
+
+import { Notice, TFile } from 'obsidian';
+import { CommandContext } from './CommandDefinitions';
+import type { EditJournalService } from '../../services/journal/EditJournalService';
+import { EditHistoryModal } from '../../ui/journal/EditHistoryModal';
+import { JournalSessionSuggestModal } from '../../ui/journal/JournalSessionSuggestModal';
+import { formatRevertOutcomes } from '../../ui/journal/formatRevertOutcomes';
+
+export class EditJournalCommandManager {
+  constructor(private context: CommandContext) {}
+
+  /**
+   * Register edit journal commands
+   */
+  registerJournalCommands(): void {
+    this.context.plugin.addCommand({
+      id: 'undo-last-agent-change',
+      name: 'Undo last agent change',
+      callback: async () => {
+        await this.undoLastChange();
+      }
+    });
+
+    this.context.plugin.addCommand({
+      id: 'revert-agent-session-changes',
+      name: 'Revert session changes',
+      callback: async () => {
+        await this.revertSession();
+      }
+    });
+
+    this.context.plugin.addCommand({
+      id: 'show-agent-edit-history',
+      name: 'Show agent edit history for current note',
+      checkCallback: (checking: boolean) => {
+        const file = this.context.plugin.app.workspace.getActiveFile();
+        if (!file) {
+          return false;
+        }
+        if (!checking) {
+          this.showHistory(file);
+        }
+        return true;
+      }
+    });
+  }
+
+  /**
+   * Revert the most recent unreverted journal entry
+   */
+  private async undoLastChange(): Promise<void> {
+    const journal = await this.getJournal();
+    if (!journal) return;
+
+    const [last] = await journal.getEntries();
+    if (!last) {
+      new Notice('No agent changes to undo.');
+      return;
+    }
+
+    const outcomes = await journal.revert([last.id]);
+    new Notice(formatRevertOutcomes(outcomes));
+  }
+
+  /**
+   * Pick a session and revert all of its unreverted changes
+   */
+  private async revertSession(): Promise<void> {
+    const journal = await this.getJournal();
+    if (!journal) return;
+
+    const sessions = await journal.getSessions();
+    if (sessions.length === 0) {
+      new Notice('No agent sessions with changes to revert.');
+      return;
+    }
+
+    new JournalSessionSuggestModal(this.context.plugin.app, sessions, async (session) => {
+      const entries = await journal.getEntries({ sessionId: session.sessionId });
+      const outcomes = await journal.revert(entries.map(entry => entry.id));
+      new Notice(formatRevertOutcomes(outcomes));
+    }).open();
+  }
+
+  /**
+   * Open the edit history of a note
+   */
+  private async showHistory(file: TFile): Promise<void> {
+    const journal = await this.getJournal();
+    if (!journal) return;
+
+    new EditHistoryModal(this.context.plugin.app, journal, file).open();
+  }
+
+  private async getJournal(): Promise<EditJournalService | null> {
+    const journal = this.context.getService
+      ? await this.context.getService('editJournalService', 5000) as EditJournalService | null
+      : null;
+    if (!journal) {
+      new Notice('Edit journal is not available yet. Try again once the plugin has finished loading.');
+    }
+    return journal;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Embedding Index Command Manager
+ * Registers command-palette commands for sharing the embedding index between devices
+ */
+
+import { Notice } from 'obsidian';
+import { CommandContext } from './CommandDefinitions';
+import type { EmbeddingManager } from '../../services/embeddings/EmbeddingManager';
+import { EMBEDDING_INDEX_PATH } from '../../services/embeddings/EmbeddingIndexFile';
+
+export class EmbeddingIndexCommandManager {
+  constructor(
+    private context: CommandContext,
+    private getEmbeddingManager: () => EmbeddingManager | null
+  ) {}
+
+  /**
+   * Register embedding index commands (desktop only, like the embedding system)
+   */
+  registerEmbeddingIndexCommands(): void {
+    this.context.plugin.addCommand({
+      id: 'export-embedding-index',
+      name: 'Export embedding index',
+      callback: async () => {
+        await this.exportIndex();
+      }
+    });
+
+    this.context.plugin.addCommand({
+      id: 'import-embedding-index',
+      name: 'Import embedding index',
+      callback: async () => {
+        await this.importIndex();
+      }
+    });
+  }
+
+  /**
+   * Write note and trace embeddings to .nexus/
+   */
+  private async exportIndex(): Promise<void> {
+    const manager = this.getManager();
+    if (!manager) return;
+
+    new Notice('Exporting embedding index...');
+    try {
+      const result = await manager.exportIndex();
+      if (!result) {
+        new Notice('Embeddings are not available.');
+        return;
+      }
+      new Notice(`Exported embeddings of ${result.notes} notes and ${result.traces} traces to ${EMBEDDING_INDEX_PATH}.`);
+    } catch (error) {
+      console.error('[EmbeddingIndexCommandManager] Export failed:', error);
+      new Notice(`Failed to export embedding index: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Re-index now, adopting vectors from the exported index
+   */
+  private async importIndex(): Promise<void> {
+    const manager = this.getManager();
+    if (!manager) return;
+
+    try {
+      const result = await manager.importIndex();
+      if (!result) {
+        new Notice(`No embedding index found at ${EMBEDDING_INDEX_PATH}. Export one on an indexed device first.`);
+        return;
+      }
+      new Notice(`Importing embeddings of ${result.notes} notes and ${result.traces} traces. Only changed notes will be embedded.`);
+    } catch (error) {
+      console.error('[EmbeddingIndexCommandManager] Import failed:', error);
+      new Notice(`Failed to import embedding index: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private getManager(): EmbeddingManager | null {
+    const manager = this.getEmbeddingManager();
+    if (!manager?.isEmbeddingEnabled()) {
+      new Notice('Embeddings are not available yet. Try again once indexing has started.');
+      return null;
+    }
+    return manager;
+  }
+}
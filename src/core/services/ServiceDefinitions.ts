@@ -189,6 +189,15 @@ export const CORE_SERVICE_DEFINITIONS: ServiceDefinition[] = [
         }
     },
 
+    // Edit journal for undoing agent changes (.nexus/journal/)
+    {
+        name: 'editJournalService',
+        create: async (context) => {
+            const { EditJournalService } = await import('../../services/journal/EditJournalService');
+            return new EditJournalService(context.app);
+        }
+    },
+
     // LLM services for chat functionality
     // Note: Tool execution is now handled by DirectToolExecutor, not mcpConnector
     {
@@ -209,7 +218,7 @@ export const CORE_SERVICE_DEFINITIONS: ServiceDefinition[] = [
             // Inject VaultOperations for file reading
             const vaultOperations = await context.serviceManager.getService('vaultOperations') as InstanceType<typeof VaultOperations>;
             if (vaultOperations) {
-                llmService.setVaultOperations(vaultOperations);
+                llmService.setVaultOperations(vaultOperations, context.app);
             }
 
             // Inject DirectToolExecutor for tool execution (works on ALL platforms)
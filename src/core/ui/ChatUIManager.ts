@@ -8,8 +8,9 @@
  */
 
 import { Notice } from 'obsidian';
-import type { Plugin } from 'obsidian';
+import type { Plugin, TFile } from 'obsidian';
 import type { Settings } from '../../settings';
+import type { HybridStorageAdapter } from '../../database/adapters/HybridStorageAdapter';
 
 export interface ChatUIManagerConfig {
     plugin: Plugin;
@@ -67,6 +68,15 @@ export class ChatUIManager {
                 }
             });
 
+            // Add command to search past conversations and jump to a message
+            plugin.addCommand({
+                id: 'search-conversations',
+                name: 'Search chat conversations',
+                callback: () => {
+                    this.openConversationSearch();
+                }
+            });
+
 
             // Mark as registered
             this.chatUIRegistered = true;
@@ -101,6 +111,58 @@ export class ChatUIManager {
         app.workspace.revealLeaf(leaf);
     }
 
+    /**
+     * Open the chat view and add a note as context for the next message
+     */
+    async addNoteToChat(file: TFile): Promise<void> {
+        if (!this.chatUIRegistered) {
+            new Notice('Nexus Chat is not available yet');
+            return;
+        }
+
+        await this.activateChatView();
+
+        const { ChatView, CHAT_VIEW_TYPE } = await import('../../ui/chat/ChatView');
+        const view = this.config.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0]?.view;
+        if (view instanceof ChatView) {
+            await view.addNoteToContext(file);
+        }
+    }
+
+    /**
+     * Open the chat view on a conversation, scrolled to a message if given
+     */
+    async openConversation(conversationId: string, messageId?: string): Promise<void> {
+        await this.activateChatView();
+
+        const { ChatView, CHAT_VIEW_TYPE } = await import('../../ui/chat/ChatView');
+        const view = this.config.app.workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0]?.view;
+        if (view instanceof ChatView) {
+            await view.openConversation(conversationId, messageId);
+        }
+    }
+
+    /**
+     * Show the conversation search modal; choosing a result opens it in the chat view
+     */
+    private async openConversationSearch(): Promise<void> {
+        const storageAdapter = await this.config.getService<HybridStorageAdapter>('hybridStorageAdapter', 5000);
+        if (!storageAdapter?.isReady()) {
+            new Notice('Chat history is still loading');
+            return;
+        }
+
+        const { ConversationSearchService } = await import('../../services/search/ConversationSearchService');
+        const { ConversationSearchModal } = await import('../../ui/chat/components/ConversationSearchModal');
+        new ConversationSearchModal(
+            this.config.app,
+            new ConversationSearchService(storageAdapter.cache),
+            (hit) => {
+                void this.openConversation(hit.conversationId, hit.messageId ?? undefined);
+            }
+        ).open();
+    }
+
     /**
      * Check if chat UI is registered
      */
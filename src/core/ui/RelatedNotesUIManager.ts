@@ -0,0 +1,88 @@
+/**
+ * Location: /src/core/ui/RelatedNotesUIManager.ts
+ *
+ * Related Notes UI Manager - Handles RelatedNotesView registration and activation
+ *
+ * The pane needs the embedding system, so it is registered on desktop only.
+ */
+
+import type { App, Plugin, TFile } from 'obsidian';
+import type { EmbeddingManager } from '../../services/embeddings/EmbeddingManager';
+
+export interface RelatedNotesUIManagerConfig {
+    plugin: Plugin;
+    app: App;
+    getEmbeddingManager: () => EmbeddingManager | null;
+    addToChat: (file: TFile) => Promise<void>;
+}
+
+export class RelatedNotesUIManager {
+    private config: RelatedNotesUIManagerConfig;
+    private registered = false;
+
+    constructor(config: RelatedNotesUIManagerConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Register the related notes view and its command
+     */
+    async registerRelatedNotesUI(): Promise<void> {
+        try {
+            const { plugin } = this.config;
+
+            if (this.registered) {
+                return;
+            }
+
+            const { RelatedNotesView, RELATED_NOTES_VIEW_TYPE } = await import('../../ui/related/RelatedNotesView');
+
+            plugin.registerView(
+                RELATED_NOTES_VIEW_TYPE,
+                (leaf) => new RelatedNotesView(leaf, {
+                    getEmbeddingService: () => this.config.getEmbeddingManager()?.getService() ?? null,
+                    addToChat: (file) => this.config.addToChat(file)
+                })
+            );
+
+            plugin.addCommand({
+                id: 'open-related-notes',
+                name: 'Open related notes',
+                callback: () => {
+                    this.activateRelatedNotesView();
+                }
+            });
+
+            this.registered = true;
+
+        } catch (error) {
+            console.error('Failed to register related notes UI:', error);
+        }
+    }
+
+    /**
+     * Activate the related notes view in the right sidebar
+     */
+    async activateRelatedNotesView(): Promise<void> {
+        const { app } = this.config;
+
+        const { RELATED_NOTES_VIEW_TYPE } = await import('../../ui/related/RelatedNotesView');
+
+        const existingLeaf = app.workspace.getLeavesOfType(RELATED_NOTES_VIEW_TYPE)[0];
+        if (existingLeaf) {
+            app.workspace.revealLeaf(existingLeaf);
+            return;
+        }
+
+        const leaf = app.workspace.getRightLeaf(false);
+        if (!leaf) {
+            return;
+        }
+        await leaf.setViewState({
+            type: RELATED_NOTES_VIEW_TYPE,
+            active: true
+        });
+
+        app.workspace.revealLeaf(leaf);
+    }
+}
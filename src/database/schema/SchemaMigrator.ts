@@ -70,7 +70,7 @@ export interface MigratableDatabase {
 // Alias for backward compatibility
 type Database = MigratableDatabase;
 
-export const CURRENT_SCHEMA_VERSION = 5;
+export const CURRENT_SCHEMA_VERSION = 8;
 
 export interface Migration {
   version: number;
@@ -127,6 +127,80 @@ export const MIGRATIONS: Migration[] = [
   // ========================================================================
   // ADD NEW MIGRATIONS BELOW THIS LINE
   // ========================================================================
+
+  // Version 5 -> 6: Heading-level chunk embeddings for passage search
+  // Existing notes get chunks on their next indexing pass (IndexingQueue checks for them)
+  {
+    version: 6,
+    description: 'Add note_chunk_embeddings and note_chunk_metadata tables for heading-level chunk embeddings',
+    sql: [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS note_chunk_embeddings USING vec0(
+        embedding float[384]
+      )`,
+      `CREATE TABLE IF NOT EXISTS note_chunk_metadata (
+        rowid INTEGER PRIMARY KEY,
+        notePath TEXT NOT NULL,
+        chunkIndex INTEGER NOT NULL,
+        heading TEXT,
+        startLine INTEGER NOT NULL,
+        endLine INTEGER NOT NULL,
+        model TEXT NOT NULL,
+        contentHash TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        updated INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_chunk_meta_path ON note_chunk_metadata(notePath)',
+    ]
+  },
+
+  // Version 6 -> 7: Note keyword index
+  // Starts empty; NoteFtsIndex fills it on its first startup sync
+  {
+    version: 7,
+    description: 'Add note_fts and note_fts_metadata tables for keyword search over vault notes',
+    sql: [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS note_fts USING fts5(
+        title,
+        content,
+        content='',
+        contentless_delete=1,
+        tokenize='porter unicode61'
+      )`,
+      `CREATE TABLE IF NOT EXISTS note_fts_metadata (
+        rowid INTEGER PRIMARY KEY,
+        notePath TEXT NOT NULL UNIQUE,
+        mtime INTEGER NOT NULL,
+        size INTEGER NOT NULL
+      )`,
+    ]
+  },
+
+  // Version 7 -> 8: Conversation embeddings for recalling chats by meaning
+  // Starts empty; IndexingQueue backfills existing conversations after notes and traces
+  {
+    version: 8,
+    description: 'Add conversation_embeddings and conversation_embedding_metadata tables for semantic conversation search',
+    sql: [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS conversation_embeddings USING vec0(
+        embedding float[384]
+      )`,
+      `CREATE TABLE IF NOT EXISTS conversation_embedding_metadata (
+        rowid INTEGER PRIMARY KEY,
+        conversationId TEXT NOT NULL,
+        windowIndex INTEGER NOT NULL,
+        startMessageId TEXT NOT NULL,
+        endMessageId TEXT NOT NULL,
+        startSequence INTEGER NOT NULL,
+        endSequence INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        model TEXT NOT NULL,
+        contentHash TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        updated INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_conv_embed_conversation ON conversation_embedding_metadata(conversationId)',
+    ]
+  },
 ];
 
 /**
@@ -2,7 +2,7 @@
  * SQLite Schema for Hybrid Storage System
  * Location: src/database/schema/schema.ts
  * Purpose: Complete database schema with indexes and FTS
- * Current Version: 5
+ * Current Version: 8
  *
  * IMPORTANT: When updating the schema:
  * 1. Update SCHEMA_SQL below for new installs
@@ -226,7 +226,30 @@ CREATE TABLE IF NOT EXISTS applied_events (
 
 CREATE INDEX IF NOT EXISTS idx_applied_events_time ON applied_events(appliedAt);
 
+-- ==================== NOTE FULL-TEXT SEARCH ====================
+
+-- Keyword index of vault notes. Note content lives in the vault, not in this
+-- database, so NoteFtsIndex keeps it in sync from vault events instead of triggers.
+-- Contentless: only the index is stored; matched notes are read from the vault.
+CREATE VIRTUAL TABLE IF NOT EXISTS note_fts USING fts5(
+  title,
+  content,
+  content='',
+  contentless_delete=1,
+  tokenize='porter unicode61'
+);
+
+-- Indexed notes, linked to note_fts by rowid; mtime and size detect stale entries
+CREATE TABLE IF NOT EXISTS note_fts_metadata (
+  rowid INTEGER PRIMARY KEY,
+  notePath TEXT NOT NULL UNIQUE,
+  mtime INTEGER NOT NULL,
+  size INTEGER NOT NULL
+);
+
 -- ==================== NOTE EMBEDDINGS ====================
+-- float[384] matches the built-in model. EmbeddingService.prepareVectorTables() recreates
+-- the vec0 tables with the active model's dimensions when another backend is configured.
 
 -- Vector storage (vec0 virtual table)
 CREATE VIRTUAL TABLE IF NOT EXISTS note_embeddings USING vec0(
@@ -246,6 +269,29 @@ CREATE TABLE IF NOT EXISTS embedding_metadata (
 CREATE INDEX IF NOT EXISTS idx_embedding_meta_path ON embedding_metadata(notePath);
 CREATE INDEX IF NOT EXISTS idx_embedding_meta_hash ON embedding_metadata(contentHash);
 
+-- ==================== NOTE CHUNK EMBEDDINGS ====================
+
+-- Vector storage for heading-level passages of notes
+CREATE VIRTUAL TABLE IF NOT EXISTS note_chunk_embeddings USING vec0(
+  embedding float[384]
+);
+
+-- Metadata linked to vec0 by rowid; line numbers are 1-based and inclusive
+CREATE TABLE IF NOT EXISTS note_chunk_metadata (
+  rowid INTEGER PRIMARY KEY,
+  notePath TEXT NOT NULL,
+  chunkIndex INTEGER NOT NULL,
+  heading TEXT,
+  startLine INTEGER NOT NULL,
+  endLine INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  contentHash TEXT NOT NULL,
+  created INTEGER NOT NULL,
+  updated INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_chunk_meta_path ON note_chunk_metadata(notePath);
+
 -- ==================== TRACE EMBEDDINGS ====================
 
 -- Vector storage for memory traces
@@ -268,7 +314,32 @@ CREATE INDEX IF NOT EXISTS idx_trace_embed_id ON trace_embedding_metadata(traceI
 CREATE INDEX IF NOT EXISTS idx_trace_embed_workspace ON trace_embedding_metadata(workspaceId);
 CREATE INDEX IF NOT EXISTS idx_trace_embed_session ON trace_embedding_metadata(sessionId);
 
+-- ==================== CONVERSATION EMBEDDINGS ====================
+
+-- Vector storage for chat exchanges (a user message and the replies to it)
+CREATE VIRTUAL TABLE IF NOT EXISTS conversation_embeddings USING vec0(
+  embedding float[384]
+);
+
+-- Metadata linked to vec0 by rowid; sequence numbers are the exchange's first and last message
+CREATE TABLE IF NOT EXISTS conversation_embedding_metadata (
+  rowid INTEGER PRIMARY KEY,
+  conversationId TEXT NOT NULL,
+  windowIndex INTEGER NOT NULL,
+  startMessageId TEXT NOT NULL,
+  endMessageId TEXT NOT NULL,
+  startSequence INTEGER NOT NULL,
+  endSequence INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  contentHash TEXT NOT NULL,
+  created INTEGER NOT NULL,
+  updated INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_conv_embed_conversation ON conversation_embedding_metadata(conversationId);
+
 -- ==================== INITIALIZATION ====================
 
-INSERT OR IGNORE INTO schema_version VALUES (5, strftime('%s', 'now') * 1000);
+INSERT OR IGNORE INTO schema_version VALUES (8, strftime('%s', 'now') * 1000);
 `;
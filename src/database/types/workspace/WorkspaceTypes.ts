@@ -46,8 +46,34 @@ export interface WorkspaceContext {
     agentName: string;      // Display name of the agent
   };
 
+  /**
+   * Optional schema for note properties (frontmatter) in this workspace
+   * Used by contentManager.properties to validate values before writing
+   */
+  propertySchema?: PropertySchema;
+
 }
 
+/**
+ * Property types, matching Obsidian's property types
+ */
+export type PropertyType = 'text' | 'number' | 'checkbox' | 'date' | 'datetime' | 'list';
+
+/**
+ * Definition of one frontmatter property in a workspace property schema
+ */
+export interface PropertyDefinition {
+  type: PropertyType;     // "date"
+  required?: boolean;     // Required keys cannot be deleted
+  allowed?: Array<string | number>;  // ["todo", "doing", "done"] (list items for list properties)
+  description?: string;   // "Date the task is due"
+}
+
+/**
+ * Property schema keyed by frontmatter key
+ */
+export type PropertySchema = Record<string, PropertyDefinition>;
+
 /**
  * Simple workspace interface - our agreed-upon clean schema
  */
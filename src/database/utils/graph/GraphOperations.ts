@@ -169,6 +169,10 @@ export class GraphOperations {
             else if (normalizedSeedNames.has(fileBaseNames.get(item.record.filePath) || '')) {
                 boostFactor = 1.3; // 30% boost for fuzzy seed note match
             }
+            // Linked to or from a seed note
+            else if (this.isLinkedToSeed(item.record, seedNoteSet)) {
+                boostFactor = 1.2; // 20% boost for notes linked to a seed note
+            }
             
             return {
                 record: item.record,
@@ -177,6 +181,20 @@ export class GraphOperations {
         });
     }
     
+    /**
+     * Check whether a record links to, or is linked from, one of the seed notes
+     * @param record Record with link metadata
+     * @param seedNoteSet Seed note paths
+     */
+    private isLinkedToSeed(record: searchRecord, seedNoteSet: Set<string>): boolean {
+        const links = record.metadata.links;
+        if (!links) {
+            return false;
+        }
+        return (links.outgoing || []).some(link => seedNoteSet.has(link.targetPath))
+            || (links.incoming || []).some(link => seedNoteSet.has(link.sourcePath));
+    }
+    
     /**
      * Build a graph of connections between documents
      * @param records Records with similarity scores
@@ -0,0 +1,352 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { LinkUtils } from './LinkUtils';
+
+/**
+ * Direction to follow links in
+ */
+export type LinkDirection = 'outgoing' | 'incoming' | 'both';
+
+/**
+ * A linked note and the number of links
+ */
+export interface LinkCount {
+    path: string;
+    count: number;
+}
+
+/**
+ * An unresolved link target and the notes linking to it
+ */
+export interface UnresolvedLink {
+    link: string;
+    count: number;
+    sources: string[];
+}
+
+/**
+ * Notes within a number of hops of a start note
+ */
+export interface LinkNeighborhood {
+    nodes: Array<{ path: string; distance: number }>;
+    edges: Array<{ from: string; to: string }>;
+    truncated: boolean;
+}
+
+/**
+ * Links of one note in the shape GraphOperations expects on search records
+ */
+export interface SearchRecordLinks {
+    outgoing: Array<{ displayText: string; targetPath: string }>;
+    incoming: Array<{ sourcePath: string; displayText: string }>;
+}
+
+/**
+ * Link graph of the vault, read from the metadata cache
+ * (resolvedLinks / unresolvedLinks). Traversals only visit markdown notes;
+ * backlinks and outgoing links list every resolved file.
+ */
+export class LinkGraph {
+    private app: App;
+    private linkUtils: LinkUtils;
+    private incomingIndex: Map<string, Map<string, number>> | null = null;
+
+    constructor(app: App) {
+        this.app = app;
+        this.linkUtils = new LinkUtils();
+    }
+
+    /**
+     * Resolve a note from a path, a path without extension, or link text ("Note", "[[Note|alias]]")
+     *
+     * @param input Path or link text
+     * @returns The note, or null if nothing matches
+     */
+    resolveNote(input: string): TFile | null {
+        const linkText = input.trim()
+            .replace(/^!?\[\[/, '')
+            .replace(/\]\]$/, '')
+            .split('|')[0]
+            .split('#')[0]
+            .trim();
+        if (!linkText) {
+            return null;
+        }
+
+        const normalized = normalizePath(linkText);
+        for (const candidate of [normalized, `${normalized}.md`]) {
+            const file = this.app.vault.getAbstractFileByPath(candidate);
+            if (file instanceof TFile) {
+                return file;
+            }
+        }
+        return this.app.metadataCache.getFirstLinkpathDest(linkText, '');
+    }
+
+    /**
+     * Suggest notes with a similar name, for "not found" messages
+     *
+     * @param input Path or link text that did not resolve
+     * @param limit Maximum number of suggestions
+     * @returns Paths of similarly named notes
+     */
+    suggestNotes(input: string, limit = 5): string[] {
+        const name = input.split('/').pop()?.replace(/\.md$/, '') || '';
+        if (!this.linkUtils.normalizeLinkText(name)) {
+            return [];
+        }
+
+        const linkMap = new Map<string, string[]>();
+        this.app.vault.getMarkdownFiles().forEach(file => {
+            this.linkUtils.addToLinkMap(linkMap, file.basename, file.path);
+        });
+        // Skip very short names, which are contained in almost any input
+        const minLength = Math.min(3, this.linkUtils.normalizeLinkText(name).length);
+        return this.linkUtils.findFuzzyMatches(linkMap, name)
+            .filter(path => this.linkUtils.normalizeLinkText(this.getDisplayText(path)).length >= minLength)
+            .slice(0, limit);
+    }
+
+    /**
+     * Get the files a note links to
+     *
+     * @param path Note path
+     * @returns Linked files with link counts, most linked first
+     */
+    getOutgoing(path: string): LinkCount[] {
+        return this.toCounts(this.app.metadataCache.resolvedLinks[path]);
+    }
+
+    /**
+     * Get the notes linking to a file
+     *
+     * @param path File path
+     * @returns Linking notes with link counts, most links first
+     */
+    getBacklinks(path: string): LinkCount[] {
+        const sources = this.getIncomingIndex().get(path);
+        return sources ? this.toCounts(Object.fromEntries(sources)) : [];
+    }
+
+    /**
+     * Get the unresolved links of one note
+     *
+     * @param path Note path
+     * @returns Link targets that do not exist, with link counts
+     */
+    getUnresolvedFrom(path: string): Array<{ link: string; count: number }> {
+        return this.toCounts(this.app.metadataCache.unresolvedLinks[path])
+            .map(({ path: link, count }) => ({ link, count }));
+    }
+
+    /**
+     * Get all unresolved links in the vault
+     *
+     * @param inFolder Optional filter on the linking note's path
+     * @returns Link targets that do not exist, most linked first
+     */
+    getUnresolved(inFolder?: (path: string) => boolean): UnresolvedLink[] {
+        const targets = new Map<string, UnresolvedLink>();
+
+        Object.entries(this.app.metadataCache.unresolvedLinks).forEach(([source, links]) => {
+            if (inFolder && !inFolder(source)) {
+                return;
+            }
+            Object.entries(links).forEach(([link, count]) => {
+                const entry = targets.get(link) || { link, count: 0, sources: [] };
+                entry.count += count;
+                entry.sources.push(source);
+                targets.set(link, entry);
+            });
+        });
+
+        return Array.from(targets.values())
+            .map(entry => ({ ...entry, sources: entry.sources.sort() }))
+            .sort((a, b) => b.count - a.count || a.link.localeCompare(b.link));
+    }
+
+    /**
+     * Get the notes within a number of hops of a note (breadth-first)
+     *
+     * @param path Start note path
+     * @param depth Maximum number of hops
+     * @param direction Links to follow
+     * @param maxNodes Maximum number of notes to collect, including the start note
+     * @returns Notes with their distance, and the links between them
+     */
+    getNeighborhood(path: string, depth: number, direction: LinkDirection, maxNodes: number): LinkNeighborhood {
+        const distances = new Map<string, number>([[path, 0]]);
+        let frontier = [path];
+        let truncated = false;
+
+        for (let distance = 1; distance <= depth && frontier.length > 0 && !truncated; distance++) {
+            const next: string[] = [];
+            for (const current of frontier) {
+                for (const neighbor of this.getNeighbors(current, direction)) {
+                    if (distances.has(neighbor)) {
+                        continue;
+                    }
+                    if (distances.size >= maxNodes) {
+                        truncated = true;
+                        break;
+                    }
+                    distances.set(neighbor, distance);
+                    next.push(neighbor);
+                }
+                if (truncated) {
+                    break;
+                }
+            }
+            frontier = next;
+        }
+
+        const edges: Array<{ from: string; to: string }> = [];
+        distances.forEach((_, from) => {
+            this.getNeighbors(from, 'outgoing').forEach(to => {
+                if (distances.has(to)) {
+                    edges.push({ from, to });
+                }
+            });
+        });
+
+        const nodes = Array.from(distances.entries())
+            .map(([nodePath, distance]) => ({ path: nodePath, distance }))
+            .sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path));
+
+        return { nodes, edges, truncated };
+    }
+
+    /**
+     * Find the shortest link path between two notes (breadth-first)
+     *
+     * @param from Start note path
+     * @param to End note path
+     * @param direction Links to follow
+     * @param maxDepth Maximum number of hops to search
+     * @returns Note paths from start to end, or null if the notes are not connected within maxDepth
+     */
+    findShortestPath(from: string, to: string, direction: LinkDirection, maxDepth: number): string[] | null {
+        if (from === to) {
+            return [from];
+        }
+
+        const previous = new Map<string, string | null>([[from, null]]);
+        let frontier = [from];
+
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+            const next: string[] = [];
+            for (const current of frontier) {
+                for (const neighbor of this.getNeighbors(current, direction)) {
+                    if (previous.has(neighbor)) {
+                        continue;
+                    }
+                    previous.set(neighbor, current);
+                    if (neighbor === to) {
+                        return this.buildPath(previous, to);
+                    }
+                    next.push(neighbor);
+                }
+            }
+            frontier = next;
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the notes with no resolved links in or out
+     *
+     * @param inFolder Optional filter on the note path
+     * @returns Orphan note paths, sorted
+     */
+    getOrphans(inFolder?: (path: string) => boolean): string[] {
+        const incoming = this.getIncomingIndex();
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+        return this.app.vault.getMarkdownFiles()
+            .map(file => file.path)
+            .filter(path => !inFolder || inFolder(path))
+            .filter(path => {
+                const outgoing = Object.keys(resolvedLinks[path] || {}).filter(target => target !== path);
+                const sources = Array.from(incoming.get(path)?.keys() || []).filter(source => source !== path);
+                return outgoing.length === 0 && sources.length === 0;
+            })
+            .sort();
+    }
+
+    /**
+     * Get the links of a note as GraphOperations search record metadata
+     *
+     * @param path Note path
+     * @returns Outgoing and incoming note links
+     */
+    getSearchRecordLinks(path: string): SearchRecordLinks {
+        return {
+            outgoing: this.getNeighbors(path, 'outgoing').map(targetPath => ({
+                displayText: this.getDisplayText(targetPath),
+                targetPath
+            })),
+            incoming: this.getNeighbors(path, 'incoming').map(sourcePath => ({
+                sourcePath,
+                displayText: this.getDisplayText(path)
+            }))
+        };
+    }
+
+    /**
+     * Get the markdown notes linked to or from a note
+     */
+    private getNeighbors(path: string, direction: LinkDirection): string[] {
+        const neighbors = new Set<string>();
+
+        if (direction !== 'incoming') {
+            Object.keys(this.app.metadataCache.resolvedLinks[path] || {}).forEach(target => neighbors.add(target));
+        }
+        if (direction !== 'outgoing') {
+            this.getIncomingIndex().get(path)?.forEach((_, source) => neighbors.add(source));
+        }
+
+        neighbors.delete(path);
+        return Array.from(neighbors).filter(neighbor => neighbor.endsWith('.md')).sort();
+    }
+
+    /**
+     * Build (once) the reverse of resolvedLinks: target → source → count
+     */
+    private getIncomingIndex(): Map<string, Map<string, number>> {
+        if (this.incomingIndex) {
+            return this.incomingIndex;
+        }
+
+        const index = new Map<string, Map<string, number>>();
+        Object.entries(this.app.metadataCache.resolvedLinks).forEach(([source, targets]) => {
+            Object.entries(targets).forEach(([target, count]) => {
+                const sources = index.get(target) || new Map<string, number>();
+                sources.set(source, count);
+                index.set(target, sources);
+            });
+        });
+
+        this.incomingIndex = index;
+        return index;
+    }
+
+    private buildPath(previous: Map<string, string | null>, end: string): string[] {
+        const path: string[] = [];
+        let current: string | null | undefined = end;
+        while (current) {
+            path.unshift(current);
+            current = previous.get(current);
+        }
+        return path;
+    }
+
+    private toCounts(links: Record<string, number> | undefined): LinkCount[] {
+        return Object.entries(links || {})
+            .map(([path, count]) => ({ path, count }))
+            .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+    }
+
+    private getDisplayText(path: string): string {
+        return path.split('/').pop()?.replace(/\.md$/, '') || path;
+    }
+}
@@ -118,7 +118,7 @@ export class ValidationService implements IValidationService {
 
         // Directory operations - never need .md extension
         const directoryOperations = [
-            'list', 'createFolder', 'archive', 'move', 'copy'
+            'list', 'createFolder', 'archive', 'move', 'copy', 'restore', 'reorganize'
         ];
 
         // Note operations - need .md extension when no extension present
@@ -15,6 +15,8 @@ import { ServiceManager } from '../../core/ServiceManager';
 import {
   ContentManagerAgent,
   StorageManagerAgent,
+  PeriodicNotesManagerAgent,
+  TaskManagerAgent,
   SearchManagerAgent,
   MemoryManagerAgent,
   PromptManagerAgent,
@@ -79,6 +81,26 @@ export class AgentInitializationService {
     logger.systemLog('StorageManager agent initialized successfully');
   }
 
+  /**
+   * Initialize PeriodicNotesManager agent
+   */
+  async initializePeriodicNotesManager(): Promise<void> {
+    const periodicNotesManagerAgent = new PeriodicNotesManagerAgent(this.app);
+
+    this.agentManager.registerAgent(periodicNotesManagerAgent);
+    logger.systemLog('PeriodicNotesManager agent initialized successfully');
+  }
+
+  /**
+   * Initialize TaskManager agent
+   */
+  async initializeTaskManager(): Promise<void> {
+    const taskManagerAgent = new TaskManagerAgent(this.app);
+
+    this.agentManager.registerAgent(taskManagerAgent);
+    logger.systemLog('TaskManager agent initialized successfully');
+  }
+
   /**
    * Initialize PromptManager agent
    */
@@ -116,7 +138,7 @@ export class AgentInitializationService {
           try {
             const vaultOperations = await this.serviceManager.getService('vaultOperations');
             if (vaultOperations) {
-              llmProviderManager.setVaultOperations(vaultOperations);
+              llmProviderManager.setVaultOperations(vaultOperations, this.app);
             }
           } catch (error) {
           }
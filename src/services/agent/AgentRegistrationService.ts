@@ -109,7 +109,7 @@ export class AgentRegistrationService implements AgentRegistrationServiceInterfa
     try {
       logger.systemLog('Initializing agents with ServiceManager dependency injection...');
 
-      const agentNames = ['contentManager', 'commandManager', 'storageManager', 'searchManager', 'memoryManager', 'promptManager'];
+      const agentNames = ['contentManager', 'commandManager', 'storageManager', 'periodicNotesManager', 'taskManager', 'searchManager', 'memoryManager', 'promptManager'];
       const initializedAgents = new Map<string, any>();
 
       for (const agentName of agentNames) {
@@ -206,6 +206,8 @@ export class AgentRegistrationService implements AgentRegistrationServiceInterfa
       // Initialize agents in order using AgentInitializationService
       await this.safeInitialize('contentManager', () => this.initializationService.initializeContentManager());
       await this.safeInitialize('storageManager', () => this.initializationService.initializeStorageManager());
+      await this.safeInitialize('periodicNotesManager', () => this.initializationService.initializePeriodicNotesManager());
+      await this.safeInitialize('taskManager', () => this.initializationService.initializeTaskManager());
       await this.safeInitialize('promptManager', () => this.initializationService.initializePromptManager(enableLLMModes));
       await this.safeInitialize('searchManager', () => this.initializationService.initializeSearchManager(enableSearchModes, memorySettings ?? { enabled: false }));
       await this.safeInitialize('memoryManager', () => this.initializationService.initializeMemoryManager());
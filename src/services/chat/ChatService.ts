@@ -14,6 +14,7 @@ import { ConversationQueryService } from './ConversationQueryService';
 import { ConversationManager } from './ConversationManager';
 import { StreamingResponseService } from './StreamingResponseService';
 import { ChatTraceService } from './ChatTraceService';
+import type { IndexingQueue } from '../embeddings/IndexingQueue';
 
 export interface ChatServiceOptions {
   maxToolIterations?: number;
@@ -36,6 +37,7 @@ export class ChatService {
   private conversationManager: ConversationManager;
   private streamingResponseService: StreamingResponseService;
   private chatTraceService?: ChatTraceService;
+  private indexingQueue?: IndexingQueue;
   private currentProvider?: string; // Track current provider for context building
   private currentSessionId?: string; // Track current session ID for tool execution
   private isInitialized: boolean = false;
@@ -80,6 +82,13 @@ export class ChatService {
     this.chatTraceService = service;
   }
 
+  /**
+   * Set the embedding queue that keeps conversation embeddings current (desktop, set once embeddings load)
+   */
+  setIndexingQueue(queue: IndexingQueue): void {
+    this.indexingQueue = queue;
+  }
+
   /** Set tool event callback for live UI updates */
   setToolEventCallback(callback: (messageId: string, event: 'detected' | 'updated' | 'started' | 'completed', data: any) => void): void {
     this.toolCallService.setEventCallback(callback);
@@ -282,7 +291,12 @@ export class ChatService {
     }
 
     // Delegate to StreamingResponseService
-    yield* this.streamingResponseService.generateResponse(conversationId, userMessage, options);
+    try {
+      yield* this.streamingResponseService.generateResponse(conversationId, userMessage, options);
+    } finally {
+      // Re-embed the conversation with the new exchange (also after an abort)
+      this.indexingQueue?.queueConversation(conversationId);
+    }
   }
 
   /**
@@ -332,7 +346,10 @@ export class ChatService {
    * Delete conversation
    */
   async deleteConversation(id: string): Promise<boolean> {
-    return await this.conversationManager.deleteConversation(id);
+    const deleted = await this.conversationManager.deleteConversation(id);
+    // Drops the conversation's embeddings
+    this.indexingQueue?.queueConversation(id);
+    return deleted;
   }
 
   /**
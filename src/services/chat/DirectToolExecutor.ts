@@ -269,7 +269,7 @@ export class DirectToolExecutor {
     async executeTool(
         toolName: string,
         params: Record<string, unknown>,
-        context?: { sessionId?: string; workspaceId?: string }
+        context?: { sessionId?: string; workspaceId?: string; toolCallId?: string }
     ): Promise<unknown> {
         try {
             // Two-tool architecture: getTools and useTool
@@ -319,7 +319,8 @@ export class DirectToolExecutor {
                 context: {
                     ...paramsTyped.context,
                     sessionId: effectiveSessionId,
-                    workspaceId: effectiveWorkspaceId
+                    workspaceId: effectiveWorkspaceId,
+                    ...(context?.toolCallId && { toolCallId: context.toolCallId })
                 }
             };
 
@@ -362,7 +363,7 @@ export class DirectToolExecutor {
             return {
                 success: false,
                 error: 'Please specify which agent tools you need. Example: get_tools({ tools: ["contentManager", "searchManager"] })',
-                availableAgents: ['contentManager', 'storageManager', 'searchManager', 'memoryManager', 'promptManager']
+                availableAgents: ['contentManager', 'storageManager', 'periodicNotesManager', 'taskManager', 'searchManager', 'memoryManager', 'promptManager']
             };
         }
 
@@ -395,7 +396,7 @@ export class DirectToolExecutor {
      */
     private async handleUseTool(
         params: Record<string, unknown>,
-        context?: { sessionId?: string; workspaceId?: string }
+        context?: { sessionId?: string; workspaceId?: string; toolCallId?: string }
     ): Promise<unknown> {
         // Get toolManager agent to use its useTool implementation
         const toolManagerAgent = this.getAgentByName('toolManager');
@@ -421,7 +422,8 @@ export class DirectToolExecutor {
             context: {
                 ...paramsContext,
                 sessionId: context?.sessionId || paramsContext.sessionId || `session_${Date.now()}`,
-                workspaceId: context?.workspaceId || paramsContext.workspaceId || 'default'
+                workspaceId: context?.workspaceId || paramsContext.workspaceId || 'default',
+                ...(context?.toolCallId && { toolCallId: context.toolCallId })
             }
         };
 
@@ -461,17 +463,19 @@ export class DirectToolExecutor {
                     parameters: parameters
                 });
 
-                // Execute the tool
+                // Execute the tool (the call id lets the edit journal link changes to this call)
                 const rawResult = await this.executeTool(
                     toolCall.function.name,
                     parameters,
-                    context
+                    { ...context, toolCallId: toolCall.id }
                 );
 
                 // Cast result to expected shape
-                const result = rawResult as { success?: boolean; error?: string } | null;
+                const result = rawResult as { success?: boolean; error?: string; data?: unknown } | null;
                 const isSuccess = result?.success !== false;
                 const errorMessage = result?.success === false ? (result?.error || 'Tool execution failed') : undefined;
+                // Keep failed results that carry structured details (e.g. edit conflicts with a fresh hash)
+                const keptResult = isSuccess || result?.data !== undefined ? rawResult : undefined;
 
                 const executionTime = Date.now() - startTime;
 
@@ -479,7 +483,7 @@ export class DirectToolExecutor {
                     id: toolCall.id,
                     name: toolCall.function.name,
                     success: isSuccess,
-                    result: isSuccess ? rawResult : undefined,
+                    result: keptResult,
                     error: errorMessage,
                     executionTime
                 });
@@ -489,7 +493,7 @@ export class DirectToolExecutor {
                     id: toolCall.id,
                     name: toolCall.function.name,
                     toolId: toolCall.id,
-                    result: isSuccess ? rawResult : undefined,
+                    result: keptResult,
                     success: isSuccess,
                     error: errorMessage
                 });
@@ -0,0 +1,161 @@
+/**
+ * Location: src/services/embeddings/ConversationChunker.ts
+ * Purpose: Split chat conversations into exchange windows for conversation embeddings
+ *
+ * Features:
+ * - One window per exchange: a user message and the assistant replies up to the next user message
+ * - Each window starts with the end of the previous exchange, so short replies ("yes, do that")
+ *   keep the context they answer
+ * - Exchanges longer than the token cap are split into overlapping windows
+ *
+ * Relationships:
+ * - Used by EmbeddingService for conversation embeddings
+ */
+
+/** Approximate token cap per window (same budget as note chunks) */
+export const MAX_WINDOW_TOKENS = 200;
+
+/** Approximate tokens carried over from the previous exchange or window */
+export const WINDOW_OVERLAP_TOKENS = 40;
+
+/** Characters per token used to turn token budgets into text lengths */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * A user or assistant message as read from the messages table
+ */
+export interface ConversationChunkMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sequenceNumber: number;
+  timestamp: number;
+}
+
+export interface ConversationWindow {
+  /** Position of the window in the conversation (0-based) */
+  index: number;
+  /** First and last message of the exchange the window belongs to */
+  startMessageId: string;
+  endMessageId: string;
+  startSequence: number;
+  endSequence: number;
+  /** Time of the exchange's first message */
+  timestamp: number;
+  /** Window text, with speaker labels */
+  text: string;
+}
+
+/**
+ * Utility class for splitting conversations into windows
+ */
+export class ConversationChunker {
+  /**
+   * Split a conversation into windows
+   *
+   * @param messages - User and assistant messages in conversation order
+   * @param maxTokens - Approximate token cap per window
+   * @param overlapTokens - Approximate tokens carried over between windows
+   * @returns Windows in conversation order; messages without text are skipped
+   */
+  static chunk(
+    messages: ConversationChunkMessage[],
+    maxTokens = MAX_WINDOW_TOKENS,
+    overlapTokens = WINDOW_OVERLAP_TOKENS
+  ): ConversationWindow[] {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const overlapChars = overlapTokens * CHARS_PER_TOKEN;
+
+    const windows: ConversationWindow[] = [];
+    let previousText = '';
+
+    for (const exchange of this.getExchanges(messages)) {
+      const first = exchange[0];
+      const last = exchange[exchange.length - 1];
+      const text = exchange
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.trim()}`)
+        .join('\n');
+
+      this.split(text, maxChars, overlapChars).forEach((piece, pieceIndex) => {
+        const carried = pieceIndex === 0 && previousText ? this.tail(previousText, overlapChars) : '';
+        windows.push({
+          index: windows.length,
+          startMessageId: first.id,
+          endMessageId: last.id,
+          startSequence: first.sequenceNumber,
+          endSequence: last.sequenceNumber,
+          timestamp: first.timestamp,
+          text: carried ? `…${carried}\n${piece}` : piece
+        });
+      });
+
+      previousText = text;
+    }
+
+    return windows;
+  }
+
+  /**
+   * Group messages into exchanges, each starting at a user message
+   * (assistant messages before the first user message form their own exchange)
+   */
+  private static getExchanges(messages: ConversationChunkMessage[]): ConversationChunkMessage[][] {
+    const exchanges: ConversationChunkMessage[][] = [];
+
+    for (const message of messages) {
+      if (!message.content?.trim()) {
+        continue;
+      }
+      if (message.role === 'user' || exchanges.length === 0) {
+        exchanges.push([message]);
+      } else {
+        exchanges[exchanges.length - 1].push(message);
+      }
+    }
+
+    return exchanges;
+  }
+
+  /**
+   * Split text into pieces of at most maxChars, cut at whitespace, each repeating
+   * the last overlapChars of the piece before it
+   */
+  private static split(text: string, maxChars: number, overlapChars: number): string[] {
+    if (text.length <= maxChars) {
+      return [text];
+    }
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(start + maxChars, text.length);
+      if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > start + overlapChars) {
+          end = space;
+        }
+      }
+      pieces.push(text.slice(start, end).trim());
+      if (end >= text.length) {
+        break;
+      }
+
+      // Step back for the overlap, to a word boundary
+      const overlapStart = text.indexOf(' ', end - overlapChars);
+      start = overlapStart > start && overlapStart < end ? overlapStart + 1 : end;
+    }
+
+    return pieces.filter(piece => piece.length > 0);
+  }
+
+  /**
+   * Last maxChars of text, starting at a word boundary
+   */
+  private static tail(text: string, maxChars: number): string {
+    if (text.length <= maxChars) {
+      return text;
+    }
+    const start = text.indexOf(' ', text.length - maxChars);
+    return start === -1 ? text.slice(-maxChars) : text.slice(start + 1);
+  }
+}
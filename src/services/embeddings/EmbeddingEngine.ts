@@ -1,53 +1,47 @@
 /**
  * Location: src/services/embeddings/EmbeddingEngine.ts
- * Purpose: Local embedding generation using iframe-sandboxed transformers.js
+ * Purpose: Embedding generation through the backend chosen in settings
  *
- * Uses iframe sandbox approach to avoid Electron/Node.js environment issues.
- * The iframe loads transformers.js from CDN in a pure browser context.
+ * Backends:
+ * - transformers (default): Xenova/all-MiniLM-L6-v2 in an iframe-sandboxed transformers.js, 384 dimensions
+ * - ollama, lmstudio, openai-compatible: a local or remote embedding server; the vector size is
+ *   measured from the model when the engine initializes
  *
- * Based on Smart Connections' proven approach for Obsidian compatibility.
+ * Relationships:
+ * - Delegates to an EmbeddingBackend from createEmbeddingBackend()
+ * - Used by EmbeddingService; replaced by EmbeddingManager when embedding settings change
  */
 
-import { EmbeddingIframe } from './EmbeddingIframe';
+import { EmbeddingSettings, DEFAULT_EMBEDDING_SETTINGS } from '../../types/embeddings';
+import { EmbeddingBackend, EmbeddingModelInfo, createEmbeddingBackend } from './backends/EmbeddingBackend';
 
 /**
- * Embedding engine using iframe-sandboxed Transformers.js
- *
- * Model: Xenova/all-MiniLM-L6-v2
- * - Dimensions: 384
- * - Size: ~23MB (quantized)
- * - Good balance of speed and quality for semantic search
+ * Embedding engine for the configured backend
  */
 export class EmbeddingEngine {
-  private iframe: EmbeddingIframe | null = null;
-  private readonly MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
-  private readonly DIMENSIONS = 384;
+  private backend: EmbeddingBackend | null = null;
+
+  constructor(private readonly settings: EmbeddingSettings = DEFAULT_EMBEDDING_SETTINGS) {}
 
   /**
-   * Initialize the embedding model via iframe
-   * Downloads model on first use (~23MB, cached in IndexedDB)
+   * Initialize the backend
+   * The built-in model downloads on first use (~23MB, cached in IndexedDB);
+   * server backends are checked and their vector size measured.
+   *
+   * @throws Error if the settings are incomplete or the backend cannot start
    */
   async initialize(): Promise<void> {
-    if (this.iframe?.ready()) {
-      return;
-    }
-
-    this.iframe = new EmbeddingIframe();
-    await this.iframe.initialize();
+    await this.getBackend().initialize();
   }
 
   /**
    * Generate embedding for text
    *
-   * @param text - Text to embed (truncated to ~2000 chars in iframe)
-   * @returns Float32Array of 384 dimensions
+   * @param text - Text to embed
+   * @returns Float32Array with the model's dimensions
    */
   async generateEmbedding(text: string): Promise<Float32Array> {
-    if (!this.iframe) {
-      await this.initialize();
-    }
-
-    return this.iframe!.generateEmbedding(text);
+    return this.getBackend().generateEmbedding(text);
   }
 
   /**
@@ -57,20 +51,16 @@ export class EmbeddingEngine {
    * @returns Array of Float32Array embeddings
    */
   async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
-    if (!this.iframe) {
-      await this.initialize();
-    }
-
-    return this.iframe!.generateEmbeddings(texts);
+    return this.getBackend().generateEmbeddings(texts);
   }
 
   /**
    * Dispose of the engine to free memory
    */
   async dispose(): Promise<void> {
-    if (this.iframe) {
-      await this.iframe.dispose();
-      this.iframe = null;
+    if (this.backend) {
+      await this.backend.dispose();
+      this.backend = null;
     }
   }
 
@@ -78,16 +68,37 @@ export class EmbeddingEngine {
    * Check if engine is initialized
    */
   isReady(): boolean {
-    return this.iframe?.ready() ?? false;
+    return this.backend?.isReady() ?? false;
   }
 
   /**
    * Get model info
+   * The id is known up front; server models report 0 dimensions until initialized.
    */
-  getModelInfo(): { id: string; dimensions: number } {
+  getModelInfo(): EmbeddingModelInfo {
+    if (this.backend) {
+      return this.backend.getModelInfo();
+    }
+    if (this.settings.backend === 'transformers') {
+      return this.getBackend().getModelInfo();
+    }
     return {
-      id: this.MODEL_ID,
-      dimensions: this.DIMENSIONS
+      id: `${this.settings.backend}:${this.settings.model?.trim() ?? ''}`,
+      dimensions: 0
     };
   }
+
+  /**
+   * Name of the configured backend (for user-facing messages)
+   */
+  getBackendName(): string {
+    return this.settings.backend;
+  }
+
+  private getBackend(): EmbeddingBackend {
+    if (!this.backend) {
+      this.backend = createEmbeddingBackend(this.settings);
+    }
+    return this.backend;
+  }
 }
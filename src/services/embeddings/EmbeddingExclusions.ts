@@ -0,0 +1,115 @@
+/**
+ * Location: src/services/embeddings/EmbeddingExclusions.ts
+ * Purpose: Decide which notes are left out of embeddings
+ *
+ * Features:
+ * - Folder and glob rules (a rule matches the note path or any of its folders)
+ * - Tag rules, including nested tags (from frontmatter and the note body)
+ * - Per-note opt-out with frontmatter `nexus-index: false`
+ * - Size cap for very large notes
+ *
+ * Relationships:
+ * - Rules come from settings.embeddings.exclusions (edited in ProvidersTab)
+ * - Used by EmbeddingService (embedNote skips and cleans up excluded notes) and IndexingQueue
+ */
+
+import { App, TFile, getAllTags } from 'obsidian';
+import { EmbeddingExclusionSettings, DEFAULT_EMBEDDING_EXCLUSIONS } from '../../types/embeddings';
+import { normalizePath, isGlobPattern, globToRegex } from '../../utils/pathUtils';
+
+/** Frontmatter property that opts a note out when set to false */
+export const INDEX_FRONTMATTER_KEY = 'nexus-index';
+
+/**
+ * Why a note is left out
+ */
+export type ExclusionReason = 'folder' | 'tag' | 'frontmatter' | 'size';
+
+/**
+ * Exclusion rules for note embeddings
+ */
+export class EmbeddingExclusions {
+  private app: App;
+  private folders: string[] = [];
+  private patterns: RegExp[] = [];
+  private tags: string[] = [];
+  private maxBytes = 0;
+
+  constructor(app: App, settings: EmbeddingExclusionSettings = DEFAULT_EMBEDDING_EXCLUSIONS) {
+    this.app = app;
+    this.setSettings(settings);
+  }
+
+  /**
+   * Replace the rules
+   *
+   * @param settings - Folder/glob, tag and size rules
+   */
+  setSettings(settings: EmbeddingExclusionSettings): void {
+    // Fill in fields missing from older saved settings
+    const { folders, tags, maxNoteSizeKB } = { ...DEFAULT_EMBEDDING_EXCLUSIONS, ...settings };
+
+    const rules = folders
+      .map(rule => normalizePath(rule.trim()).replace(/\/+$/, ''))
+      .filter(rule => rule.length > 0);
+
+    this.folders = rules.filter(rule => !isGlobPattern(rule));
+    this.patterns = rules.filter(rule => isGlobPattern(rule)).map(rule => globToRegex(rule));
+    this.tags = tags
+      .map(tag => tag.trim().replace(/^#/, '').toLowerCase())
+      .filter(tag => tag.length > 0);
+    this.maxBytes = Math.max(0, maxNoteSizeKB) * 1024;
+  }
+
+  /**
+   * Why a note is left out of embeddings
+   *
+   * @param file - Markdown note
+   * @returns The first matching rule, or null if the note is indexed
+   */
+  getExclusionReason(file: TFile): ExclusionReason | null {
+    if (this.matchesFolder(file.path)) {
+      return 'folder';
+    }
+
+    if (this.maxBytes > 0 && file.stat.size > this.maxBytes) {
+      return 'size';
+    }
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    const optOut = cache?.frontmatter?.[INDEX_FRONTMATTER_KEY];
+    if (optOut === false || optOut === 'false') {
+      return 'frontmatter';
+    }
+
+    if (this.tags.length > 0 && cache) {
+      const noteTags = (getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, '').toLowerCase());
+      if (noteTags.some(tag => this.tags.some(rule => tag === rule || tag.startsWith(`${rule}/`)))) {
+        return 'tag';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a path against the folder and glob rules (the path itself or any parent folder)
+   */
+  private matchesFolder(path: string): boolean {
+    if (this.folders.some(folder => path === folder || path.startsWith(`${folder}/`))) {
+      return true;
+    }
+    if (this.patterns.length === 0) {
+      return false;
+    }
+
+    const parts = path.split('/');
+    for (let depth = parts.length; depth > 0; depth--) {
+      const candidate = parts.slice(0, depth).join('/');
+      if (this.patterns.some(pattern => pattern.test(candidate))) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Location: src/services/embeddings/EmbeddingIndexFile.ts
+ * Purpose: Binary file format for sharing note and trace embeddings between devices
+ *
+ * Features:
+ * - Notes keyed by path + content hash, with their chunk vectors keyed by chunk hash
+ * - Traces keyed by trace ID + content hash
+ * - One model per file (vectors are only reusable with the model that made them)
+ * - Compact: a JSON header followed by raw float32 vectors
+ *
+ * Layout:
+ * - 4 bytes: magic "NXEI"
+ * - uint32: format version
+ * - uint32: header length in bytes (padded so the vectors start 4-byte aligned)
+ * - UTF-8 JSON header: model, dimensions, export time, note and trace keys in vector order
+ * - float32 vectors (little-endian): each note's vector then its chunk vectors, then the traces
+ *
+ * Relationships:
+ * - Written by EmbeddingService.exportIndex through EmbeddingIndexWriter (vectors copied straight from SQLite)
+ * - Read by EmbeddingService.readExportedIndex
+ * - Imported vectors are adopted by IndexingQueue when their hashes still match
+ */
+
+/** Vault path of the exported index (in .nexus/ so it syncs with the vault) */
+export const EMBEDDING_INDEX_PATH = '.nexus/embedding-index.bin';
+
+const MAGIC = 'NXEI';
+const FORMAT_VERSION = 1;
+const PREAMBLE_BYTES = 12;
+
+export interface PortableChunkEmbedding {
+  contentHash: string;
+  vector: Float32Array;
+}
+
+export interface PortableNoteEmbedding {
+  notePath: string;
+  /** Hash of the preprocessed note content */
+  contentHash: string;
+  vector: Float32Array;
+  /** Vectors of the note's chunks, in chunk order */
+  chunks: PortableChunkEmbedding[];
+}
+
+export interface PortableTraceEmbedding {
+  traceId: string;
+  workspaceId: string;
+  sessionId: string | null;
+  contentHash: string;
+  vector: Float32Array;
+}
+
+export interface PortableEmbeddingIndex {
+  /** Model the vectors were made with */
+  model: string;
+  dimensions: number;
+  /** Export time (ms) */
+  exported: number;
+  notes: PortableNoteEmbedding[];
+  traces: PortableTraceEmbedding[];
+}
+
+/**
+ * Keys of an index to write, in vector order (vectors are added with EmbeddingIndexWriter.setVector)
+ */
+export interface PortableIndexLayout {
+  model: string;
+  dimensions: number;
+  exported: number;
+  notes: { notePath: string; contentHash: string; chunkHashes: string[] }[];
+  traces: Omit<PortableTraceEmbedding, 'vector'>[];
+}
+
+/**
+ * JSON header: keys of the stored vectors, in the order the vectors follow it
+ */
+interface IndexHeader {
+  model: string;
+  dimensions: number;
+  exported: number;
+  /** [notePath, contentHash, chunk content hashes] */
+  notes: [string, string, string[]][];
+  /** [traceId, workspaceId, sessionId, contentHash] */
+  traces: [string, string, string | null, string][];
+}
+
+/**
+ * Utility class for encoding and decoding exported embedding indexes
+ */
+export class EmbeddingIndexFile {
+  /**
+   * Encode an index to the binary file format
+   *
+   * @param index - Vectors to store; every vector must have index.dimensions values
+   */
+  static encode(index: PortableEmbeddingIndex): ArrayBuffer {
+    const writer = new EmbeddingIndexWriter({
+      model: index.model,
+      dimensions: index.dimensions,
+      exported: index.exported,
+      notes: index.notes.map(note => ({
+        notePath: note.notePath,
+        contentHash: note.contentHash,
+        chunkHashes: note.chunks.map(chunk => chunk.contentHash)
+      })),
+      traces: index.traces.map(({ vector: _vector, ...trace }) => trace)
+    });
+
+    const vectors = [
+      ...index.notes.flatMap(note => [note.vector, ...note.chunks.map(chunk => chunk.vector)]),
+      ...index.traces.map(trace => trace.vector)
+    ];
+    vectors.forEach((vector, position) => writer.setVector(position, vector));
+
+    return writer.finish();
+  }
+
+  /**
+   * Decode a file written by encode()
+   * The vectors are views into the buffer, not copies.
+   *
+   * @param buffer - File contents
+   * @throws Error if the file is not an embedding index or is truncated
+   */
+  static decode(buffer: ArrayBuffer): PortableEmbeddingIndex {
+    if (buffer.byteLength < PREAMBLE_BYTES) {
+      throw new Error('Embedding index file is truncated');
+    }
+
+    const view = new DataView(buffer);
+    const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 4));
+    if (magic !== MAGIC) {
+      throw new Error('Not an embedding index file');
+    }
+
+    const version = view.getUint32(4, true);
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported embedding index version ${version}`);
+    }
+
+    const headerLength = view.getUint32(8, true);
+    const vectorStart = PREAMBLE_BYTES + headerLength;
+    if (vectorStart > buffer.byteLength || headerLength % 4 !== 0) {
+      throw new Error('Embedding index file is truncated');
+    }
+
+    const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_BYTES, headerLength))) as IndexHeader;
+    const { dimensions } = header;
+    const vectorCount = header.notes.reduce((count, [, , chunkHashes]) => count + 1 + chunkHashes.length, 0) +
+      header.traces.length;
+    if (buffer.byteLength - vectorStart !== vectorCount * dimensions * 4) {
+      throw new Error('Embedding index file is truncated');
+    }
+
+    const values = new Float32Array(buffer, vectorStart);
+    let next = 0;
+    const nextVector = () => values.subarray(next * dimensions, ++next * dimensions);
+
+    return {
+      model: header.model,
+      dimensions,
+      exported: header.exported,
+      notes: header.notes.map(([notePath, contentHash, chunkHashes]) => ({
+        notePath,
+        contentHash,
+        vector: nextVector(),
+        chunks: chunkHashes.map(chunkHash => ({ contentHash: chunkHash, vector: nextVector() }))
+      })),
+      traces: header.traces.map(([traceId, workspaceId, sessionId, contentHash]) => ({
+        traceId,
+        workspaceId,
+        sessionId,
+        contentHash,
+        vector: nextVector()
+      }))
+    };
+  }
+}
+
+/**
+ * Builds an index file in one preallocated buffer
+ * Vectors are copied in one at a time (e.g. straight from SQLite BLOBs), so exporting never
+ * holds more than the file itself.
+ */
+export class EmbeddingIndexWriter {
+  readonly vectorCount: number;
+  private readonly buffer: ArrayBuffer;
+  private readonly vectorStart: number;
+  private readonly vectorBytes: number;
+  private readonly written: Uint8Array;
+
+  /**
+   * @param layout - Keys of every vector the file will hold, in vector order
+   */
+  constructor(private readonly layout: PortableIndexLayout) {
+    const header: IndexHeader = {
+      model: layout.model,
+      dimensions: layout.dimensions,
+      exported: layout.exported,
+      notes: layout.notes.map(note => [note.notePath, note.contentHash, note.chunkHashes]),
+      traces: layout.traces.map(trace => [trace.traceId, trace.workspaceId, trace.sessionId, trace.contentHash])
+    };
+
+    let headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    const padding = (4 - (headerBytes.length % 4)) % 4;
+    if (padding > 0) {
+      // Pad with spaces, which JSON.parse ignores
+      const padded = new Uint8Array(headerBytes.length + padding).fill(0x20);
+      padded.set(headerBytes);
+      headerBytes = padded;
+    }
+
+    this.vectorCount = layout.notes.reduce((count, note) => count + 1 + note.chunkHashes.length, 0) +
+      layout.traces.length;
+    this.vectorBytes = layout.dimensions * 4;
+    this.vectorStart = PREAMBLE_BYTES + headerBytes.length;
+    this.buffer = new ArrayBuffer(this.vectorStart + this.vectorCount * this.vectorBytes);
+    this.written = new Uint8Array(this.vectorCount);
+
+    const bytes = new Uint8Array(this.buffer);
+    const view = new DataView(this.buffer);
+    bytes.set(new TextEncoder().encode(MAGIC), 0);
+    view.setUint32(4, FORMAT_VERSION, true);
+    view.setUint32(8, headerBytes.length, true);
+    bytes.set(headerBytes, PREAMBLE_BYTES);
+  }
+
+  /**
+   * Store one vector
+   * Float32Array and SQLite BLOBs both use the platform byte order, which is little-endian
+   * everywhere Obsidian runs.
+   *
+   * @param position - Vector position: notes in order, each followed by its chunks, then traces
+   * @param vector - float32 values, or their raw bytes
+   */
+  setVector(position: number, vector: Float32Array | Uint8Array): void {
+    if (!Number.isInteger(position) || position < 0 || position >= this.vectorCount) {
+      throw new Error(`Vector position ${position} is outside the index (${this.vectorCount} vectors)`);
+    }
+
+    const bytes = vector instanceof Uint8Array
+      ? vector
+      : new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+    if (bytes.byteLength !== this.vectorBytes) {
+      throw new Error(`Vector has ${bytes.byteLength / 4} dimensions, expected ${this.layout.dimensions}`);
+    }
+
+    new Uint8Array(this.buffer, this.vectorStart + position * this.vectorBytes, this.vectorBytes).set(bytes);
+    this.written[position] = 1;
+  }
+
+  /**
+   * The finished file
+   * @throws Error if a vector was never set
+   */
+  finish(): ArrayBuffer {
+    const missing = this.written.indexOf(0);
+    if (missing !== -1) {
+      throw new Error(`Embedding index is missing vector ${missing} of ${this.vectorCount}`);
+    }
+    return this.buffer;
+  }
+}
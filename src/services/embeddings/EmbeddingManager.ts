@@ -6,6 +6,10 @@
  * - Desktop-only (disabled on mobile)
  * - Lazy initialization (3-second delay on startup)
  * - Coordinates EmbeddingEngine, EmbeddingService, EmbeddingWatcher, IndexingQueue, and StatusBar
+ * - Switches embedding backend when settings change and re-indexes in the background
+ * - Applies exclusion rule changes with a new indexing run (no model reload)
+ * - Moves notes opened during indexing to the front of the queue
+ * - Exports the embedding index to .nexus/ and re-indexes on import to adopt synced vectors
  * - Graceful shutdown with cleanup
  *
  * Relationships:
@@ -13,12 +17,15 @@
  * - Manages all embedding system components
  */
 
-import { App, Plugin, Platform } from 'obsidian';
+import { App, Plugin, Platform, EventRef } from 'obsidian';
 import { EmbeddingEngine } from './EmbeddingEngine';
 import { EmbeddingService } from './EmbeddingService';
 import { EmbeddingWatcher } from './EmbeddingWatcher';
 import { IndexingQueue } from './IndexingQueue';
 import { EmbeddingStatusBar } from './EmbeddingStatusBar';
+import { EmbeddingSettingsNotifier } from './EmbeddingSettingsNotifier';
+import { EmbeddingExclusions } from './EmbeddingExclusions';
+import { EmbeddingSettings, DEFAULT_EMBEDDING_EXCLUSIONS } from '../../types/embeddings';
 import type { SQLiteCacheManager } from '../../database/storage/SQLiteCacheManager';
 
 /**
@@ -30,8 +37,10 @@ export class EmbeddingManager {
   private app: App;
   private plugin: Plugin;
   private db: SQLiteCacheManager;
+  private settings: EmbeddingSettings;
 
   private engine: EmbeddingEngine | null = null;
+  private exclusions: EmbeddingExclusions | null = null;
   private service: EmbeddingService | null = null;
   private watcher: EmbeddingWatcher | null = null;
   private queue: IndexingQueue | null = null;
@@ -40,14 +49,22 @@ export class EmbeddingManager {
   private isEnabled: boolean;
   private isInitialized: boolean = false;
 
+  private startupTimer: ReturnType<typeof setTimeout> | null = null;
+  private indexingRun: Promise<void> | null = null;
+  private indexingGeneration = 0;
+  private settingsUpdate: Promise<void> = Promise.resolve();
+  private settingsEventRef: EventRef | null = null;
+
   constructor(
     app: App,
     plugin: Plugin,
-    db: SQLiteCacheManager
+    db: SQLiteCacheManager,
+    settings: EmbeddingSettings
   ) {
     this.app = app;
     this.plugin = plugin;
     this.db = db;
+    this.settings = this.copySettings(settings);
 
     // Disable on mobile entirely
     this.isEnabled = !Platform.isMobile;
@@ -64,8 +81,9 @@ export class EmbeddingManager {
 
     try {
       // Create components
-      this.engine = new EmbeddingEngine();
-      this.service = new EmbeddingService(this.app, this.db, this.engine);
+      this.engine = new EmbeddingEngine(this.settings);
+      this.exclusions = new EmbeddingExclusions(this.app, this.settings.exclusions ?? DEFAULT_EMBEDDING_EXCLUSIONS);
+      this.service = new EmbeddingService(this.app, this.db, this.engine, this.exclusions);
       this.watcher = new EmbeddingWatcher(this.app, this.service);
       this.queue = new IndexingQueue(this.app, this.service, this.db);
       this.statusBar = new EmbeddingStatusBar(this.plugin, this.queue);
@@ -76,16 +94,23 @@ export class EmbeddingManager {
       // Start watching vault events
       this.watcher.start();
 
+      // Notes opened while indexing are indexed next
+      this.plugin.registerEvent(this.app.workspace.on('file-open', (file) => {
+        if (file) {
+          this.queue?.prioritize(file.path);
+        }
+      }));
+
+      // Switch backend when embedding settings are applied
+      this.settingsEventRef = EmbeddingSettingsNotifier.onSettingsChanged((settings) => {
+        this.settingsUpdate = this.settingsUpdate.then(() => this.applySettings(settings));
+      });
+
       // Start background indexing after a brief delay
       // This ensures the plugin is fully loaded before we start heavy processing
-      setTimeout(async () => {
-        if (this.queue) {
-          // Phase 1: Index all notes
-          await this.queue.startFullIndex();
-
-          // Phase 2: Backfill existing traces (from migration)
-          await this.queue.startTraceIndex();
-        }
+      this.startupTimer = setTimeout(() => {
+        this.startupTimer = null;
+        this.startIndexing();
       }, 3000); // 3-second delay
 
       this.isInitialized = true;
@@ -96,6 +121,189 @@ export class EmbeddingManager {
     }
   }
 
+  /**
+   * Run a full note index followed by the trace and conversation backfills
+   * Notes, traces and conversations embedded by a previous model are re-embedded with the current one.
+   */
+  private startIndexing(): void {
+    const generation = ++this.indexingGeneration;
+
+    this.indexingRun = (async () => {
+      if (!this.queue) {
+        return;
+      }
+
+      // Phase 1: Index all notes
+      await this.queue.startFullIndex();
+
+      // Phase 2: Backfill existing traces (from migration or a model change)
+      if (generation === this.indexingGeneration) {
+        await this.queue.startTraceIndex();
+      }
+
+      // Phase 3: Embed new and changed conversations
+      if (generation === this.indexingGeneration) {
+        await this.queue.startConversationIndex();
+      }
+    })().catch(error => {
+      console.error('[EmbeddingManager] Indexing failed:', error);
+    });
+  }
+
+  /**
+   * Switch to the backend and model in new settings
+   * Stops indexing, swaps the engine, and re-indexes; the service drops
+   * embeddings from the previous model when the new engine initializes.
+   * When only the exclusion rules changed, the engine is kept and a new run
+   * removes newly excluded notes and indexes newly included ones.
+   *
+   * @param settings - New embedding settings
+   */
+  private async applySettings(settings: EmbeddingSettings): Promise<void> {
+    if (!this.isInitialized || !this.service || !this.queue) {
+      return;
+    }
+
+    const sameBackend = this.isSameSettings(settings);
+    const sameExclusions = JSON.stringify(settings.exclusions ?? DEFAULT_EMBEDDING_EXCLUSIONS) ===
+      JSON.stringify(this.settings.exclusions ?? DEFAULT_EMBEDDING_EXCLUSIONS);
+    if (sameBackend && sameExclusions) {
+      return;
+    }
+
+    try {
+      this.settings = this.copySettings(settings);
+      this.exclusions?.setSettings(this.settings.exclusions ?? DEFAULT_EMBEDDING_EXCLUSIONS);
+
+      if (sameBackend) {
+        // A pending startup run picks up the new rules by itself
+        if (!this.startupTimer) {
+          await this.stopIndexing();
+          this.startIndexing();
+        }
+        return;
+      }
+
+      // Stop the current run (including a pending startup run) before swapping engines
+      if (this.startupTimer) {
+        clearTimeout(this.startupTimer);
+        this.startupTimer = null;
+      }
+      await this.stopIndexing();
+
+      const previousEngine = this.engine;
+      this.engine = new EmbeddingEngine(this.settings);
+      this.service.setEngine(this.engine);
+      if (previousEngine) {
+        await previousEngine.dispose();
+      }
+
+      this.startIndexing();
+    } catch (error) {
+      console.error('[EmbeddingManager] Failed to apply embedding settings:', error);
+    }
+  }
+
+  /**
+   * Cancel the current indexing run and wait for it to finish
+   * The queue only accepts cancellation once it is processing, so cancel is
+   * repeated while the run is still scanning for notes to index.
+   */
+  private async stopIndexing(): Promise<void> {
+    this.indexingGeneration++;
+    const run = this.indexingRun;
+    if (!run || !this.queue) {
+      return;
+    }
+
+    let finished = false;
+    void run.then(() => { finished = true; });
+    while (!finished) {
+      this.queue.cancel();
+      await Promise.race([run, new Promise(r => setTimeout(r, 100))]);
+    }
+    this.indexingRun = null;
+  }
+
+  /**
+   * Export note and trace embeddings to .nexus/ for other devices syncing this vault
+   * Indexing is paused meanwhile, so the export does not race the queue's writes.
+   *
+   * @returns Number of notes and traces exported, or null if embeddings are unavailable
+   */
+  async exportIndex(): Promise<{ notes: number; traces: number } | null> {
+    if (!this.isInitialized || !this.service) {
+      return null;
+    }
+
+    const queue = this.queue;
+    const pauseQueue = !!queue && queue.isIndexing() && !queue.isIndexingPaused();
+    if (pauseQueue) {
+      queue.pause();
+    }
+    try {
+      return await this.service.exportIndex();
+    } finally {
+      if (pauseQueue) {
+        queue.resume();
+      }
+    }
+  }
+
+  /**
+   * Adopt the exported index in .nexus/ now (startup indexing also adopts it)
+   * Restarts indexing, which takes imported vectors whose content hashes still match
+   * and embeds only what changed.
+   *
+   * @returns Number of notes and traces in the index, or null if there is none
+   * @throws Error if the file is not a valid index or was made with another model
+   */
+  async importIndex(): Promise<{ notes: number; traces: number } | null> {
+    if (!this.isInitialized || !this.service) {
+      return null;
+    }
+
+    const index = await this.service.readExportedIndex();
+    if (!index) {
+      return null;
+    }
+
+    await this.service.initialize();
+    if (!this.service.isIndexCompatible(index)) {
+      throw new Error(`The embedding index was made with ${index.model}, not ${this.service.getModelId()}`);
+    }
+
+    if (this.startupTimer) {
+      clearTimeout(this.startupTimer);
+      this.startupTimer = null;
+    }
+    await this.stopIndexing();
+    this.startIndexing();
+
+    return { notes: index.notes.length, traces: index.traces.length };
+  }
+
+  /**
+   * Copy settings, including the exclusion lists, so later changes to the caller's
+   * object cannot change the rules applySettings compares against
+   */
+  private copySettings(settings: EmbeddingSettings): EmbeddingSettings {
+    const { exclusions } = settings;
+    return {
+      ...settings,
+      ...(exclusions && {
+        exclusions: { ...exclusions, folders: [...exclusions.folders], tags: [...exclusions.tags] }
+      })
+    };
+  }
+
+  private isSameSettings(settings: EmbeddingSettings): boolean {
+    return settings.backend === this.settings.backend &&
+      (settings.model ?? '') === (this.settings.model ?? '') &&
+      (settings.baseUrl ?? '') === (this.settings.baseUrl ?? '') &&
+      (settings.apiKey ?? '') === (this.settings.apiKey ?? '');
+  }
+
   /**
    * Shutdown the embedding system
    * Called during plugin unload
@@ -106,6 +314,17 @@ export class EmbeddingManager {
     }
 
     try {
+      // Stop reacting to settings changes and cancel pending startup indexing
+      if (this.settingsEventRef) {
+        EmbeddingSettingsNotifier.unsubscribe(this.settingsEventRef);
+        this.settingsEventRef = null;
+      }
+      if (this.startupTimer) {
+        clearTimeout(this.startupTimer);
+        this.startupTimer = null;
+      }
+      this.indexingGeneration++;
+
       // Cancel any ongoing indexing
       if (this.queue) {
         this.queue.cancel();
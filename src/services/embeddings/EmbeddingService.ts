@@ -3,27 +3,104 @@
  * Purpose: Manage note and trace embeddings with sqlite-vec storage
  *
  * Features:
- * - Note-level embeddings (one per note, no chunking)
+ * - Note-level embeddings (one per note)
+ * - Chunk-level embeddings (heading-scoped passages with line ranges, via NoteChunker)
+ * - Incremental chunk updates: unchanged chunks keep their vectors, only new text is embedded
  * - Trace-level embeddings (one per memory trace)
+ * - Conversation embeddings (one per exchange window, via ConversationChunker); opted-out
+ *   conversations and branches are not indexed
  * - Content hash for change detection
+ * - Excluded notes (folder/tag/frontmatter/size rules) are skipped and their embeddings removed
  * - Content preprocessing (strip frontmatter, normalize whitespace)
+ * - Vector tables sized to the active model; embeddings from another model are purged at startup
+ * - Portable index: exports note and trace vectors to .nexus/ and reuses imported vectors whose
+ *   content hashes still match instead of embedding again
  * - Desktop-only (disabled on mobile)
  *
  * Relationships:
  * - Uses EmbeddingEngine for generating embeddings
+ * - Uses NoteChunker for splitting notes into passages
+ * - Uses ConversationChunker for splitting conversations into exchange windows
+ * - Uses EmbeddingExclusions to decide which notes are indexed
+ * - Uses EmbeddingIndexFile for the exported index format
  * - Uses SQLiteCacheManager for vector storage
  * - Used by EmbeddingWatcher and IndexingQueue
  */
 
 import { App, TFile, Notice, Platform } from 'obsidian';
 import { EmbeddingEngine } from './EmbeddingEngine';
+import { NoteChunker, NoteChunk } from './NoteChunker';
+import { ConversationChunker, ConversationChunkMessage } from './ConversationChunker';
+import { EmbeddingExclusions, ExclusionReason } from './EmbeddingExclusions';
+import {
+  EmbeddingIndexFile,
+  EmbeddingIndexWriter,
+  EMBEDDING_INDEX_PATH,
+  PortableEmbeddingIndex,
+  PortableIndexLayout,
+  PortableNoteEmbedding,
+  PortableTraceEmbedding
+} from './EmbeddingIndexFile';
 import type { SQLiteCacheManager } from '../../database/storage/SQLiteCacheManager';
 
+/**
+ * Best-matching passage of a note (line numbers are 1-based and inclusive)
+ */
+export interface NotePassage {
+  heading: string | null;
+  startLine: number;
+  endLine: number;
+}
+
 export interface SimilarNote {
   notePath: string;
   distance: number;
+  /** Set by semanticSearch when the note has chunk embeddings */
+  passage?: NotePassage;
 }
 
+/**
+ * Chunk row as stored in note_chunk_metadata
+ */
+interface ChunkRow {
+  rowid: number;
+  chunkIndex: number;
+  heading: string | null;
+  startLine: number;
+  endLine: number;
+  contentHash: string;
+}
+
+/**
+ * Multiplier on the candidate count for chunk search, so enough distinct notes
+ * remain after keeping only the best chunk of each note
+ */
+const CHUNK_CANDIDATE_FACTOR = 4;
+
+/** Vectors read from SQLite per query when exporting the index */
+const EXPORT_BATCH_SIZE = 256;
+
+/** Times the export re-reads the index when embeddings change while it copies vectors */
+const EXPORT_ATTEMPTS = 3;
+
+/**
+ * Vector position of an exported row, and the content hash its vector must still have
+ */
+interface ExportSlot {
+  position: number;
+  contentHash: string;
+}
+
+/**
+ * vec0 tables and the metadata tables linked to them by rowid
+ */
+const VECTOR_TABLES = [
+  { vectors: 'note_embeddings', metadata: 'embedding_metadata' },
+  { vectors: 'note_chunk_embeddings', metadata: 'note_chunk_metadata' },
+  { vectors: 'trace_embeddings', metadata: 'trace_embedding_metadata' },
+  { vectors: 'conversation_embeddings', metadata: 'conversation_embedding_metadata' }
+] as const;
+
 export interface TraceSearchResult {
   traceId: string;
   workspaceId: string;
@@ -31,6 +108,43 @@ export interface TraceSearchResult {
   distance: number;
 }
 
+/**
+ * Exchange of a conversation matching a semantic search
+ */
+export interface ConversationWindowMatch {
+  conversationId: string;
+  /** First and last message of the exchange */
+  startMessageId: string;
+  endMessageId: string;
+  startSequence: number;
+  endSequence: number;
+  /** Time of the exchange's first message */
+  timestamp: number;
+  distance: number;
+}
+
+export interface ConversationSearchFilter {
+  workspaceId?: string;
+  /** Only exchanges started at or after this time (ms) */
+  since?: number;
+  /** Only exchanges started at or before this time (ms) */
+  until?: number;
+}
+
+/**
+ * Conversation window row as stored in conversation_embedding_metadata
+ */
+interface ConversationWindowRow {
+  rowid: number;
+  windowIndex: number;
+  startMessageId: string;
+  endMessageId: string;
+  startSequence: number;
+  endSequence: number;
+  timestamp: number;
+  contentHash: string;
+}
+
 /**
  * Embedding service for notes and traces
  *
@@ -40,59 +154,165 @@ export class EmbeddingService {
   private app: App;
   private db: SQLiteCacheManager;
   private engine: EmbeddingEngine;
+  private exclusions: EmbeddingExclusions;
   private isEnabled: boolean;
+  private initPromise: Promise<void> | null = null;
 
   constructor(
     app: App,
     db: SQLiteCacheManager,
-    engine: EmbeddingEngine
+    engine: EmbeddingEngine,
+    exclusions?: EmbeddingExclusions
   ) {
     this.app = app;
     this.db = db;
     this.engine = engine;
+    this.exclusions = exclusions ?? new EmbeddingExclusions(app);
 
     // Disable on mobile entirely
     this.isEnabled = !Platform.isMobile;
   }
 
   /**
-   * Initialize the service (loads embedding model)
+   * Initialize the service (loads embedding model and sizes the vector tables to it)
+   * Safe to call repeatedly; later calls wait for the first one.
    */
   async initialize(): Promise<void> {
     if (!this.isEnabled) {
       return;
     }
 
+    if (!this.initPromise) {
+      this.initPromise = this.loadEngine();
+    }
+    await this.initPromise;
+  }
+
+  /**
+   * Switch to another engine (embedding settings changed)
+   * The next initialize() loads it and purges embeddings made by the previous model.
+   *
+   * @param engine - Engine for the new settings
+   */
+  setEngine(engine: EmbeddingEngine): void {
+    this.engine = engine;
+    this.initPromise = null;
+    this.isEnabled = !Platform.isMobile;
+  }
+
+  /**
+   * Why a note is left out of embeddings, or null if it is indexed
+   *
+   * @param file - Markdown note
+   */
+  getExclusionReason(file: TFile): ExclusionReason | null {
+    return this.exclusions.getExclusionReason(file);
+  }
+
+  /**
+   * Id of the model new embeddings are made with
+   */
+  getModelId(): string {
+    return this.engine.getModelInfo().id;
+  }
+
+  private async loadEngine(): Promise<void> {
     try {
       await this.engine.initialize();
+      await this.prepareVectorTables();
     } catch (error) {
       console.error('[EmbeddingService] Initialization failed:', error);
-      new Notice('Failed to load embedding model. Vector search will be unavailable.');
+      const reason = error instanceof Error ? ` ${error.message}` : '';
+      new Notice(`Failed to load ${this.engine.getBackendName()} embedding model. Vector search will be unavailable.${reason}`);
       this.isEnabled = false;
     }
   }
 
+  /**
+   * Make the vector tables match the active model
+   * - Different dimensions: recreate the vec0 table and clear its metadata
+   * - Same dimensions: delete embeddings made by another model
+   * Embeddings already made by the active model are kept, so an interrupted re-index resumes.
+   */
+  private async prepareVectorTables(): Promise<void> {
+    const { id, dimensions } = this.engine.getModelInfo();
+    let changed = false;
+
+    for (const table of VECTOR_TABLES) {
+      const current = await this.getVectorDimensions(table.vectors);
+
+      if (current !== dimensions) {
+        await this.db.exec(`DROP TABLE IF EXISTS ${table.vectors}`);
+        await this.db.exec(`CREATE VIRTUAL TABLE ${table.vectors} USING vec0(embedding float[${dimensions}])`);
+        await this.db.run(`DELETE FROM ${table.metadata}`);
+        changed = true;
+        continue;
+      }
+
+      const stale = await this.db.query<{ rowid: number }>(
+        `SELECT rowid FROM ${table.metadata} WHERE model != ?`,
+        [id]
+      );
+      if (stale.length === 0) {
+        continue;
+      }
+
+      await this.db.transaction(async () => {
+        for (const row of stale) {
+          await this.db.run(`DELETE FROM ${table.vectors} WHERE rowid = ?`, [row.rowid]);
+          await this.db.run(`DELETE FROM ${table.metadata} WHERE rowid = ?`, [row.rowid]);
+        }
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      await this.db.save();
+    }
+  }
+
+  /**
+   * Dimensions a vec0 table was created with, or null if it does not exist
+   */
+  private async getVectorDimensions(tableName: string): Promise<number | null> {
+    const row = await this.db.queryOne<{ sql: string }>(
+      'SELECT sql FROM sqlite_master WHERE type = ? AND name = ?',
+      ['table', tableName]
+    );
+    const match = row?.sql.match(/float\[(\d+)\]/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
   // ==================== NOTE EMBEDDINGS ====================
 
   /**
    * Embed a single note (or update if content changed)
    *
    * @param notePath - Path to the note
+   * @param imported - Vectors from an exported index; used where their content hashes match
+   * @returns True if the imported vectors matched the note's content (adopted instead of embedded)
    */
-  async embedNote(notePath: string): Promise<void> {
-    if (!this.isEnabled) return;
+  async embedNote(notePath: string, imported?: PortableNoteEmbedding): Promise<boolean> {
+    await this.initialize();
+    if (!this.isEnabled) return false;
 
     try {
       const file = this.app.vault.getAbstractFileByPath(notePath);
       if (!file || !(file instanceof TFile)) {
         // File doesn't exist - remove stale embedding
         await this.removeEmbedding(notePath);
-        return;
+        return false;
       }
 
       // Only process markdown files
       if (file.extension !== 'md') {
-        return;
+        return false;
+      }
+
+      // Excluded notes (e.g. just tagged or marked nexus-index: false) lose their embeddings
+      if (this.exclusions.getExclusionReason(file)) {
+        await this.removeEmbedding(notePath);
+        return false;
       }
 
       const content = await this.app.vault.read(file);
@@ -100,58 +320,197 @@ export class EmbeddingService {
 
       // Skip empty notes
       if (!processedContent) {
-        return;
+        return false;
       }
 
       const contentHash = this.hashContent(processedContent);
+      const adopted = imported?.contentHash === contentHash;
 
       // Check if already up to date
-      const existing = await this.db.queryOne<{ rowid: number; contentHash: string }>(
-        'SELECT rowid, contentHash FROM embedding_metadata WHERE notePath = ?',
+      const existing = await this.db.queryOne<{ rowid: number; contentHash: string; model: string }>(
+        'SELECT rowid, contentHash, model FROM embedding_metadata WHERE notePath = ?',
         [notePath]
       );
 
-      if (existing && existing.contentHash === contentHash) {
-        return; // Already current
+      if (!existing || existing.contentHash !== contentHash || existing.model !== this.getModelId()) {
+        const importedVector = adopted ? imported.vector : undefined;
+        await this.upsertNoteEmbedding(notePath, processedContent, contentHash, existing?.rowid ?? null, importedVector);
       }
 
-      // Generate embedding
-      const embedding = await this.engine.generateEmbedding(processedContent);
-      // Convert Float32Array to Buffer for SQLite BLOB binding
-      const embeddingBuffer = Buffer.from(embedding.buffer);
+      // Chunks are synced even when the note text is unchanged, so line ranges follow frontmatter edits
+      const importedChunks = new Map(imported?.chunks.map(chunk => [chunk.contentHash, chunk.vector]));
+      await this.syncChunkEmbeddings(notePath, content, processedContent, importedChunks);
+      return adopted;
+    } catch (error) {
+      console.error(`[EmbeddingService] Failed to embed note ${notePath}:`, error);
+      throw error;
+    }
+  }
 
-      const now = Date.now();
-      const modelInfo = this.engine.getModelInfo();
+  /**
+   * Insert or update the note-level embedding
+   *
+   * @param notePath - Path to the note
+   * @param processedContent - Preprocessed note content
+   * @param contentHash - Hash of the preprocessed content
+   * @param rowid - Existing row, or null to insert
+   * @param importedVector - Vector of the same content from an exported index, stored instead of embedding
+   */
+  private async upsertNoteEmbedding(
+    notePath: string,
+    processedContent: string,
+    contentHash: string,
+    rowid: number | null,
+    importedVector?: Float32Array
+  ): Promise<void> {
+    // Generate embedding
+    const embedding = importedVector ?? await this.engine.generateEmbedding(processedContent);
+    // Convert Float32Array to Buffer for SQLite BLOB binding
+    const embeddingBuffer = this.toBlob(embedding);
 
-      // Insert or update
-      if (existing) {
-        // Update existing - vec0 tables need direct buffer, no vec_f32() function
-        await this.db.run(
-          'UPDATE note_embeddings SET embedding = ? WHERE rowid = ?',
-          [embeddingBuffer, existing.rowid]
-        );
-        await this.db.run(
-          'UPDATE embedding_metadata SET contentHash = ?, updated = ?, model = ? WHERE rowid = ?',
-          [contentHash, now, modelInfo.id, existing.rowid]
-        );
-      } else {
-        // Insert new - vec0 auto-generates rowid, we get it after insert
-        await this.db.run(
-          'INSERT INTO note_embeddings(embedding) VALUES (?)',
-          [embeddingBuffer]
-        );
-        const result = await this.db.queryOne<{ id: number }>('SELECT last_insert_rowid() as id');
-        const rowid = result?.id ?? 0;
+    const now = Date.now();
+    const modelInfo = this.engine.getModelInfo();
 
-        await this.db.run(
-          `INSERT INTO embedding_metadata(rowid, notePath, model, contentHash, created, updated)
-           VALUES (?, ?, ?, ?, ?, ?)`,
-          [rowid, notePath, modelInfo.id, contentHash, now, now]
-        );
+    // Insert or update
+    if (rowid !== null) {
+      // Update existing - vec0 tables need direct buffer, no vec_f32() function
+      await this.db.run(
+        'UPDATE note_embeddings SET embedding = ? WHERE rowid = ?',
+        [embeddingBuffer, rowid]
+      );
+      await this.db.run(
+        'UPDATE embedding_metadata SET contentHash = ?, updated = ?, model = ? WHERE rowid = ?',
+        [contentHash, now, modelInfo.id, rowid]
+      );
+    } else {
+      // Insert new - vec0 auto-generates rowid, we get it after insert
+      await this.db.run(
+        'INSERT INTO note_embeddings(embedding) VALUES (?)',
+        [embeddingBuffer]
+      );
+      const result = await this.db.queryOne<{ id: number }>('SELECT last_insert_rowid() as id');
+      const newRowid = result?.id ?? 0;
+
+      await this.db.run(
+        `INSERT INTO embedding_metadata(rowid, notePath, model, contentHash, created, updated)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [newRowid, notePath, modelInfo.id, contentHash, now, now]
+      );
+    }
+  }
+
+  /**
+   * Bring the chunk embeddings of a note up to date
+   * Chunks whose text is unchanged keep their vector (only their position is updated);
+   * new or edited chunks are embedded (or take an imported vector of the same text), and chunks
+   * that no longer exist are removed.
+   *
+   * @param notePath - Path to the note
+   * @param content - Raw note content
+   * @param processedContent - Preprocessed note content, embedded as one chunk if no chunk qualifies
+   * @param importedChunks - Imported chunk vectors by content hash
+   */
+  private async syncChunkEmbeddings(
+    notePath: string,
+    content: string,
+    processedContent: string,
+    importedChunks: Map<string, Float32Array> = new Map()
+  ): Promise<void> {
+    const lineCount = content.split('\n').length;
+    let chunks = NoteChunker.chunk(content)
+      .map(chunk => ({ chunk, text: this.preprocessContent(this.getChunkText(chunk), false) }))
+      .filter((entry): entry is { chunk: NoteChunk; text: string } => entry.text !== null);
+
+    if (chunks.length === 0) {
+      chunks = [{
+        chunk: { index: 0, heading: null, startLine: 1, endLine: lineCount, text: content },
+        text: processedContent
+      }];
+    }
+
+    const existingRows = await this.db.query<ChunkRow>(
+      'SELECT rowid, chunkIndex, heading, startLine, endLine, contentHash FROM note_chunk_metadata WHERE notePath = ?',
+      [notePath]
+    );
+    const unusedByHash = new Map<string, ChunkRow[]>();
+    for (const row of existingRows) {
+      const rows = unusedByHash.get(row.contentHash) ?? [];
+      rows.push(row);
+      unusedByHash.set(row.contentHash, rows);
+    }
+
+    const now = Date.now();
+    const modelInfo = this.engine.getModelInfo();
+
+    for (const [index, { chunk, text }] of chunks.entries()) {
+      const contentHash = this.hashContent(text);
+      const reusable = unusedByHash.get(contentHash)?.shift();
+
+      if (reusable) {
+        // Same text - keep the vector, follow the chunk if it moved
+        if (
+          reusable.chunkIndex !== index ||
+          reusable.heading !== chunk.heading ||
+          reusable.startLine !== chunk.startLine ||
+          reusable.endLine !== chunk.endLine
+        ) {
+          await this.db.run(
+            'UPDATE note_chunk_metadata SET chunkIndex = ?, heading = ?, startLine = ?, endLine = ?, updated = ? WHERE rowid = ?',
+            [index, chunk.heading, chunk.startLine, chunk.endLine, now, reusable.rowid]
+          );
+        }
+        continue;
       }
+
+      const embedding = importedChunks.get(contentHash) ?? await this.engine.generateEmbedding(text);
+      await this.db.run(
+        'INSERT INTO note_chunk_embeddings(embedding) VALUES (?)',
+        [this.toBlob(embedding)]
+      );
+      const result = await this.db.queryOne<{ id: number }>('SELECT last_insert_rowid() as id');
+      const rowid = result?.id ?? 0;
+
+      await this.db.run(
+        `INSERT INTO note_chunk_metadata(rowid, notePath, chunkIndex, heading, startLine, endLine, model, contentHash, created, updated)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [rowid, notePath, index, chunk.heading, chunk.startLine, chunk.endLine, modelInfo.id, contentHash, now, now]
+      );
+    }
+
+    // Remove chunks that were edited away
+    for (const rows of unusedByHash.values()) {
+      for (const row of rows) {
+        await this.db.run('DELETE FROM note_chunk_embeddings WHERE rowid = ?', [row.rowid]);
+        await this.db.run('DELETE FROM note_chunk_metadata WHERE rowid = ?', [row.rowid]);
+      }
+    }
+  }
+
+  /**
+   * Text embedded for a chunk: the heading path gives short passages their context
+   */
+  private getChunkText(chunk: NoteChunk): string {
+    return chunk.heading ? `${chunk.heading}\n${chunk.text}` : chunk.text;
+  }
+
+  /**
+   * Check whether a note has a note-level embedding
+   *
+   * @param notePath - Path to the note
+   */
+  async hasNoteEmbedding(notePath: string): Promise<boolean> {
+    await this.initialize();
+    if (!this.isEnabled) return false;
+
+    try {
+      const row = await this.db.queryOne<{ rowid: number }>(
+        'SELECT rowid FROM embedding_metadata WHERE notePath = ?',
+        [notePath]
+      );
+      return row !== null;
     } catch (error) {
-      console.error(`[EmbeddingService] Failed to embed note ${notePath}:`, error);
-      throw error;
+      console.error(`[EmbeddingService] Failed to check embedding for ${notePath}:`, error);
+      return false;
     }
   }
 
@@ -163,6 +522,7 @@ export class EmbeddingService {
    * @returns Array of similar notes with distance scores
    */
   async findSimilarNotes(notePath: string, limit = 10): Promise<SimilarNote[]> {
+    await this.initialize();
     if (!this.isEnabled) return [];
 
     try {
@@ -199,13 +559,16 @@ export class EmbeddingService {
 
   /**
    * Semantic search for notes by query text
+   * Matches chunk embeddings and keeps the best passage of each note;
+   * notes without chunks yet (indexed before chunking) match on their note embedding.
    * Applies heuristic re-ranking (Recency + Title Match)
    *
    * @param query - Search query
    * @param limit - Maximum number of results (default: 10)
-   * @returns Array of matching notes with distance scores
+   * @returns Array of matching notes (one per note) with distance scores and best passage
    */
   async semanticSearch(query: string, limit = 10): Promise<SimilarNote[]> {
+    await this.initialize();
     if (!this.isEnabled) return [];
 
     try {
@@ -217,18 +580,63 @@ export class EmbeddingService {
       // Fetch 3x the limit to allow for re-ranking
       // We also need the 'updated' timestamp for recency scoring
       const candidateLimit = limit * 3;
-      
-      const candidates = await this.db.query<{ notePath: string; distance: number; updated: number }>(`
+
+      const chunkCandidates = await this.db.query<{
+        notePath: string;
+        heading: string | null;
+        startLine: number;
+        endLine: number;
+        updated: number;
+        distance: number;
+      }>(`
+        SELECT
+          cm.notePath,
+          cm.heading,
+          cm.startLine,
+          cm.endLine,
+          COALESCE(em.updated, cm.updated) as updated,
+          vec_distance_l2(ce.embedding, ?) as distance
+        FROM note_chunk_embeddings ce
+        JOIN note_chunk_metadata cm ON cm.rowid = ce.rowid
+        LEFT JOIN embedding_metadata em ON em.notePath = cm.notePath
+        ORDER BY distance
+        LIMIT ?
+      `, [queryBuffer, candidateLimit * CHUNK_CANDIDATE_FACTOR]);
+
+      const noteCandidates = await this.db.query<{ notePath: string; distance: number; updated: number }>(`
         SELECT
           em.notePath,
           em.updated,
           vec_distance_l2(ne.embedding, ?) as distance
         FROM note_embeddings ne
         JOIN embedding_metadata em ON em.rowid = ne.rowid
+        WHERE NOT EXISTS (SELECT 1 FROM note_chunk_metadata cm WHERE cm.notePath = em.notePath)
         ORDER BY distance
         LIMIT ?
       `, [queryBuffer, candidateLimit]);
 
+      // Keep the best chunk of each note (rows are ordered by distance)
+      const bestByNote = new Map<string, { notePath: string; distance: number; updated: number; passage?: NotePassage }>();
+      for (const chunk of chunkCandidates) {
+        if (!bestByNote.has(chunk.notePath)) {
+          bestByNote.set(chunk.notePath, {
+            notePath: chunk.notePath,
+            distance: chunk.distance,
+            updated: chunk.updated,
+            passage: { heading: chunk.heading, startLine: chunk.startLine, endLine: chunk.endLine }
+          });
+        }
+      }
+      for (const note of noteCandidates) {
+        if (!bestByNote.has(note.notePath)) {
+          bestByNote.set(note.notePath, note);
+        }
+      }
+
+      const candidates = Array.from(bestByNote.values())
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, candidateLimit);
+
       // 2. RE-RANKING LOGIC
       const now = Date.now();
       const oneDayMs = 1000 * 60 * 60 * 24;
@@ -263,7 +671,8 @@ export class EmbeddingService {
         return {
           notePath: item.notePath,
           distance: score,
-          originalDistance: item.distance // Keep for debugging if needed
+          originalDistance: item.distance, // Keep for debugging if needed
+          ...(item.passage && { passage: item.passage })
         };
       });
 
@@ -277,6 +686,44 @@ export class EmbeddingService {
     }
   }
 
+  /**
+   * Cosine similarity of a query to each of a few texts, embedded on the fly
+   * (for re-ranking small candidate sets that have no stored embeddings)
+   *
+   * @param query - Query text
+   * @param texts - Texts to score
+   * @returns Similarities in input order (0 for texts too short to embed), or null if embeddings are unavailable
+   */
+  async scoreTexts(query: string, texts: string[]): Promise<number[] | null> {
+    await this.initialize();
+    if (!this.isEnabled) return null;
+
+    try {
+      const queryEmbedding = await this.engine.generateEmbedding(query);
+      const prepared = texts.map(text => this.preprocessContent(text, false));
+      const embeddable = prepared.filter((text): text is string => text !== null);
+      const embeddings = embeddable.length > 0 ? await this.engine.generateEmbeddings(embeddable) : [];
+
+      let next = 0;
+      return prepared.map(text => text === null ? 0 : this.cosineSimilarity(queryEmbedding, embeddings[next++]));
+    } catch (error) {
+      console.error('[EmbeddingService] Scoring texts failed:', error);
+      return null;
+    }
+  }
+
+  private cosineSimilarity(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
   /**
    * Remove embedding for a note
    *
@@ -295,6 +742,15 @@ export class EmbeddingService {
         await this.db.run('DELETE FROM note_embeddings WHERE rowid = ?', [existing.rowid]);
         await this.db.run('DELETE FROM embedding_metadata WHERE rowid = ?', [existing.rowid]);
       }
+
+      const chunks = await this.db.query<{ rowid: number }>(
+        'SELECT rowid FROM note_chunk_metadata WHERE notePath = ?',
+        [notePath]
+      );
+      for (const chunk of chunks) {
+        await this.db.run('DELETE FROM note_chunk_embeddings WHERE rowid = ?', [chunk.rowid]);
+        await this.db.run('DELETE FROM note_chunk_metadata WHERE rowid = ?', [chunk.rowid]);
+      }
     } catch (error) {
       console.error(`[EmbeddingService] Failed to remove embedding for ${notePath}:`, error);
     }
@@ -314,6 +770,10 @@ export class EmbeddingService {
         'UPDATE embedding_metadata SET notePath = ? WHERE notePath = ?',
         [newPath, oldPath]
       );
+      await this.db.run(
+        'UPDATE note_chunk_metadata SET notePath = ? WHERE notePath = ?',
+        [newPath, oldPath]
+      );
     } catch (error) {
       console.error(`[EmbeddingService] Failed to update path ${oldPath} -> ${newPath}:`, error);
     }
@@ -328,13 +788,16 @@ export class EmbeddingService {
    * @param workspaceId - Workspace ID
    * @param sessionId - Session ID (optional)
    * @param content - Trace content to embed
+   * @param imported - Vector from an exported index; used if its content hash matches
    */
   async embedTrace(
     traceId: string,
     workspaceId: string,
     sessionId: string | undefined,
-    content: string
+    content: string,
+    imported?: PortableTraceEmbedding
   ): Promise<void> {
+    await this.initialize();
     if (!this.isEnabled) return;
 
     try {
@@ -346,19 +809,21 @@ export class EmbeddingService {
       const contentHash = this.hashContent(processedContent);
 
       // Check if already exists
-      const existing = await this.db.queryOne<{ rowid: number; contentHash: string }>(
-        'SELECT rowid, contentHash FROM trace_embedding_metadata WHERE traceId = ?',
+      const existing = await this.db.queryOne<{ rowid: number; contentHash: string; model: string }>(
+        'SELECT rowid, contentHash, model FROM trace_embedding_metadata WHERE traceId = ?',
         [traceId]
       );
 
-      if (existing && existing.contentHash === contentHash) {
+      if (existing && existing.contentHash === contentHash && existing.model === this.getModelId()) {
         return; // Already current
       }
 
-      // Generate embedding
-      const embedding = await this.engine.generateEmbedding(processedContent);
+      // Generate embedding (or reuse the imported one of the same content)
+      const embedding = imported?.contentHash === contentHash
+        ? imported.vector
+        : await this.engine.generateEmbedding(processedContent);
       // Convert Float32Array to Buffer for SQLite BLOB binding
-      const embeddingBuffer = Buffer.from(embedding.buffer);
+      const embeddingBuffer = this.toBlob(embedding);
 
       const now = Date.now();
       const modelInfo = this.engine.getModelInfo();
@@ -408,6 +873,7 @@ export class EmbeddingService {
     workspaceId: string,
     limit = 20
   ): Promise<TraceSearchResult[]> {
+    await this.initialize();
     if (!this.isEnabled) return [];
 
     try {
@@ -525,8 +991,422 @@ export class EmbeddingService {
     }
   }
 
+  // ==================== CONVERSATION EMBEDDINGS ====================
+
+  /**
+   * Bring the embeddings of a conversation up to date (called after chat responses and by IndexingQueue)
+   * Windows whose text is unchanged keep their vector. Conversations that were deleted, opted out
+   * of indexing (metadata.excludeFromSemanticIndex) or are branches lose their embeddings.
+   *
+   * @param conversationId - Conversation ID
+   */
+  async embedConversation(conversationId: string): Promise<void> {
+    await this.initialize();
+    if (!this.isEnabled) return;
+
+    try {
+      const conversation = await this.db.queryOne<{ title: string; metadataJson: string | null }>(
+        'SELECT title, metadataJson FROM conversations WHERE id = ?',
+        [conversationId]
+      );
+      if (!conversation || !this.isConversationIndexable(conversation.metadataJson)) {
+        await this.removeConversationEmbeddings(conversationId);
+        return;
+      }
+
+      const messages = await this.db.query<ConversationChunkMessage>(
+        `SELECT id, role, content, sequenceNumber, timestamp FROM messages
+         WHERE conversationId = ? AND role IN ('user', 'assistant')
+           AND (state IS NULL OR state NOT IN ('draft', 'streaming', 'invalid'))
+         ORDER BY sequenceNumber`,
+        [conversationId]
+      );
+
+      // The title gives every window the topic of the conversation
+      const windows = ConversationChunker.chunk(messages)
+        .map(window => ({ window, text: this.preprocessContent(`${conversation.title}\n${window.text}`, false) }))
+        .filter((entry): entry is { window: typeof entry.window; text: string } => entry.text !== null);
+
+      const existingRows = await this.db.query<ConversationWindowRow>(
+        `SELECT rowid, windowIndex, startMessageId, endMessageId, startSequence, endSequence, timestamp, contentHash
+         FROM conversation_embedding_metadata WHERE conversationId = ?`,
+        [conversationId]
+      );
+      const unusedByHash = new Map<string, ConversationWindowRow[]>();
+      for (const row of existingRows) {
+        const rows = unusedByHash.get(row.contentHash) ?? [];
+        rows.push(row);
+        unusedByHash.set(row.contentHash, rows);
+      }
+
+      const now = Date.now();
+      const modelInfo = this.engine.getModelInfo();
+
+      for (const { window, text } of windows) {
+        const contentHash = this.hashContent(text);
+        const reusable = unusedByHash.get(contentHash)?.shift();
+
+        if (reusable) {
+          // Same text - keep the vector, follow the window if messages moved
+          if (
+            reusable.windowIndex !== window.index ||
+            reusable.startMessageId !== window.startMessageId ||
+            reusable.endMessageId !== window.endMessageId ||
+            reusable.startSequence !== window.startSequence ||
+            reusable.endSequence !== window.endSequence ||
+            reusable.timestamp !== window.timestamp
+          ) {
+            await this.db.run(
+              `UPDATE conversation_embedding_metadata
+               SET windowIndex = ?, startMessageId = ?, endMessageId = ?, startSequence = ?, endSequence = ?, timestamp = ?
+               WHERE rowid = ?`,
+              [window.index, window.startMessageId, window.endMessageId, window.startSequence, window.endSequence,
+                window.timestamp, reusable.rowid]
+            );
+          }
+          continue;
+        }
+
+        const embedding = await this.engine.generateEmbedding(text);
+        await this.db.run(
+          'INSERT INTO conversation_embeddings(embedding) VALUES (?)',
+          [Buffer.from(embedding.buffer)]
+        );
+        const result = await this.db.queryOne<{ id: number }>('SELECT last_insert_rowid() as id');
+        const rowid = result?.id ?? 0;
+
+        await this.db.run(
+          `INSERT INTO conversation_embedding_metadata(rowid, conversationId, windowIndex, startMessageId, endMessageId,
+             startSequence, endSequence, timestamp, model, contentHash, created, updated)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [rowid, conversationId, window.index, window.startMessageId, window.endMessageId, window.startSequence,
+            window.endSequence, window.timestamp, modelInfo.id, contentHash, now, now]
+        );
+      }
+
+      // Remove windows of edited or deleted messages
+      for (const rows of unusedByHash.values()) {
+        for (const row of rows) {
+          await this.db.run('DELETE FROM conversation_embeddings WHERE rowid = ?', [row.rowid]);
+          await this.db.run('DELETE FROM conversation_embedding_metadata WHERE rowid = ?', [row.rowid]);
+        }
+      }
+
+      // Mark the conversation as indexed now, so IndexingQueue can tell when it changes again
+      await this.db.run(
+        'UPDATE conversation_embedding_metadata SET updated = ? WHERE conversationId = ?',
+        [now, conversationId]
+      );
+    } catch (error) {
+      console.error(`[EmbeddingService] Failed to embed conversation ${conversationId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Semantic search over conversation exchanges
+   * Opted-out conversations never match, even before their embeddings are removed.
+   *
+   * @param query - Search query
+   * @param filter - Workspace and time range of the exchanges
+   * @param limit - Maximum number of exchanges (default: 20)
+   * @returns Best window of each matching exchange, closest first
+   */
+  async semanticConversationSearch(
+    query: string,
+    filter: ConversationSearchFilter = {},
+    limit = 20
+  ): Promise<ConversationWindowMatch[]> {
+    await this.initialize();
+    if (!this.isEnabled) return [];
+
+    try {
+      const queryEmbedding = await this.engine.generateEmbedding(query);
+
+      const clauses = [
+        `(c.metadataJson IS NULL OR json_extract(c.metadataJson, '$.excludeFromSemanticIndex') IS NOT 1)`
+      ];
+      const params: unknown[] = [Buffer.from(queryEmbedding.buffer)];
+      if (filter.workspaceId) {
+        clauses.push(`json_extract(c.metadataJson, '$.chatSettings.workspaceId') = ?`);
+        params.push(filter.workspaceId);
+      }
+      if (filter.since !== undefined) {
+        clauses.push('cem.timestamp >= ?');
+        params.push(filter.since);
+      }
+      if (filter.until !== undefined) {
+        clauses.push('cem.timestamp <= ?');
+        params.push(filter.until);
+      }
+
+      // Long exchanges have several windows; fetch extra so enough distinct exchanges remain
+      const candidates = await this.db.query<ConversationWindowMatch>(
+        `SELECT cem.conversationId, cem.startMessageId, cem.endMessageId, cem.startSequence, cem.endSequence,
+                cem.timestamp, vec_distance_l2(ce.embedding, ?) as distance
+         FROM conversation_embeddings ce
+         JOIN conversation_embedding_metadata cem ON cem.rowid = ce.rowid
+         JOIN conversations c ON c.id = cem.conversationId
+         WHERE ${clauses.join(' AND ')}
+         ORDER BY distance
+         LIMIT ?`,
+        [...params, limit * CHUNK_CANDIDATE_FACTOR]
+      );
+
+      const seen = new Set<string>();
+      const matches: ConversationWindowMatch[] = [];
+      for (const candidate of candidates) {
+        const key = `${candidate.conversationId}:${candidate.startSequence}`;
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        matches.push(candidate);
+        if (matches.length >= limit) {
+          break;
+        }
+      }
+
+      return matches;
+    } catch (error) {
+      console.error('[EmbeddingService] Semantic conversation search failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove all embeddings of a conversation
+   *
+   * @param conversationId - Conversation ID
+   */
+  async removeConversationEmbeddings(conversationId: string): Promise<void> {
+    if (!this.isEnabled) return;
+
+    try {
+      const windows = await this.db.query<{ rowid: number }>(
+        'SELECT rowid FROM conversation_embedding_metadata WHERE conversationId = ?',
+        [conversationId]
+      );
+
+      for (const window of windows) {
+        await this.db.run('DELETE FROM conversation_embeddings WHERE rowid = ?', [window.rowid]);
+        await this.db.run('DELETE FROM conversation_embedding_metadata WHERE rowid = ?', [window.rowid]);
+      }
+    } catch (error) {
+      console.error(`[EmbeddingService] Failed to remove conversation embeddings ${conversationId}:`, error);
+    }
+  }
+
+  /**
+   * Whether a conversation should be indexed: not a branch, not opted out
+   *
+   * @param metadataJson - Conversation metadata as stored in the conversations table
+   */
+  isConversationIndexable(metadataJson: string | null): boolean {
+    if (!metadataJson) {
+      return true;
+    }
+    try {
+      const metadata = JSON.parse(metadataJson) as { excludeFromSemanticIndex?: boolean; parentConversationId?: string };
+      return metadata.excludeFromSemanticIndex !== true && !metadata.parentConversationId;
+    } catch {
+      return true;
+    }
+  }
+
+  // ==================== PORTABLE INDEX ====================
+
+  /**
+   * Export the note, chunk and trace embeddings of the current model to .nexus/
+   * (so another device syncing the vault can adopt them instead of re-embedding)
+   *
+   * Keys and vectors are read in separate queries, so a row deleted or re-embedded in between
+   * (by the vault watcher or a chat trace) makes the export start over from fresh keys.
+   *
+   * @returns Number of notes and traces exported, or null if embeddings are unavailable
+   */
+  async exportIndex(): Promise<{ notes: number; traces: number } | null> {
+    await this.initialize();
+    if (!this.isEnabled) return null;
+
+    for (let attempt = 1; attempt <= EXPORT_ATTEMPTS; attempt++) {
+      const exported = await this.buildIndexFile();
+      if (!exported) {
+        continue;
+      }
+
+      const folder = EMBEDDING_INDEX_PATH.slice(0, EMBEDDING_INDEX_PATH.lastIndexOf('/'));
+      if (!(await this.app.vault.adapter.exists(folder))) {
+        await this.app.vault.adapter.mkdir(folder);
+      }
+      await this.app.vault.adapter.writeBinary(EMBEDDING_INDEX_PATH, exported.file);
+
+      return { notes: exported.notes, traces: exported.traces };
+    }
+
+    throw new Error('Embeddings kept changing during the export. Try again once indexing has finished.');
+  }
+
+  /**
+   * Read the current model's embeddings into an index file
+   *
+   * @returns The file and its note and trace counts, or null if a row changed while its vector was copied
+   */
+  private async buildIndexFile(): Promise<{ file: ArrayBuffer; notes: number; traces: number } | null> {
+    const { id, dimensions } = this.engine.getModelInfo();
+
+    // Keys first, so the file can be allocated once and the vectors copied straight into it
+    const notes = await this.db.query<{ rowid: number; notePath: string; contentHash: string }>(
+      `SELECT em.rowid AS rowid, em.notePath, em.contentHash FROM embedding_metadata em
+       JOIN note_embeddings ne ON ne.rowid = em.rowid
+       WHERE em.model = ?`,
+      [id]
+    );
+    const chunks = await this.db.query<{ rowid: number; notePath: string; contentHash: string }>(
+      `SELECT cm.rowid AS rowid, cm.notePath, cm.contentHash FROM note_chunk_metadata cm
+       JOIN note_chunk_embeddings ce ON ce.rowid = cm.rowid
+       WHERE cm.model = ?
+       ORDER BY cm.notePath, cm.chunkIndex`,
+      [id]
+    );
+    const traces = await this.db.query<{
+      rowid: number;
+      traceId: string;
+      workspaceId: string;
+      sessionId: string | null;
+      contentHash: string;
+    }>(
+      `SELECT tem.rowid AS rowid, tem.traceId, tem.workspaceId, tem.sessionId, tem.contentHash
+       FROM trace_embedding_metadata tem
+       JOIN trace_embeddings te ON te.rowid = tem.rowid
+       WHERE tem.model = ?`,
+      [id]
+    );
+
+    const chunksByPath = new Map<string, typeof chunks>();
+    for (const chunk of chunks) {
+      const noteChunks = chunksByPath.get(chunk.notePath) ?? [];
+      noteChunks.push(chunk);
+      chunksByPath.set(chunk.notePath, noteChunks);
+    }
+
+    // Vector slot of each row (rowid), per table: notes each followed by their chunks, then traces
+    const noteSlots = new Map<number, ExportSlot>();
+    const chunkSlots = new Map<number, ExportSlot>();
+    const traceSlots = new Map<number, ExportSlot>();
+    let position = 0;
+
+    const layout: PortableIndexLayout = {
+      model: id,
+      dimensions,
+      exported: Date.now(),
+      notes: notes.map(note => {
+        const noteChunks = chunksByPath.get(note.notePath) ?? [];
+        noteSlots.set(note.rowid, { position: position++, contentHash: note.contentHash });
+        noteChunks.forEach(chunk => chunkSlots.set(chunk.rowid, { position: position++, contentHash: chunk.contentHash }));
+        return {
+          notePath: note.notePath,
+          contentHash: note.contentHash,
+          chunkHashes: noteChunks.map(chunk => chunk.contentHash)
+        };
+      }),
+      traces: traces.map(trace => {
+        traceSlots.set(trace.rowid, { position: position++, contentHash: trace.contentHash });
+        return {
+          traceId: trace.traceId,
+          workspaceId: trace.workspaceId,
+          sessionId: trace.sessionId,
+          contentHash: trace.contentHash
+        };
+      })
+    };
+
+    const writer = new EmbeddingIndexWriter(layout);
+    const copied =
+      await this.copyVectors(writer, id, 'embedding_metadata', 'note_embeddings', noteSlots) +
+      await this.copyVectors(writer, id, 'note_chunk_metadata', 'note_chunk_embeddings', chunkSlots) +
+      await this.copyVectors(writer, id, 'trace_embedding_metadata', 'trace_embeddings', traceSlots);
+
+    if (copied < writer.vectorCount) {
+      return null;
+    }
+    return { file: writer.finish(), notes: layout.notes.length, traces: layout.traces.length };
+  }
+
+  /**
+   * Copy a vector table's BLOBs into an index file, a batch of rows at a time
+   * Rows whose content hash no longer matches their slot were re-embedded since the keys
+   * were read, so their vectors are left out.
+   *
+   * @param slots - Vector slot of each exported row, by rowid (other rows are skipped)
+   * @returns Number of vectors copied
+   */
+  private async copyVectors(
+    writer: EmbeddingIndexWriter,
+    model: string,
+    metadataTable: string,
+    vectorTable: string,
+    slots: Map<number, ExportSlot>
+  ): Promise<number> {
+    let copied = 0;
+    let lastRowid = -1;
+    for (;;) {
+      const rows = await this.db.query<{ rowid: number; contentHash: string; embedding: Uint8Array }>(
+        `SELECT m.rowid AS rowid, m.contentHash, v.embedding FROM ${metadataTable} m
+         JOIN ${vectorTable} v ON v.rowid = m.rowid
+         WHERE m.model = ? AND m.rowid > ?
+         ORDER BY m.rowid
+         LIMIT ?`,
+        [model, lastRowid, EXPORT_BATCH_SIZE]
+      );
+
+      for (const row of rows) {
+        const slot = slots.get(row.rowid);
+        if (slot && slot.contentHash === row.contentHash) {
+          writer.setVector(slot.position, row.embedding);
+          copied++;
+        }
+      }
+
+      if (rows.length < EXPORT_BATCH_SIZE) {
+        return copied;
+      }
+      lastRowid = rows[rows.length - 1].rowid;
+    }
+  }
+
+  /**
+   * Read the exported index in .nexus/
+   *
+   * @returns The index, or null if there is none
+   * @throws Error if the file is not a valid index
+   */
+  async readExportedIndex(): Promise<PortableEmbeddingIndex | null> {
+    if (!(await this.app.vault.adapter.exists(EMBEDDING_INDEX_PATH))) {
+      return null;
+    }
+    return EmbeddingIndexFile.decode(await this.app.vault.adapter.readBinary(EMBEDDING_INDEX_PATH));
+  }
+
+  /**
+   * Whether an exported index holds vectors of the active model (call after initialize())
+   *
+   * @param index - Exported index
+   */
+  isIndexCompatible(index: PortableEmbeddingIndex): boolean {
+    const { id, dimensions } = this.engine.getModelInfo();
+    return index.model === id && index.dimensions === dimensions;
+  }
+
   // ==================== UTILITIES ====================
 
+  /**
+   * Vector as a Buffer for SQLite BLOB binding (only the vector's own bytes, also for views)
+   */
+  private toBlob(vector: Float32Array): Buffer {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+  }
+
   /**
    * Preprocess content before embedding
    * - Strips frontmatter
@@ -535,11 +1415,12 @@ export class EmbeddingService {
    * - Truncates if too long
    *
    * @param content - Raw content
+   * @param hasFrontmatter - Whether content may start with frontmatter (false for chunks, which can start with a "---" rule)
    * @returns Processed content or null if empty
    */
-  private preprocessContent(content: string): string | null {
+  private preprocessContent(content: string, hasFrontmatter = true): string | null {
     // Strip frontmatter
-    let processed = content.replace(/^---[\s\S]*?---\n?/, '');
+    let processed = hasFrontmatter ? content.replace(/^---[\s\S]*?---\n?/, '') : content;
 
     // Strip image embeds, keep link text
     processed = processed
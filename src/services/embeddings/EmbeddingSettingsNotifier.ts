@@ -0,0 +1,43 @@
+/**
+ * EmbeddingSettingsNotifier - Event system for embedding backend settings changes
+ *
+ * Uses Obsidian's Events API for consistency with the rest of the codebase.
+ * Lets EmbeddingManager switch backends and start re-indexing as soon as
+ * the embedding settings are applied.
+ */
+
+import { Events, EventRef } from 'obsidian';
+import { EmbeddingSettings } from '../../types/embeddings';
+
+/**
+ * Singleton notifier for embedding settings changes
+ * Extends Obsidian's Events for consistent event handling
+ */
+class EmbeddingSettingsNotifierImpl extends Events {
+  /**
+   * Subscribe to settings changes
+   * @param callback Handler function called when settings change
+   * @returns EventRef for unsubscribing
+   */
+  onSettingsChanged(callback: (settings: EmbeddingSettings) => void): EventRef {
+    // Cast to satisfy Obsidian's generic event signature
+    return this.on('settings-changed', callback as (...data: unknown[]) => unknown);
+  }
+
+  /**
+   * Notify all subscribers of settings change
+   */
+  notify(settings: EmbeddingSettings): void {
+    this.trigger('settings-changed', settings);
+  }
+
+  /**
+   * Unsubscribe using EventRef
+   */
+  unsubscribe(ref: EventRef): void {
+    this.offref(ref);
+  }
+}
+
+// Export singleton instance
+export const EmbeddingSettingsNotifier = new EmbeddingSettingsNotifierImpl();
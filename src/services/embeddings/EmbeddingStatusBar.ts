@@ -4,6 +4,8 @@
  *
  * Features:
  * - Shows progress percentage and ETA
+ * - Shows why the current note is indexed early (recently opened, workspace folder, recently edited)
+ * - Tooltip with the current note and how many notes the exclusion rules leave out
  * - Pause/resume controls
  * - Desktop-only (status bar not available on mobile)
  * - Auto-hides when idle or complete
@@ -13,8 +15,24 @@
  * - Uses Obsidian Plugin API for status bar
  */
 
-import { Plugin, Notice, Platform, setIcon } from 'obsidian';
-import { IndexingQueue, IndexingProgress } from './IndexingQueue';
+import { Plugin, Notice, Platform, setIcon, setTooltip } from 'obsidian';
+import { IndexingQueue, IndexingProgress, IndexingPriority } from './IndexingQueue';
+import type { ExclusionReason } from './EmbeddingExclusions';
+
+/** Status bar label of each queue priority */
+const PRIORITY_LABELS: Record<IndexingPriority, string> = {
+  recent: 'recently opened',
+  workspace: 'workspace folder',
+  edited: 'recently edited'
+};
+
+/** Tooltip label of each exclusion rule */
+const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  folder: 'by folder',
+  tag: 'by tag',
+  frontmatter: 'by nexus-index: false',
+  size: 'over the size cap'
+};
 
 /**
  * Status bar for embedding progress
@@ -94,8 +112,10 @@ export class EmbeddingStatusBar {
       case 'indexing':
         this.show();
         this.setText(
-          `Indexing: ${progress.processedNotes}/${progress.totalNotes}`
+          `Indexing: ${progress.processedNotes}/${progress.totalNotes}` +
+          (progress.currentPriority ? ` (${PRIORITY_LABELS[progress.currentPriority]})` : '')
         );
+        this.setTooltip(progress);
         this.setControlIcon('pause', () => this.indexingQueue.pause());
         break;
 
@@ -109,7 +129,11 @@ export class EmbeddingStatusBar {
 
       case 'complete':
         if (progress.processedNotes > 0) {
-          new Notice(`Embedding complete! ${progress.processedNotes} notes indexed.`);
+          const excluded = this.countExcluded(progress);
+          new Notice(
+            `Embedding complete! ${progress.processedNotes} notes indexed.` +
+            (excluded > 0 ? ` ${excluded} excluded by indexing rules.` : '')
+          );
         }
         this.hide();
         break;
@@ -134,6 +158,34 @@ export class EmbeddingStatusBar {
     }
   }
 
+  /**
+   * Tooltip with the current note and the notes left out by the exclusion rules
+   */
+  private setTooltip(progress: IndexingProgress): void {
+    if (!this.statusBarItem) return;
+
+    const lines: string[] = [];
+    if (progress.currentNote) {
+      lines.push(`Current: ${progress.currentNote}`);
+    }
+    if (progress.excludedNotes) {
+      const excluded = (Object.entries(progress.excludedNotes) as Array<[ExclusionReason, number]>)
+        .filter(([, count]) => count > 0)
+        .map(([reason, count]) => `${count} ${EXCLUSION_LABELS[reason]}`);
+      lines.push(excluded.length > 0 ? `Excluded: ${excluded.join(', ')}` : 'Excluded: none');
+      lines.push('Recently opened notes, the active workspace folder and recently edited notes go first');
+    }
+
+    setTooltip(this.statusBarItem, lines.join('\n'), { placement: 'top' });
+  }
+
+  /**
+   * Total notes left out by the exclusion rules
+   */
+  private countExcluded(progress: IndexingProgress): number {
+    return Object.values(progress.excludedNotes ?? {}).reduce((total, count) => total + (count ?? 0), 0);
+  }
+
   /**
    * Set control button with Obsidian icon
    */
@@ -82,8 +82,12 @@ export class EmbeddingWatcher {
           this.debounceTimers.delete(oldPath);
         }
 
-        // Update path in metadata
-        this.embeddingService.updatePath(oldPath, file.path);
+        // Update path in metadata; a note moved into an excluded folder loses its embeddings
+        this.embeddingService.updatePath(oldPath, file.path).then(async () => {
+          if (this.embeddingService.getExclusionReason(file)) {
+            await this.embeddingService.removeEmbedding(file.path);
+          }
+        });
       }
     });
   }
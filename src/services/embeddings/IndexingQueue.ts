@@ -9,9 +9,16 @@
  * - Pause/resume/cancel controls
  * - Resumable via content hash comparison
  * - Saves DB every 10 notes
+ * - Skips excluded notes (and removes their old embeddings), reporting counts per rule
+ * - Priority order: recently opened notes, the active workspace's root folder, recently
+ *   edited notes, then the rest; notes opened while indexing move to the front
+ * - Adopts vectors from an exported index (.nexus/) for notes and traces whose content hashes
+ *   still match, so only changed content is embedded
+ * - Conversation backfill with the same progress, ETA and pause/resume behavior
+ * - Debounced conversation updates after chat responses
  *
  * Relationships:
- * - Uses EmbeddingService for embedding notes
+ * - Uses EmbeddingService for embedding notes, traces and conversations
  * - Uses SQLiteCacheManager for periodic saves
  * - Emits progress events for UI updates
  */
@@ -19,7 +26,18 @@
 import { App, TFile } from 'obsidian';
 import { EventEmitter } from 'events';
 import { EmbeddingService } from './EmbeddingService';
+import type { ExclusionReason } from './EmbeddingExclusions';
+import type { PortableNoteEmbedding, PortableTraceEmbedding } from './EmbeddingIndexFile';
 import type { SQLiteCacheManager } from '../../database/storage/SQLiteCacheManager';
+import { NamedLocks } from '../../utils/AsyncLock';
+
+/**
+ * Why a note is indexed ahead of the rest
+ * - recent: opened recently (or while indexing)
+ * - workspace: in the active workspace's root folder
+ * - edited: modified in the last few days
+ */
+export type IndexingPriority = 'recent' | 'workspace' | 'edited';
 
 export interface IndexingProgress {
   phase: 'idle' | 'loading_model' | 'indexing' | 'complete' | 'paused' | 'error';
@@ -28,8 +46,27 @@ export interface IndexingProgress {
   currentNote: string | null;
   estimatedTimeRemaining: number | null;  // seconds
   error?: string;
+  /** Why the current note comes early in the queue (note indexing only) */
+  currentPriority?: IndexingPriority | null;
+  /** Notes left out by the exclusion rules, per rule (note indexing only) */
+  excludedNotes?: Partial<Record<ExclusionReason, number>>;
 }
 
+/**
+ * Vectors of an exported index, by note path and trace ID
+ */
+interface ImportedEmbeddings {
+  notes: Map<string, PortableNoteEmbedding>;
+  traces: Map<string, PortableTraceEmbedding>;
+}
+
+/** Queue order of each priority (lower first; notes without a priority come last) */
+const PRIORITY_ORDER: Record<IndexingPriority, number> = {
+  recent: 0,
+  workspace: 1,
+  edited: 2
+};
+
 /**
  * Background indexing queue for notes
  *
@@ -50,12 +87,28 @@ export class IndexingQueue extends EventEmitter {
   private readonly BATCH_SIZE = 1;           // Process one at a time for memory
   private readonly YIELD_INTERVAL_MS = 50;   // Yield to UI between notes
   private readonly SAVE_INTERVAL = 10;       // Save DB every N notes
+  private readonly RECENT_EDIT_MS = 7 * 24 * 60 * 60 * 1000; // "Recently edited" window
 
   private processedCount = 0;
   private totalCount = 0;
   private startTime = 0;
   private processingTimes: number[] = [];    // Rolling average for ETA
 
+  // Priority of queued notes and exclusion counts of the current note run
+  private priorities = new Map<string, IndexingPriority>();
+  private excludedCounts: Partial<Record<ExclusionReason, number>> = {};
+
+  // Exported index read for the current run (loaded when something needs indexing)
+  private importedIndex: Promise<ImportedEmbeddings | null> | null = null;
+
+  // Conversations waiting for their debounce to end before re-embedding
+  private conversationTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly CONVERSATION_DEBOUNCE_MS = 5000;
+
+  // One embedding run per conversation at a time (debounced updates vs. the backfill),
+  // so two runs never insert window rows for the same conversation side by side
+  private conversationLocks = new NamedLocks();
+
   constructor(
     app: App,
     embeddingService: EmbeddingService,
@@ -75,6 +128,9 @@ export class IndexingQueue extends EventEmitter {
       return;
     }
 
+    // Read the exported index again, it may have synced since the last run
+    this.importedIndex = null;
+
     if (!this.embeddingService.isServiceEnabled()) {
       this.emitProgress({
         phase: 'complete',
@@ -86,7 +142,8 @@ export class IndexingQueue extends EventEmitter {
       return;
     }
 
-    const allNotes = this.app.vault.getMarkdownFiles();
+    // Leave out excluded notes (and drop embeddings made before they were excluded)
+    const allNotes = await this.applyExclusions(this.app.vault.getMarkdownFiles());
 
     // Filter to notes not already indexed (or with changed content)
     const needsIndexing = await this.filterUnindexedNotes(allNotes);
@@ -97,12 +154,13 @@ export class IndexingQueue extends EventEmitter {
         totalNotes: 0,
         processedNotes: 0,
         currentNote: null,
-        estimatedTimeRemaining: null
+        estimatedTimeRemaining: null,
+        excludedNotes: this.excludedCounts
       });
       return;
     }
 
-    this.queue = needsIndexing.map(f => f.path);
+    this.queue = await this.orderByPriority(needsIndexing);
     this.totalCount = this.queue.length;
     this.processedCount = 0;
     this.startTime = Date.now();
@@ -112,24 +170,172 @@ export class IndexingQueue extends EventEmitter {
     await this.processQueue();
   }
 
+  /**
+   * Drop excluded notes, count them per rule, and remove their existing embeddings
+   *
+   * @returns Notes to index
+   */
+  private async applyExclusions(notes: TFile[]): Promise<TFile[]> {
+    const included: TFile[] = [];
+    const excludedPaths = new Set<string>();
+    this.excludedCounts = {};
+
+    for (const note of notes) {
+      const reason = this.embeddingService.getExclusionReason(note);
+      if (reason) {
+        excludedPaths.add(note.path);
+        this.excludedCounts[reason] = (this.excludedCounts[reason] ?? 0) + 1;
+      } else {
+        included.push(note);
+      }
+    }
+
+    if (excludedPaths.size > 0) {
+      const indexed = await this.db.query<{ notePath: string }>(
+        'SELECT notePath FROM embedding_metadata UNION SELECT notePath FROM note_chunk_metadata'
+      );
+      for (const { notePath } of indexed) {
+        if (excludedPaths.has(notePath)) {
+          await this.embeddingService.removeEmbedding(notePath);
+        }
+      }
+    }
+
+    return included;
+  }
+
+  /**
+   * Order notes for indexing: recently opened, active workspace folder, recently edited, then
+   * the rest; most recently opened or modified first within each group
+   *
+   * @returns Note paths in queue order
+   */
+  private async orderByPriority(notes: TFile[]): Promise<string[]> {
+    this.priorities.clear();
+
+    const openOrder = new Map<string, number>();
+    const activeFile = this.app.workspace.getActiveFile();
+    [activeFile?.path, ...this.app.workspace.getLastOpenFiles()].forEach(path => {
+      if (path && !openOrder.has(path)) {
+        openOrder.set(path, openOrder.size);
+      }
+    });
+
+    const workspaceRoot = await this.getActiveWorkspaceRoot();
+    const editedSince = Date.now() - this.RECENT_EDIT_MS;
+
+    for (const note of notes) {
+      if (openOrder.has(note.path)) {
+        this.priorities.set(note.path, 'recent');
+      } else if (workspaceRoot && note.path.startsWith(`${workspaceRoot}/`)) {
+        this.priorities.set(note.path, 'workspace');
+      } else if (note.stat.mtime >= editedSince) {
+        this.priorities.set(note.path, 'edited');
+      }
+    }
+
+    const rank = (note: TFile) => {
+      const priority = this.priorities.get(note.path);
+      return priority ? PRIORITY_ORDER[priority] : Object.keys(PRIORITY_ORDER).length;
+    };
+
+    return [...notes]
+      .sort((a, b) =>
+        rank(a) - rank(b) ||
+        (openOrder.get(a.path) ?? 0) - (openOrder.get(b.path) ?? 0) ||
+        b.stat.mtime - a.stat.mtime
+      )
+      .map(note => note.path);
+  }
+
+  /**
+   * Root folder of the most recently used workspace (null for none, or a workspace on the vault root)
+   */
+  private async getActiveWorkspaceRoot(): Promise<string | null> {
+    try {
+      const workspace = await this.db.queryOne<{ rootFolder: string }>(
+        'SELECT rootFolder FROM workspaces WHERE isActive = 1 ORDER BY lastAccessed DESC LIMIT 1'
+      );
+      const root = workspace?.rootFolder.replace(/^\/+|\/+$/g, '');
+      return root || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Move a queued note to the front (e.g. when it is opened while indexing)
+   *
+   * @param notePath - Path of the note
+   */
+  prioritize(notePath: string): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    const index = this.queue.indexOf(notePath);
+    if (index > 0) {
+      this.queue.splice(index, 1);
+      this.queue.unshift(notePath);
+    }
+    if (index >= 0) {
+      this.priorities.set(notePath, 'recent');
+    }
+  }
+
+  /**
+   * Vectors of the exported index in .nexus/, if it was made with the active model
+   * Read once per run; loads the model first, since server models report their dimensions then.
+   */
+  private getImportedIndex(): Promise<ImportedEmbeddings | null> {
+    if (!this.importedIndex) {
+      this.importedIndex = (async () => {
+        try {
+          await this.embeddingService.initialize();
+          const index = await this.embeddingService.readExportedIndex();
+          if (!index || !this.embeddingService.isIndexCompatible(index)) {
+            return null;
+          }
+          return {
+            notes: new Map(index.notes.map(note => [note.notePath, note])),
+            traces: new Map(index.traces.map(trace => [trace.traceId, trace]))
+          };
+        } catch (error) {
+          console.warn('[IndexingQueue] Ignoring exported embedding index:', error);
+          return null;
+        }
+      })();
+    }
+    return this.importedIndex;
+  }
+
   /**
    * Filter to only notes that need (re)indexing
    */
   private async filterUnindexedNotes(notes: TFile[]): Promise<TFile[]> {
     const needsIndexing: TFile[] = [];
+    const modelId = this.embeddingService.getModelId();
 
     for (const note of notes) {
       try {
         const content = await this.app.vault.cachedRead(note);
         const contentHash = this.hashContent(this.preprocessContent(content));
 
-        const existing = await this.db.queryOne<{ contentHash: string }>(
-          'SELECT contentHash FROM embedding_metadata WHERE notePath = ?',
+        const existing = await this.db.queryOne<{ contentHash: string; model: string; hasChunks: number }>(
+          `SELECT em.contentHash, em.model,
+             EXISTS (SELECT 1 FROM note_chunk_metadata cm WHERE cm.notePath = em.notePath) as hasChunks
+           FROM embedding_metadata em WHERE em.notePath = ?`,
           [note.path]
         );
 
-        // Needs indexing if: no embedding OR content changed
-        if (!existing || existing.contentHash !== contentHash) {
+        // Needs indexing if: no embedding OR content changed OR embedded by another model
+        // OR no chunks yet (indexed before chunking)
+        if (
+          !existing ||
+          existing.contentHash !== contentHash ||
+          existing.model !== modelId ||
+          !existing.hasChunks
+        ) {
           needsIndexing.push(note);
         }
       } catch {
@@ -151,12 +357,14 @@ export class IndexingQueue extends EventEmitter {
       totalNotes: this.totalCount,
       processedNotes: 0,
       currentNote: null,
-      estimatedTimeRemaining: null
+      estimatedTimeRemaining: null,
+      excludedNotes: this.excludedCounts
     });
 
     try {
       // Load model (one-time, ~50-100MB)
       await this.embeddingService.initialize();
+      const imported = await this.getImportedIndex();
 
       this.emitProgress({
         phase: 'indexing',
@@ -186,6 +394,8 @@ export class IndexingQueue extends EventEmitter {
 
         const notePath = this.queue.shift()!;
         const noteStart = Date.now();
+        const importedNote = imported?.notes.get(notePath);
+        let adopted = false;
 
         try {
           this.emitProgress({
@@ -193,18 +403,22 @@ export class IndexingQueue extends EventEmitter {
             totalNotes: this.totalCount,
             processedNotes: this.processedCount,
             currentNote: notePath,
-            estimatedTimeRemaining: this.calculateETA()
+            estimatedTimeRemaining: this.calculateETA(),
+            currentPriority: this.priorities.get(notePath) ?? null,
+            excludedNotes: this.excludedCounts
           });
 
           // Process single note - memory released after each
-          await this.embeddingService.embedNote(notePath);
+          adopted = await this.embeddingService.embedNote(notePath, importedNote);
           this.processedCount++;
 
-          // Track timing for ETA
-          const elapsed = Date.now() - noteStart;
-          this.processingTimes.push(elapsed);
-          if (this.processingTimes.length > 20) {
-            this.processingTimes.shift(); // Keep rolling window
+          // Track timing for ETA (adopted notes take no embedding time)
+          if (!adopted) {
+            const elapsed = Date.now() - noteStart;
+            this.processingTimes.push(elapsed);
+            if (this.processingTimes.length > 20) {
+              this.processingTimes.shift(); // Keep rolling window
+            }
           }
 
           // Periodic DB save (embeddings are already in DB, this ensures WAL flush)
@@ -217,8 +431,8 @@ export class IndexingQueue extends EventEmitter {
           // Continue with next note, don't fail entire queue
         }
 
-        // Yield to UI - critical for responsiveness
-        await new Promise(r => setTimeout(r, this.YIELD_INTERVAL_MS));
+        // Yield to UI - critical for responsiveness (adopting vectors is quick, a macrotask is enough)
+        await new Promise(r => setTimeout(r, adopted ? 0 : this.YIELD_INTERVAL_MS));
       }
 
       // Final save
@@ -229,7 +443,8 @@ export class IndexingQueue extends EventEmitter {
         totalNotes: this.totalCount,
         processedNotes: this.processedCount,
         currentNote: null,
-        estimatedTimeRemaining: null
+        estimatedTimeRemaining: null,
+        excludedNotes: this.excludedCounts
       });
 
     } catch (error: any) {
@@ -244,6 +459,7 @@ export class IndexingQueue extends EventEmitter {
       });
     } finally {
       this.isRunning = false;
+      this.priorities.clear();
     }
   }
 
@@ -286,6 +502,7 @@ export class IndexingQueue extends EventEmitter {
    * Cancel indexing entirely
    */
   cancel(): void {
+    this.clearConversationTimers();
     if (!this.isRunning) return;
     this.abortController?.abort();
     this.queue = [];
@@ -398,19 +615,24 @@ export class IndexingQueue extends EventEmitter {
       content: string;
     }>('SELECT id, workspaceId, sessionId, content FROM memory_traces');
 
-    // Filter to traces not already embedded
+    // Filter to traces not already embedded by the current model
     const needsIndexing: typeof allTraces = [];
+    const modelId = this.embeddingService.getModelId();
 
     for (const trace of allTraces) {
       const existing = await this.db.queryOne<{ traceId: string }>(
-        'SELECT traceId FROM trace_embedding_metadata WHERE traceId = ?',
-        [trace.id]
+        'SELECT traceId FROM trace_embedding_metadata WHERE traceId = ? AND model = ?',
+        [trace.id, modelId]
       );
       if (!existing) {
         needsIndexing.push(trace);
       }
     }
 
+    // The exported index is not needed after traces (conversations are not exported)
+    const imported = needsIndexing.length > 0 ? await this.getImportedIndex() : null;
+    this.importedIndex = null;
+
     if (needsIndexing.length === 0) {
       return;
     }
@@ -446,7 +668,8 @@ export class IndexingQueue extends EventEmitter {
             trace.id,
             trace.workspaceId,
             trace.sessionId ?? undefined,
-            trace.content
+            trace.content,
+            imported?.traces.get(trace.id)
           );
           this.processedCount++;
 
@@ -479,4 +702,165 @@ export class IndexingQueue extends EventEmitter {
       });
     }
   }
+
+  // ==================== CONVERSATION INDEXING ====================
+
+  /**
+   * Start indexing of chat conversations (backfill and catch-up after restarts)
+   * Picks up conversations changed since they were last embedded or embedded by another
+   * model, and opted-out, branch or deleted conversations that still have embeddings.
+   */
+  async startConversationIndex(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    if (!this.embeddingService.isServiceEnabled()) {
+      return;
+    }
+
+    const conversations = await this.db.query<{ id: string; updated: number; metadataJson: string | null }>(
+      `SELECT c.id, c.updated, c.metadataJson FROM conversations c
+       WHERE EXISTS (
+         SELECT 1 FROM messages m
+         WHERE m.conversationId = c.id AND m.role IN ('user', 'assistant') AND m.content IS NOT NULL AND m.content != ''
+       )`
+    );
+    const indexed = await this.db.query<{ conversationId: string; indexedAt: number; otherModel: number }>(
+      `SELECT conversationId, MAX(updated) as indexedAt, MAX(model != ?) as otherModel
+       FROM conversation_embedding_metadata GROUP BY conversationId`,
+      [this.embeddingService.getModelId()]
+    );
+    const indexedById = new Map(indexed.map(row => [row.conversationId, row]));
+
+    const needsIndexing: string[] = [];
+    for (const conversation of conversations) {
+      const existing = indexedById.get(conversation.id);
+      indexedById.delete(conversation.id);
+
+      if (!this.embeddingService.isConversationIndexable(conversation.metadataJson)) {
+        if (existing) {
+          needsIndexing.push(conversation.id); // Remove its embeddings
+        }
+      } else if (!existing || existing.indexedAt < conversation.updated || existing.otherModel) {
+        needsIndexing.push(conversation.id);
+      }
+    }
+    // Embeddings left over from deleted conversations
+    needsIndexing.push(...indexedById.keys());
+
+    if (needsIndexing.length === 0) {
+      return;
+    }
+
+    this.queue = needsIndexing;
+    this.totalCount = needsIndexing.length;
+    this.processedCount = 0;
+    this.startTime = Date.now();
+    this.processingTimes = [];
+    this.abortController = new AbortController();
+    this.isRunning = true;
+
+    try {
+      while (this.queue.length > 0) {
+        if (this.abortController?.signal.aborted) {
+          break;
+        }
+
+        if (this.isPaused) {
+          await this.waitForResume();
+          continue;
+        }
+
+        const conversationId = this.queue.shift()!;
+        const conversationStart = Date.now();
+
+        this.emitProgress({
+          phase: 'indexing',
+          totalNotes: this.totalCount,
+          processedNotes: this.processedCount,
+          currentNote: 'conversations',
+          estimatedTimeRemaining: this.calculateETA()
+        });
+
+        try {
+          await this.embedConversation(conversationId);
+          this.processedCount++;
+
+          this.processingTimes.push(Date.now() - conversationStart);
+          if (this.processingTimes.length > 20) {
+            this.processingTimes.shift();
+          }
+
+          if (this.processedCount % this.SAVE_INTERVAL === 0) {
+            await this.db.save();
+          }
+        } catch (error) {
+          console.error(`[IndexingQueue] Failed to embed conversation ${conversationId}:`, error);
+        }
+
+        // Yield to UI
+        await new Promise(r => setTimeout(r, this.YIELD_INTERVAL_MS));
+      }
+
+      await this.db.save();
+
+    } catch (error: any) {
+      console.error('[IndexingQueue] Conversation processing failed:', error);
+    } finally {
+      this.isRunning = false;
+      this.emitProgress({
+        phase: 'complete',
+        totalNotes: this.totalCount,
+        processedNotes: this.processedCount,
+        currentNote: null,
+        estimatedTimeRemaining: null
+      });
+    }
+  }
+
+  /**
+   * Re-embed a conversation once it has been quiet for a few seconds
+   * (after a chat response, a deletion, or an indexing opt-out change).
+   * Skipped while indexing is paused; the next conversation backfill catches up.
+   *
+   * @param conversationId - Conversation ID
+   */
+  queueConversation(conversationId: string): void {
+    if (!this.embeddingService.isServiceEnabled()) {
+      return;
+    }
+
+    const existing = this.conversationTimers.get(conversationId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.conversationTimers.set(conversationId, setTimeout(() => {
+      this.conversationTimers.delete(conversationId);
+      if (this.isPaused) {
+        return;
+      }
+      this.embedConversation(conversationId).catch(error => {
+        console.error(`[IndexingQueue] Failed to update conversation ${conversationId}:`, error);
+      });
+    }, this.CONVERSATION_DEBOUNCE_MS));
+  }
+
+  /**
+   * Embed a conversation once any run already embedding it has finished
+   */
+  private embedConversation(conversationId: string): Promise<void> {
+    return this.conversationLocks.acquire(conversationId, () => this.embeddingService.embedConversation(conversationId));
+  }
+
+  /**
+   * Drop pending conversation updates
+   */
+  private clearConversationTimers(): void {
+    for (const timer of this.conversationTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.conversationTimers.clear();
+  }
 }
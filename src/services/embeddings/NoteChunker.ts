@@ -0,0 +1,242 @@
+/**
+ * Location: src/services/embeddings/NoteChunker.ts
+ * Purpose: Split notes into heading-scoped passages for chunk embeddings
+ *
+ * Features:
+ * - Sections start at headings; each chunk stays inside one section and keeps its heading path
+ * - Paragraphs (and whole code fences) are packed into chunks up to a token cap
+ * - Consecutive chunks of a long section overlap by a few lines
+ * - Line numbers are 1-based and count frontmatter lines, so they match the note as written
+ *
+ * Relationships:
+ * - Used by EmbeddingService for chunk embeddings
+ */
+
+/** Approximate token cap per chunk (all-MiniLM-L6-v2 reads up to 256 word pieces) */
+export const MAX_CHUNK_TOKENS = 200;
+
+/** Approximate tokens repeated from the end of the previous chunk in the same section */
+export const CHUNK_OVERLAP_TOKENS = 40;
+
+export interface NoteChunk {
+  /** Position of the chunk in the note (0-based) */
+  index: number;
+  /** Heading path of the section, e.g. "Project > Goals"; null before the first heading */
+  heading: string | null;
+  /** First line of the chunk (1-based, inclusive) */
+  startLine: number;
+  /** Last line of the chunk (1-based, inclusive) */
+  endLine: number;
+  /** Chunk text as written in the note */
+  text: string;
+}
+
+/**
+ * A run of lines that is never split across chunks unless it exceeds the cap alone
+ */
+interface Block {
+  start: number;
+  end: number;
+  isHeading: boolean;
+}
+
+/**
+ * A heading and the blocks below it, up to the next heading
+ */
+interface Section {
+  heading: string | null;
+  blocks: Block[];
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Utility class for splitting notes into chunks
+ */
+export class NoteChunker {
+  /**
+   * Split a note into chunks
+   *
+   * @param content - Raw note content (frontmatter is skipped)
+   * @param maxTokens - Approximate token cap per chunk
+   * @param overlapTokens - Approximate tokens carried over between chunks of one section
+   * @returns Chunks in note order; sections with only a heading produce no chunk
+   */
+  static chunk(content: string, maxTokens = MAX_CHUNK_TOKENS, overlapTokens = CHUNK_OVERLAP_TOKENS): NoteChunk[] {
+    const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+    const sections = this.getSections(lines, this.getBodyStart(lines));
+
+    const chunks: NoteChunk[] = [];
+    for (const section of sections) {
+      for (const [start, end] of this.packSection(lines, section.blocks, maxTokens, overlapTokens)) {
+        const hasBody = lines.slice(start, end + 1).some(line => line.trim() && !HEADING.test(line));
+        if (!hasBody) {
+          continue;
+        }
+        chunks.push({
+          index: chunks.length,
+          heading: section.heading,
+          startLine: start + 1,
+          endLine: end + 1,
+          text: lines.slice(start, end + 1).join('\n')
+        });
+      }
+    }
+    return chunks;
+  }
+
+  /**
+   * Estimate the token count of text (about 4 characters per token)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Index of the first line after frontmatter
+   */
+  private static getBodyStart(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') {
+      return 0;
+    }
+    const close = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    return close === -1 ? 0 : close + 1;
+  }
+
+  /**
+   * Group lines into sections of paragraph and code fence blocks
+   */
+  private static getSections(lines: string[], bodyStart: number): Section[] {
+    const sections: Section[] = [{ heading: null, blocks: [] }];
+    const headingStack: Array<{ level: number; text: string }> = [];
+    let block: Block | null = null;
+    let inFence = false;
+
+    const closeBlock = () => {
+      if (block) {
+        sections[sections.length - 1].blocks.push(block);
+        block = null;
+      }
+    };
+
+    for (let i = bodyStart; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (FENCE.test(line)) {
+        if (!inFence) {
+          closeBlock();
+          block = { start: i, end: i, isHeading: false };
+        } else if (block) {
+          block.end = i;
+          closeBlock();
+        }
+        inFence = !inFence;
+        continue;
+      }
+
+      if (inFence) {
+        if (block) {
+          block.end = i;
+        }
+        continue;
+      }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        closeBlock();
+        const level = heading[1].length;
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+          headingStack.pop();
+        }
+        headingStack.push({ level, text: heading[2] });
+        sections.push({
+          heading: headingStack.map(entry => entry.text).join(' > '),
+          blocks: [{ start: i, end: i, isHeading: true }]
+        });
+        continue;
+      }
+
+      if (!line.trim()) {
+        closeBlock();
+        continue;
+      }
+
+      if (block) {
+        block.end = i;
+      } else {
+        block = { start: i, end: i, isHeading: false };
+      }
+    }
+    closeBlock();
+
+    return sections.filter(section => section.blocks.length > 0);
+  }
+
+  /**
+   * Pack the blocks of one section into line ranges (0-based, inclusive) under the token cap
+   */
+  private static packSection(lines: string[], blocks: Block[], maxTokens: number, overlapTokens: number): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    const tokens = (start: number, end: number) => this.estimateTokens(lines.slice(start, end + 1).join('\n'));
+    let current: [number, number] | null = null;
+
+    const flush = () => {
+      if (current) {
+        ranges.push(current);
+        current = null;
+      }
+    };
+
+    // Start the next chunk with the last lines of the previous one, within the overlap budget
+    const overlapStart = (previousEnd: number, floor: number, nextStart: number, nextEnd: number): number => {
+      let start = previousEnd + 1;
+      while (start - 1 >= floor && tokens(start - 1, previousEnd) <= overlapTokens && tokens(start - 1, nextEnd) <= maxTokens) {
+        start--;
+      }
+      return start > previousEnd ? nextStart : start;
+    };
+
+    for (const block of blocks) {
+      if (tokens(block.start, block.end) > maxTokens) {
+        // Oversized block: split by lines, keeping a pending heading with the first part
+        const headingOnly: boolean = current !== null && current[0] === current[1] && HEADING.test(lines[current[0]]);
+        let start = headingOnly && current ? current[0] : block.start;
+        if (headingOnly) {
+          current = null;
+        }
+        flush();
+        for (let i = block.start; i <= block.end; i++) {
+          if (i > start && tokens(start, i) > maxTokens) {
+            ranges.push([start, i - 1]);
+            start = overlapStart(i - 1, start + 1, i, i);
+          }
+        }
+        ranges.push([start, block.end]);
+        continue;
+      }
+
+      if (!current) {
+        const previous = ranges[ranges.length - 1];
+        const start = previous && previous[1] >= blocks[0].start && !block.isHeading
+          ? overlapStart(previous[1], previous[0] + 1, block.start, block.end)
+          : block.start;
+        current = [start, block.end];
+        continue;
+      }
+
+      if (tokens(current[0], block.end) > maxTokens) {
+        const previousEnd: number = current[1];
+        const floor: number = current[0] + 1;
+        flush();
+        current = [overlapStart(previousEnd, floor, block.start, block.end), block.end];
+        continue;
+      }
+
+      current[1] = block.end;
+    }
+    flush();
+
+    return ranges;
+  }
+}
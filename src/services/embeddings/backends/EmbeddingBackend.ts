@@ -0,0 +1,69 @@
+/**
+ * Location: src/services/embeddings/backends/EmbeddingBackend.ts
+ * Purpose: Contract for embedding backends and the factory that picks one from settings
+ *
+ * Relationships:
+ * - Implemented by TransformersEmbeddingBackend, OllamaEmbeddingBackend and OpenAICompatibleEmbeddingBackend
+ * - Used by EmbeddingEngine
+ */
+
+import { EmbeddingSettings, DEFAULT_EMBEDDING_BASE_URLS } from '../../../types/embeddings';
+import { TransformersEmbeddingBackend } from './TransformersEmbeddingBackend';
+import { OllamaEmbeddingBackend } from './OllamaEmbeddingBackend';
+import { OpenAICompatibleEmbeddingBackend } from './OpenAICompatibleEmbeddingBackend';
+
+/**
+ * Identity of the model a backend embeds with
+ */
+export interface EmbeddingModelInfo {
+  /** Stored with every embedding; a different id means the stored vectors are stale */
+  id: string;
+  /** Vector size; 0 until a server backend has initialized and measured it */
+  dimensions: number;
+}
+
+/**
+ * An embedding backend
+ */
+export interface EmbeddingBackend {
+  /** Load the model or check the server (also measures the vector size of server models) */
+  initialize(): Promise<void>;
+  /** Embed one text */
+  generateEmbedding(text: string): Promise<Float32Array>;
+  /** Embed several texts in one call */
+  generateEmbeddings(texts: string[]): Promise<Float32Array[]>;
+  /** Free resources */
+  dispose(): Promise<void>;
+  isReady(): boolean;
+  getModelInfo(): EmbeddingModelInfo;
+}
+
+/**
+ * Create the backend selected in settings
+ *
+ * @throws Error if a server backend has no model (or openai-compatible has no URL)
+ */
+export function createEmbeddingBackend(settings: EmbeddingSettings): EmbeddingBackend {
+  if (settings.backend === 'transformers') {
+    return new TransformersEmbeddingBackend();
+  }
+
+  const model = settings.model?.trim();
+  if (!model) {
+    throw new Error(`No embedding model set for ${settings.backend}. Choose one in Settings > Providers > Embeddings.`);
+  }
+  const baseUrl = (settings.baseUrl?.trim() || DEFAULT_EMBEDDING_BASE_URLS[settings.backend] || '').replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error(`No server URL set for ${settings.backend} embeddings. Set one in Settings > Providers > Embeddings.`);
+  }
+
+  switch (settings.backend) {
+    case 'ollama':
+      return new OllamaEmbeddingBackend(baseUrl, model);
+    case 'lmstudio':
+    case 'openai-compatible':
+      return new OpenAICompatibleEmbeddingBackend(settings.backend, baseUrl, model, settings.apiKey);
+    default:
+      throw new Error(`Unknown embedding backend: ${settings.backend}`);
+  }
+}
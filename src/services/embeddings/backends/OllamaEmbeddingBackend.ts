@@ -0,0 +1,28 @@
+/**
+ * Location: src/services/embeddings/backends/OllamaEmbeddingBackend.ts
+ * Purpose: Embedding backend for Ollama's /api/embed endpoint
+ *
+ * Relationships:
+ * - Extends ServerEmbeddingBackend
+ */
+
+import { ServerEmbeddingBackend, isEmbeddingVector } from './ServerEmbeddingBackend';
+
+export class OllamaEmbeddingBackend extends ServerEmbeddingBackend {
+  constructor(baseUrl: string, model: string) {
+    super('ollama', baseUrl, model);
+  }
+
+  protected async requestEmbeddings(texts: string[]): Promise<number[][]> {
+    const data = await this.postJson('/api/embed', {
+      model: this.model,
+      input: texts
+    });
+
+    const embeddings = typeof data === 'object' && data !== null && 'embeddings' in data ? data.embeddings : undefined;
+    if (!Array.isArray(embeddings) || !embeddings.every(isEmbeddingVector)) {
+      throw this.malformedResponse('"embeddings" to be an array of number arrays');
+    }
+    return embeddings;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Location: src/services/embeddings/backends/OpenAICompatibleEmbeddingBackend.ts
+ * Purpose: Embedding backend for OpenAI-compatible /embeddings endpoints (LM Studio and others)
+ *
+ * Relationships:
+ * - Extends ServerEmbeddingBackend
+ */
+
+import { EmbeddingBackendId } from '../../../types/embeddings';
+import { ServerEmbeddingBackend, isEmbeddingVector } from './ServerEmbeddingBackend';
+
+interface OpenAIEmbeddingItem {
+  index: number;
+  embedding: number[];
+}
+
+function isEmbeddingItem(value: unknown): value is OpenAIEmbeddingItem {
+  return typeof value === 'object' && value !== null &&
+    'index' in value && typeof value.index === 'number' &&
+    'embedding' in value && isEmbeddingVector(value.embedding);
+}
+
+export class OpenAICompatibleEmbeddingBackend extends ServerEmbeddingBackend {
+  constructor(
+    backend: EmbeddingBackendId,
+    baseUrl: string,
+    model: string,
+    private readonly apiKey?: string
+  ) {
+    super(backend, baseUrl, model);
+  }
+
+  protected async requestEmbeddings(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const data = await this.postJson('/embeddings', {
+      model: this.model,
+      input: texts
+    }, headers);
+
+    const items = typeof data === 'object' && data !== null && 'data' in data ? data.data : undefined;
+    if (!Array.isArray(items) || !items.every(isEmbeddingItem)) {
+      throw this.malformedResponse('"data" to be an array of { index, embedding } items');
+    }
+    return items
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
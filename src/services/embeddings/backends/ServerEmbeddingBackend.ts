@@ -0,0 +1,154 @@
+/**
+ * Location: src/services/embeddings/backends/ServerEmbeddingBackend.ts
+ * Purpose: Shared logic for embedding backends that call a local or remote HTTP server
+ *
+ * Features:
+ * - Measures the model's vector size at initialize() by embedding a probe text
+ * - L2-normalizes vectors so distances match the built-in model's normalized output
+ * - Turns HTTP failures and malformed responses into errors that name the backend, URL and model
+ *
+ * Relationships:
+ * - Extended by OllamaEmbeddingBackend and OpenAICompatibleEmbeddingBackend
+ */
+
+import { requestUrl } from 'obsidian';
+import { EmbeddingBackendId } from '../../../types/embeddings';
+import { EmbeddingBackend, EmbeddingModelInfo } from './EmbeddingBackend';
+
+/**
+ * Check that a response value is an embedding (array of numbers)
+ */
+export function isEmbeddingVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'number');
+}
+
+export abstract class ServerEmbeddingBackend implements EmbeddingBackend {
+  private dimensions = 0;
+  private ready = false;
+
+  constructor(
+    protected readonly backend: EmbeddingBackendId,
+    protected readonly baseUrl: string,
+    protected readonly model: string
+  ) {}
+
+  /**
+   * Request embeddings for a batch of texts, in input order
+   */
+  protected abstract requestEmbeddings(texts: string[]): Promise<number[][]>;
+
+  /**
+   * Check the server and measure the model's vector size
+   */
+  async initialize(): Promise<void> {
+    if (this.ready) {
+      return;
+    }
+
+    const [probe] = await this.requestEmbeddings(['dimension probe']);
+    if (!probe || probe.length === 0) {
+      throw new Error(`${this.backend} returned an empty embedding for model "${this.model}"`);
+    }
+    this.dimensions = probe.length;
+    this.ready = true;
+  }
+
+  async generateEmbedding(text: string): Promise<Float32Array> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    if (!this.ready) {
+      await this.initialize();
+    }
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const vectors = await this.requestEmbeddings(texts);
+    if (vectors.length !== texts.length) {
+      throw new Error(`${this.backend} returned ${vectors.length} embeddings for ${texts.length} inputs`);
+    }
+
+    return vectors.map(vector => {
+      if (vector.length !== this.dimensions) {
+        throw new Error(
+          `${this.backend} returned a ${vector.length}-dimension embedding; model "${this.model}" was ${this.dimensions}`
+        );
+      }
+      return this.normalize(vector);
+    });
+  }
+
+  async dispose(): Promise<void> {
+    this.ready = false;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getModelInfo(): EmbeddingModelInfo {
+    return {
+      id: `${this.backend}:${this.model}`,
+      dimensions: this.dimensions
+    };
+  }
+
+  /**
+   * POST JSON to the server and return the parsed response body (unchecked; callers narrow it)
+   */
+  protected async postJson(path: string, body: unknown, headers: Record<string, string> = {}): Promise<unknown> {
+    const url = `${this.baseUrl}${path}`;
+    let response;
+    try {
+      response = await requestUrl({
+        url,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        throw: false
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not reach ${this.backend} at ${url}: ${message}`);
+    }
+
+    if (response.status !== 200) {
+      const detail = (response.text || '').slice(0, 200);
+      throw new Error(
+        `${this.backend} embedding request for model "${this.model}" failed (HTTP ${response.status})${detail ? `: ${detail}` : ''}`
+      );
+    }
+
+    try {
+      return response.json as unknown;
+    } catch {
+      throw new Error(`${this.backend} returned a response that is not JSON for model "${this.model}"`);
+    }
+  }
+
+  /**
+   * Error for a response without the expected embeddings
+   * @param expected What the response should have contained
+   */
+  protected malformedResponse(expected: string): Error {
+    return new Error(`${this.backend} returned a malformed response for model "${this.model}": expected ${expected}`);
+  }
+
+  private normalize(vector: number[]): Float32Array {
+    const result = Float32Array.from(vector);
+    let norm = 0;
+    for (let i = 0; i < result.length; i++) {
+      norm += result[i] * result[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let i = 0; i < result.length; i++) {
+        result[i] /= norm;
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Location: src/services/embeddings/backends/TransformersEmbeddingBackend.ts
+ * Purpose: Built-in embedding backend using iframe-sandboxed transformers.js
+ *
+ * Uses iframe sandbox approach to avoid Electron/Node.js environment issues.
+ * The iframe loads transformers.js from CDN in a pure browser context.
+ *
+ * Based on Smart Connections' proven approach for Obsidian compatibility.
+ */
+
+import { EmbeddingIframe } from '../EmbeddingIframe';
+import { EmbeddingBackend, EmbeddingModelInfo } from './EmbeddingBackend';
+
+/**
+ * Embedding backend using iframe-sandboxed Transformers.js
+ *
+ * Model: Xenova/all-MiniLM-L6-v2
+ * - Dimensions: 384
+ * - Size: ~23MB (quantized)
+ * - Good balance of speed and quality for semantic search (English)
+ */
+export class TransformersEmbeddingBackend implements EmbeddingBackend {
+  private iframe: EmbeddingIframe | null = null;
+  private readonly MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
+  private readonly DIMENSIONS = 384;
+
+  /**
+   * Initialize the embedding model via iframe
+   * Downloads model on first use (~23MB, cached in IndexedDB)
+   */
+  async initialize(): Promise<void> {
+    if (this.iframe?.ready()) {
+      return;
+    }
+
+    this.iframe = new EmbeddingIframe();
+    await this.iframe.initialize();
+  }
+
+  /**
+   * Generate embedding for text
+   *
+   * @param text - Text to embed (truncated to ~2000 chars in iframe)
+   * @returns Float32Array of 384 dimensions
+   */
+  async generateEmbedding(text: string): Promise<Float32Array> {
+    if (!this.iframe) {
+      await this.initialize();
+    }
+
+    return this.iframe!.generateEmbedding(text);
+  }
+
+  /**
+   * Generate embeddings for multiple texts (batch processing)
+   *
+   * @param texts - Array of texts to embed
+   * @returns Array of Float32Array embeddings
+   */
+  async generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+    if (!this.iframe) {
+      await this.initialize();
+    }
+
+    return this.iframe!.generateEmbeddings(texts);
+  }
+
+  /**
+   * Dispose of the iframe to free memory
+   */
+  async dispose(): Promise<void> {
+    if (this.iframe) {
+      await this.iframe.dispose();
+      this.iframe = null;
+    }
+  }
+
+  isReady(): boolean {
+    return this.iframe?.ready() ?? false;
+  }
+
+  /**
+   * The id predates pluggable backends, so existing indexes stay valid
+   */
+  getModelInfo(): EmbeddingModelInfo {
+    return {
+      id: this.MODEL_ID,
+      dimensions: this.DIMENSIONS
+    };
+  }
+}
@@ -9,6 +9,32 @@ export { EmbeddingWatcher } from './EmbeddingWatcher';
 export { IndexingQueue } from './IndexingQueue';
 export { EmbeddingStatusBar } from './EmbeddingStatusBar';
 export { EmbeddingManager } from './EmbeddingManager';
+export { EmbeddingSettingsNotifier } from './EmbeddingSettingsNotifier';
+export { createEmbeddingBackend } from './backends/EmbeddingBackend';
+export { TransformersEmbeddingBackend } from './backends/TransformersEmbeddingBackend';
+export { OllamaEmbeddingBackend } from './backends/OllamaEmbeddingBackend';
+export { OpenAICompatibleEmbeddingBackend } from './backends/OpenAICompatibleEmbeddingBackend';
+export { NoteChunker } from './NoteChunker';
+export { ConversationChunker } from './ConversationChunker';
+export { EmbeddingExclusions } from './EmbeddingExclusions';
+export { EmbeddingIndexFile, EmbeddingIndexWriter, EMBEDDING_INDEX_PATH } from './EmbeddingIndexFile';
 
-export type { SimilarNote, TraceSearchResult } from './EmbeddingService';
-export type { IndexingProgress } from './IndexingQueue';
+export type {
+  SimilarNote,
+  NotePassage,
+  TraceSearchResult,
+  ConversationWindowMatch,
+  ConversationSearchFilter
+} from './EmbeddingService';
+export type { NoteChunk } from './NoteChunker';
+export type { ConversationChunkMessage, ConversationWindow } from './ConversationChunker';
+export type { IndexingProgress, IndexingPriority } from './IndexingQueue';
+export type { ExclusionReason } from './EmbeddingExclusions';
+export type {
+  PortableEmbeddingIndex,
+  PortableIndexLayout,
+  PortableNoteEmbedding,
+  PortableChunkEmbedding,
+  PortableTraceEmbedding
+} from './EmbeddingIndexFile';
+export type { EmbeddingBackend, EmbeddingModelInfo } from './backends/EmbeddingBackend';
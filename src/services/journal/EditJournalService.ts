@@ -0,0 +1,695 @@
+/**
+ * Location: src/services/journal/EditJournalService.ts
+ *
+ * Edit Journal Service - records every vault mutation made by agent tools so it can be undone.
+ *
+ * Each entry stores the before-image of what the tool changed (file content, original path,
+ * or a marker for created files/folders) together with the tool call id, session and workspace.
+ * Entries are appended to daily JSONL files under .nexus/journal/; reverts are appended as
+ * separate events, so the files stay append-only and sync-safe.
+ *
+ * Key Design:
+ * - Before-images are captured by the tools right before they mutate the vault
+ * - Only entry summaries stay in memory; before-images are read back from the journal files when needed
+ * - Reverting checks that the vault still matches the state left by the agent (no silent clobbering)
+ * - Each entry reverts all-or-nothing; several entries revert newest first
+ * - Journal failures never fail the tool call that triggered them
+ *
+ * Relationships:
+ * - Written by contentManager (write/update/patch) and storageManager (move/copy/archive/createFolder)
+ * - Read by contentManager.revert, the undo/revert commands and EditHistoryModal
+ * - Registered as 'editJournalService' in ServiceDefinitions
+ */
+
+import { App, Plugin, TFile, TFolder } from 'obsidian';
+import type { ToolContext } from '../../types/mcp/AgentTypes';
+import { ContentVersioning } from '../../agents/contentManager/utils/ContentVersioning';
+import { AsyncLock } from '../../utils/AsyncLock';
+import { generateUUID } from '../../utils/uuid';
+import { getNexusPlugin } from '../../utils/pluginLocator';
+import { getErrorMessage } from '../../utils/errorUtils';
+
+/**
+ * A single change inside a journal entry
+ * - modify: file content replaced (before holds the old content)
+ * - create: file created (nothing existed before)
+ * - delete: file removed, e.g. overwritten by a move or copy (before holds the old content)
+ * - rename: item moved from `from` to `path`
+ * - createFolder: folder created
+ */
+export interface EditChange {
+  kind: 'modify' | 'create' | 'delete' | 'rename' | 'createFolder';
+
+  /** Path affected by the change (destination path for renames) */
+  path: string;
+
+  /** Original path (rename only) */
+  from?: string;
+
+  /**
+   * Content before the change (modify/delete)
+   * Only present on entries returned by withBeforeImages(); summaries leave it in the journal file.
+   */
+  before?: string;
+
+  /** Hash of the content the tool left behind (modify/create), used to detect later edits */
+  afterHash?: string;
+
+  /** True if the before-image was not kept (binary or too large); such changes cannot be reverted */
+  beforeOmitted?: boolean;
+}
+
+/**
+ * Who made a set of changes
+ */
+export interface EditSource {
+  /** Agent name, e.g. "contentManager" */
+  agent: string;
+
+  /** Tool slug, e.g. "update" */
+  tool: string;
+
+  /** Context of the tool call (sessionId, workspaceId, toolCallId) */
+  context?: Partial<ToolContext>;
+}
+
+/**
+ * Journal entry for one tool call
+ */
+export interface EditJournalEntry {
+  type: 'edit';
+  id: string;
+  timestamp: number;
+  agent: string;
+  tool: string;
+  toolCallId?: string;
+  sessionId?: string;
+  workspaceId?: string;
+  changes: EditChange[];
+
+  /** Set when the entry has been reverted (derived from revert events) */
+  revertedAt?: number;
+}
+
+/**
+ * Journal event marking entries as reverted
+ */
+interface RevertEvent {
+  type: 'revert';
+  id: string;
+  timestamp: number;
+  entryIds: string[];
+}
+
+type JournalEvent = EditJournalEntry | RevertEvent;
+
+/**
+ * Filter for journal queries
+ */
+export interface EditJournalFilter {
+  path?: string;
+  sessionId?: string;
+
+  /** Call id; a useTools batch id also matches the "<id>_<n>" ids of its calls */
+  toolCallId?: string;
+  includeReverted?: boolean;
+}
+
+/**
+ * Summary of a session's journaled changes
+ */
+export interface JournalSessionSummary {
+  sessionId: string;
+  workspaceId?: string;
+  entryCount: number;
+  lastTimestamp: number;
+}
+
+/**
+ * Outcome of reverting one entry
+ */
+export interface RevertOutcome {
+  entryId: string;
+  tool: string;
+  timestamp: number;
+  reverted: boolean;
+
+  /** Paths restored (or that would be restored in a dry run) */
+  paths: string[];
+
+  /** Reasons the entry could not be reverted */
+  conflicts?: string[];
+}
+
+/**
+ * Plugin surface used to locate the journal service
+ */
+interface NexusPluginWithJournal extends Plugin {
+  getService<T>(name: string, timeoutMs?: number): Promise<T | null>;
+}
+
+/** Folder holding the journal, relative to the vault root */
+const JOURNAL_DIR = '.nexus/journal';
+
+/** Days of journal files kept before pruning */
+export const JOURNAL_RETENTION_DAYS = 30;
+
+/** File extensions whose content is captured as a before-image */
+const TEXT_EXTENSIONS = ['md', 'txt', 'canvas', 'json', 'csv', 'css', 'js', 'html', 'xml', 'yaml', 'yml'];
+
+/** Largest before-image stored (characters); larger edits are journaled without content */
+const MAX_BEFORE_LENGTH = 2_000_000;
+
+/**
+ * Append-only journal of agent edits with revert support
+ */
+export class EditJournalService {
+  private app: App;
+  /** Entry summaries (without before-images), in journal order */
+  private entries: EditJournalEntry[] = [];
+
+  /** Journal file holding each entry, for reading its before-images back */
+  private entryFiles = new Map<string, string>();
+  private loadPromise: Promise<void> | null = null;
+  private writeLock = new AsyncLock();
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  // ============================================================================
+  // Recording
+  // ============================================================================
+
+  /**
+   * Record the changes made by one tool call
+   * @param source Agent, tool and call context
+   * @param changes Changes in the order they were applied
+   * @returns The stored entry, or null if there was nothing to record
+   */
+  async record(source: EditSource, changes: EditChange[]): Promise<EditJournalEntry | null> {
+    if (changes.length === 0) {
+      return null;
+    }
+
+    await this.ensureLoaded();
+
+    const entry: EditJournalEntry = {
+      type: 'edit',
+      id: generateUUID(),
+      timestamp: Date.now(),
+      agent: source.agent,
+      tool: source.tool,
+      toolCallId: source.context?.toolCallId,
+      sessionId: source.context?.sessionId,
+      workspaceId: source.context?.workspaceId,
+      changes: changes.map(change => this.limitBeforeImage(change))
+    };
+
+    const file = await this.appendEvent(entry);
+    this.addEntry(entry, file);
+    return entry;
+  }
+
+  // ============================================================================
+  // Queries
+  // ============================================================================
+
+  /**
+   * Get journal entries, newest first
+   * @param filter Optional path/session/tool call filter
+   */
+  async getEntries(filter: EditJournalFilter = {}): Promise<EditJournalEntry[]> {
+    await this.ensureLoaded();
+
+    return this.entries
+      .filter(entry => {
+        if (!filter.includeReverted && entry.revertedAt !== undefined) return false;
+        if (filter.sessionId && entry.sessionId !== filter.sessionId) return false;
+        if (filter.toolCallId && !this.matchesToolCall(entry, filter.toolCallId)) return false;
+        if (filter.path && !entry.changes.some(change => change.path === filter.path || change.from === filter.path)) return false;
+        return true;
+      })
+      .reverse();
+  }
+
+  /**
+   * Read the before-images of entries back from the journal files
+   * Entries whose file is gone are returned as they are (without before-images).
+   * @param entries Entry summaries, e.g. from getEntries()
+   * @returns Full entries, in the same order
+   */
+  async withBeforeImages(entries: EditJournalEntry[]): Promise<EditJournalEntry[]> {
+    const wanted = new Set(entries.map(entry => entry.id));
+    const files = new Set(entries.map(entry => this.entryFiles.get(entry.id)).filter((file): file is string => !!file));
+    const full = new Map<string, EditJournalEntry>();
+
+    for (const file of files) {
+      for (const event of await this.readEvents(file)) {
+        if (event.type === 'edit' && wanted.has(event.id)) {
+          full.set(event.id, event);
+        }
+      }
+    }
+
+    return entries.map(entry => {
+      const stored = full.get(entry.id);
+      return stored ? { ...stored, revertedAt: entry.revertedAt } : entry;
+    });
+  }
+
+  /**
+   * Get a single entry by id
+   */
+  async getEntry(entryId: string): Promise<EditJournalEntry | null> {
+    await this.ensureLoaded();
+    return this.entries.find(entry => entry.id === entryId) ?? null;
+  }
+
+  /**
+   * List sessions that have unreverted changes, most recent first
+   */
+  async getSessions(): Promise<JournalSessionSummary[]> {
+    const summaries = new Map<string, JournalSessionSummary>();
+
+    for (const entry of await this.getEntries()) {
+      if (!entry.sessionId) continue;
+      const summary = summaries.get(entry.sessionId);
+      if (summary) {
+        summary.entryCount++;
+      } else {
+        summaries.set(entry.sessionId, {
+          sessionId: entry.sessionId,
+          workspaceId: entry.workspaceId,
+          entryCount: 1,
+          lastTimestamp: entry.timestamp
+        });
+      }
+    }
+
+    return Array.from(summaries.values());
+  }
+
+  // ============================================================================
+  // Reverting
+  // ============================================================================
+
+  /**
+   * Revert entries, newest first
+   * Each entry is checked before anything is touched: if the vault no longer matches what the
+   * agent left behind, the entry is skipped with conflicts (unless force is set).
+   * @param entryIds Entries to revert
+   * @param options force: revert despite conflicts; dryRun: only report what would happen
+   */
+  async revert(entryIds: string[], options: { force?: boolean; dryRun?: boolean } = {}): Promise<RevertOutcome[]> {
+    await this.ensureLoaded();
+
+    // Entries are kept in journal order, so reversing gives newest first
+    const targets = await this.withBeforeImages(this.entries
+      .filter(entry => entryIds.includes(entry.id))
+      .reverse());
+
+    const outcomes: RevertOutcome[] = [];
+    const revertedIds: string[] = [];
+
+    for (const entry of targets) {
+      const outcome: RevertOutcome = {
+        entryId: entry.id,
+        tool: `${entry.agent}.${entry.tool}`,
+        timestamp: entry.timestamp,
+        reverted: false,
+        paths: this.getRestoredPaths(entry)
+      };
+
+      if (entry.revertedAt !== undefined) {
+        outcome.conflicts = ['Already reverted'];
+        outcomes.push(outcome);
+        continue;
+      }
+
+      const conflicts = await this.checkEntry(entry);
+      if (conflicts.length > 0 && !options.force) {
+        outcome.conflicts = conflicts;
+        outcomes.push(outcome);
+        continue;
+      }
+
+      if (!options.dryRun) {
+        try {
+          for (const change of [...entry.changes].reverse()) {
+            await this.revertChange(change, !!options.force);
+          }
+          revertedIds.push(entry.id);
+        } catch (error) {
+          outcome.conflicts = [`Revert stopped part-way: ${getErrorMessage(error)}`];
+          outcomes.push(outcome);
+          continue;
+        }
+      }
+
+      outcome.reverted = true;
+      outcomes.push(outcome);
+    }
+
+    if (revertedIds.length > 0) {
+      const event: RevertEvent = { type: 'revert', id: generateUUID(), timestamp: Date.now(), entryIds: revertedIds };
+      await this.appendEvent(event);
+      this.applyRevertEvent(event);
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Check that every change of an entry can be reverted cleanly
+   * @returns Human-readable conflicts (empty if the entry can be reverted)
+   */
+  private async checkEntry(entry: EditJournalEntry): Promise<string[]> {
+    const conflicts: string[] = [];
+
+    for (const change of entry.changes) {
+      switch (change.kind) {
+        case 'modify': {
+          if (change.beforeOmitted) {
+            conflicts.push(`${change.path}: previous content was not journaled (binary or too large)`);
+            break;
+          }
+          if (change.before === undefined) {
+            conflicts.push(`${change.path}: previous content is no longer in the journal file`);
+            break;
+          }
+          const current = await this.readIfExists(change.path);
+          if (current === null) {
+            conflicts.push(`${change.path}: file no longer exists`);
+          } else if (change.afterHash && ContentVersioning.hash(current) !== change.afterHash) {
+            conflicts.push(`${change.path}: changed after the agent edit`);
+          }
+          break;
+        }
+        case 'create': {
+          const current = await this.readIfExists(change.path);
+          if (current !== null && change.afterHash && ContentVersioning.hash(current) !== change.afterHash) {
+            conflicts.push(`${change.path}: changed after the agent created it`);
+          }
+          break;
+        }
+        case 'delete':
+          if (change.beforeOmitted) {
+            conflicts.push(`${change.path}: previous content was not journaled (binary or too large)`);
+          } else if (change.before === undefined) {
+            conflicts.push(`${change.path}: previous content is no longer in the journal file`);
+          }
+          break;
+        case 'rename':
+          if (!(await this.app.vault.adapter.exists(change.path))) {
+            conflicts.push(`${change.path}: no longer exists (was moved from ${change.from})`);
+          } else if (change.from && await this.app.vault.adapter.exists(change.from)) {
+            conflicts.push(`${change.from}: something else now exists at the original path`);
+          }
+          break;
+        case 'createFolder': {
+          const folder = this.app.vault.getAbstractFileByPath(change.path);
+          if (folder instanceof TFolder && folder.children.length > 0) {
+            conflicts.push(`${change.path}: folder is no longer empty`);
+          }
+          break;
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Undo a single change
+   * @param change Change to undo
+   * @param force Overwrite/remove items even if they changed after the agent edit
+   */
+  private async revertChange(change: EditChange, force: boolean): Promise<void> {
+    switch (change.kind) {
+      case 'modify':
+      case 'delete':
+        if (change.before !== undefined) {
+          await this.writeFile(change.path, change.before);
+        }
+        break;
+      case 'create':
+        if (await this.app.vault.adapter.exists(change.path)) {
+          await this.trash(change.path);
+        }
+        break;
+      case 'rename':
+        if (change.from && await this.app.vault.adapter.exists(change.path)) {
+          if (force && await this.app.vault.adapter.exists(change.from)) {
+            await this.trash(change.from);
+          }
+          await this.renamePath(change.path, change.from);
+        }
+        break;
+      case 'createFolder': {
+        const folder = this.app.vault.getAbstractFileByPath(change.path);
+        if (folder instanceof TFolder && (folder.children.length === 0 || force)) {
+          await this.trash(change.path);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Paths whose state a revert of this entry restores
+   */
+  private getRestoredPaths(entry: EditJournalEntry): string[] {
+    const paths = entry.changes.map(change => change.kind === 'rename' && change.from ? change.from : change.path);
+    return Array.from(new Set(paths));
+  }
+
+  // ============================================================================
+  // Vault helpers (adapter fallbacks cover hidden paths such as .archive/)
+  // ============================================================================
+
+  private async readIfExists(path: string): Promise<string | null> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      return this.app.vault.read(file);
+    }
+    if (await this.app.vault.adapter.exists(path)) {
+      return this.app.vault.adapter.read(path);
+    }
+    return null;
+  }
+
+  private async writeFile(path: string, content: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await this.app.vault.modify(file, content);
+      return;
+    }
+
+    await this.ensureParentFolder(path);
+    if (this.isHiddenPath(path)) {
+      await this.app.vault.adapter.write(path, content);
+    } else {
+      await this.app.vault.create(path, content);
+    }
+  }
+
+  private async renamePath(from: string, to: string): Promise<void> {
+    await this.ensureParentFolder(to);
+    const item = this.app.vault.getAbstractFileByPath(from);
+    if (item && !this.isHiddenPath(to)) {
+      await this.app.vault.rename(item, to);
+    } else {
+      await this.app.vault.adapter.rename(from, to);
+    }
+  }
+
+  private async trash(path: string): Promise<void> {
+    const item = this.app.vault.getAbstractFileByPath(path);
+    if (item) {
+      await this.app.vault.trash(item, true);
+    } else if (!(await this.app.vault.adapter.trashSystem(path))) {
+      await this.app.vault.adapter.trashLocal(path);
+    }
+  }
+
+  private async ensureParentFolder(path: string): Promise<void> {
+    const parent = path.substring(0, path.lastIndexOf('/'));
+    if (parent && !(await this.app.vault.adapter.exists(parent))) {
+      await this.app.vault.adapter.mkdir(parent);
+    }
+  }
+
+  private isHiddenPath(path: string): boolean {
+    return path.split('/').some(segment => segment.startsWith('.'));
+  }
+
+  // ============================================================================
+  // Storage
+  // ============================================================================
+
+  /**
+   * Load journal files once (and prune files past the retention window)
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load().catch(error => {
+        console.error('[EditJournalService] Failed to load journal:', error);
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(JOURNAL_DIR))) {
+      return;
+    }
+
+    const cutoff = this.formatDay(new Date(Date.now() - JOURNAL_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    const listing = await adapter.list(JOURNAL_DIR);
+    const files = listing.files.filter(file => file.endsWith('.jsonl')).sort();
+    const revertEvents: RevertEvent[] = [];
+
+    for (const file of files) {
+      const day = file.substring(file.lastIndexOf('/') + 1).replace('.jsonl', '');
+      if (day < cutoff) {
+        await adapter.remove(file);
+        continue;
+      }
+
+      for (const event of await this.readEvents(file)) {
+        if (event.type === 'edit') {
+          this.addEntry(event, file);
+        } else if (event.type === 'revert') {
+          revertEvents.push(event);
+        }
+      }
+    }
+
+    this.entries.sort((a, b) => a.timestamp - b.timestamp);
+    revertEvents.forEach(event => this.applyRevertEvent(event));
+  }
+
+  private async readEvents(file: string): Promise<JournalEvent[]> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(file))) {
+      return [];
+    }
+
+    const events: JournalEvent[] = [];
+    for (const line of (await adapter.read(file)).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as JournalEvent);
+      } catch {
+        // Skip partial lines (e.g. interrupted sync)
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Keep an entry in memory without its before-images
+   */
+  private addEntry(entry: EditJournalEntry, file: string): void {
+    this.entries.push({
+      ...entry,
+      changes: entry.changes.map(change => ({ ...change, before: undefined }))
+    });
+    this.entryFiles.set(entry.id, file);
+  }
+
+  private matchesToolCall(entry: EditJournalEntry, toolCallId: string): boolean {
+    return entry.toolCallId === toolCallId || !!entry.toolCallId?.startsWith(`${toolCallId}_`);
+  }
+
+  /**
+   * Append an event to the day's journal file
+   * @returns Path of the journal file
+   */
+  private async appendEvent(event: JournalEvent): Promise<string> {
+    const path = `${JOURNAL_DIR}/${this.formatDay(new Date(event.timestamp))}.jsonl`;
+    const line = JSON.stringify(event) + '\n';
+
+    await this.writeLock.acquire(async () => {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(JOURNAL_DIR))) {
+        await adapter.mkdir(JOURNAL_DIR);
+      }
+      if (await adapter.exists(path)) {
+        await adapter.append(path, line);
+      } else {
+        await adapter.write(path, line);
+      }
+    });
+    return path;
+  }
+
+  private applyRevertEvent(event: RevertEvent): void {
+    for (const entry of this.entries) {
+      if (event.entryIds.includes(entry.id)) {
+        entry.revertedAt = event.timestamp;
+      }
+    }
+  }
+
+  private limitBeforeImage(change: EditChange): EditChange {
+    if (change.before !== undefined && change.before.length > MAX_BEFORE_LENGTH) {
+      return { ...change, before: undefined, beforeOmitted: true };
+    }
+    return change;
+  }
+
+  /**
+   * Local date as YYYY-MM-DD (journal file name)
+   */
+  private formatDay(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+}
+
+/**
+ * Record agent changes in the edit journal, if the journal service is available
+ * Never throws: a journal failure must not fail the tool call that made the change.
+ * @param app Obsidian app instance
+ * @param source Agent, tool and call context
+ * @param changes Changes in the order they were applied
+ */
+export async function recordAgentEdit(app: App, source: EditSource, changes: EditChange[]): Promise<void> {
+  try {
+    const journal = await getEditJournal(app);
+    await journal?.record(source, changes);
+  } catch (error) {
+    console.error('[EditJournalService] Failed to record edit:', error);
+  }
+}
+
+/**
+ * Capture a file's content as a before-image
+ * Only text formats are captured; other files are journaled without content (not revertible).
+ * @param app Obsidian app instance
+ * @param file File about to be changed or removed
+ */
+export async function captureBeforeImage(app: App, file: TFile): Promise<Pick<EditChange, 'before' | 'beforeOmitted'>> {
+  if (!TEXT_EXTENSIONS.includes(file.extension.toLowerCase())) {
+    return { beforeOmitted: true };
+  }
+  return { before: await app.vault.read(file) };
+}
+
+/**
+ * Locate the edit journal service through the plugin's service registry
+ * @param app Obsidian app instance
+ * @returns The journal service, or null if the plugin is not loaded
+ */
+export async function getEditJournal(app: App): Promise<EditJournalService | null> {
+  const plugin = getNexusPlugin<NexusPluginWithJournal>(app);
+  if (!plugin || typeof plugin.getService !== 'function') {
+    return null;
+  }
+  return plugin.getService<EditJournalService>('editJournalService');
+}
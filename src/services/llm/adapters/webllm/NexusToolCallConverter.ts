@@ -59,6 +59,8 @@ const KNOWN_AGENTS = [
   'contentManager',
   'commandManager',
   'storageManager',
+  'periodicNotesManager',
+  'taskManager',
   'searchManager',
   'memoryManager',
 ];
@@ -5,10 +5,21 @@
  * This service handles:
  * - Parallel file reading via VaultOperations
  * - Formatting file content with path headers for LLM context
+ * - Optional embed expansion (![[Note]] transclusions) via EmbedExpander
  * - Error handling and graceful degradation
  */
 
+import { App } from 'obsidian';
 import { VaultOperations } from '../../../core/VaultOperations';
+import { EmbedExpander, EmbedExpansionOptions } from '../../../utils/EmbedExpander';
+
+/**
+ * Options for gathering file content
+ */
+export interface FileContentOptions extends EmbedExpansionOptions {
+  /** Inline embedded notes (requires the service to be created with an App) */
+  expandEmbeds?: boolean;
+}
 
 /**
  * Interface for file content gathering operations
@@ -17,9 +28,10 @@ export interface IFileContentService {
   /**
    * Gather and format file content for LLM context
    * @param filepaths - Array of file paths to read
+   * @param options - Embed expansion options
    * @returns Formatted string with file headers and content
    */
-  gatherFileContent(filepaths: string[]): Promise<string>;
+  gatherFileContent(filepaths: string[], options?: FileContentOptions): Promise<string>;
 }
 
 /**
@@ -27,7 +39,7 @@ export interface IFileContentService {
  * Uses VaultOperations for cached, parallel file reading
  */
 export class FileContentService implements IFileContentService {
-  constructor(private vaultOperations: VaultOperations) {}
+  constructor(private vaultOperations: VaultOperations, private app?: App) {}
 
   /**
    * Gather and format file content from multiple paths
@@ -44,13 +56,13 @@ export class FileContentService implements IFileContentService {
    * [file content or error message]
    * ```
    */
-  async gatherFileContent(filepaths: string[]): Promise<string> {
+  async gatherFileContent(filepaths: string[], options: FileContentOptions = {}): Promise<string> {
     if (filepaths.length === 0) {
       return '';
     }
 
     // Use VaultOperations.batchRead() for parallel, cached reads
-    const contentMap = await this.vaultOperations.batchRead(filepaths);
+    const contentMap = await this.expandEmbeds(await this.vaultOperations.batchRead(filepaths), filepaths, options);
 
     // Format content with file headers
     const contentParts: string[] = [];
@@ -83,12 +95,12 @@ export class FileContentService implements IFileContentService {
    * </file_path_to_file1_md>
    * ```
    */
-  async formatAsXml(filepaths: string[]): Promise<string> {
+  async formatAsXml(filepaths: string[], options: FileContentOptions = {}): Promise<string> {
     if (filepaths.length === 0) {
       return '';
     }
 
-    const contentMap = await this.vaultOperations.batchRead(filepaths);
+    const contentMap = await this.expandEmbeds(await this.vaultOperations.batchRead(filepaths), filepaths, options);
     const xmlParts: string[] = [];
 
     for (const filepath of filepaths) {
@@ -105,6 +117,28 @@ export class FileContentService implements IFileContentService {
     return xmlParts.join('\n');
   }
 
+  /**
+   * Expand embeds in read content, in file order so earlier files get the token budget first
+   */
+  private async expandEmbeds(
+    contentMap: Map<string, string | null>,
+    filepaths: string[],
+    options: FileContentOptions
+  ): Promise<Map<string, string | null>> {
+    if (!options.expandEmbeds || !this.app) {
+      return contentMap;
+    }
+
+    const expander = new EmbedExpander(this.app, options);
+    for (const filepath of filepaths) {
+      const content = contentMap.get(filepath);
+      if (content) {
+        contentMap.set(filepath, await expander.expand(content, filepath));
+      }
+    }
+    return contentMap;
+  }
+
   /**
    * Convert file path to valid XML tag name
    * Example: "path/to/file.md" -> "file_path_to_file_md"
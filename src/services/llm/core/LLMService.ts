@@ -3,7 +3,7 @@
  * Provides unified interface to all LLM providers with Obsidian integration
  */
 
-import { Vault, EventRef, DataAdapter } from 'obsidian';
+import { App, Vault, EventRef, DataAdapter } from 'obsidian';
 import { BaseAdapter } from '../adapters/BaseAdapter';
 import { GenerateOptions, LLMResponse, ModelInfo } from '../adapters/types';
 import { LLMProviderSettings, LLMProviderConfig } from '../../../types';
@@ -23,6 +23,8 @@ export interface LLMExecutionOptions extends GenerateOptions {
   provider?: string;
   model?: string;
   filepaths?: string[];
+  /** Inline notes embedded in the files (see EmbedExpander) */
+  expandEmbeds?: boolean;
   systemPrompt?: string;
   userPrompt: string;
   webSearch?: boolean;
@@ -193,7 +195,9 @@ export class LLMService {
       let filesIncluded: string[] = [];
       if (options.filepaths && options.filepaths.length > 0) {
         if (this.fileContentService) {
-          const fileContent = await this.fileContentService.gatherFileContent(options.filepaths);
+          const fileContent = await this.fileContentService.gatherFileContent(options.filepaths, {
+            expandEmbeds: options.expandEmbeds
+          });
           if (fileContent.length > 0) {
             fullPrompt = `Context from files:\n\n${fileContent}\n\n---\n\nUser request: ${options.userPrompt}`;
             filesIncluded = options.filepaths;
@@ -244,9 +248,9 @@ export class LLMService {
     }
   }
 
-  /** Set VaultOperations for file reading */
-  setVaultOperations(vaultOperations: VaultOperations): void {
-    this.fileContentService = new FileContentService(vaultOperations);
+  /** Set VaultOperations for file reading (app enables embed expansion) */
+  setVaultOperations(vaultOperations: VaultOperations, app?: App): void {
+    this.fileContentService = new FileContentService(vaultOperations, app);
   }
 
   /** Test connection to a specific provider */
@@ -10,6 +10,6 @@ export type { IAdapterRegistry } from './AdapterRegistry';
 export { ModelDiscoveryService } from './ModelDiscoveryService';
 export type { IModelDiscoveryService, ModelWithProvider } from './ModelDiscoveryService';
 export { FileContentService } from './FileContentService';
-export type { IFileContentService } from './FileContentService';
+export type { IFileContentService, FileContentOptions } from './FileContentService';
 export { StreamingOrchestrator } from './StreamingOrchestrator';
 export type { StreamingOptions, StreamYield } from './StreamingOrchestrator';
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Handles model filtering, provider management, and model information
  */
 
-import { Vault } from 'obsidian';
+import { App, Vault } from 'obsidian';
 import { ModelInfo } from '../adapters/types';
 import { LLMProviderSettings, LLMProviderConfig } from '../../../types';
 import { LLMService } from '../core/LLMService';
@@ -45,10 +45,10 @@ export class LLMProviderManager {
   }
 
   /**
-   * Set VaultOperations for file reading
+   * Set VaultOperations for file reading (app enables embed expansion)
    */
-  setVaultOperations(vaultOperations: any): void {
-    this.llmService.setVaultOperations(vaultOperations);
+  setVaultOperations(vaultOperations: any, app?: App): void {
+    this.llmService.setVaultOperations(vaultOperations, app);
   }
 
   /**
@@ -0,0 +1,379 @@
+/**
+ * Location: src/services/search/ConversationSearchService.ts
+ * Purpose: Full-text search over past chat conversations (titles and messages)
+ *
+ * Features:
+ * - BM25 keyword search on the conversation_fts and message_fts tables, with highlighted snippets
+ * - Filters: date range, model or provider, workspace (from the conversation's chat settings);
+ *   branch conversations are left out unless asked for
+ * - Only user and assistant messages are searched (not tool results or system prompts)
+ * - Optional semantic search: keyword hits are fused with the nearest indexed exchanges
+ *   (conversation embeddings) by reciprocal rank fusion, as in hybrid searchContent, so exchanges
+ *   that share no words with the query are found too. Before conversations are indexed, keyword
+ *   candidates are embedded on the fly and re-ranked instead
+ *
+ * Relationships:
+ * - Reads the SQLite cache (conversations, messages and their FTS5 tables from schema.ts)
+ * - Uses NoteFtsIndex.buildMatchQuery for MATCH expressions, and EmbeddingService.semanticConversationSearch
+ *   (or scoreTexts) for the semantic side
+ * - Used by SearchConversationsTool (searchManager.searchConversations) and ConversationSearchModal
+ */
+
+import type { SQLiteCacheManager } from '../../database/storage/SQLiteCacheManager';
+import type { ConversationWindowMatch, EmbeddingService } from '../embeddings/EmbeddingService';
+import { NoteFtsIndex } from './NoteFtsIndex';
+
+/**
+ * A conversation title or message matching a search
+ */
+export interface ConversationSearchHit {
+  conversationId: string;
+  conversationTitle: string;
+  /** Matching message, or null when the conversation title matched */
+  messageId: string | null;
+  role?: 'user' | 'assistant';
+  /** Message time, or the conversation's last update for title matches */
+  timestamp: number;
+  /** Matching text with the matched words in **bold** */
+  snippet: string;
+  model?: string;
+  provider?: string;
+  workspaceId?: string;
+  /** Ranking score (higher is better) */
+  score: number;
+}
+
+export interface ConversationSearchOptions {
+  /** Maximum hits (default 20) */
+  limit?: number;
+  /** Only messages (or, for title matches, conversations updated) at or after this time (ms) */
+  since?: number;
+  /** Only messages (or conversations updated) at or before this time (ms) */
+  until?: number;
+  /** Model or provider id, matched as a case-insensitive substring (e.g. "claude", "gpt-4o") */
+  model?: string;
+  workspaceId?: string;
+  /** Include branch conversations (subagent runs and alternatives) */
+  includeBranches?: boolean;
+  /** Also match by meaning (desktop; needs the embedding model) */
+  semantic?: boolean;
+}
+
+interface MessageRow {
+  messageId: string;
+  conversationId: string;
+  role: 'user' | 'assistant';
+  timestamp: number;
+  sequenceNumber: number;
+  content: string | null;
+  snippet: string;
+  rank: number;
+  title: string;
+  metadataJson: string | null;
+}
+
+interface TitleRow {
+  conversationId: string;
+  title: string;
+  timestamp: number;
+  snippet: string;
+  rank: number;
+  metadataJson: string | null;
+}
+
+interface ConversationRow {
+  conversationId: string;
+  title: string;
+  metadataJson: string | null;
+}
+
+/**
+ * A keyword hit with its text (for re-ranking) and, for messages, its position in the conversation
+ */
+interface Candidate {
+  hit: ConversationSearchHit;
+  text: string;
+  sequenceNumber?: number;
+}
+
+/** Title matches count this much more than message matches of the same BM25 score */
+const TITLE_BOOST = 2.0;
+
+/** BM25 weight of reasoning text relative to message content */
+const REASONING_WEIGHT = 0.5;
+
+/** Words of context around matches in snippets */
+const SNIPPET_TOKENS = 24;
+
+/** Keyword and semantic candidates per requested hit when matching by meaning */
+const SEMANTIC_CANDIDATE_FACTOR = 3;
+const MIN_SEMANTIC_CANDIDATES = 30;
+
+/** Reciprocal rank fusion constant */
+const RRF_K = 60;
+
+const MODEL_JSON_PATH = '$.chatSettings.modelId';
+const PROVIDER_JSON_PATH = '$.chatSettings.providerId';
+const WORKSPACE_JSON_PATH = '$.chatSettings.workspaceId';
+
+export class ConversationSearchService {
+  private db: SQLiteCacheManager;
+  private embeddingService: EmbeddingService | null;
+
+  constructor(db: SQLiteCacheManager, embeddingService: EmbeddingService | null = null) {
+    this.db = db;
+    this.embeddingService = embeddingService;
+  }
+
+  /**
+   * Search conversation titles and messages
+   *
+   * @param query - Free-text query; a hit contains any of its words, more and rarer matches rank higher
+   * @param options - Limit, filters and semantic matching
+   * @returns Hits, best first
+   */
+  async search(query: string, options: ConversationSearchOptions = {}): Promise<ConversationSearchHit[]> {
+    const matchQuery = NoteFtsIndex.buildMatchQuery(query);
+    const semantic = !!options.semantic && !!this.embeddingService?.isServiceEnabled();
+    if (!matchQuery && !(semantic && query.trim())) {
+      return [];
+    }
+
+    const limit = Math.max(1, options.limit ?? 20);
+    const candidateLimit = semantic ? Math.max(limit * SEMANTIC_CANDIDATE_FACTOR, MIN_SEMANTIC_CANDIDATES) : limit;
+
+    const [messages, titles, windows] = await Promise.all([
+      matchQuery ? this.searchMessages(matchQuery, options, candidateLimit) : [],
+      matchQuery ? this.searchTitles(matchQuery, options, candidateLimit) : [],
+      semantic ? this.searchWindows(query, options, candidateLimit) : []
+    ]);
+
+    const candidates: Candidate[] = [
+      ...messages.map(row => ({
+        hit: this.toHit(row, row.messageId, row.role, -row.rank),
+        text: row.content ?? '',
+        sequenceNumber: row.sequenceNumber
+      })),
+      ...titles.map(row => ({ hit: this.toHit(row, null, undefined, -row.rank * TITLE_BOOST), text: row.title }))
+    ].sort((a, b) => b.hit.score - a.hit.score).slice(0, candidateLimit);
+
+    if (windows.length > 0) {
+      return this.fuseWithWindows(candidates, windows, limit);
+    }
+
+    // Conversations not indexed yet: re-rank the keyword candidates by meaning
+    if (semantic && candidates.length > 0) {
+      const similarities = await this.embeddingService?.scoreTexts(query, candidates.map(candidate => candidate.text));
+      if (similarities) {
+        const semanticRanks = similarities
+          .map((similarity, index) => ({ similarity, index }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .map(entry => entry.index);
+        semanticRanks.forEach((candidateIndex, semanticRank) => {
+          const candidate = candidates[candidateIndex];
+          candidate.hit.score = 1 / (RRF_K + candidateIndex + 1) + 1 / (RRF_K + semanticRank + 1);
+        });
+        candidates.sort((a, b) => b.hit.score - a.hit.score);
+      }
+    }
+
+    return candidates.slice(0, limit).map(candidate => candidate.hit);
+  }
+
+  /**
+   * Nearest indexed exchanges to the query, with the conversations they belong to
+   * (model and branch filters are applied here; the embedding search handles workspace and dates)
+   */
+  private async searchWindows(
+    query: string,
+    options: ConversationSearchOptions,
+    limit: number
+  ): Promise<Array<{ window: ConversationWindowMatch; conversation: ConversationRow }>> {
+    const windows = await this.embeddingService?.semanticConversationSearch(query, {
+      workspaceId: options.workspaceId,
+      since: options.since,
+      until: options.until
+    }, limit) ?? [];
+    if (windows.length === 0) {
+      return [];
+    }
+
+    const ids = Array.from(new Set(windows.map(window => window.conversationId)));
+    const { clauses, params } = this.buildFilters({ ...options, since: undefined, until: undefined }, 'c.updated');
+    const conversations = await this.db.query<ConversationRow>(
+      `SELECT c.id AS conversationId, c.title, c.metadataJson
+       FROM conversations c
+       WHERE c.id IN (${ids.map(() => '?').join(', ')})${clauses}`,
+      [...ids, ...params]
+    );
+    const byId = new Map(conversations.map(conversation => [conversation.conversationId, conversation]));
+
+    return windows
+      .filter(window => byId.has(window.conversationId))
+      .map(window => ({ window, conversation: byId.get(window.conversationId) as ConversationRow }));
+  }
+
+  /**
+   * Fuse keyword candidates and nearest exchanges by reciprocal rank. A keyword message inside a
+   * matched exchange counts for that exchange and keeps its highlighted snippet; exchanges found
+   * only by meaning point at their first message.
+   */
+  private async fuseWithWindows(
+    candidates: Candidate[],
+    windows: Array<{ window: ConversationWindowMatch; conversation: ConversationRow }>,
+    limit: number
+  ): Promise<ConversationSearchHit[]> {
+    const windowKey = (window: ConversationWindowMatch) => `exchange:${window.conversationId}:${window.startSequence}`;
+    const fused = new Map<string, { hit: ConversationSearchHit; score: number; window?: ConversationWindowMatch }>();
+
+    candidates.forEach((candidate, rank) => {
+      const { hit, sequenceNumber } = candidate;
+      const window = sequenceNumber === undefined ? undefined : windows.find(({ window }) =>
+        window.conversationId === hit.conversationId &&
+        window.startSequence <= sequenceNumber && sequenceNumber <= window.endSequence
+      )?.window;
+      const key = window ? windowKey(window) : hit.messageId ? `message:${hit.messageId}` : `title:${hit.conversationId}`;
+      if (!fused.has(key)) {
+        fused.set(key, { hit, score: 1 / (RRF_K + rank + 1) });
+      }
+    });
+
+    windows.forEach(({ window, conversation }, rank) => {
+      const key = windowKey(window);
+      const entry = fused.get(key);
+      if (entry) {
+        entry.score += 1 / (RRF_K + rank + 1);
+      } else {
+        fused.set(key, {
+          hit: this.toHit({ ...conversation, timestamp: window.timestamp, snippet: '' }, window.startMessageId, 'user', 0),
+          score: 1 / (RRF_K + rank + 1),
+          window
+        });
+      }
+    });
+
+    const ranked = Array.from(fused.values()).sort((a, b) => b.score - a.score).slice(0, limit);
+    for (const entry of ranked) {
+      entry.hit.score = entry.score;
+      if (entry.window) {
+        await this.fillExchangeSnippet(entry.hit, entry.window);
+      }
+    }
+    return ranked.map(entry => entry.hit);
+  }
+
+  /**
+   * Snippet and role of an exchange found by meaning alone (no words to highlight)
+   */
+  private async fillExchangeSnippet(hit: ConversationSearchHit, window: ConversationWindowMatch): Promise<void> {
+    const rows = await this.db.query<{ role: 'user' | 'assistant'; content: string | null }>(
+      `SELECT role, content FROM messages
+       WHERE conversationId = ? AND sequenceNumber BETWEEN ? AND ? AND role IN ('user', 'assistant')
+       ORDER BY sequenceNumber`,
+      [window.conversationId, window.startSequence, window.endSequence]
+    );
+
+    const words = rows.map(row => row.content ?? '').join(' … ').split(/\s+/).filter(Boolean);
+    hit.snippet = words.slice(0, SNIPPET_TOKENS * 2).join(' ') + (words.length > SNIPPET_TOKENS * 2 ? '…' : '');
+    if (rows[0]) {
+      hit.role = rows[0].role;
+    }
+  }
+
+  private async searchMessages(matchQuery: string, options: ConversationSearchOptions, limit: number): Promise<MessageRow[]> {
+    const { clauses, params } = this.buildFilters(options, 'm.timestamp');
+    return this.db.query<MessageRow>(
+      `SELECT m.id AS messageId, m.conversationId, m.role, m.timestamp, m.sequenceNumber, m.content,
+              snippet(message_fts, -1, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet,
+              bm25(message_fts, 0, 0, 1.0, ${REASONING_WEIGHT}) AS rank,
+              c.title, c.metadataJson
+       FROM message_fts
+       JOIN messages m ON m.rowid = message_fts.rowid
+       JOIN conversations c ON c.id = m.conversationId
+       WHERE message_fts MATCH ? AND m.role IN ('user', 'assistant')${clauses}
+       ORDER BY rank
+       LIMIT ?`,
+      [`{content reasoningContent} : (${matchQuery})`, ...params, limit]
+    );
+  }
+
+  private async searchTitles(matchQuery: string, options: ConversationSearchOptions, limit: number): Promise<TitleRow[]> {
+    const { clauses, params } = this.buildFilters(options, 'c.updated');
+    return this.db.query<TitleRow>(
+      `SELECT c.id AS conversationId, c.title, c.updated AS timestamp, c.metadataJson,
+              snippet(conversation_fts, 1, '**', '**', '…', ${SNIPPET_TOKENS}) AS snippet,
+              bm25(conversation_fts, 0, 1.0) AS rank
+       FROM conversation_fts
+       JOIN conversations c ON c.rowid = conversation_fts.rowid
+       WHERE conversation_fts MATCH ?${clauses}
+       ORDER BY rank
+       LIMIT ?`,
+      [`title : (${matchQuery})`, ...params, limit]
+    );
+  }
+
+  /**
+   * SQL conditions (each starting with AND) for the search filters
+   */
+  private buildFilters(options: ConversationSearchOptions, timeColumn: string): { clauses: string; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.since !== undefined) {
+      clauses.push(`${timeColumn} >= ?`);
+      params.push(options.since);
+    }
+    if (options.until !== undefined) {
+      clauses.push(`${timeColumn} <= ?`);
+      params.push(options.until);
+    }
+    if (options.model?.trim()) {
+      const pattern = `%${options.model.trim().replace(/[\\%_]/g, '\\$&')}%`;
+      clauses.push(`(json_extract(c.metadataJson, '${MODEL_JSON_PATH}') LIKE ? ESCAPE '\\'
+        OR json_extract(c.metadataJson, '${PROVIDER_JSON_PATH}') LIKE ? ESCAPE '\\')`);
+      params.push(pattern, pattern);
+    }
+    if (options.workspaceId) {
+      clauses.push(`json_extract(c.metadataJson, '${WORKSPACE_JSON_PATH}') = ?`);
+      params.push(options.workspaceId);
+    }
+    // Branches carry parentConversationId in their metadata (as in ConversationRepository)
+    if (!options.includeBranches) {
+      clauses.push(`(c.metadataJson IS NULL OR c.metadataJson NOT LIKE '%"parentConversationId"%')`);
+    }
+
+    return { clauses: clauses.map(clause => ` AND ${clause}`).join(''), params };
+  }
+
+  private toHit(
+    row: { conversationId: string; title: string; timestamp: number; snippet: string; metadataJson: string | null },
+    messageId: string | null,
+    role: 'user' | 'assistant' | undefined,
+    score: number
+  ): ConversationSearchHit {
+    const chatSettings = this.parseChatSettings(row.metadataJson);
+    return {
+      conversationId: row.conversationId,
+      conversationTitle: row.title,
+      messageId,
+      ...(role && { role }),
+      timestamp: row.timestamp,
+      snippet: row.snippet.replace(/\s+/g, ' ').trim(),
+      ...(chatSettings.modelId && { model: chatSettings.modelId }),
+      ...(chatSettings.providerId && { provider: chatSettings.providerId }),
+      ...(chatSettings.workspaceId && { workspaceId: chatSettings.workspaceId }),
+      score
+    };
+  }
+
+  private parseChatSettings(metadataJson: string | null): { modelId?: string; providerId?: string; workspaceId?: string } {
+    if (!metadataJson) {
+      return {};
+    }
+    try {
+      return JSON.parse(metadataJson)?.chatSettings ?? {};
+    } catch {
+      return {};
+    }
+  }
+}
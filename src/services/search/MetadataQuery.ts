@@ -0,0 +1,392 @@
+/**
+ * Location: src/services/search/MetadataQuery.ts
+ * Purpose: Parse the metadata query language used by searchManager.query
+ *
+ * Syntax (keywords are case-insensitive, every clause is optional):
+ *   [SELECT field, ...] [FROM "folder"] [WHERE] condition [SORT field [ASC|DESC], ...] [LIMIT n]
+ *
+ * Conditions:
+ * - field = value, !=, <, <=, >, >=, and "field contains value"
+ * - #tag (matches nested tags too), a bare field (set and not empty)
+ * - AND, OR, NOT and parentheses; AND binds tighter than OR
+ *
+ * Fields are frontmatter properties (nested with dots; quote names with spaces) or file fields:
+ * file.path, file.name, file.folder, file.ext, file.size, file.ctime, file.mtime, file.tags,
+ * file.outlinks, file.inlinks, file.tasks, file.openTasks, file.doneTasks.
+ *
+ * Values are "strings", numbers, true/false, null, dates (2024-05-01, today, yesterday,
+ * tomorrow, or relative to today: -7d, +2w, -1m, +1y) and bare words (treated as strings).
+ *
+ * Relationships:
+ * - Parsed queries are run by MetadataQueryEngine
+ */
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'contains';
+
+/**
+ * A literal value on the right of a comparison
+ */
+export type QueryValue =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'null' }
+  /** Calendar day (YYYY-MM-DD), resolved when the query is parsed */
+  | { type: 'date'; value: string };
+
+export type QueryCondition =
+  | { type: 'and' | 'or'; left: QueryCondition; right: QueryCondition }
+  | { type: 'not'; condition: QueryCondition }
+  | { type: 'tag'; tag: string }
+  | { type: 'exists'; field: string }
+  | { type: 'compare'; field: string; operator: ComparisonOperator; value: QueryValue };
+
+export interface QuerySort {
+  field: string;
+  descending: boolean;
+}
+
+/**
+ * A parsed query
+ */
+export interface MetadataQuery {
+  /** Fields to return (empty: the fields the query uses) */
+  select: string[];
+  /** Only notes in this folder and its subfolders */
+  from?: string;
+  where: QueryCondition | null;
+  sort: QuerySort[];
+  limit?: number;
+}
+
+/**
+ * Error in a query, with the character offset where parsing failed
+ */
+export class MetadataQueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'MetadataQueryError';
+  }
+}
+
+type TokenType = 'string' | 'number' | 'date' | 'word' | 'tag' | 'operator' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const CLAUSE_KEYWORDS = ['select', 'from', 'where', 'sort', 'limit'];
+
+const TOKEN_PATTERNS: Array<[TokenType, RegExp]> = [
+  ['string', /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/y],
+  ['date', /\d{4}-\d{2}-\d{2}(?![\w-])|[+-]\d+[dwmy](?![\w-])/y],
+  ['number', /-?\d+(?:\.\d+)?(?![\w-])/y],
+  ['tag', /#[\p{L}\p{N}_/-]+/uy],
+  ['operator', /!=|<=|>=|=|<|>/y],
+  ['word', /[\p{L}\p{N}_][\p{L}\p{N}_.-]*/uy],
+  ['(', /\(/y],
+  [')', /\)/y],
+  [',', /,/y]
+];
+
+const RELATIVE_UNITS: Record<string, 'days' | 'weeks' | 'months' | 'years'> = {
+  d: 'days',
+  w: 'weeks',
+  m: 'months',
+  y: 'years'
+};
+
+/**
+ * Parser for the metadata query language
+ */
+export class MetadataQueryParser {
+  private tokens: Token[];
+  private index = 0;
+
+  /**
+   * Parse a query
+   * @param query Query text
+   * @param today Day that relative dates count from (default: now)
+   * @returns Parsed query
+   * @throws MetadataQueryError if the query is not valid
+   */
+  static parse(query: string, today: Date = new Date()): MetadataQuery {
+    return new MetadataQueryParser(query, today).parseQuery();
+  }
+
+  private constructor(query: string, private readonly today: Date) {
+    this.tokens = this.tokenize(query);
+  }
+
+  private parseQuery(): MetadataQuery {
+    const result: MetadataQuery = { select: [], where: null, sort: [] };
+
+    if (this.acceptKeyword('select')) {
+      result.select = this.parseList(() => this.parseField());
+    }
+    if (this.acceptKeyword('from')) {
+      const folder = this.expect('string', 'a quoted folder after FROM');
+      result.from = this.unquote(folder.text).replace(/^\/+|\/+$/g, '');
+    }
+    this.acceptKeyword('where');
+    if (!this.atEnd() && !this.isKeyword(this.peek(), 'sort') && !this.isKeyword(this.peek(), 'limit')) {
+      result.where = this.parseOr();
+    }
+    if (this.acceptKeyword('sort')) {
+      result.sort = this.parseList(() => {
+        const field = this.parseField();
+        const descending = this.acceptKeyword('desc');
+        if (!descending) {
+          this.acceptKeyword('asc');
+        }
+        return { field, descending };
+      });
+    }
+    if (this.acceptKeyword('limit')) {
+      const limit = this.expect('number', 'a number after LIMIT');
+      const value = Number(limit.text);
+      if (!Number.isInteger(value) || value < 1) {
+        throw new MetadataQueryError('LIMIT must be a positive whole number', limit.position);
+      }
+      result.limit = value;
+    }
+
+    if (!this.atEnd()) {
+      const token = this.peek();
+      throw new MetadataQueryError(`Unexpected "${token.text}"`, token.position);
+    }
+    return result;
+  }
+
+  private parseOr(): QueryCondition {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): QueryCondition {
+    let left = this.parseNot();
+    while (this.acceptKeyword('and')) {
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): QueryCondition {
+    if (this.acceptKeyword('not')) {
+      return { type: 'not', condition: this.parseNot() };
+    }
+    return this.parseTerm();
+  }
+
+  private parseTerm(): QueryCondition {
+    const token = this.peek();
+
+    if (token.type === '(') {
+      this.index++;
+      const condition = this.parseOr();
+      this.expect(')', '")" to close "("');
+      return condition;
+    }
+    if (token.type === 'tag') {
+      this.index++;
+      return { type: 'tag', tag: token.text.slice(1).toLowerCase() };
+    }
+
+    const field = this.parseField();
+    const next = this.peek();
+    if (next.type === 'operator') {
+      this.index++;
+      return { type: 'compare', field, operator: next.text as ComparisonOperator, value: this.parseValue() };
+    }
+    if (this.isKeyword(next, 'contains')) {
+      this.index++;
+      return { type: 'compare', field, operator: 'contains', value: this.parseValue() };
+    }
+    return { type: 'exists', field };
+  }
+
+  private parseField(): string {
+    const token = this.peek();
+    if (token.type === 'string') {
+      this.index++;
+      return this.unquote(token.text);
+    }
+    if (token.type === 'word' && !this.isReserved(token)) {
+      this.index++;
+      return token.text;
+    }
+    throw new MetadataQueryError(
+      token.type === 'end' ? 'Expected a field at the end of the query' : `Expected a field, found "${token.text}"`,
+      token.position
+    );
+  }
+
+  private parseValue(): QueryValue {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case 'string':
+        return { type: 'string', value: this.unquote(token.text) };
+      case 'number':
+        return { type: 'number', value: Number(token.text) };
+      case 'date':
+        return { type: 'date', value: this.resolveDate(token) };
+      case 'word': {
+        const word = token.text.toLowerCase();
+        if (word === 'true' || word === 'false') {
+          return { type: 'boolean', value: word === 'true' };
+        }
+        if (word === 'null') {
+          return { type: 'null' };
+        }
+        if (word === 'today' || word === 'yesterday' || word === 'tomorrow') {
+          const offset = word === 'today' ? 0 : word === 'yesterday' ? -1 : 1;
+          return { type: 'date', value: this.formatDay(this.addToToday(offset, 'days')) };
+        }
+        if (!this.isReserved(token)) {
+          return { type: 'string', value: token.text };
+        }
+        break;
+      }
+    }
+
+    throw new MetadataQueryError(
+      token.type === 'end' ? 'Expected a value at the end of the query' : `Expected a value, found "${token.text}"`,
+      token.position
+    );
+  }
+
+  private parseList<T>(parseItem: () => T): T[] {
+    const items = [parseItem()];
+    while (this.peek().type === ',') {
+      this.index++;
+      items.push(parseItem());
+    }
+    return items;
+  }
+
+  /**
+   * Resolve an absolute (2024-05-01) or relative (-7d) date token to a day
+   */
+  private resolveDate(token: Token): string {
+    const relative = /^([+-]\d+)([dwmy])$/.exec(token.text);
+    if (relative) {
+      return this.formatDay(this.addToToday(Number(relative[1]), RELATIVE_UNITS[relative[2]]));
+    }
+
+    const [year, month, day] = token.text.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      throw new MetadataQueryError(`Invalid date "${token.text}"`, token.position);
+    }
+    return token.text;
+  }
+
+  private addToToday(amount: number, unit: 'days' | 'weeks' | 'months' | 'years'): Date {
+    const date = new Date(this.today.getFullYear(), this.today.getMonth(), this.today.getDate());
+    switch (unit) {
+      case 'days':
+        date.setDate(date.getDate() + amount);
+        break;
+      case 'weeks':
+        date.setDate(date.getDate() + amount * 7);
+        break;
+      case 'months':
+        date.setMonth(date.getMonth() + amount);
+        break;
+      case 'years':
+        date.setFullYear(date.getFullYear() + amount);
+        break;
+    }
+    return date;
+  }
+
+  private formatDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < query.length) {
+      const whitespace = /\s+/y;
+      whitespace.lastIndex = position;
+      if (whitespace.exec(query)) {
+        position = whitespace.lastIndex;
+        continue;
+      }
+
+      let matched = false;
+      for (const [type, pattern] of TOKEN_PATTERNS) {
+        pattern.lastIndex = position;
+        const match = pattern.exec(query);
+        if (match) {
+          tokens.push({ type, text: match[0], position });
+          position += match[0].length;
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) {
+        const quote = query[position];
+        throw new MetadataQueryError(
+          quote === '"' || quote === "'" ? 'Unclosed quote' : `Unexpected character "${quote}"`,
+          position
+        );
+      }
+    }
+
+    tokens.push({ type: 'end', text: '', position: query.length });
+    return tokens;
+  }
+
+  private unquote(text: string): string {
+    return text.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private atEnd(): boolean {
+    return this.peek().type === 'end';
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new MetadataQueryError(
+        `Expected ${description}${token.type === 'end' ? '' : `, found "${token.text}"`}`,
+        token.position
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'word' && token.text.toLowerCase() === keyword;
+  }
+
+  /** Words that cannot be bare field names or values (quote them instead) */
+  private isReserved(token: Token): boolean {
+    const word = token.text.toLowerCase();
+    return CLAUSE_KEYWORDS.includes(word) || ['and', 'or', 'not', 'contains', 'asc', 'desc'].includes(word);
+  }
+}
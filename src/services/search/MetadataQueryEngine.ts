@@ -0,0 +1,403 @@
+/**
+ * Location: src/services/search/MetadataQueryEngine.ts
+ * Purpose: Run metadata queries over the notes of the vault
+ *
+ * Features:
+ * - Notes come from VaultFileIndex (path, folder, dates, size); properties, tags, links and tasks
+ *   come from the metadata cache, so no note is read from disk
+ * - Text compares case-insensitively; "[[Sam]]" property values compare as "Sam"
+ * - List properties match when any item matches; "contains" is a substring test on text
+ * - Date values compare by calendar day, so file.mtime >= today and due < 2024-06-01 both work
+ * - Notes without a field never match comparisons other than != and sort last
+ *
+ * Relationships:
+ * - Runs queries from MetadataQueryParser
+ * - Used by QueryTool (searchManager.query)
+ */
+
+import { App, CachedMetadata, TFile, moment } from 'obsidian';
+import type { IndexedFile } from '../../database/services/cache/VaultFileIndex';
+import { TagOperations } from '../../agents/contentManager/utils/TagOperations';
+import { MetadataQuery, QueryCondition, QueryValue } from './MetadataQuery';
+
+/**
+ * Source of indexed files (VaultFileIndex or the CacheManager wrapping it)
+ */
+export interface IndexedFileSource {
+  searchFiles(predicate: (file: IndexedFile) => boolean): IndexedFile[];
+}
+
+export type QueryRow = { path: string } & Record<string, unknown>;
+
+export interface MetadataQueryResult {
+  /** Fields in each row besides path */
+  fields: string[];
+  rows: QueryRow[];
+  /** Notes matching the query before LIMIT */
+  total: number;
+}
+
+/** Date formats read from property values */
+const DATE_FORMATS = ['YYYY-MM-DD', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DDTHH:mm:ss', 'YYYY-MM-DDTHH:mm:ss.SSSZ', 'YYYY-MM-DD HH:mm'];
+
+/** Task characters that count as finished */
+const DONE_TASK_CHARS = ['x', 'X', '-'];
+
+/** File fields that hold timestamps */
+const TIME_FIELDS = ['file.ctime', 'file.mtime'];
+
+/**
+ * A note being evaluated, with its metadata read once
+ */
+interface QueryNote {
+  indexed: IndexedFile;
+  cache: CachedMetadata | null;
+}
+
+export class MetadataQueryEngine {
+  private app: App;
+  private fileSource: IndexedFileSource | null;
+  private inlinkCounts: Map<string, number> | null = null;
+
+  /**
+   * @param app Obsidian app instance
+   * @param fileSource VaultFileIndex to list notes from; without it notes are listed from the vault
+   */
+  constructor(app: App, fileSource: IndexedFileSource | null) {
+    this.app = app;
+    this.fileSource = fileSource;
+  }
+
+  /**
+   * Run a query
+   *
+   * @param query Parsed query
+   * @param limit Maximum rows returned
+   * @returns Matching notes as rows with the selected fields
+   */
+  run(query: MetadataQuery, limit: number): MetadataQueryResult {
+    this.inlinkCounts = null;
+
+    const matches = this.getNotes(query.from)
+      .filter(note => !query.where || this.evaluate(query.where, note))
+      .map(note => ({ note, keys: query.sort.map(sort => this.toSortKey(this.getField(note, sort.field))) }))
+      .sort((a, b) => {
+        for (let i = 0; i < query.sort.length; i++) {
+          const order = this.compareSortKeys(a.keys[i], b.keys[i], query.sort[i].descending);
+          if (order !== 0) {
+            return order;
+          }
+        }
+        return a.note.indexed.path.localeCompare(b.note.indexed.path);
+      })
+      .map(({ note }) => note);
+
+    const fields = (query.select.length > 0 ? query.select : this.getUsedFields(query))
+      .filter((field, index, all) => field !== 'file.path' && all.indexOf(field) === index);
+
+    return {
+      fields,
+      rows: matches.slice(0, limit).map(note => {
+        const row: QueryRow = { path: note.indexed.path };
+        fields.forEach(field => {
+          row[field] = this.toOutput(field, this.getField(note, field));
+        });
+        return row;
+      }),
+      total: matches.length
+    };
+  }
+
+  /**
+   * Notes to query: markdown files from the file index, limited to a folder
+   */
+  private getNotes(folder?: string): QueryNote[] {
+    const inFolder = (path: string) => !folder || path.startsWith(`${folder}/`);
+
+    const indexed = this.fileSource
+      ? this.fileSource.searchFiles(file => file.extension === 'md' && inFolder(file.path))
+      : this.app.vault.getMarkdownFiles().filter(file => inFolder(file.path)).map(file => this.toIndexedFile(file));
+
+    return indexed.flatMap(entry => {
+      const file = this.app.vault.getAbstractFileByPath(entry.path);
+      return file instanceof TFile ? [{ indexed: entry, cache: this.app.metadataCache.getFileCache(file) }] : [];
+    });
+  }
+
+  private toIndexedFile(file: TFile): IndexedFile {
+    return {
+      path: file.path,
+      name: file.name,
+      basename: file.basename,
+      extension: file.extension,
+      parent: file.parent?.path || '/',
+      modified: file.stat.mtime,
+      created: file.stat.ctime,
+      size: file.stat.size,
+      isKeyFile: false
+    };
+  }
+
+  private evaluate(condition: QueryCondition, note: QueryNote): boolean {
+    switch (condition.type) {
+      case 'and':
+        return this.evaluate(condition.left, note) && this.evaluate(condition.right, note);
+      case 'or':
+        return this.evaluate(condition.left, note) || this.evaluate(condition.right, note);
+      case 'not':
+        return !this.evaluate(condition.condition, note);
+      case 'tag':
+        return this.getTags(note).some(tag => TagOperations.matches(tag, [condition.tag]));
+      case 'exists':
+        return !this.isEmpty(this.getField(note, condition.field));
+      case 'compare': {
+        const actual = this.getField(note, condition.field);
+        if (condition.value.type === 'null') {
+          const empty = this.isEmpty(actual);
+          return condition.operator === '!=' ? !empty : condition.operator === '=' && empty;
+        }
+        if (condition.operator === '!=') {
+          return !this.matchesValue(actual, '=', condition.value, condition.field);
+        }
+        return this.matchesValue(actual, condition.operator, condition.value, condition.field);
+      }
+    }
+  }
+
+  /**
+   * Compare a field value with a query value; list values match if any item does
+   */
+  private matchesValue(actual: unknown, operator: string, expected: QueryValue, field: string): boolean {
+    if (Array.isArray(actual)) {
+      return actual.some(item => this.matchesValue(item, operator, expected, field));
+    }
+    if (actual === undefined || actual === null || expected.type === 'null') {
+      return false;
+    }
+
+    if (operator === 'contains') {
+      const text = this.toText(actual);
+      const wanted = expected.type === 'string' || expected.type === 'date'
+        ? expected.value.toLowerCase()
+        : String(expected.value);
+      return text !== null && text.includes(wanted);
+    }
+
+    let order: number | null = null;
+    switch (expected.type) {
+      case 'date': {
+        const day = this.toDay(actual, field);
+        order = day === null ? null : day.localeCompare(expected.value);
+        break;
+      }
+      case 'number': {
+        const value = typeof actual === 'number' ? actual : typeof actual === 'string' && actual.trim() !== '' ? Number(actual) : NaN;
+        order = Number.isNaN(value) ? null : Math.sign(value - expected.value);
+        break;
+      }
+      case 'boolean': {
+        const value = typeof actual === 'boolean' ? actual : typeof actual === 'string' ? actual.toLowerCase() : null;
+        if (value === true || value === 'true') order = expected.value ? 0 : 1;
+        else if (value === false || value === 'false') order = expected.value ? -1 : 0;
+        break;
+      }
+      case 'string': {
+        const text = this.toText(actual);
+        const wanted = expected.value.toLowerCase();
+        order = text === null ? null : text === wanted ? 0 : text < wanted ? -1 : 1;
+        break;
+      }
+    }
+
+    if (order === null) {
+      return false;
+    }
+    switch (operator) {
+      case '=': return order === 0;
+      case '<': return order < 0;
+      case '<=': return order <= 0;
+      case '>': return order > 0;
+      case '>=': return order >= 0;
+      default: return false;
+    }
+  }
+
+  /**
+   * Value of a file field or frontmatter property
+   */
+  private getField(note: QueryNote, field: string): unknown {
+    const { indexed, cache } = note;
+
+    switch (field.toLowerCase()) {
+      case 'file.path': return indexed.path;
+      case 'file.name': return indexed.basename;
+      case 'file.folder': return indexed.parent === '/' ? '' : indexed.parent;
+      case 'file.ext': return indexed.extension;
+      case 'file.size': return indexed.size;
+      case 'file.ctime': return indexed.created;
+      case 'file.mtime': return indexed.modified;
+      case 'file.tags': return this.getTags(note);
+      case 'file.outlinks': return Object.keys(this.app.metadataCache.resolvedLinks[indexed.path] ?? {}).length;
+      case 'file.inlinks': return this.getInlinkCounts().get(indexed.path) ?? 0;
+      case 'file.tasks': return this.getTasks(cache).length;
+      case 'file.opentasks': return this.getTasks(cache).filter(task => !DONE_TASK_CHARS.includes(task)).length;
+      case 'file.donetasks': return this.getTasks(cache).filter(task => task === 'x' || task === 'X').length;
+    }
+
+    return this.getProperty(cache?.frontmatter, field);
+  }
+
+  /**
+   * Frontmatter property by name (case-insensitive), following dots into nested objects
+   */
+  private getProperty(frontmatter: Record<string, unknown> | undefined, field: string): unknown {
+    if (!frontmatter) {
+      return undefined;
+    }
+
+    const exact = this.findKey(frontmatter, field);
+    if (exact !== undefined) {
+      return frontmatter[exact];
+    }
+
+    let value: unknown = frontmatter;
+    for (const part of field.split('.')) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+      }
+      const key = this.findKey(value as Record<string, unknown>, part);
+      if (key === undefined) {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  private findKey(object: Record<string, unknown>, name: string): string | undefined {
+    if (name in object) {
+      return name;
+    }
+    const lower = name.toLowerCase();
+    return Object.keys(object).find(key => key.toLowerCase() === lower);
+  }
+
+  /** Inline and frontmatter tags, with "#" */
+  private getTags(note: QueryNote): string[] {
+    const tags = TagOperations.getNoteTags(note.cache);
+    const all = [...tags.inline.map(tag => tag.tag), ...tags.frontmatter.map(tag => `#${tag}`)];
+    return all.filter((tag, index) => all.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+  }
+
+  /** Checkbox characters of the note's tasks */
+  private getTasks(cache: CachedMetadata | null): string[] {
+    return (cache?.listItems ?? [])
+      .filter(item => item.task !== undefined)
+      .map(item => item.task as string);
+  }
+
+  /** Number of notes linking to each file, built on first use */
+  private getInlinkCounts(): Map<string, number> {
+    if (!this.inlinkCounts) {
+      this.inlinkCounts = new Map();
+      for (const targets of Object.values(this.app.metadataCache.resolvedLinks)) {
+        for (const target of Object.keys(targets)) {
+          this.inlinkCounts.set(target, (this.inlinkCounts.get(target) ?? 0) + 1);
+        }
+      }
+    }
+    return this.inlinkCounts;
+  }
+
+  /**
+   * Lowercase text of a scalar value; wikilinks become their target ("[[Sam|S]]" → "sam")
+   */
+  private toText(value: unknown): string | null {
+    if (typeof value === 'string') {
+      const link = /^\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/.exec(value.trim());
+      return (link ? link[1].trim() : value).toLowerCase();
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value).toLowerCase();
+    }
+    return null;
+  }
+
+  /**
+   * Calendar day (YYYY-MM-DD) of a timestamp or date property, or null if the value is not a date
+   */
+  private toDay(value: unknown, field: string): string | null {
+    if (typeof value === 'number' && TIME_FIELDS.includes(field.toLowerCase())) {
+      return moment(value).format('YYYY-MM-DD');
+    }
+    if (typeof value === 'string') {
+      const date = moment(value.trim(), DATE_FORMATS, true);
+      return date.isValid() ? date.format('YYYY-MM-DD') : null;
+    }
+    return null;
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+  }
+
+  /**
+   * Fields a query refers to, for rows when it has no SELECT
+   */
+  private getUsedFields(query: MetadataQuery): string[] {
+    const fields: string[] = [];
+    const visit = (condition: QueryCondition) => {
+      switch (condition.type) {
+        case 'and':
+        case 'or':
+          visit(condition.left);
+          visit(condition.right);
+          break;
+        case 'not':
+          visit(condition.condition);
+          break;
+        case 'exists':
+        case 'compare':
+          fields.push(condition.field);
+          break;
+      }
+    };
+    if (query.where) {
+      visit(query.where);
+    }
+    return [...fields, ...query.sort.map(sort => sort.field)];
+  }
+
+  private toOutput(field: string, value: unknown): unknown {
+    if (typeof value === 'number' && TIME_FIELDS.includes(field.toLowerCase())) {
+      return moment(value).format('YYYY-MM-DDTHH:mm:ss');
+    }
+    return value ?? null;
+  }
+
+  /** Sort key: numbers as numbers, dates as days, other text lowercased */
+  private toSortKey(value: unknown): string | number | null {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first === undefined || first === null || first === '') {
+      return null;
+    }
+    if (typeof first === 'number') {
+      return first;
+    }
+    if (typeof first === 'boolean') {
+      return first ? 1 : 0;
+    }
+    return this.toText(first) ?? JSON.stringify(first);
+  }
+
+  private compareSortKeys(a: string | number | null, b: string | number | null, descending: boolean): number {
+    // Missing values sort last in either direction
+    if (a === null || b === null) {
+      return a === b ? 0 : a === null ? 1 : -1;
+    }
+    const order = typeof a === 'number' && typeof b === 'number'
+      ? a - b
+      : String(a).localeCompare(String(b), undefined, { numeric: true });
+    return descending ? -order : order;
+  }
+}
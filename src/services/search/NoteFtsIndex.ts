@@ -0,0 +1,340 @@
+/**
+ * Location: src/services/search/NoteFtsIndex.ts
+ * Purpose: FTS5 keyword index of vault notes for fast keyword search
+ *
+ * Features:
+ * - Works on all platforms (uses the SQLite cache, no embedding model)
+ * - Startup sync indexes new and changed notes (by mtime and size) and drops deleted ones
+ * - Vault events keep the index current (2-second debounce on edits)
+ * - BM25 ranking with note titles weighted above body text
+ *
+ * Relationships:
+ * - Created by PluginLifecycleManager and exposed on the plugin for lazy access
+ * - Used by SearchContentTool for keyword and hybrid search
+ * - Stores data in the note_fts and note_fts_metadata tables (schema v7)
+ */
+
+import { App, EventRef, TAbstractFile, TFile } from 'obsidian';
+import type { SQLiteCacheManager } from '../../database/storage/SQLiteCacheManager';
+
+/**
+ * A note matching a keyword query
+ */
+export interface NoteFtsMatch {
+  notePath: string;
+  /** BM25 relevance (higher is better) */
+  score: number;
+}
+
+/** BM25 weight of the title column relative to the content column */
+const TITLE_WEIGHT = 5.0;
+
+/** Query terms beyond this count are ignored */
+const MAX_QUERY_TERMS = 32;
+
+/**
+ * Keyword index of vault notes backed by the note_fts table
+ *
+ * The table is contentless: it stores only the index, so the database does not
+ * grow by a copy of the vault. Matches return note paths; callers read the notes.
+ */
+export class NoteFtsIndex {
+  private app: App;
+  private db: SQLiteCacheManager;
+  private eventRefs: EventRef[] = [];
+  private debounceTimers = new Map<string, NodeJS.Timeout>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private ready = false;
+  private stopped = false;
+
+  // Short debounce: keyword results should catch up with edits quickly, and indexing is cheap
+  private readonly DEBOUNCE_MS = 2000;
+  // Notes read and written per transaction during startup sync
+  private readonly BATCH_SIZE = 100;
+
+  constructor(app: App, db: SQLiteCacheManager) {
+    this.app = app;
+    this.db = db;
+  }
+
+  /**
+   * Start watching vault events and sync the index in the background
+   */
+  start(): void {
+    this.stopped = false;
+
+    this.eventRefs.push(
+      this.app.vault.on('modify', (file) => {
+        if (this.isNote(file)) {
+          this.scheduleIndex(file.path);
+        }
+      }),
+      this.app.vault.on('create', (file) => {
+        if (this.isNote(file)) {
+          this.scheduleIndex(file.path);
+        }
+      }),
+      this.app.vault.on('delete', (file) => {
+        if (this.isNote(file)) {
+          this.cancelScheduled(file.path);
+          this.scheduleRemove(file.path);
+        }
+      }),
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (this.isNote(file)) {
+          // Titles are indexed, so a rename re-indexes the note under its new path
+          this.cancelScheduled(oldPath);
+          this.scheduleRemove(oldPath);
+          this.scheduleIndex(file.path);
+        }
+      })
+    );
+
+    this.sync().catch(error => {
+      console.error('[NoteFtsIndex] Sync failed:', error);
+    });
+  }
+
+  /**
+   * Stop watching vault events and cancel pending work
+   */
+  stop(): void {
+    this.stopped = true;
+    for (const ref of this.eventRefs) {
+      this.app.vault.offref(ref);
+    }
+    this.eventRefs = [];
+    for (const timer of this.debounceTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.debounceTimers.clear();
+  }
+
+  /**
+   * Whether the startup sync has finished, so search covers the whole vault
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Bring the index in line with the vault: index new and changed notes, drop deleted ones
+   */
+  async sync(): Promise<void> {
+    const indexed = new Map<string, { mtime: number; size: number }>();
+    const rows = await this.db.query<{ notePath: string; mtime: number; size: number }>(
+      'SELECT notePath, mtime, size FROM note_fts_metadata'
+    );
+    for (const row of rows) {
+      indexed.set(row.notePath, { mtime: row.mtime, size: row.size });
+    }
+
+    const files = this.app.vault.getMarkdownFiles();
+    const vaultPaths = new Set(files.map(file => file.path));
+    const stale = files.filter(file => {
+      const entry = indexed.get(file.path);
+      return !entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size;
+    });
+    const removed = Array.from(indexed.keys()).filter(path => !vaultPaths.has(path));
+
+    for (let i = 0; i < stale.length; i += this.BATCH_SIZE) {
+      if (this.stopped) {
+        return;
+      }
+
+      // Read first so the transaction holds no file I/O
+      const batch: Array<{ file: TFile; content: string }> = [];
+      for (const file of stale.slice(i, i + this.BATCH_SIZE)) {
+        try {
+          batch.push({ file, content: await this.app.vault.cachedRead(file) });
+        } catch (error) {
+          console.error(`[NoteFtsIndex] Failed to read ${file.path}:`, error);
+        }
+      }
+
+      await this.enqueue(() => this.db.transaction(async () => {
+        for (const { file, content } of batch) {
+          await this.writeEntry(file, content);
+        }
+      }));
+
+      // Yield to keep Obsidian responsive during large syncs
+      await new Promise(r => setTimeout(r, 0));
+    }
+
+    if (removed.length > 0) {
+      await this.enqueue(() => this.db.transaction(async () => {
+        for (const path of removed) {
+          await this.removeEntry(path);
+        }
+      }));
+    }
+
+    if (stale.length > 0 || removed.length > 0) {
+      await this.db.save();
+    }
+    this.ready = true;
+  }
+
+  /**
+   * Index a note now (bypasses debounce)
+   *
+   * @param notePath - Path to the note
+   */
+  async indexNote(notePath: string): Promise<void> {
+    this.cancelScheduled(notePath);
+
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (!this.isNote(file)) {
+      await this.enqueue(() => this.removeEntry(notePath));
+      return;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    await this.enqueue(() => this.writeEntry(file, content));
+  }
+
+  /**
+   * Find notes matching the words of a query, best first
+   *
+   * A note matches if it contains any query word (stemmed, case-insensitive);
+   * notes with more and rarer matches, especially in the title, rank higher.
+   *
+   * @param query - Free-text query
+   * @param limit - Maximum number of matches
+   */
+  async search(query: string, limit: number): Promise<NoteFtsMatch[]> {
+    const matchQuery = NoteFtsIndex.buildMatchQuery(query);
+    if (!matchQuery) {
+      return [];
+    }
+
+    const rows = await this.db.query<{ notePath: string; rank: number }>(
+      `SELECT m.notePath, bm25(note_fts, ${TITLE_WEIGHT}, 1.0) AS rank
+       FROM note_fts
+       JOIN note_fts_metadata m ON m.rowid = note_fts.rowid
+       WHERE note_fts MATCH ?
+       ORDER BY rank
+       LIMIT ?`,
+      [matchQuery, limit]
+    );
+
+    // bm25() is lower-is-better and negative
+    return rows.map(row => ({ notePath: row.notePath, score: -row.rank }));
+  }
+
+  /**
+   * Build an FTS5 MATCH expression that ORs the quoted words of a query
+   *
+   * Quoting each word keeps FTS5 operators and punctuation in user input literal.
+   *
+   * @returns The expression, or null if the query has no words
+   */
+  static buildMatchQuery(query: string): string | null {
+    const words = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+    const terms = Array.from(new Set(words)).slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) {
+      return null;
+    }
+    return terms.map(term => `"${term}"`).join(' OR ');
+  }
+
+  /**
+   * Replace the index entry of a note
+   */
+  private async writeEntry(file: TFile, content: string): Promise<void> {
+    const existing = await this.db.queryOne<{ rowid: number }>(
+      'SELECT rowid FROM note_fts_metadata WHERE notePath = ?',
+      [file.path]
+    );
+
+    let rowid: number;
+    if (existing) {
+      rowid = existing.rowid;
+      await this.db.run('DELETE FROM note_fts WHERE rowid = ?', [rowid]);
+      await this.db.run(
+        'UPDATE note_fts_metadata SET mtime = ?, size = ? WHERE rowid = ?',
+        [file.stat.mtime, file.stat.size, rowid]
+      );
+    } else {
+      const result = await this.db.run(
+        'INSERT INTO note_fts_metadata (notePath, mtime, size) VALUES (?, ?, ?)',
+        [file.path, file.stat.mtime, file.stat.size]
+      );
+      rowid = result.lastInsertRowid;
+    }
+
+    await this.db.run(
+      'INSERT INTO note_fts (rowid, title, content) VALUES (?, ?, ?)',
+      [rowid, file.basename, content]
+    );
+  }
+
+  /**
+   * Remove the index entry of a note, if any
+   */
+  private async removeEntry(notePath: string): Promise<void> {
+    const existing = await this.db.queryOne<{ rowid: number }>(
+      'SELECT rowid FROM note_fts_metadata WHERE notePath = ?',
+      [notePath]
+    );
+    if (!existing) {
+      return;
+    }
+
+    await this.db.run('DELETE FROM note_fts WHERE rowid = ?', [existing.rowid]);
+    await this.db.run('DELETE FROM note_fts_metadata WHERE rowid = ?', [existing.rowid]);
+  }
+
+  /**
+   * Run index writes one at a time so concurrent updates of a note cannot interleave
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(task);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Schedule indexing of a note with debounce
+   */
+  private scheduleIndex(notePath: string): void {
+    this.cancelScheduled(notePath);
+
+    const timer = setTimeout(async () => {
+      this.debounceTimers.delete(notePath);
+
+      try {
+        await this.indexNote(notePath);
+      } catch (error) {
+        console.error(`[NoteFtsIndex] Failed to index ${notePath}:`, error);
+      }
+    }, this.DEBOUNCE_MS);
+
+    this.debounceTimers.set(notePath, timer);
+  }
+
+  /**
+   * Queue removal of a note's entry
+   */
+  private scheduleRemove(notePath: string): void {
+    this.enqueue(() => this.removeEntry(notePath)).catch(error => {
+      console.warn(`[NoteFtsIndex] Failed to remove ${notePath}:`, error);
+    });
+  }
+
+  /**
+   * Cancel a scheduled indexing of a note
+   */
+  private cancelScheduled(notePath: string): void {
+    const existing = this.debounceTimers.get(notePath);
+    if (existing) {
+      clearTimeout(existing);
+      this.debounceTimers.delete(notePath);
+    }
+  }
+
+  private isNote(file: TAbstractFile | null): file is TFile {
+    return file instanceof TFile && file.extension === 'md';
+  }
+}
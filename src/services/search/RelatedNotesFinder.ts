@@ -0,0 +1,109 @@
+/**
+ * Location: src/services/search/RelatedNotesFinder.ts
+ * Purpose: Find notes related to a note by embedding similarity, optionally blended with link distance
+ *
+ * Features:
+ * - Ranks notes by cosine similarity of their note embeddings
+ * - graphWeight blends in link proximity (1 hop scores 1, 2 hops 0.5, 3 hops 0.33)
+ * - excludeLinked hides notes the source already links to or from (useful for finding links to add)
+ *
+ * Relationships:
+ * - Uses EmbeddingService.findSimilarNotes for candidates and LinkGraph for link distances
+ * - Used by RelatedNotesTool (searchManager.relatedNotes) and RelatedNotesView (side pane)
+ */
+
+import { App, TFile } from 'obsidian';
+import type { EmbeddingService } from '../embeddings/EmbeddingService';
+import { LinkGraph } from '../../database/utils/graph/LinkGraph';
+
+/**
+ * A note related to the source note
+ */
+export interface RelatedNote {
+  path: string;
+  /** Cosine similarity of the note embeddings (0-1) */
+  similarity: number;
+  /** Link hops from the source note in either direction (1 = linked directly), null if further than 3 */
+  linkDistance: number | null;
+  /** Ranking score: similarity, blended with link proximity when graphWeight > 0 */
+  score: number;
+}
+
+export interface RelatedNotesOptions {
+  /** Maximum notes returned (default 10) */
+  limit?: number;
+  /** Share of the score from link proximity, 0-1 (default 0: similarity only) */
+  graphWeight?: number;
+  /** Leave out notes linked directly to or from the source note */
+  excludeLinked?: boolean;
+}
+
+/** Link hops considered for link distance */
+const MAX_LINK_DEPTH = 3;
+
+/** Notes visited when measuring link distance */
+const MAX_LINK_NODES = 1000;
+
+/** Candidates fetched per requested result, so filtering and re-ranking still fill the limit */
+const CANDIDATE_FACTOR = 4;
+const MIN_CANDIDATES = 40;
+
+export class RelatedNotesFinder {
+  private app: App;
+  private embeddingService: EmbeddingService;
+
+  constructor(app: App, embeddingService: EmbeddingService) {
+    this.app = app;
+    this.embeddingService = embeddingService;
+  }
+
+  /**
+   * Find notes related to a note
+   *
+   * @param notePath - Path of the source note
+   * @param options - Limit, graph weight and link filtering
+   * @returns Related notes best first, or null if the note has no embedding yet
+   */
+  async find(notePath: string, options: RelatedNotesOptions = {}): Promise<RelatedNote[] | null> {
+    if (!(await this.embeddingService.hasNoteEmbedding(notePath))) {
+      return null;
+    }
+
+    const limit = Math.max(1, options.limit ?? 10);
+    const graphWeight = Math.min(Math.max(options.graphWeight ?? 0, 0), 1);
+    const candidateCount = Math.max(limit * CANDIDATE_FACTOR, MIN_CANDIDATES);
+
+    const similar = await this.embeddingService.findSimilarNotes(notePath, candidateCount);
+    const linkDistances = this.getLinkDistances(notePath);
+
+    return similar
+      .filter(match => this.app.vault.getAbstractFileByPath(match.notePath) instanceof TFile)
+      .map(match => {
+        // Embeddings are unit length, so squared L2 distance = 2 - 2 * cosine similarity
+        const similarity = Math.min(Math.max(1 - (match.distance * match.distance) / 2, 0), 1);
+        const linkDistance = linkDistances.get(match.notePath) ?? null;
+        const linkScore = linkDistance ? 1 / linkDistance : 0;
+        return {
+          path: match.notePath,
+          similarity,
+          linkDistance,
+          score: (1 - graphWeight) * similarity + graphWeight * linkScore
+        };
+      })
+      .filter(note => !options.excludeLinked || note.linkDistance !== 1)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Link hops from a note to the notes around it, following links in both directions
+   */
+  private getLinkDistances(notePath: string): Map<string, number> {
+    const neighborhood = new LinkGraph(this.app).getNeighborhood(notePath, MAX_LINK_DEPTH, 'both', MAX_LINK_NODES);
+    return new Map(
+      neighborhood.nodes
+        .filter(node => node.path !== notePath)
+        .map(node => [node.path, node.distance])
+    );
+  }
+}
@@ -92,7 +92,8 @@ export class DefaultsTab {
       imageModel: llmSettings?.defaultImageModel?.model || 'gemini-2.5-flash-image',
       workspaceId: pluginSettings.defaultWorkspaceId || null,
       promptId: pluginSettings.defaultPromptId || null,
-      contextNotes: pluginSettings.defaultContextNotes || []
+      contextNotes: pluginSettings.defaultContextNotes || [],
+      expandEmbeds: pluginSettings.defaultExpandEmbeds ?? false
     };
   }
 
@@ -132,6 +133,7 @@ export class DefaultsTab {
     pluginSettings.defaultWorkspaceId = settings.workspaceId || undefined;
     pluginSettings.defaultPromptId = settings.promptId || undefined;
     pluginSettings.defaultContextNotes = settings.contextNotes;
+    pluginSettings.defaultExpandEmbeds = settings.expandEmbeds;
 
     await this.services.settings.saveSettings();
   }
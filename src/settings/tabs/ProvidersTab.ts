@@ -6,11 +6,13 @@
  * - Status badges (configured/not configured)
  * - Detail view opens LLMProviderModal
  * - Auto-save on all changes
+ * - Embedding backend section (desktop only), applied with a button since it triggers re-indexing
+ * - Embedding exclusion rules (folders/globs, tags, size cap), applied with the same button
  *
  * Note: Default provider/model/thinking settings moved to DefaultsTab
  */
 
-import { App, Notice } from 'obsidian';
+import { App, Notice, Setting } from 'obsidian';
 import { SettingsRouter } from '../SettingsRouter';
 import { LLMProviderSettings, LLMProviderConfig } from '../../types/llm/ProviderTypes';
 import { LLMProviderModal, LLMProviderModalConfig } from '../../components/LLMProviderModal';
@@ -18,6 +20,14 @@ import { LLMProviderManager } from '../../services/llm/providers/ProviderManager
 import { Settings } from '../../settings';
 import { Card, CardConfig } from '../../components/Card';
 import { LLMSettingsNotifier } from '../../services/llm/LLMSettingsNotifier';
+import { EmbeddingSettingsNotifier } from '../../services/embeddings/EmbeddingSettingsNotifier';
+import {
+    EmbeddingBackendId,
+    EmbeddingSettings,
+    DEFAULT_EMBEDDING_BASE_URLS,
+    DEFAULT_EMBEDDING_EXCLUSIONS,
+    DEFAULT_EMBEDDING_SETTINGS
+} from '../../types/embeddings';
 import { isDesktop, supportsLocalLLM, MOBILE_COMPATIBLE_PROVIDERS } from '../../utils/platform';
 
 /**
@@ -30,6 +40,16 @@ interface ProviderDisplayConfig {
     category: 'local' | 'cloud';
 }
 
+/**
+ * Embedding backend display names
+ */
+const EMBEDDING_BACKEND_NAMES: Record<EmbeddingBackendId, string> = {
+    'transformers': 'Built-in (all-MiniLM-L6-v2)',
+    'ollama': 'Ollama',
+    'lmstudio': 'LM Studio',
+    'openai-compatible': 'OpenAI-compatible server'
+};
+
 export interface ProvidersTabServices {
     app: App;
     settings: Settings;
@@ -41,6 +61,7 @@ export class ProvidersTab {
     private router: SettingsRouter;
     private services: ProvidersTabServices;
     private providerManager: LLMProviderManager;
+    private embeddingDraft: EmbeddingSettings;
 
     // Provider configurations
     private readonly providerConfigs: Record<string, ProviderDisplayConfig> = {
@@ -137,6 +158,12 @@ export class ProvidersTab {
             }, this.services.app.vault);
         }
 
+        const embeddings = this.services.settings?.settings.embeddings ?? DEFAULT_EMBEDDING_SETTINGS;
+        this.embeddingDraft = {
+            ...embeddings,
+            exclusions: { ...(embeddings.exclusions ?? DEFAULT_EMBEDDING_EXCLUSIONS) }
+        };
+
         this.render();
     }
 
@@ -171,6 +198,157 @@ export class ProvidersTab {
 
         // Provider groups only - defaults moved to DefaultsTab
         this.renderProviderGroups();
+
+        // Embeddings run on desktop only
+        if (isDesktop()) {
+            this.renderEmbeddingSettings();
+        }
+    }
+
+    /**
+     * Render embedding backend settings
+     * Edits stay in a draft until applied, because applying re-indexes the vault.
+     */
+    private renderEmbeddingSettings(): void {
+        const draft = this.embeddingDraft;
+
+        this.container.createDiv('nexus-provider-group-title').setText('EMBEDDINGS');
+        const section = this.container.createDiv('nexus-settings-section');
+
+        new Setting(section)
+            .setName('Embedding backend')
+            .setDesc('Model used for semantic search of notes and memory traces. Changing the backend or model re-indexes everything in the background.')
+            .addDropdown(dropdown => {
+                for (const [id, name] of Object.entries(EMBEDDING_BACKEND_NAMES)) {
+                    dropdown.addOption(id, name);
+                }
+                dropdown
+                    .setValue(draft.backend)
+                    .onChange(value => {
+                        draft.backend = value as EmbeddingBackendId;
+                        draft.baseUrl = undefined;
+                        this.render();
+                    });
+            });
+
+        if (draft.backend !== 'transformers') {
+            new Setting(section)
+                .setName('Model')
+                .setDesc('Embedding model name on the server, e.g. nomic-embed-text or bge-m3')
+                .addText(text => text
+                    .setPlaceholder('nomic-embed-text')
+                    .setValue(draft.model ?? '')
+                    .onChange(value => {
+                        draft.model = value.trim();
+                    }));
+
+            new Setting(section)
+                .setName('Server URL')
+                .setDesc(draft.backend === 'ollama' ? 'Ollama server address' : 'Base URL of the /embeddings endpoint')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_EMBEDDING_BASE_URLS[draft.backend] ?? 'https://api.example.com/v1')
+                    .setValue(draft.baseUrl ?? '')
+                    .onChange(value => {
+                        draft.baseUrl = value.trim() || undefined;
+                    }));
+
+            if (draft.backend === 'openai-compatible') {
+                new Setting(section)
+                    .setName('API key')
+                    .setDesc('Sent as a Bearer token; leave empty if the server does not need one')
+                    .addText(text => {
+                        text.inputEl.type = 'password';
+                        text
+                            .setValue(draft.apiKey ?? '')
+                            .onChange(value => {
+                                draft.apiKey = value.trim() || undefined;
+                            });
+                    });
+            }
+        }
+
+        this.renderExclusionSettings(section);
+
+        new Setting(section)
+            .addButton(button => button
+                .setButtonText('Apply')
+                .setCta()
+                .onClick(async () => {
+                    await this.applyEmbeddingSettings();
+                }));
+    }
+
+    /**
+     * Render the rules that keep notes out of embeddings
+     */
+    private renderExclusionSettings(section: HTMLElement): void {
+        const exclusions = this.embeddingDraft.exclusions ?? { ...DEFAULT_EMBEDDING_EXCLUSIONS };
+        this.embeddingDraft.exclusions = exclusions;
+
+        new Setting(section)
+            .setName('Excluded folders')
+            .setDesc('One folder or glob pattern per line (e.g. Generated or **/_exports). Notes with "nexus-index: false" in their frontmatter are always skipped.')
+            .addTextArea(text => text
+                .setPlaceholder('Generated\n**/_exports')
+                .setValue(exclusions.folders.join('\n'))
+                .onChange(value => {
+                    exclusions.folders = value.split('\n').map(line => line.trim()).filter(Boolean);
+                }));
+
+        new Setting(section)
+            .setName('Excluded tags')
+            .setDesc('Comma-separated tags; nested tags are excluded too (private also excludes private/journal)')
+            .addText(text => text
+                .setPlaceholder('private, generated')
+                .setValue(exclusions.tags.join(', '))
+                .onChange(value => {
+                    exclusions.tags = value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean);
+                }));
+
+        new Setting(section)
+            .setName('Maximum note size (KB)')
+            .setDesc('Larger notes are not embedded. 0 means no limit.')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text
+                    .setValue(String(exclusions.maxNoteSizeKB))
+                    .onChange(value => {
+                        const size = Number(value);
+                        exclusions.maxNoteSizeKB = Number.isFinite(size) && size > 0 ? Math.round(size) : 0;
+                    });
+            });
+    }
+
+    /**
+     * Save the embedding draft and switch the running embedding system to it
+     */
+    private async applyEmbeddingSettings(): Promise<void> {
+        const draft = this.embeddingDraft;
+
+        if (draft.backend !== 'transformers' && !draft.model) {
+            new Notice('Enter an embedding model name first');
+            return;
+        }
+        if (draft.backend === 'openai-compatible' && !draft.baseUrl) {
+            new Notice('Enter the server URL first');
+            return;
+        }
+
+        // Saved settings get their own exclusion lists: the form keeps editing the draft's
+        const exclusions = draft.exclusions && {
+            ...draft.exclusions,
+            folders: [...draft.exclusions.folders],
+            tags: [...draft.exclusions.tags]
+        };
+        const embeddings: EmbeddingSettings = draft.backend === 'transformers'
+            ? { backend: 'transformers', exclusions }
+            : { ...draft, exclusions };
+
+        this.services.settings.settings.embeddings = embeddings;
+        await this.services.settings.saveSettings();
+        EmbeddingSettingsNotifier.notify(embeddings);
+
+        new Notice(`Embeddings set to ${EMBEDDING_BACKEND_NAMES[embeddings.backend]}. Re-indexing runs in the background if the model or exclusions changed.`);
     }
 
     /**
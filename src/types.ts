@@ -32,6 +32,16 @@ export {
   DEFAULT_LLM_PROVIDER_SETTINGS
 } from './types/llm';
 
+// Embedding backend types
+export type {
+  EmbeddingBackendId,
+  EmbeddingSettings
+} from './types/embeddings';
+
+export {
+  DEFAULT_EMBEDDING_SETTINGS
+} from './types/embeddings';
+
 // Memory management settings
 export interface MemorySettings {
   // Workspace management interface
@@ -81,6 +91,7 @@ export type {
 // Create default settings object
 import { DEFAULT_CUSTOM_PROMPTS_SETTINGS } from './types/mcp';
 import { DEFAULT_LLM_PROVIDER_SETTINGS } from './types/llm';
+import { DEFAULT_EMBEDDING_SETTINGS } from './types/embeddings';
 import { MCPSettings } from './types/plugin';
 // DEFAULT_MEMORY_SETTINGS defined above in this file
 
@@ -93,6 +104,7 @@ export const DEFAULT_SETTINGS: MCPSettings = {
   memory: DEFAULT_MEMORY_SETTINGS,
   customPrompts: DEFAULT_CUSTOM_PROMPTS_SETTINGS,
   llmProviders: DEFAULT_LLM_PROVIDER_SETTINGS,
+  embeddings: DEFAULT_EMBEDDING_SETTINGS,
   lastUpdateVersion: undefined,
   lastUpdateDate: undefined,
   availableUpdateVersion: undefined,
@@ -101,6 +101,7 @@ export interface Conversation {
     parentMessageId?: string;       // The specific message this branched from
     branchType?: 'subagent' | 'alternative';  // Type of branch
     subagentTask?: string;          // For subagent branches: the task description
+    excludeFromSemanticIndex?: boolean; // Opt out of conversation embeddings (searchMemory recall)
     // Chat settings
     chatSettings?: {
       providerId?: string;
@@ -0,0 +1,66 @@
+/**
+ * Embedding Configuration Types
+ * Settings for the embedding backend used by semantic search
+ */
+
+/**
+ * Embedding backends
+ * - transformers: built-in Xenova/all-MiniLM-L6-v2, runs in an iframe (no server needed)
+ * - ollama: Ollama's /api/embed endpoint
+ * - lmstudio: LM Studio's OpenAI-compatible /v1/embeddings endpoint
+ * - openai-compatible: any OpenAI-compatible /embeddings endpoint
+ */
+export type EmbeddingBackendId = 'transformers' | 'ollama' | 'lmstudio' | 'openai-compatible';
+
+/**
+ * Notes left out of embeddings (semantic search, related notes)
+ * A note is also left out when its frontmatter has `nexus-index: false`.
+ */
+export interface EmbeddingExclusionSettings {
+  /** Folders or glob patterns over note paths, e.g. "Generated" or "**\/_exports/**" */
+  folders: string[];
+  /** Tags without "#"; nested tags match too ("private" also excludes "private/journal") */
+  tags: string[];
+  /** Notes larger than this many KB are skipped (0 = no cap) */
+  maxNoteSizeKB: number;
+}
+
+/**
+ * Embedding backend settings
+ * Changing the backend or model re-indexes all notes and traces in the background.
+ */
+export interface EmbeddingSettings {
+  backend: EmbeddingBackendId;
+  /** Model name for server backends, e.g. "nomic-embed-text" or "bge-m3" */
+  model?: string;
+  /** Server URL for server backends (defaults: Ollama http://127.0.0.1:11434, LM Studio http://127.0.0.1:1234/v1) */
+  baseUrl?: string;
+  /** API key for OpenAI-compatible servers that require one */
+  apiKey?: string;
+  /** Notes to leave out; changing them removes or adds embeddings on the next indexing run */
+  exclusions?: EmbeddingExclusionSettings;
+}
+
+/**
+ * Default server URL of each server backend (openai-compatible has none)
+ */
+export const DEFAULT_EMBEDDING_BASE_URLS: Partial<Record<EmbeddingBackendId, string>> = {
+  ollama: 'http://127.0.0.1:11434',
+  lmstudio: 'http://127.0.0.1:1234/v1'
+};
+
+/**
+ * Default exclusions: nothing but notes marked `nexus-index: false`
+ */
+export const DEFAULT_EMBEDDING_EXCLUSIONS: EmbeddingExclusionSettings = {
+  folders: [],
+  tags: [],
+  maxNoteSizeKB: 0
+};
+
+/**
+ * Default embedding settings: the built-in model
+ */
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  backend: 'transformers'
+};
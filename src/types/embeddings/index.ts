@@ -0,0 +1,16 @@
+/**
+ * Embedding-related types export barrel
+ * Centralizes embedding backend type exports
+ */
+
+export type {
+  EmbeddingBackendId,
+  EmbeddingExclusionSettings,
+  EmbeddingSettings
+} from './EmbeddingTypes';
+
+export {
+  DEFAULT_EMBEDDING_BASE_URLS,
+  DEFAULT_EMBEDDING_EXCLUSIONS,
+  DEFAULT_EMBEDDING_SETTINGS
+} from './EmbeddingTypes';
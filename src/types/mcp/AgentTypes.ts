@@ -76,6 +76,9 @@ export interface ToolContext {
 
   /** Optional rules/limits to follow (1-3 sentences) */
   constraints?: string;
+
+  /** Id of the tool call that carried this context (set by the executor, not the LLM) */
+  toolCallId?: string;
 }
 
 /**
@@ -11,7 +11,7 @@ import { CommonParameters } from '../mcp/AgentTypes';
 // Core search parameters interface
 export interface MemorySearchParameters extends CommonParameters {
   query: string;
-  memoryTypes?: ('traces' | 'toolCalls' | 'sessions' | 'states' | 'workspaces')[];
+  memoryTypes?: ('traces' | 'toolCalls' | 'sessions' | 'states' | 'workspaces' | 'conversations')[];
   workspace?: string;
   workspaceId?: string;
   dateRange?: DateRange;
@@ -42,7 +42,7 @@ export interface MemorySearchExecutionOptions {
   sessionId?: string;
   limit?: number;
   toolCallFilters?: ToolCallFilter;
-  memoryTypes?: ('traces' | 'toolCalls' | 'sessions' | 'states' | 'workspaces')[];
+  memoryTypes?: ('traces' | 'toolCalls' | 'sessions' | 'states' | 'workspaces' | 'conversations')[];
 }
 
 // Memory search context
@@ -5,6 +5,7 @@
 
 import { CustomPromptsSettings } from '../mcp/CustomPromptTypes';
 import { LLMProviderSettings } from '../llm/ProviderTypes';
+import { EmbeddingSettings } from '../embeddings/EmbeddingTypes';
 
 // Forward declarations for service types to avoid circular imports
 // Actual types are imported where needed
@@ -60,10 +61,13 @@ export interface MCPSettings {
   memory?: MemorySettings;
   customPrompts?: CustomPromptsSettings;
   llmProviders?: LLMProviderSettings;
+  // Embedding backend for semantic search (default: built-in model)
+  embeddings?: EmbeddingSettings;
   // Default selections for chat
   defaultWorkspaceId?: string;
   defaultPromptId?: string;
   defaultContextNotes?: string[];
+  defaultExpandEmbeds?: boolean;
   // Update tracking
   lastUpdateVersion?: string;
   lastUpdateDate?: string;
@@ -11,6 +11,8 @@
  * - All storage lives in `.nexus/` folder in the vault
  */
 
+import type { PropertySchema } from '../../database/types/workspace/WorkspaceTypes';
+
 // ============================================================================
 // Device and Sync Types
 // ============================================================================
@@ -91,6 +93,9 @@ export interface WorkspaceContext {
     agentId: string;
     agentName: string;
   };
+
+  /** Optional schema for note properties (validated by contentManager.properties) */
+  propertySchema?: PropertySchema;
 }
 
 /**
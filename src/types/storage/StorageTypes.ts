@@ -31,6 +31,7 @@ export interface IndividualConversation {
       agentId?: string;
       workspaceId?: string;
       contextNotes?: string[];
+      expandEmbeds?: boolean;
       sessionId?: string;
       temperature?: number; // 0.0-1.0, per-conversation override
     };
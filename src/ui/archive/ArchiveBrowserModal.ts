@@ -0,0 +1,106 @@
+/**
+ * ArchiveBrowserModal - Browse and restore items archived to .archive/
+ *
+ * Lists archived files and folders (newest first) with:
+ * - Original path, archive time, file count and reason
+ * - A filter on the original path
+ * - Restore button (restores next to an existing item instead of replacing it)
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+import { ArchiveStore, ArchivedItem } from '../../agents/storageManager/utils/ArchiveStore';
+import { getErrorMessage } from '../../utils/errorUtils';
+
+export class ArchiveBrowserModal extends Modal {
+  private items: ArchivedItem[] = [];
+  private query = '';
+  private listEl: HTMLElement | null = null;
+
+  constructor(app: App) {
+    super(app);
+  }
+
+  async onOpen(): Promise<void> {
+    this.modalEl.addClass('nexus-archive-browser-modal');
+    this.titleEl.setText('Archived items');
+
+    const search = this.contentEl.createEl('input', {
+      cls: 'nexus-archive-browser-search',
+      attr: { type: 'search', placeholder: 'Filter by original path' }
+    });
+    search.addEventListener('input', () => {
+      this.query = search.value.trim().toLowerCase();
+      this.renderList();
+    });
+
+    this.listEl = this.contentEl.createDiv('nexus-archive-browser-list');
+    await this.reload();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.listEl = null;
+  }
+
+  private async reload(): Promise<void> {
+    this.items = await ArchiveStore.list(this.app);
+    this.renderList();
+  }
+
+  private renderList(): void {
+    const listEl = this.listEl;
+    if (!listEl) return;
+    listEl.empty();
+
+    const items = this.query
+      ? this.items.filter(item => item.originalPath.toLowerCase().includes(this.query))
+      : this.items;
+
+    if (items.length === 0) {
+      listEl.createDiv({
+        cls: 'nexus-archive-browser-empty',
+        text: this.items.length === 0 ? 'Nothing has been archived.' : 'No archived items match the filter.'
+      });
+      return;
+    }
+
+    for (const item of items) {
+      this.renderItem(listEl, item);
+    }
+  }
+
+  private renderItem(container: HTMLElement, item: ArchivedItem): void {
+    const row = container.createDiv('nexus-archive-browser-item');
+    const info = row.createDiv('nexus-archive-browser-info');
+    info.createDiv({
+      cls: 'nexus-archive-browser-path',
+      text: item.type === 'folder' ? `${item.originalPath}/` : item.originalPath
+    });
+    info.createDiv({
+      cls: 'nexus-archive-browser-meta',
+      text: [
+        new Date(item.archivedAt).toLocaleString(),
+        item.type === 'folder' ? `${item.files} file${item.files === 1 ? '' : 's'}` : null,
+        item.legacy ? 'original path inferred' : null
+      ].filter(Boolean).join(' · ')
+    });
+    if (item.reason) {
+      info.createDiv({ cls: 'nexus-archive-browser-reason', text: item.reason });
+    }
+
+    const restoreBtn = row.createEl('button', { text: 'Restore' });
+    restoreBtn.addEventListener('click', async () => {
+      restoreBtn.disabled = true;
+      try {
+        const restoredPath = await ArchiveStore.restore(this.app, item);
+        new Notice(restoredPath === item.originalPath
+          ? `Restored ${restoredPath}`
+          : `${item.originalPath} exists; restored as ${restoredPath}`);
+        await this.reload();
+      } catch (error) {
+        new Notice(`Failed to restore ${item.originalPath}: ${getErrorMessage(error)}`);
+        restoreBtn.disabled = false;
+      }
+    });
+  }
+}
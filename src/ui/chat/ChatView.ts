@@ -8,7 +8,7 @@
  * and tool event coordination to ToolEventCoordinator.
  */
 
-import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Notice, TFile } from 'obsidian';
 import { ConversationList } from './components/ConversationList';
 import { MessageDisplay } from './components/MessageDisplay';
 import { ChatInput } from './components/ChatInput';
@@ -100,6 +100,15 @@ export class ChatView extends ItemView {
   // Layout elements
   private layoutElements!: ChatLayoutElements;
 
+  // Notes added as context before the input exists (view still opening)
+  private pendingContextNotes: TFile[] = [];
+
+  // Conversation search result to open once the view has loaded its conversations
+  private pendingConversationTarget: { conversationId: string; messageId?: string } | null = null;
+  private initialDataLoaded = false;
+  // Message to scroll to when its conversation is displayed
+  private scrollTargetMessageId: string | null = null;
+
   constructor(leaf: WorkspaceLeaf, private chatService: ChatService) {
     super(leaf);
     this.compactionService = new ContextCompactionService();
@@ -141,6 +150,13 @@ export class ChatView extends ItemView {
     await this.waitForDatabaseReady();
 
     await this.loadInitialData();
+    this.initialDataLoaded = true;
+
+    if (this.pendingConversationTarget) {
+      const { conversationId, messageId } = this.pendingConversationTarget;
+      this.pendingConversationTarget = null;
+      await this.openConversation(conversationId, messageId);
+    }
 
     // Set up Nexus lifecycle callbacks for loading indicator
     const lifecycleManager = getWebLLMLifecycleManager();
@@ -327,6 +343,43 @@ export class ChatView extends ItemView {
     if (conversations.length > 0) {
       this.conversationList.setConversations(conversations);
     }
+
+    // Add notes that were sent here while the view was opening
+    const pendingNotes = this.pendingContextNotes;
+    this.pendingContextNotes = [];
+    for (const file of pendingNotes) {
+      void this.addNoteToContext(file);
+    }
+  }
+
+  /**
+   * Add a note as context for the next message (used by the Related Notes pane)
+   */
+  async addNoteToContext(file: TFile): Promise<void> {
+    if (!this.chatInput) {
+      this.pendingContextNotes.push(file);
+      return;
+    }
+    await this.chatInput.addNoteReference(file);
+  }
+
+  /**
+   * Show a conversation, scrolled to one of its messages (used by conversation search)
+   */
+  async openConversation(conversationId: string, messageId?: string): Promise<void> {
+    if (!this.initialDataLoaded) {
+      this.pendingConversationTarget = { conversationId, messageId };
+      return;
+    }
+
+    const conversation = await this.chatService.getConversation(conversationId);
+    if (!conversation) {
+      new Notice('Conversation not found');
+      return;
+    }
+
+    this.scrollTargetMessageId = messageId ?? null;
+    await this.conversationManager.selectConversation(conversation);
   }
 
   /**
@@ -519,6 +572,10 @@ export class ChatView extends ItemView {
     (this.modelAgentManager as unknown as { currentConversationId: string | null }).currentConversationId = conversation.id;
     await this.modelAgentManager.initializeFromConversation(conversation.id);
     this.messageDisplay.setConversation(conversation);
+    if (this.scrollTargetMessageId) {
+      this.messageDisplay.scrollToMessage(this.scrollTargetMessageId);
+      this.scrollTargetMessageId = null;
+    }
     this.updateChatTitle();
     this.uiStateController.setInputPlaceholder('Type your message...');
     this.updateContextProgress();
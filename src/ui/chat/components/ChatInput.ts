@@ -4,11 +4,12 @@
  * Provides text input, send button, and model selection
  */
 
-import { setIcon, App, Platform, Component } from 'obsidian';
+import { setIcon, App, Platform, Component, TFile } from 'obsidian';
 import { initializeSuggesters, SuggesterInstances } from './suggesters/initializeSuggesters';
 import { ContentEditableHelper } from '../utils/ContentEditableHelper';
 import { ReferenceExtractor, ReferenceMetadata } from '../utils/ReferenceExtractor';
-import { MessageEnhancement } from './suggesters/base/SuggesterInterfaces';
+import { MessageEnhancement, NoteReference } from './suggesters/base/SuggesterInterfaces';
+import { TokenCalculator } from '../utils/TokenCalculator';
 import { isMobile, isIOS } from '../../../utils/platform';
 
 export class ChatInput {
@@ -301,6 +302,30 @@ export class ChatInput {
     }
   }
 
+  /**
+   * Add a note as context for the next message, shown as a reference at the end of the input
+   * (same result as picking the note with the [[ suggester)
+   */
+  async addNoteReference(file: TFile): Promise<void> {
+    const messageEnhancer = this.suggesters?.messageEnhancer;
+    if (!this.app || !this.inputElement || !messageEnhancer) return;
+
+    const alreadyAdded = messageEnhancer.getNotes().some(note => note.path === file.path);
+    const content = await this.app.vault.read(file);
+    const noteRef: NoteReference = {
+      path: file.path,
+      name: file.basename,
+      content: content,
+      tokens: TokenCalculator.estimateTextTokens(content)
+    };
+    messageEnhancer.addNote(noteRef);
+
+    ContentEditableHelper.focus(this.inputElement);
+    if (!alreadyAdded) {
+      ContentEditableHelper.insertReferenceNode(this.inputElement, 'note', `[[${file.basename}]]`, file.path);
+    }
+  }
+
   /**
    * Get message enhancer (for accessing enhancements before sending)
    */
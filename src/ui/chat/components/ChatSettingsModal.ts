@@ -5,12 +5,13 @@
  * Saves to conversation metadata (this session only).
  */
 
-import { App, Modal, ButtonComponent, Plugin } from 'obsidian';
+import { App, Modal, ButtonComponent, Plugin, Setting } from 'obsidian';
 import { WorkspaceService } from '../../../services/WorkspaceService';
 import { ModelAgentManager } from '../services/ModelAgentManager';
 import { ChatSettingsRenderer, ChatSettings } from '../../../components/shared/ChatSettingsRenderer';
 import { getNexusPlugin } from '../../../utils/pluginLocator';
 import { Settings } from '../../../settings';
+import type { EmbeddingManager } from '../../../services/embeddings/EmbeddingManager';
 
 /**
  * Type for the NexusPlugin with settings property
@@ -18,6 +19,7 @@ import { Settings } from '../../../settings';
  */
 interface NexusPluginWithSettings extends Plugin {
   settings?: Settings;
+  embeddingManager?: EmbeddingManager;
 }
 
 export class ChatSettingsModal extends Modal {
@@ -26,6 +28,8 @@ export class ChatSettingsModal extends Modal {
   private conversationId: string | null;
   private renderer: ChatSettingsRenderer | null = null;
   private pendingSettings: ChatSettings | null = null;
+  private semanticIndexOptOut = false;
+  private initialSemanticIndexOptOut = false;
 
   constructor(
     app: App,
@@ -94,6 +98,21 @@ export class ChatSettingsModal extends Modal {
     });
 
     this.renderer.render();
+
+    // Per-conversation opt-out of the semantic conversation index
+    if (this.conversationId) {
+      this.initialSemanticIndexOptOut = await this.modelAgentManager.getSemanticIndexOptOut(this.conversationId);
+      this.semanticIndexOptOut = this.initialSemanticIndexOptOut;
+
+      new Setting(contentEl)
+        .setName('Semantic memory')
+        .setDesc('Index this conversation so searchMemory and conversation search can recall it by meaning (desktop)')
+        .addToggle(toggle => toggle
+          .setValue(!this.semanticIndexOptOut)
+          .onChange(value => {
+            this.semanticIndexOptOut = !value;
+          }));
+    }
   }
 
   private async loadWorkspaces(): Promise<Array<{ id: string; name: string }>> {
@@ -137,7 +156,8 @@ export class ChatSettingsModal extends Modal {
       imageModel: llmSettings?.defaultImageModel?.model || 'gemini-2.5-flash-image',
       workspaceId: this.modelAgentManager.getSelectedWorkspaceId(),
       promptId: prompt?.id || prompt?.name || null,
-      contextNotes: [...contextNotes]
+      contextNotes: [...contextNotes],
+      expandEmbeds: this.modelAgentManager.getExpandEmbeds()
     };
   }
 
@@ -190,10 +210,17 @@ export class ChatSettingsModal extends Modal {
 
       // Update context notes
       await this.modelAgentManager.setContextNotes(settings.contextNotes);
+      await this.modelAgentManager.setExpandEmbeds(settings.expandEmbeds ?? false);
 
       // Save to conversation metadata
       if (this.conversationId) {
         await this.modelAgentManager.saveToConversation(this.conversationId);
+
+        if (this.semanticIndexOptOut !== this.initialSemanticIndexOptOut) {
+          await this.modelAgentManager.setSemanticIndexOptOut(this.conversationId, this.semanticIndexOptOut);
+          // Remove or rebuild the conversation's embeddings
+          getNexusPlugin<NexusPluginWithSettings>(this.app)?.embeddingManager?.getQueue()?.queueConversation(this.conversationId);
+        }
       }
 
       this.close();
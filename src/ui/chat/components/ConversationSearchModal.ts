@@ -0,0 +1,66 @@
+/**
+ * ConversationSearchModal - Search past chat conversations and jump to a message
+ *
+ * Keyword search over conversation titles and messages as you type; choosing a
+ * result opens the conversation in Nexus Chat scrolled to the matching message.
+ */
+
+import { App, SuggestModal } from 'obsidian';
+import type { ConversationSearchHit, ConversationSearchService } from '../../../services/search/ConversationSearchService';
+
+/** Results listed while typing */
+const RESULT_LIMIT = 30;
+
+export class ConversationSearchModal extends SuggestModal<ConversationSearchHit> {
+  constructor(
+    app: App,
+    private searchService: ConversationSearchService,
+    private onChoose: (hit: ConversationSearchHit) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Search chat conversations');
+    this.emptyStateText = 'No matching conversations';
+  }
+
+  async getSuggestions(query: string): Promise<ConversationSearchHit[]> {
+    if (!query.trim()) {
+      return [];
+    }
+    try {
+      return await this.searchService.search(query, { limit: RESULT_LIMIT });
+    } catch (error) {
+      console.error('[ConversationSearchModal] Search failed:', error);
+      return [];
+    }
+  }
+
+  renderSuggestion(hit: ConversationSearchHit, el: HTMLElement): void {
+    el.addClass('nexus-conversation-search-item');
+    el.createDiv({ cls: 'nexus-conversation-search-title', text: hit.conversationTitle });
+
+    if (hit.messageId) {
+      // Snippets mark matched words with **
+      const snippetEl = el.createDiv('nexus-conversation-search-snippet');
+      hit.snippet.split('**').forEach((part, index) => {
+        if (index % 2 === 1) {
+          snippetEl.createEl('strong', { text: part });
+        } else {
+          snippetEl.appendText(part);
+        }
+      });
+    }
+
+    el.createEl('small', {
+      cls: 'nexus-conversation-search-meta',
+      text: [
+        hit.messageId ? (hit.role === 'user' ? 'You' : 'Assistant') : 'Title',
+        new Date(hit.timestamp).toLocaleString(),
+        hit.model
+      ].filter(Boolean).join(' · ')
+    });
+  }
+
+  onChooseSuggestion(hit: ConversationSearchHit): void {
+    this.onChoose(hit);
+  }
+}
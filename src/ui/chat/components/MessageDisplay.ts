@@ -320,6 +320,26 @@ export class MessageDisplay {
     }
   }
 
+  /**
+   * Scroll a message into view and highlight it briefly (used when opening a search result)
+   * @returns false if the message is not displayed
+   */
+  scrollToMessage(messageId: string): boolean {
+    const messageBubble = this.messageBubbles.find(bubble => {
+      const element = bubble.getElement();
+      return element?.getAttribute('data-message-id') === messageId;
+    });
+    const element = messageBubble?.getElement();
+    if (!element) {
+      return false;
+    }
+
+    element.scrollIntoView({ block: 'center' });
+    element.addClass('message-search-highlight');
+    setTimeout(() => element.removeClass('message-search-highlight'), 2000);
+    return true;
+  }
+
   /**
    * Get current scroll position
    */
@@ -6,12 +6,14 @@
  * - Add/remove/clear context notes
  * - Validate note paths
  * - Provide note list for system prompt building
+ * - Track whether embeds in context notes are expanded
  *
  * Follows Single Responsibility Principle - only handles context note management.
  */
 
 export class ContextNotesManager {
   private notes: string[] = [];
+  private expandEmbeds = false;
 
   /**
    * Get all context note paths
@@ -87,4 +89,18 @@ export class ContextNotesManager {
   count(): number {
     return this.notes.length;
   }
+
+  /**
+   * Whether ![[embeds]] in context notes are inlined into the system prompt
+   */
+  getExpandEmbeds(): boolean {
+    return this.expandEmbeds;
+  }
+
+  /**
+   * Enable or disable embed expansion for context notes
+   */
+  setExpandEmbeds(expandEmbeds: boolean): void {
+    this.expandEmbeds = expandEmbeds;
+  }
 }
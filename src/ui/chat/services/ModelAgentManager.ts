@@ -46,6 +46,7 @@ interface PluginWithSettings {
       };
       defaultWorkspaceId?: string;
       defaultPromptId?: string;
+      defaultExpandEmbeds?: boolean;
     };
   };
   serviceManager?: {
@@ -177,6 +178,7 @@ export class ModelAgentManager {
     if (settings.contextNotes && Array.isArray(settings.contextNotes)) {
       this.contextNotesManager.setNotes(settings.contextNotes);
     }
+    this.contextNotesManager.setExpandEmbeds(settings.expandEmbeds === true);
 
     // Restore thinking settings
     if (settings.thinking) {
@@ -245,6 +247,8 @@ export class ModelAgentManager {
       const plugin = getNexusPlugin<NexusPlugin>(this.app) as unknown as PluginWithSettings | null;
       const settings = plugin?.settings?.settings;
 
+      this.contextNotesManager.setExpandEmbeds(settings?.defaultExpandEmbeds ?? false);
+
       // Load default thinking settings
       const llmProviders = settings?.llmProviders;
       if (llmProviders?.defaultThinking) {
@@ -308,6 +312,7 @@ export class ModelAgentManager {
           promptId: this.selectedPrompt?.id,
           workspaceId: this.selectedWorkspaceId,
           contextNotes: this.contextNotesManager.getNotes(),
+          expandEmbeds: this.contextNotesManager.getExpandEmbeds(),
           sessionId: existingSessionId, // Preserve the session ID
           thinking: this.thinkingSettings,
           temperature: this.temperature
@@ -320,6 +325,36 @@ export class ModelAgentManager {
     }
   }
 
+  /**
+   * Whether a conversation is kept out of the semantic conversation index
+   */
+  async getSemanticIndexOptOut(conversationId: string): Promise<boolean> {
+    if (!this.conversationService) {
+      return false;
+    }
+
+    try {
+      const conversation = await this.conversationService.getConversation(conversationId);
+      return conversation?.metadata?.excludeFromSemanticIndex === true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Opt a conversation out of (or back into) the semantic conversation index.
+   * The caller re-queues the conversation so its embeddings are removed or rebuilt.
+   */
+  async setSemanticIndexOptOut(conversationId: string, excluded: boolean): Promise<void> {
+    if (!this.conversationService) {
+      return;
+    }
+
+    await this.conversationService.updateConversationMetadata(conversationId, {
+      excludeFromSemanticIndex: excluded
+    });
+  }
+
   /**
    * Get current selected model (sync - returns null if none selected)
    */
@@ -487,6 +522,23 @@ export class ModelAgentManager {
     this.events.onSystemPromptChanged(await this.buildSystemPromptWithWorkspace());
   }
 
+  /**
+   * Whether embeds in context notes are expanded
+   */
+  getExpandEmbeds(): boolean {
+    return this.contextNotesManager.getExpandEmbeds();
+  }
+
+  /**
+   * Enable or disable embed expansion for context notes
+   */
+  async setExpandEmbeds(expandEmbeds: boolean): Promise<void> {
+    if (this.contextNotesManager.getExpandEmbeds() !== expandEmbeds) {
+      this.contextNotesManager.setExpandEmbeds(expandEmbeds);
+      this.events.onSystemPromptChanged(await this.buildSystemPromptWithWorkspace());
+    }
+  }
+
   /**
    * Add context note
    */
@@ -706,6 +758,7 @@ export class ModelAgentManager {
       sessionId,
       workspaceId: this.selectedWorkspaceId || undefined,
       contextNotes: this.contextNotesManager.getNotes(),
+      expandEmbeds: this.contextNotesManager.getExpandEmbeds(),
       messageEnhancement: this.messageEnhancement,
       customPrompt: this.currentSystemPrompt,
       workspaceContext: this.workspaceContext,
@@ -67,6 +67,8 @@ export interface SystemPromptOptions {
   sessionId?: string;
   workspaceId?: string;
   contextNotes?: string[];
+  // Inline ![[embeds]] in context notes
+  expandEmbeds?: boolean;
   messageEnhancement?: MessageEnhancement | null;
   customPrompt?: string | null;
   workspaceContext?: WorkspaceContext | null;
@@ -88,7 +90,7 @@ export interface SystemPromptOptions {
 
 export class SystemPromptBuilder {
   constructor(
-    private readNoteContent: (notePath: string) => Promise<string>,
+    private readNoteContent: (notePath: string, expandEmbeds?: boolean) => Promise<string>,
     private loadWorkspace?: (workspaceId: string) => Promise<any>
   ) {}
 
@@ -145,7 +147,8 @@ export class SystemPromptBuilder {
     // 5. Context files section
     const filesSection = await this.buildFilesSection(
       options.contextNotes || [],
-      options.messageEnhancement
+      options.messageEnhancement,
+      options.expandEmbeds
     );
     if (filesSection) {
       sections.push(filesSection);
@@ -244,7 +247,8 @@ IMPORTANT:
    */
   private async buildFilesSection(
     contextNotes: string[],
-    messageEnhancement?: MessageEnhancement | null
+    messageEnhancement?: MessageEnhancement | null,
+    expandEmbeds?: boolean
   ): Promise<string | null> {
     const hasContextNotes = contextNotes.length > 0;
     const hasEnhancementNotes = messageEnhancement && messageEnhancement.notes.length > 0;
@@ -258,7 +262,7 @@ IMPORTANT:
     // Add context notes
     for (const notePath of contextNotes) {
       const xmlTag = this.normalizePathToXmlTag(notePath);
-      const content = await this.readNoteContent(notePath);
+      const content = await this.readNoteContent(notePath, expandEmbeds);
 
       prompt += `<${xmlTag}>\n`;
       prompt += `${notePath}\n\n`;
@@ -12,6 +12,7 @@ import { App, TFile, TFolder } from 'obsidian';
 import { WorkspaceContext } from '../../../database/types/workspace/WorkspaceTypes';
 import { VaultStructure, WorkspaceSummary } from './SystemPromptBuilder';
 import { getNexusPlugin } from '../../../utils/pluginLocator';
+import { EmbedExpander } from '../../../utils/EmbedExpander';
 import type NexusPlugin from '../../../main';
 import type { WorkspaceService } from '../../../services/WorkspaceService';
 import type { SessionContextManager } from '../../../services/SessionContextManager';
@@ -97,13 +98,13 @@ export class WorkspaceIntegrationService {
   /**
    * Read note content from vault
    */
-  async readNoteContent(notePath: string): Promise<string> {
+  async readNoteContent(notePath: string, expandEmbeds = false): Promise<string> {
     try {
       const file = this.app.vault.getAbstractFileByPath(notePath);
 
       if (file instanceof TFile) {
         const content = await this.app.vault.read(file);
-        return content;
+        return expandEmbeds ? await new EmbedExpander(this.app).expand(content, file.path) : content;
       }
 
       return '[File not found]';
@@ -0,0 +1,121 @@
+/**
+ * EditHistoryModal - Agent edit history for a single note
+ *
+ * Lists journal entries that touched the note (newest first) with:
+ * - Time, tool and session of the change
+ * - What reverting would undo (diff between the journaled version and the current content)
+ * - Revert button (becomes "Revert anyway" after a conflict)
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import type { EditJournalService, EditJournalEntry, EditChange } from '../../services/journal/EditJournalService';
+import { ContentVersioning } from '../../agents/contentManager/utils/ContentVersioning';
+import { formatRevertOutcomes } from './formatRevertOutcomes';
+
+export class EditHistoryModal extends Modal {
+  private journal: EditJournalService;
+  private file: TFile;
+
+  constructor(app: App, journal: EditJournalService, file: TFile) {
+    super(app);
+    this.journal = journal;
+    this.file = file;
+  }
+
+  async onOpen(): Promise<void> {
+    this.modalEl.addClass('nexus-edit-history-modal');
+    this.titleEl.setText(`Agent edits: ${this.file.basename}`);
+    await this.renderContent();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async renderContent(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const entries = await this.journal.withBeforeImages(
+      await this.journal.getEntries({ path: this.file.path, includeReverted: true })
+    );
+    if (entries.length === 0) {
+      contentEl.createDiv({ cls: 'nexus-edit-history-empty', text: 'No agent changes recorded for this note.' });
+      return;
+    }
+
+    const currentContent = await this.app.vault.read(this.file);
+    const list = contentEl.createDiv('nexus-edit-history-list');
+    for (const entry of entries) {
+      this.renderEntry(list, entry, currentContent);
+    }
+  }
+
+  private renderEntry(container: HTMLElement, entry: EditJournalEntry, currentContent: string): void {
+    const row = container.createDiv('nexus-edit-history-entry');
+    if (entry.revertedAt !== undefined) {
+      row.addClass('is-reverted');
+    }
+
+    const header = row.createDiv('nexus-edit-history-header');
+    const info = header.createDiv('nexus-edit-history-info');
+    info.createDiv({ cls: 'nexus-edit-history-title', text: `${entry.agent}.${entry.tool}` });
+    info.createDiv({
+      cls: 'nexus-edit-history-meta',
+      text: [
+        new Date(entry.timestamp).toLocaleString(),
+        entry.sessionId ? `session ${entry.sessionId}` : null,
+        entry.revertedAt !== undefined ? 'reverted' : null
+      ].filter(Boolean).join(' · ')
+    });
+
+    const change = entry.changes.find(c => c.path === this.file.path || c.from === this.file.path);
+    if (change) {
+      const description = this.describeChange(change, currentContent);
+      if (description) {
+        row.createEl('pre', { cls: 'nexus-edit-history-diff', text: description });
+      }
+    }
+
+    if (entry.revertedAt === undefined) {
+      const revertBtn = header.createEl('button', { text: 'Revert' });
+      let force = false;
+      revertBtn.addEventListener('click', async () => {
+        revertBtn.disabled = true;
+        const outcomes = await this.journal.revert([entry.id], { force });
+        new Notice(formatRevertOutcomes(outcomes));
+
+        if (outcomes.every(outcome => outcome.reverted)) {
+          await this.renderContent();
+          return;
+        }
+
+        // Conflict: allow a forced revert on the next click
+        force = true;
+        revertBtn.setText('Revert anyway');
+        revertBtn.addClass('mod-warning');
+        revertBtn.disabled = false;
+      });
+    }
+  }
+
+  /**
+   * Describe what reverting this change would do to the note
+   */
+  private describeChange(change: EditChange, currentContent: string): string {
+    switch (change.kind) {
+      case 'modify':
+      case 'delete':
+        if (change.before === undefined) {
+          return 'Previous content was not journaled (binary or too large).';
+        }
+        return ContentVersioning.lineDiff(currentContent, change.before) || '(no line changes)';
+      case 'create':
+        return 'Created by the agent (revert moves it to trash).';
+      case 'rename':
+        return `Moved from ${change.from} to ${change.path}.`;
+      default:
+        return '';
+    }
+  }
+}
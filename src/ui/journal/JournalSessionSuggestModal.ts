@@ -0,0 +1,43 @@
+/**
+ * JournalSessionSuggestModal - Pick a session whose agent changes should be reverted
+ *
+ * Lists sessions with unreverted journal entries (most recent first).
+ */
+
+import { App, SuggestModal } from 'obsidian';
+import type { JournalSessionSummary } from '../../services/journal/EditJournalService';
+
+export class JournalSessionSuggestModal extends SuggestModal<JournalSessionSummary> {
+  constructor(
+    app: App,
+    private sessions: JournalSessionSummary[],
+    private onChoose: (session: JournalSessionSummary) => void
+  ) {
+    super(app);
+    this.setPlaceholder('Select a session to revert its agent changes');
+  }
+
+  getSuggestions(query: string): JournalSessionSummary[] {
+    const lowered = query.toLowerCase();
+    return this.sessions.filter(session =>
+      session.sessionId.toLowerCase().includes(lowered) ||
+      (session.workspaceId ?? '').toLowerCase().includes(lowered)
+    );
+  }
+
+  renderSuggestion(session: JournalSessionSummary, el: HTMLElement): void {
+    el.createDiv({ text: session.sessionId });
+    el.createEl('small', {
+      cls: 'nexus-edit-history-meta',
+      text: [
+        `${session.entryCount} change(s)`,
+        `last ${new Date(session.lastTimestamp).toLocaleString()}`,
+        session.workspaceId ? `workspace ${session.workspaceId}` : null
+      ].filter(Boolean).join(' · ')
+    });
+  }
+
+  onChooseSuggestion(session: JournalSessionSummary): void {
+    this.onChoose(session);
+  }
+}
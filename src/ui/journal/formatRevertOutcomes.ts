@@ -0,0 +1,20 @@
+import type { RevertOutcome } from '../../services/journal/EditJournalService';
+
+/**
+ * Summarize revert outcomes for a Notice
+ * @param outcomes Outcomes returned by EditJournalService.revert
+ * @returns One-line summary plus conflicts, if any
+ */
+export function formatRevertOutcomes(outcomes: RevertOutcome[]): string {
+  const reverted = outcomes.filter(outcome => outcome.reverted);
+  const blocked = outcomes.filter(outcome => !outcome.reverted);
+
+  const lines = [`Reverted ${reverted.length} of ${outcomes.length} agent change(s).`];
+  for (const outcome of blocked.slice(0, 5)) {
+    lines.push(`${outcome.tool}: ${(outcome.conflicts || []).join('; ')}`);
+  }
+  if (blocked.length > 5) {
+    lines.push(`... ${blocked.length - 5} more not reverted`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,284 @@
+/**
+ * RelatedNotesView - Side pane listing notes related to the active note
+ * Location: /src/ui/related/RelatedNotesView.ts
+ *
+ * Shows notes similar in meaning to the active note (note embeddings), optionally
+ * ranked with link-graph distance too. Each note can be linked from the active
+ * note, opened, or added as context to Nexus Chat.
+ *
+ * Relationships:
+ * - Uses RelatedNotesFinder (shared with searchManager.relatedNotes)
+ * - Registered by RelatedNotesUIManager (desktop only)
+ */
+
+import { ItemView, MarkdownView, Notice, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import type { EmbeddingService } from '../../services/embeddings/EmbeddingService';
+import { RelatedNote, RelatedNotesFinder } from '../../services/search/RelatedNotesFinder';
+
+export const RELATED_NOTES_VIEW_TYPE = 'nexus-related-notes';
+
+/** Notes listed in the pane */
+const RESULT_LIMIT = 15;
+
+/** Share of the score from link proximity when "Include links" is on */
+const GRAPH_WEIGHT = 0.3;
+
+/** Quiet period after edits to the source note before re-ranking (ms) */
+const CHANGE_DEBOUNCE_MS = 1500;
+
+export interface RelatedNotesViewServices {
+  getEmbeddingService: () => EmbeddingService | null;
+  addToChat: (file: TFile) => Promise<void>;
+}
+
+interface RelatedNotesViewState {
+  includeLinks?: boolean;
+}
+
+export class RelatedNotesView extends ItemView {
+  private services: RelatedNotesViewServices;
+  private includeLinks = false;
+  private sourceFile: TFile | null = null;
+  private listedSourcePath: string | null = null;
+  /** Paths of the notes currently listed */
+  private listedPaths = new Set<string>();
+  private listEl!: HTMLElement;
+  private refreshId = 0;
+  private changeTimer: NodeJS.Timeout | null = null;
+
+  constructor(leaf: WorkspaceLeaf, services: RelatedNotesViewServices) {
+    super(leaf);
+    this.services = services;
+  }
+
+  getViewType(): string {
+    return RELATED_NOTES_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Related notes';
+  }
+
+  getIcon(): string {
+    return 'waypoints';
+  }
+
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), includeLinks: this.includeLinks };
+  }
+
+  async setState(state: RelatedNotesViewState, result: { history: boolean }): Promise<void> {
+    this.includeLinks = state?.includeLinks ?? false;
+    await super.setState(state, result);
+    if (this.listEl) {
+      this.render();
+    }
+  }
+
+  async onOpen(): Promise<void> {
+    this.registerEvent(this.app.workspace.on('file-open', (file) => {
+      // Keep the last note when focus moves to a non-note view (e.g. this pane)
+      if (file && file.extension === 'md' && file.path !== this.sourceFile?.path) {
+        this.sourceFile = file;
+        void this.refresh();
+      }
+    }));
+    // Links added or removed in the source note change link distances
+    // (debounced: the cache changes on every pause while typing)
+    this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+      if (file.path === this.sourceFile?.path) {
+        this.scheduleRefresh();
+      }
+    }));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (file === this.sourceFile || this.listedPaths.has(oldPath)) {
+        void this.refresh();
+      }
+    }));
+
+    const active = this.app.workspace.getActiveFile();
+    this.sourceFile = active && active.extension === 'md' ? active : null;
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.refreshId++;
+    this.cancelScheduledRefresh();
+  }
+
+  /**
+   * Build the header and list, then load results
+   */
+  private render(): void {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass('nexus-related-notes');
+
+    const header = container.createDiv('nexus-related-notes-header');
+    const toggleLabel = header.createEl('label', { cls: 'nexus-related-notes-toggle' });
+    const toggle = toggleLabel.createEl('input', { type: 'checkbox' });
+    toggle.checked = this.includeLinks;
+    toggleLabel.appendText('Include links');
+    toggleLabel.setAttribute('aria-label', 'Rank notes close in the link graph higher');
+    this.registerDomEvent(toggle, 'change', () => {
+      this.includeLinks = toggle.checked;
+      this.app.workspace.requestSaveLayout();
+      void this.refresh();
+    });
+
+    const refreshButton = header.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': 'Refresh' } });
+    setIcon(refreshButton, 'refresh-cw');
+    this.registerDomEvent(refreshButton, 'click', () => {
+      void this.refresh();
+    });
+
+    this.listEl = container.createDiv('nexus-related-notes-list');
+    void this.refresh();
+  }
+
+  /**
+   * Refresh once the source note has stopped changing for a moment
+   */
+  private scheduleRefresh(): void {
+    this.cancelScheduledRefresh();
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      void this.refresh();
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  private cancelScheduledRefresh(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = null;
+    }
+  }
+
+  /**
+   * Load related notes for the source note
+   */
+  private async refresh(): Promise<void> {
+    if (!this.listEl) return;
+    this.cancelScheduledRefresh();
+    const refreshId = ++this.refreshId;
+    const source = this.sourceFile;
+
+    if (!source || !(this.app.vault.getAbstractFileByPath(source.path) instanceof TFile)) {
+      this.showMessage('Open a note to see related notes.');
+      return;
+    }
+
+    const embeddingService = this.services.getEmbeddingService();
+    if (!embeddingService) {
+      this.showMessage('Related notes appear once the embedding system has started.');
+      return;
+    }
+    if (!embeddingService.isServiceEnabled()) {
+      this.showMessage('Embeddings are unavailable (the embedding model failed to load).');
+      return;
+    }
+
+    // Keep the current list on screen while refreshing the same note
+    if (this.listedSourcePath !== source.path) {
+      this.showMessage('Finding related notes…');
+    }
+
+    let related: RelatedNote[] | null;
+    try {
+      related = await new RelatedNotesFinder(this.app, embeddingService).find(source.path, {
+        limit: RESULT_LIMIT,
+        graphWeight: this.includeLinks ? GRAPH_WEIGHT : 0
+      });
+    } catch (error) {
+      console.error('[RelatedNotesView] Failed to find related notes:', error);
+      related = [];
+    }
+
+    // A newer refresh started while this one was waiting
+    if (refreshId !== this.refreshId) return;
+
+    if (!related) {
+      this.showMessage(`"${source.basename}" is not indexed yet. Related notes appear once indexing reaches it.`);
+      return;
+    }
+    if (related.length === 0) {
+      this.showMessage('No related notes found.');
+      return;
+    }
+
+    this.listEl.empty();
+    this.listedSourcePath = source.path;
+    this.listedPaths = new Set(related.map(note => note.path));
+    this.listEl.createDiv({ cls: 'nexus-related-notes-source', text: source.basename });
+    for (const note of related) {
+      const file = this.app.vault.getAbstractFileByPath(note.path);
+      if (file instanceof TFile) {
+        this.renderItem(source, file, note);
+      }
+    }
+  }
+
+  private renderItem(source: TFile, file: TFile, note: RelatedNote): void {
+    const item = this.listEl.createDiv('nexus-related-notes-item');
+
+    const info = item.createDiv('nexus-related-notes-info');
+    const title = info.createDiv({ cls: 'nexus-related-notes-title', text: file.basename });
+    title.setAttribute('aria-label', file.path);
+    // List items are rebuilt on every refresh, so their listeners go with the elements
+    title.addEventListener('click', (event: MouseEvent) => {
+      void this.app.workspace.getLeaf(event.ctrlKey || event.metaKey).openFile(file);
+    });
+
+    const meta = [`${Math.round(note.similarity * 100)}% similar`];
+    if (note.linkDistance === 1) {
+      meta.push('linked');
+    } else if (note.linkDistance !== null) {
+      meta.push(`${note.linkDistance} links away`);
+    }
+    info.createDiv({ cls: 'nexus-related-notes-meta', text: meta.join(' · ') });
+
+    const actions = item.createDiv('nexus-related-notes-actions');
+    if (note.linkDistance !== 1) {
+      this.addItemAction(actions, 'link', `Link from ${source.basename}`, () => this.linkNote(source, file));
+    }
+    this.addItemAction(actions, 'external-link', 'Open in new tab', () => this.app.workspace.getLeaf('tab').openFile(file));
+    this.addItemAction(actions, 'message-square-plus', 'Add to chat context', () => this.services.addToChat(file));
+  }
+
+  private addItemAction(container: HTMLElement, icon: string, label: string, action: () => Promise<void>): void {
+    const button = container.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+    setIcon(button, icon);
+    button.addEventListener('click', () => {
+      action().catch((error) => {
+        console.error(`[RelatedNotesView] ${label} failed:`, error);
+        new Notice(`${label} failed`);
+      });
+    });
+  }
+
+  /**
+   * Add a link to target in source: at the cursor if source is open in an editor, otherwise at the end
+   */
+  private async linkNote(source: TFile, target: TFile): Promise<void> {
+    const link = this.app.fileManager.generateMarkdownLink(target, source.path);
+
+    const editorView = this.app.workspace.getLeavesOfType('markdown')
+      .map(leaf => leaf.view)
+      .find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === source.path);
+
+    if (editorView) {
+      editorView.editor.replaceSelection(link);
+    } else {
+      await this.app.vault.process(source, content => `${content.replace(/\s*$/, '')}\n\n${link}\n`);
+    }
+
+    new Notice(`Linked ${target.basename} from ${source.basename}`);
+  }
+
+  private showMessage(text: string): void {
+    this.listedSourcePath = null;
+    this.listedPaths.clear();
+    this.listEl.empty();
+    this.listEl.createDiv({ cls: 'nexus-related-notes-empty', text });
+  }
+}
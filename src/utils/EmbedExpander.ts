@@ -0,0 +1,177 @@
+/**
+ * EmbedExpander - Inline note embeds (transclusions) for LLM context
+ *
+ * Used by:
+ * - ReadTool (expandEmbeds option)
+ * - FileContentService (file context for executePrompt)
+ * - WorkspaceIntegrationService (chat context notes)
+ *
+ * Expands ![[Note]], ![[Note#Heading]] and ![[Note#^block]] the way Obsidian renders them:
+ * the embed line is kept and the embedded text follows it between source markers.
+ * Sections and blocks are located with the metadata cache (resolveSubpath), so expansion is cheap.
+ *
+ * Limits:
+ * - maxDepth: embeds inside embedded text are expanded up to this nesting depth
+ * - maxTokens: budget for all inlined text (estimated at ~4 characters per token)
+ * - Cycles (a note embedding itself, directly or through others) are reported, not followed
+ * Embeds of non-markdown files (images, PDFs) are left as they are.
+ */
+
+import { App, TFile, getFrontMatterInfo, parseLinktext, resolveSubpath } from 'obsidian';
+
+export interface EmbedExpansionOptions {
+  /** Maximum nesting depth (default: 3) */
+  maxDepth?: number;
+  /** Token budget for inlined text (default: 4000) */
+  maxTokens?: number;
+}
+
+export interface EmbedExpansionStats {
+  /** Embeds inlined */
+  expanded: number;
+  /** Embeds left out (missing, cycle, depth or token limit) */
+  skipped: number;
+  /** True if an embed was cut short or skipped because of the token budget */
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_DEPTH = 3;
+const DEFAULT_MAX_TOKENS = 4000;
+const CHARS_PER_TOKEN = 4;
+
+const EMBED_PATTERN = /!\[\[([^\]]+?)\]\]/g;
+
+/**
+ * Expands embeds with a shared budget; create one instance per read or prompt
+ */
+export class EmbedExpander {
+  private readonly maxDepth: number;
+  private remainingChars: number;
+  private stats: EmbedExpansionStats = { expanded: 0, skipped: 0, truncated: false };
+
+  constructor(private app: App, options: EmbedExpansionOptions = {}) {
+    this.maxDepth = Math.max(0, options.maxDepth ?? DEFAULT_MAX_DEPTH);
+    this.remainingChars = Math.max(0, options.maxTokens ?? DEFAULT_MAX_TOKENS) * CHARS_PER_TOKEN;
+  }
+
+  /**
+   * Check whether text contains embed syntax (cheap pre-check)
+   */
+  static hasEmbeds(text: string): boolean {
+    return text.includes('![[');
+  }
+
+  /**
+   * Expand every embed in content
+   * @param content Note content
+   * @param sourcePath Path of the note the content belongs to (for link resolution)
+   * @returns Content with embedded text inserted after each line that embeds it
+   */
+  async expand(content: string, sourcePath: string): Promise<string> {
+    return this.expandText(content, sourcePath, 1, [sourcePath]);
+  }
+
+  /**
+   * Expand the embeds of a single line without repeating the line itself
+   * @param line Line of a note
+   * @param sourcePath Path of the note the line belongs to
+   * @returns Embedded blocks for the line (empty if it has none)
+   */
+  async expandLine(line: string, sourcePath: string): Promise<string[]> {
+    return this.renderEmbeds(line, sourcePath, 1, [sourcePath]);
+  }
+
+  /**
+   * Counts of what was expanded so far
+   */
+  getStats(): EmbedExpansionStats {
+    return { ...this.stats };
+  }
+
+  private async expandText(text: string, sourcePath: string, depth: number, ancestors: string[]): Promise<string> {
+    if (!EmbedExpander.hasEmbeds(text)) {
+      return text;
+    }
+
+    const output: string[] = [];
+    for (const line of text.split('\n')) {
+      output.push(line);
+      if (EmbedExpander.hasEmbeds(line)) {
+        output.push(...await this.renderEmbeds(line, sourcePath, depth, ancestors));
+      }
+    }
+    return output.join('\n');
+  }
+
+  private async renderEmbeds(line: string, sourcePath: string, depth: number, ancestors: string[]): Promise<string[]> {
+    const blocks: string[] = [];
+
+    for (const match of line.matchAll(EMBED_PATTERN)) {
+      const linktext = match[1].split('|')[0].trim();
+      const { path: linkpath, subpath } = parseLinktext(linktext);
+      const target = linkpath
+        ? this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+        : this.app.vault.getAbstractFileByPath(sourcePath);
+
+      if (target instanceof TFile && target.extension !== 'md') {
+        continue;
+      }
+
+      const source = target instanceof TFile ? `${target.path}${subpath}` : linktext;
+      if (!(target instanceof TFile)) {
+        blocks.push(this.skip(source, 'not found'));
+      } else if (ancestors.includes(source)) {
+        blocks.push(this.skip(source, 'cycle'));
+      } else if (depth > this.maxDepth) {
+        blocks.push(this.skip(source, 'depth limit'));
+      } else if (this.remainingChars <= 0) {
+        this.stats.truncated = true;
+        blocks.push(this.skip(source, 'token limit'));
+      } else {
+        blocks.push(await this.renderEmbed(target, subpath, source, depth, ancestors));
+      }
+    }
+
+    return blocks;
+  }
+
+  private async renderEmbed(file: TFile, subpath: string, source: string, depth: number, ancestors: string[]): Promise<string> {
+    const content = await this.app.vault.cachedRead(file);
+
+    let text: string;
+    if (subpath) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      const resolved = cache ? resolveSubpath(cache, subpath) : null;
+      if (!resolved) {
+        return this.skip(source, 'section not found');
+      }
+      text = content.slice(resolved.start.offset, resolved.end ? resolved.end.offset : content.length);
+    } else {
+      // Like Obsidian, whole-note embeds leave out the frontmatter
+      text = content.slice(getFrontMatterInfo(content).contentStart);
+    }
+
+    text = text.replace(/\s+$/, '');
+    let truncated = false;
+    if (text.length > this.remainingChars) {
+      text = text.slice(0, this.remainingChars);
+      truncated = true;
+      this.stats.truncated = true;
+    }
+    this.remainingChars -= text.length;
+    this.stats.expanded++;
+
+    const body = await this.expandText(text, file.path, depth + 1, [...ancestors, source]);
+    const attributes = `source="${this.escapeAttribute(source)}"${truncated ? ' truncated="true"' : ''}`;
+    return `<embed ${attributes}>\n${body}\n</embed>`;
+  }
+
+  private skip(source: string, reason: string): string {
+    this.stats.skipped++;
+    return `<embed source="${this.escapeAttribute(source)}" skipped="${reason}" />`;
+  }
+
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  }
+}
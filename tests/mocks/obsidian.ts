@@ -0,0 +1,22 @@
+/**
+ * Minimal stand-in for the obsidian module in unit tests
+ * (the real package only ships type declarations)
+ */
+
+import moment from 'moment';
+
+export { moment };
+
+export class TFile {
+  path = '';
+  name = '';
+  basename = '';
+  extension = 'md';
+  stat = { ctime: 0, mtime: 0, size: 0 };
+}
+
+export class Notice {
+  constructor(public message: string) {}
+}
+
+export const Platform = { isMobile: false, isDesktop: true };
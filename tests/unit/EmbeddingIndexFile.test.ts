@@ -0,0 +1,122 @@
+import {
+  EmbeddingIndexFile,
+  EmbeddingIndexWriter,
+  PortableEmbeddingIndex,
+  PortableIndexLayout
+} from '../../src/services/embeddings/EmbeddingIndexFile';
+
+function vector(...values: number[]): Float32Array {
+  return new Float32Array(values);
+}
+
+function sampleIndex(model = 'test-model'): PortableEmbeddingIndex {
+  return {
+    model,
+    dimensions: 2,
+    exported: 1715731200000,
+    notes: [
+      {
+        notePath: 'Projects/Plan.md',
+        contentHash: 'n1',
+        vector: vector(0.5, -1),
+        chunks: [
+          { contentHash: 'c1', vector: vector(1, 2) },
+          { contentHash: 'c2', vector: vector(3, 4) }
+        ]
+      },
+      { notePath: 'Inbox.md', contentHash: 'n2', vector: vector(5, 6), chunks: [] }
+    ],
+    traces: [
+      { traceId: 't1', workspaceId: 'w1', sessionId: null, contentHash: 'h1', vector: vector(7, 8) }
+    ]
+  };
+}
+
+/** Plain arrays, so decoded vectors (views into the file) compare by value */
+function toPlain(index: PortableEmbeddingIndex) {
+  return {
+    ...index,
+    notes: index.notes.map(note => ({
+      ...note,
+      vector: Array.from(note.vector),
+      chunks: note.chunks.map(chunk => ({ ...chunk, vector: Array.from(chunk.vector) }))
+    })),
+    traces: index.traces.map(trace => ({ ...trace, vector: Array.from(trace.vector) }))
+  };
+}
+
+function layout(): PortableIndexLayout {
+  return {
+    model: 'test-model',
+    dimensions: 2,
+    exported: 0,
+    notes: [{ notePath: 'a.md', contentHash: 'n1', chunkHashes: ['c1'] }],
+    traces: []
+  };
+}
+
+describe('EmbeddingIndexFile', () => {
+  it('decodes what it encodes: notes with chunks and traces', () => {
+    const index = sampleIndex();
+    expect(toPlain(EmbeddingIndexFile.decode(EmbeddingIndexFile.encode(index)))).toEqual(toPlain(index));
+  });
+
+  it.each(['m', 'mo', 'mod', 'mode'])('pads the header so vectors start aligned (model %j)', model => {
+    const buffer = EmbeddingIndexFile.encode(sampleIndex(model));
+    const headerLength = new DataView(buffer).getUint32(8, true);
+
+    expect(headerLength % 4).toBe(0);
+    expect(buffer.byteLength).toBe(12 + headerLength + 5 * 2 * 4);
+    expect(EmbeddingIndexFile.decode(buffer).model).toBe(model);
+  });
+
+  describe('decode', () => {
+    it('rejects a wrong magic', () => {
+      const buffer = EmbeddingIndexFile.encode(sampleIndex());
+      new Uint8Array(buffer).set(new TextEncoder().encode('XXXX'), 0);
+      expect(() => EmbeddingIndexFile.decode(buffer)).toThrow('Not an embedding index file');
+    });
+
+    it('rejects an unknown version', () => {
+      const buffer = EmbeddingIndexFile.encode(sampleIndex());
+      new DataView(buffer).setUint32(4, 2, true);
+      expect(() => EmbeddingIndexFile.decode(buffer)).toThrow('Unsupported embedding index version 2');
+    });
+
+    it('rejects truncated files', () => {
+      const buffer = EmbeddingIndexFile.encode(sampleIndex());
+      expect(() => EmbeddingIndexFile.decode(buffer.slice(0, 8))).toThrow('Embedding index file is truncated');
+      expect(() => EmbeddingIndexFile.decode(buffer.slice(0, 40))).toThrow('Embedding index file is truncated');
+      expect(() => EmbeddingIndexFile.decode(buffer.slice(0, buffer.byteLength - 4))).toThrow('Embedding index file is truncated');
+    });
+  });
+
+  describe('EmbeddingIndexWriter', () => {
+    it('accepts vectors as raw bytes in any order', () => {
+      const writer = new EmbeddingIndexWriter(layout());
+      const chunk = vector(3, 4);
+      writer.setVector(1, new Uint8Array(chunk.buffer));
+      writer.setVector(0, vector(1, 2));
+
+      const decoded = EmbeddingIndexFile.decode(writer.finish());
+      expect(Array.from(decoded.notes[0].vector)).toEqual([1, 2]);
+      expect(Array.from(decoded.notes[0].chunks[0].vector)).toEqual([3, 4]);
+    });
+
+    it.each([-1, 2, 0.5])('rejects position %p', position => {
+      expect(() => new EmbeddingIndexWriter(layout()).setVector(position, vector(1, 2)))
+        .toThrow(`Vector position ${position} is outside the index (2 vectors)`);
+    });
+
+    it('rejects vectors with the wrong dimensions', () => {
+      expect(() => new EmbeddingIndexWriter(layout()).setVector(0, vector(1, 2, 3)))
+        .toThrow('Vector has 3 dimensions, expected 2');
+    });
+
+    it('refuses to finish while a vector is missing', () => {
+      const writer = new EmbeddingIndexWriter(layout());
+      writer.setVector(0, vector(1, 2));
+      expect(() => writer.finish()).toThrow('Embedding index is missing vector 1 of 2');
+    });
+  });
+});
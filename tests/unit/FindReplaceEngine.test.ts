@@ -0,0 +1,56 @@
+import { FindReplaceEngine, FindReplaceOptions } from '../../src/agents/contentManager/utils/FindReplaceEngine';
+
+function options(overrides: Partial<FindReplaceOptions>): FindReplaceOptions {
+  return { find: '', replace: '', regex: false, caseSensitive: true, wholeWord: false, ...overrides };
+}
+
+function replaceAll(content: string, overrides: Partial<FindReplaceOptions>): string {
+  const opts = options(overrides);
+  const matches = FindReplaceEngine.findMatches(content, FindReplaceEngine.buildPattern(opts), opts);
+  return FindReplaceEngine.applyMatches(content, matches);
+}
+
+describe('FindReplaceEngine', () => {
+  it('matches literal text with regex characters', () => {
+    expect(replaceAll('cost (USD) is $5.00', { find: '$5.00', replace: '$6.00' })).toBe('cost (USD) is $6.00');
+  });
+
+  it('uses Unicode word boundaries for whole words in literal mode', () => {
+    expect(replaceAll('café cafés Café', { find: 'café', replace: 'bar', wholeWord: true })).toBe('bar cafés Café');
+  });
+
+  it('uses the same Unicode word boundaries in regex mode', () => {
+    expect(replaceAll('café cafés naïve', { find: 'caf.', replace: 'bar', regex: true, wholeWord: true }))
+      .toBe('bar cafés naïve');
+    // ASCII \w would treat "é" as a boundary and match "na" inside "naïve"
+    expect(replaceAll('na naïve', { find: 'na', replace: 'X', regex: true, wholeWord: true })).toBe('X naïve');
+  });
+
+  it('keeps alternation inside the whole-word boundaries', () => {
+    expect(replaceAll('cat dog catalog', { find: 'cat|dog', replace: 'pet', regex: true, wholeWord: true }))
+      .toBe('pet pet catalog');
+  });
+
+  it('explains regex syntax that Unicode mode rejects', () => {
+    expect(() => FindReplaceEngine.buildPattern(options({ find: 'a\\-b', regex: true, wholeWord: true })))
+      .toThrow('wholeWord uses Unicode mode');
+    expect(() => FindReplaceEngine.buildPattern(options({ find: 'a\\-b', regex: true }))).not.toThrow();
+  });
+
+  it('expands capture groups and reports line and column', () => {
+    const opts = options({ find: '(\\w+)@(\\w+)', replace: '$2 at $1', regex: true });
+    const matches = FindReplaceEngine.findMatches('first\nmail bob@home now', FindReplaceEngine.buildPattern(opts), opts);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ line: 2, column: 6, match: 'bob@home', replacement: 'home at bob' });
+  });
+
+  it('skips empty matches', () => {
+    expect(replaceAll('abc', { find: 'x*', replace: '-', regex: true })).toBe('abc');
+  });
+
+  it('redeems a stored preview once', () => {
+    const stored = FindReplaceEngine.storePreview(options({ find: 'a' }), []);
+    expect(FindReplaceEngine.takePreview(stored.token)).not.toBeNull();
+    expect(FindReplaceEngine.takePreview(stored.token)).toBeNull();
+  });
+});
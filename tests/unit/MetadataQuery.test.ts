@@ -0,0 +1,114 @@
+import { MetadataQueryError, MetadataQueryParser } from '../../src/services/search/MetadataQuery';
+
+const TODAY = new Date(2024, 4, 15);
+
+function parse(query: string) {
+  return MetadataQueryParser.parse(query, TODAY);
+}
+
+function parseError(query: string): MetadataQueryError {
+  try {
+    parse(query);
+  } catch (error) {
+    if (error instanceof MetadataQueryError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to fail`);
+}
+
+describe('MetadataQueryParser', () => {
+  it('parses every clause', () => {
+    expect(parse('SELECT status, "due date" FROM "/Projects/" WHERE #work SORT file.mtime DESC, title LIMIT 10')).toEqual({
+      select: ['status', 'due date'],
+      from: 'Projects',
+      where: { type: 'tag', tag: 'work' },
+      sort: [{ field: 'file.mtime', descending: true }, { field: 'title', descending: false }],
+      limit: 10
+    });
+  });
+
+  it('binds AND tighter than OR, with NOT and parentheses', () => {
+    expect(parse('a OR b AND NOT (c OR d)').where).toEqual({
+      type: 'or',
+      left: { type: 'exists', field: 'a' },
+      right: {
+        type: 'and',
+        left: { type: 'exists', field: 'b' },
+        right: {
+          type: 'not',
+          condition: { type: 'or', left: { type: 'exists', field: 'c' }, right: { type: 'exists', field: 'd' } }
+        }
+      }
+    });
+  });
+
+  it('parses values and resolves dates against today', () => {
+    const values = [
+      'status = "in progress"',
+      'priority >= 2',
+      'archived != true',
+      'owner = null',
+      'due < 2024-06-01',
+      'due <= today',
+      'file.mtime > -7d',
+      'review < +1m',
+      'tags contains draft'
+    ].map(query => {
+      const where = parse(query).where;
+      return where?.type === 'compare' ? [where.operator, where.value] : where;
+    });
+
+    expect(values).toEqual([
+      ['=', { type: 'string', value: 'in progress' }],
+      ['>=', { type: 'number', value: 2 }],
+      ['!=', { type: 'boolean', value: true }],
+      ['=', { type: 'null' }],
+      ['<', { type: 'date', value: '2024-06-01' }],
+      ['<=', { type: 'date', value: '2024-05-15' }],
+      ['>', { type: 'date', value: '2024-05-08' }],
+      ['<', { type: 'date', value: '2024-06-15' }],
+      ['contains', { type: 'string', value: 'draft' }]
+    ]);
+  });
+
+  it('accepts a query with only SORT or LIMIT', () => {
+    expect(parse('sort file.name limit 5')).toEqual({
+      select: [],
+      where: null,
+      sort: [{ field: 'file.name', descending: false }],
+      limit: 5
+    });
+  });
+
+  describe('grammar errors', () => {
+    it.each([
+      ['status = "open', 'Unclosed quote', 10],
+      ['status = open; drop', 'Unexpected character ";"', 14],
+      ['status =', 'Expected a value at the end of the query', 9],
+      ['(a OR b', 'Expected ")" to close "("', 8],
+      ['a AND', 'Expected a field at the end of the query', 6],
+      ['status = open extra', 'Unexpected "extra"', 15],
+      ['FROM Projects', 'Expected a quoted folder after FROM, found "Projects"', 6],
+      ['due < 2024-02-30', 'Invalid date "2024-02-30"', 7],
+      ['LIMIT 0', 'LIMIT must be a positive whole number', 7],
+      ['LIMIT ten', 'Expected a number after LIMIT, found "ten"', 7],
+      ['sort = 1', 'Expected a field, found "="', 6],
+      ['status = and', 'Expected a value, found "and"', 10]
+    ])('rejects %j', (query, message, position) => {
+      const error = parseError(query);
+      expect(error.message).toBe(`${message} (at position ${position})`);
+      expect(error.position).toBe(position - 1);
+    });
+
+    it('lets reserved words be used as quoted fields and values', () => {
+      expect(parse('"sort" = "and"').where).toEqual({
+        type: 'compare',
+        field: 'sort',
+        operator: '=',
+        value: { type: 'string', value: 'and' }
+      });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { NoteChunker } from '../../src/services/embeddings/NoteChunker';
+
+/** A line of about `tokens` estimated tokens (4 characters each) */
+function line(label: string, tokens: number): string {
+  return label.padEnd(tokens * 4, '.');
+}
+
+describe('NoteChunker', () => {
+  it('keeps heading paths and counts frontmatter lines', () => {
+    const content = [
+      '---',
+      'tags: [a]',
+      '---',
+      'Intro text',
+      '# Project',
+      'Project text',
+      '## Goals',
+      'Goal text'
+    ].join('\n');
+
+    expect(NoteChunker.chunk(content).map(({ heading, startLine, endLine }) => ({ heading, startLine, endLine }))).toEqual([
+      { heading: null, startLine: 4, endLine: 4 },
+      { heading: 'Project', startLine: 5, endLine: 6 },
+      { heading: 'Project > Goals', startLine: 7, endLine: 8 }
+    ]);
+  });
+
+  it('skips sections that only have a heading', () => {
+    const chunks = NoteChunker.chunk('# Empty\n\n# Full\nText');
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['Full']);
+    expect(chunks[0].index).toBe(0);
+  });
+
+  it('keeps chunks under the token cap', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, i) => line(`Paragraph ${i}`, 6));
+    const chunks = NoteChunker.chunk(['# Long', ...paragraphs].join('\n\n'), 20, 6);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(NoteChunker.estimateTokens(chunk.text)).toBeLessThanOrEqual(20);
+    }
+    // Every paragraph ends up in some chunk
+    for (const paragraph of paragraphs) {
+      expect(chunks.some(chunk => chunk.text.includes(paragraph))).toBe(true);
+    }
+  });
+
+  it('overlaps consecutive chunks of a section within the overlap budget', () => {
+    const paragraphs = Array.from({ length: 8 }, (_, i) => line(`Paragraph ${i}`, 5));
+    const content = ['# Long', ...paragraphs].join('\n\n');
+    const lines = content.split('\n');
+    const chunks = NoteChunker.chunk(content, 20, 6);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1];
+      const next = chunks[i];
+      expect(next.startLine).toBeLessThanOrEqual(previous.endLine);
+      expect(next.startLine).toBeGreaterThan(previous.startLine);
+
+      const overlap = lines.slice(next.startLine - 1, previous.endLine).join('\n');
+      expect(NoteChunker.estimateTokens(overlap)).toBeLessThanOrEqual(6);
+    }
+  });
+
+  it('does not overlap across sections', () => {
+    const content = ['# One', line('First', 15), '# Two', line('Second', 15)].join('\n');
+    const chunks = NoteChunker.chunk(content, 20, 10);
+
+    expect(chunks.map(chunk => [chunk.heading, chunk.startLine, chunk.endLine])).toEqual([
+      ['One', 1, 2],
+      ['Two', 3, 4]
+    ]);
+  });
+
+  it('splits an oversized paragraph by lines and keeps the heading with the first part', () => {
+    const paragraph = Array.from({ length: 6 }, (_, i) => line(`Line ${i}`, 8));
+    const chunks = NoteChunker.chunk(['# Big', ...paragraph].join('\n'), 20, 9);
+
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[0].text.startsWith('# Big')).toBe(true);
+    for (const chunk of chunks) {
+      expect(NoteChunker.estimateTokens(chunk.text)).toBeLessThanOrEqual(20);
+    }
+    // Parts after the first start with the last line of the previous part
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startLine).toBe(chunks[i - 1].endLine);
+    }
+    expect(chunks[chunks.length - 1].endLine).toBe(7);
+  });
+
+  it('keeps code fences whole, including blank lines and headings inside them', () => {
+    const content = ['# Code', '```', 'first()', '', '# not a heading', 'second()', '```', 'After'].join('\n');
+    const chunks = NoteChunker.chunk(content);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].heading).toBe('Code');
+    expect(chunks[0].endLine).toBe(8);
+  });
+});
@@ -0,0 +1,55 @@
+import { PatchApplier } from '../../src/agents/contentManager/utils/PatchApplier';
+
+describe('PatchApplier', () => {
+  describe('applyHunks', () => {
+    it('does not match a block inside a longer line', () => {
+      const content = 'let max = 1\nlet y = 2';
+      const outcome = PatchApplier.applyHunks(content, [{ search: 'x = 1', replace: 'x = 5' }]);
+      expect(outcome.appliedCount).toBe(0);
+      expect(outcome.failed).toHaveLength(1);
+      expect(outcome.content).toBe(content);
+    });
+
+    it('matches a whole line, skipping partial-line occurrences before it', () => {
+      const content = 'max = 1\nx = 1\nend';
+      const outcome = PatchApplier.applyHunks(content, [{ search: 'x = 1', replace: 'x = 5' }], 0);
+      expect(outcome.content).toBe('max = 1\nx = 5\nend');
+    });
+
+    it('picks the whole-line occurrence nearest the expected line', () => {
+      const content = 'a\nsame\nb\nc\nsame\nd';
+      const outcome = PatchApplier.applyHunks(content, [{ search: 'same', replace: 'changed', expectedLine: 5 }], 0);
+      expect(outcome.content).toBe('a\nsame\nb\nc\nchanged\nd');
+    });
+
+    it('applies a unified diff with a slightly wrong line hint', () => {
+      const diff = [
+        '--- a/note.md',
+        '+++ b/note.md',
+        '@@ -3,3 +3,3 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        ' three'
+      ].join('\n');
+      const [patch] = PatchApplier.parseUnifiedDiff(diff);
+      const outcome = PatchApplier.applyHunks('zero\none\ntwo\nthree\nfour', patch.hunks);
+      expect(patch.path).toBe('note.md');
+      expect(outcome.content).toBe('zero\none\nTWO\nthree\nfour');
+      expect(outcome.fuzzyCount).toBe(0);
+    });
+
+    it('falls back to fuzzy matching of whole lines', () => {
+      const content = 'intro\nThe quick brown fox jumps\nend';
+      const outcome = PatchApplier.applyHunks(content, [{ search: 'The quick brown fox jumped', replace: 'The slow fox' }]);
+      expect(outcome.content).toBe('intro\nThe slow fox\nend');
+      expect(outcome.fuzzyCount).toBe(1);
+    });
+  });
+
+  describe('parseUnifiedDiff', () => {
+    it('rejects text without hunks', () => {
+      expect(() => PatchApplier.parseUnifiedDiff('just text', 'note.md')).toThrow('No hunks found');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { App, HeadingCache, TFile } from 'obsidian';
+import { SectionResolver } from '../../src/agents/contentManager/utils/SectionResolver';
+
+const file = { path: 'note.md' } as TFile;
+
+/** App whose metadata cache returns the given headings (0-based lines, as Obsidian reports them) */
+function appWithHeadings(headings: Array<{ heading: string; level: number; line: number; endLine?: number }>): App {
+  const cache = {
+    headings: headings.map(h => ({
+      heading: h.heading,
+      level: h.level,
+      position: { start: { line: h.line, col: 0, offset: 0 }, end: { line: h.endLine ?? h.line, col: 0, offset: 0 } }
+    })) as HeadingCache[]
+  };
+  return { metadataCache: { getFileCache: () => cache } } as unknown as App;
+}
+
+describe('SectionResolver', () => {
+  const lines = [
+    '# Project',
+    'intro',
+    '## Tasks',
+    '- one',
+    '## Notes',
+    'text'
+  ];
+
+  it('uses the cache when it matches the content', () => {
+    const app = appWithHeadings([
+      { heading: 'Project', level: 1, line: 0 },
+      { heading: 'Tasks', level: 2, line: 2 },
+      { heading: 'Notes', level: 2, line: 4 }
+    ]);
+    expect(SectionResolver.resolveHeading(app, file, lines, 'Tasks')).toEqual({
+      kind: 'heading', startLine: 3, contentStartLine: 4, endLine: 4
+    });
+  });
+
+  it('ignores a stale cache whose lines still point at other headings', () => {
+    // Cache from before two lines were inserted at the top: the cached lines of
+    // "Tasks" and "Notes" now hold "Project"... and "Tasks" - both still headings
+    const edited = ['# Inserted', '', ...lines];
+    const app = appWithHeadings([
+      { heading: 'Project', level: 1, line: 0 },
+      { heading: 'Tasks', level: 2, line: 2 },
+      { heading: 'Notes', level: 2, line: 4 }
+    ]);
+    expect(SectionResolver.resolveHeading(app, file, edited, 'Tasks')).toEqual({
+      kind: 'heading', startLine: 5, contentStartLine: 6, endLine: 6
+    });
+  });
+
+  it('ignores a cache that misses a heading added since', () => {
+    const edited = [...lines, '## Extra', 'more'];
+    const app = appWithHeadings([
+      { heading: 'Project', level: 1, line: 0 },
+      { heading: 'Tasks', level: 2, line: 2 },
+      { heading: 'Notes', level: 2, line: 4 }
+    ]);
+    expect(SectionResolver.resolveHeading(app, file, edited, 'Notes').endLine).toBe(6);
+  });
+
+  it('ignores a cache whose heading level changed', () => {
+    const edited = ['# Project', 'intro', '### Tasks', '- one', '## Notes', 'text'];
+    const app = appWithHeadings([
+      { heading: 'Project', level: 1, line: 0 },
+      { heading: 'Tasks', level: 2, line: 2 },
+      { heading: 'Notes', level: 2, line: 4 }
+    ]);
+    expect(SectionResolver.getHeadings(app, file, edited).map(h => h.level)).toEqual([1, 3, 2]);
+  });
+
+  it('parses headings without a cache, skipping fenced code', () => {
+    const app = { metadataCache: { getFileCache: () => null } } as unknown as App;
+    const withFence = ['# A', '```', '# not a heading', '```', '## B'];
+    expect(SectionResolver.getHeadings(app, file, withFence)).toEqual([
+      { heading: 'A', level: 1, line: 1 },
+      { heading: 'B', level: 2, line: 5 }
+    ]);
+  });
+
+  it('resolves nested heading paths', () => {
+    const app = { metadataCache: { getFileCache: () => null } } as unknown as App;
+    const nested = ['# One', '## Tasks', 'a', '# Two', '## Tasks', 'b'];
+    expect(SectionResolver.resolveHeading(app, file, nested, 'Two > Tasks').startLine).toBe(5);
+  });
+
+  it('uses cached setext headings while their text and underline are in place', () => {
+    const setext = ['Project', '=======', 'intro', '## Tasks', '- one'];
+    const app = appWithHeadings([
+      { heading: 'Project', level: 1, line: 0, endLine: 1 },
+      { heading: 'Tasks', level: 2, line: 3 }
+    ]);
+    expect(SectionResolver.resolveHeading(app, file, setext, 'Project')).toEqual({
+      kind: 'heading', startLine: 1, contentStartLine: 3, endLine: 5
+    });
+
+    // Once the underline is gone the cache is stale and only the ATX heading is parsed
+    const edited = ['Project', 'intro', '## Tasks', '- one'];
+    expect(SectionResolver.getHeadings(app, file, edited)).toEqual([{ heading: 'Tasks', level: 2, line: 3 }]);
+  });
+
+  it('addresses headings containing ">" with an escaped separator', () => {
+    const app = { metadataCache: { getFileCache: () => null } } as unknown as App;
+    const arrows = ['# A > B', '## Tasks', 'a', '# C', 'c'];
+    expect(SectionResolver.resolveHeading(app, file, arrows, 'A \\> B > Tasks').startLine).toBe(2);
+    expect(SectionResolver.buildOutline(app, file, arrows).headings[0].children[0].path).toBe('A \\> B > Tasks');
+
+    const appended = SectionResolver.appendToSection(app, file, arrows.join('\n'), 'new', 'C > ## D \\> E');
+    expect(appended.content.split('\n').slice(-3)).toEqual(['## D > E', 'new', '']);
+  });
+});
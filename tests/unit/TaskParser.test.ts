@@ -0,0 +1,105 @@
+import { TaskParser } from '../../src/agents/taskManager/utils/TaskParser';
+
+describe('TaskParser', () => {
+  describe('parse', () => {
+    it('reads emoji dates, tags and text', () => {
+      const task = TaskParser.parse('- [ ] Send report #work 📅 2024-05-01 ⏳ 2024-04-28 ⏫ ^abc');
+      expect(task).toEqual({
+        status: 'open',
+        statusChar: ' ',
+        text: 'Send report #work',
+        tags: ['work'],
+        dates: { due: '2024-05-01', scheduled: '2024-04-28' }
+      });
+    });
+
+    it('reads Tasks plugin emoji aliases', () => {
+      expect(TaskParser.parse('- [ ] Pay rent 🗓️ 2024-06-01')?.dates).toEqual({ due: '2024-06-01' });
+      expect(TaskParser.parse('- [ ] Call ⌛ 2024-06-02')?.dates).toEqual({ scheduled: '2024-06-02' });
+    });
+
+    it('reads Dataview inline fields in brackets and parentheses', () => {
+      const task = TaskParser.parse('- [x] Ship it [due:: 2024-05-01] (completion:: 2024-05-02)');
+      expect(task?.status).toBe('done');
+      expect(task?.text).toBe('Ship it');
+      expect(task?.dates).toEqual({ due: '2024-05-01', done: '2024-05-02' });
+    });
+
+    it('ignores numeric tags and non-task lines', () => {
+      expect(TaskParser.parse('- [ ] Issue #123 #bug')?.tags).toEqual(['bug']);
+      expect(TaskParser.parse('- plain list item')).toBeNull();
+      expect(TaskParser.parse('> - [/] quoted task')?.status).toBe('inProgress');
+    });
+  });
+
+  describe('setDate', () => {
+    it('edits an emoji date in place', () => {
+      expect(TaskParser.setDate('- [ ] Task 📅 2024-05-01 #tag', 'due', '2024-05-10'))
+        .toBe('- [ ] Task 📅 2024-05-10 #tag');
+    });
+
+    it('edits a Dataview date in place, keeping its syntax', () => {
+      expect(TaskParser.setDate('- [ ] Task [due:: 2024-05-01] #tag', 'due', '2024-05-10'))
+        .toBe('- [ ] Task [due:: 2024-05-10] #tag');
+      expect(TaskParser.setDate('- [ ] Task (due:: 2024-05-01)', 'due', '2024-05-10'))
+        .toBe('- [ ] Task (due:: 2024-05-10)');
+    });
+
+    it('adds new dates in the syntax the line already uses', () => {
+      expect(TaskParser.setDate('- [ ] Task [due:: 2024-05-01]', 'scheduled', '2024-04-30'))
+        .toBe('- [ ] Task [due:: 2024-05-01] [scheduled:: 2024-04-30]');
+      expect(TaskParser.setDate('- [ ] Task', 'start', '2024-04-30')).toBe('- [ ] Task 🛫 2024-04-30');
+    });
+
+    it('adds dates before a block id', () => {
+      expect(TaskParser.setDate('- [ ] Task ^abc-1', 'due', '2024-05-01')).toBe('- [ ] Task 📅 2024-05-01 ^abc-1');
+    });
+
+    it('removes emoji and Dataview dates', () => {
+      expect(TaskParser.setDate('- [ ] Task 📅 2024-05-01 #tag', 'due', null)).toBe('- [ ] Task #tag');
+      expect(TaskParser.setDate('- [ ] Task [due:: 2024-05-01] #tag', 'due', null)).toBe('- [ ] Task #tag');
+    });
+
+    it('leaves other dates of the same value alone', () => {
+      expect(TaskParser.setDate('- [ ] Task ⏳ 2024-05-01 📅 2024-05-01', 'due', '2024-05-03'))
+        .toBe('- [ ] Task ⏳ 2024-05-01 📅 2024-05-03');
+    });
+  });
+
+  describe('setStatus', () => {
+    it('stamps the done date on tasks that carry dates', () => {
+      expect(TaskParser.setStatus('- [ ] Task 📅 2024-05-01', 'done', '2024-05-02'))
+        .toBe('- [x] Task 📅 2024-05-01 ✅ 2024-05-02');
+      expect(TaskParser.setStatus('- [ ] Task [due:: 2024-05-01]', 'done', '2024-05-02'))
+        .toBe('- [x] Task [due:: 2024-05-01] [completion:: 2024-05-02]');
+    });
+
+    it('does not stamp tasks without dates', () => {
+      expect(TaskParser.setStatus('- [ ] Task', 'done', '2024-05-02')).toBe('- [x] Task');
+    });
+
+    it('removes the done date when reopening', () => {
+      expect(TaskParser.setStatus('- [x] Task 📅 2024-05-01 ✅ 2024-05-02', 'open', '2024-05-03'))
+        .toBe('- [ ] Task 📅 2024-05-01');
+    });
+  });
+
+  describe('date filters', () => {
+    it('resolves explicit ranges with open ends', () => {
+      expect(TaskParser.resolveDateRange('2024-05-01..2024-05-31')).toEqual({ from: '2024-05-01', to: '2024-05-31' });
+      expect(TaskParser.resolveDateRange('..2024-05-31')).toEqual({ to: '2024-05-31' });
+    });
+
+    it('rejects invalid dates', () => {
+      expect(() => TaskParser.resolveDate('2024-02-30')).toThrow('Invalid date');
+      expect(() => TaskParser.resolveDateRange('soon')).toThrow('Invalid date');
+    });
+
+    it('matches dates against inclusive bounds', () => {
+      const range = { from: '2024-05-01', to: '2024-05-31' };
+      expect(TaskParser.matchesDateRange('2024-05-31', range)).toBe(true);
+      expect(TaskParser.matchesDateRange('2024-06-01', range)).toBe(false);
+      expect(TaskParser.matchesDateRange(undefined, { none: true })).toBe(true);
+    });
+  });
+});